@@ -0,0 +1,11 @@
+export default function AuthLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-8">
+      <div className="w-full max-w-md">{children}</div>
+    </div>
+  );
+}
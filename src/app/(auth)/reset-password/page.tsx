@@ -0,0 +1,39 @@
+import Link from "next/link";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ResetPasswordForm } from "@/components/reset-password-form";
+
+// better-auth redirects here from the emailed link with ?token=..., or with
+// ?error=INVALID_TOKEN when the link is unknown or expired.
+export default async function ResetPasswordPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string; error?: string }>;
+}) {
+  const { token, error } = await searchParams;
+
+  if (!token || error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Reset link expired</CardTitle>
+          <CardDescription>
+            This password reset link is invalid or has already been used.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="text-sm">
+          <Link href="/forgot-password" className="underline">
+            Request a new link
+          </Link>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return <ResetPasswordForm token={token} />;
+}
@@ -0,0 +1,37 @@
+import { SignInForm } from "@/components/sign-in-form";
+import { enabledOAuthProviders } from "@/lib/oauth";
+import { safeRedirectPath } from "@/lib/redirects";
+
+const NOTICES: Record<string, string> = {
+  "password-reset": "Your password was changed. Sign in with the new one.",
+};
+
+// better-auth's ?error= codes from failed OAuth sign-ins.
+const OAUTH_ERRORS: Record<string, string> = {
+  account_not_linked:
+    "An account with this email already exists, and the provider did not confirm the address. Sign in with your password and link the provider from your settings.",
+  banned: "This account has been banned.",
+  signup_disabled: "No account exists for this email.",
+};
+
+export default async function SignInPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string; notice?: string; error?: string }>;
+}) {
+  const { next, notice, error } = await searchParams;
+
+  return (
+    <SignInForm
+      redirectTo={safeRedirectPath(next)}
+      notice={
+        error
+          ? (OAUTH_ERRORS[error] ?? "Signing in with that provider failed.")
+          : notice
+            ? NOTICES[notice]
+            : undefined
+      }
+      providers={enabledOAuthProviders()}
+    />
+  );
+}
@@ -0,0 +1,66 @@
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ResendVerificationForm } from "@/components/resend-verification-form";
+
+const ERRORS: Record<string, string> = {
+  token_expired: "This verification link has expired.",
+  invalid_token: "This verification link is invalid.",
+  user_not_found: "The account for this link no longer exists.",
+};
+
+// Reached after signing up (?email=...), and from the emailed link, which
+// better-auth redirects here with ?verified=true or ?error=<code>.
+export default async function VerifyEmailPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ email?: string; verified?: string; error?: string }>;
+}) {
+  const { email, verified, error } = await searchParams;
+
+  if (verified && !error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Email verified</CardTitle>
+          <CardDescription>Your account is ready to use.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild className="w-full">
+            <Link href="/dashboard">Continue to the dashboard</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          {error ? "Verification failed" : "Check your inbox"}
+        </CardTitle>
+        <CardDescription>
+          {error
+            ? `${ERRORS[error] ?? "The email could not be verified."} Request a new link below.`
+            : `We sent a verification link${email ? ` to ${email}` : ""}. Open it to activate your account.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ResendVerificationForm email={email} />
+        <p className="text-center text-sm text-muted-foreground">
+          Already verified?{" "}
+          <Link href="/signin" className="underline">
+            Sign in
+          </Link>
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
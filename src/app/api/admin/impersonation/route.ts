@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { headers } from 'next/headers';
+import { apiError, handleApiError, parseBody } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { auth } from '@/lib/auth';
+import { isAdmin } from '@/lib/permissions';
+import { impersonateSchema } from '@/lib/schemas/users';
+import { findUser } from '@/lib/users';
+import { getSession, requireAdmin, requireUser } from '@/lib/session';
+
+/** Copies the session cookies better-auth set onto our response. */
+function withCookies(response: NextResponse, source: Headers) {
+  for (const cookie of source.getSetCookie()) {
+    response.headers.append('set-cookie', cookie);
+  }
+  return response;
+}
+
+// POST /api/admin/impersonation - Sign in as another user for support
+// Body: { userId }. The admin's own session is kept aside and restored by
+// DELETE; the impersonated session expires after an hour. Everything done
+// meanwhile is audited under the admin's name.
+export async function POST(request: Request) {
+  try {
+    const admin = await requireAdmin();
+    const { userId } = await parseBody(request, impersonateSchema);
+
+    if (userId === admin.id) {
+      return apiError(400, 'You cannot impersonate yourself');
+    }
+    const target = await findUser(userId);
+    if (isAdmin(target)) {
+      return apiError(403, 'Other admins cannot be impersonated');
+    }
+    if (target.banned) {
+      return apiError(409, 'Banned users cannot be impersonated');
+    }
+
+    const { headers: authHeaders, response } = await auth.api.impersonateUser({
+      body: { userId },
+      headers: await headers(),
+      returnHeaders: true,
+    });
+
+    await recordAudit({
+      action: 'user.impersonate',
+      target: { type: 'user', id: userId },
+      after: { sessionId: response.session.id },
+    });
+
+    return withCookies(
+      NextResponse.json({
+        user: { id: target.id, name: target.name, email: target.email },
+        expiresAt: response.session.expiresAt,
+      }),
+      authHeaders
+    );
+  } catch (error) {
+    return handleApiError(error, 'Failed to impersonate user');
+  }
+}
+
+// DELETE /api/admin/impersonation - Stop impersonating and return to the
+// admin's own session
+export async function DELETE() {
+  try {
+    const impersonated = await requireUser();
+    const current = await getSession();
+    if (!current?.session.impersonatedBy) {
+      return apiError(400, 'You are not impersonating anyone');
+    }
+
+    // Recorded first, while the session still says who is behind it.
+    await recordAudit({
+      action: 'user.impersonate_stop',
+      target: { type: 'user', id: impersonated.id },
+      before: { sessionId: current.session.id },
+      after: null,
+    });
+
+    const { headers: authHeaders } = await auth.api.stopImpersonating({
+      headers: await headers(),
+      returnHeaders: true,
+    });
+
+    return withCookies(new NextResponse(null, { status: 204 }), authHeaders);
+  } catch (error) {
+    return handleApiError(error, 'Failed to stop impersonating');
+  }
+}
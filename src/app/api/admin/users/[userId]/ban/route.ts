@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { session, user } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { apiError, handleApiError, parseBody, parseParams } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { banUserSchema, userParams } from '@/lib/schemas/users';
+import { findUser, userColumns } from '@/lib/users';
+import { requireAdmin } from '@/lib/session';
+
+type RouteContext = { params: Promise<{ userId: string }> };
+
+// POST /api/admin/users/[userId]/ban - Ban a user and revoke their sessions
+// Body: { reason?, expiresAt? }. Without expiresAt the ban lasts until lifted;
+// better-auth refuses new sessions for banned users.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { userId } = parseParams(await params, userParams);
+    const admin = await requireAdmin();
+
+    const { reason, expiresAt } = await parseBody(request, banUserSchema, {
+      optional: true,
+    });
+    if (userId === admin.id) {
+      return apiError(400, 'You cannot ban yourself');
+    }
+
+    const before = await findUser(userId);
+
+    const updated = await db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(user)
+        .set({
+          banned: true,
+          banReason: reason || null,
+          banExpires: expiresAt ?? null,
+          updatedAt: new Date(),
+        })
+        .where(eq(user.id, userId))
+        .returning(userColumns);
+      await tx.delete(session).where(eq(session.userId, userId));
+      return row;
+    });
+
+    await recordAudit({
+      action: 'user.ban',
+      target: { type: 'user', id: userId },
+      before,
+      after: updated,
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    return handleApiError(error, 'Failed to ban user');
+  }
+}
+
+// DELETE /api/admin/users/[userId]/ban - Lift a ban
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { userId } = parseParams(await params, userParams);
+    await requireAdmin();
+
+    const before = await findUser(userId);
+    if (!before.banned) {
+      return apiError(409, 'User is not banned');
+    }
+
+    const [updated] = await db
+      .update(user)
+      .set({
+        banned: false,
+        banReason: null,
+        banExpires: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(user.id, userId))
+      .returning(userColumns);
+
+    await recordAudit({
+      action: 'user.unban',
+      target: { type: 'user', id: userId },
+      before,
+      after: updated,
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    return handleApiError(error, 'Failed to unban user');
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { account, session } from '@/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { apiError, handleApiError, parseParams } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { auth } from '@/lib/auth';
+import { userParams } from '@/lib/schemas/users';
+import { findUser } from '@/lib/users';
+import { requireAdmin } from '@/lib/session';
+
+type RouteContext = { params: Promise<{ userId: string }> };
+
+// POST /api/admin/users/[userId]/password-reset - Force a password reset
+// Clears the user's password, signs them out everywhere and emails them a
+// reset link; they cannot sign in with a password until they follow it.
+export async function POST(_request: Request, { params }: RouteContext) {
+  try {
+    const { userId } = parseParams(await params, userParams);
+    await requireAdmin();
+
+    const target = await findUser(userId);
+
+    const revoked = await db.transaction(async (tx) => {
+      const [credential] = await tx
+        .update(account)
+        .set({ password: null, updatedAt: new Date() })
+        .where(
+          and(eq(account.userId, userId), eq(account.providerId, 'credential'))
+        )
+        .returning({ id: account.id });
+      if (!credential) return null;
+
+      return tx
+        .delete(session)
+        .where(eq(session.userId, userId))
+        .returning({ id: session.id });
+    });
+
+    if (!revoked) {
+      return apiError(409, 'This user does not sign in with a password');
+    }
+
+    await auth.api.requestPasswordReset({
+      body: { email: target.email, redirectTo: '/reset-password' },
+    });
+
+    await recordAudit({
+      action: 'user.password_reset',
+      target: { type: 'user', id: userId },
+      before: { sessions: revoked.length },
+      after: { sessions: 0 },
+    });
+
+    return NextResponse.json({ email: target.email, revoked: revoked.length });
+  } catch (error) {
+    return handleApiError(error, 'Failed to reset password');
+  }
+}
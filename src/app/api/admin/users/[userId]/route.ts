@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { user } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { apiError, handleApiError, parseBody, parseParams } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { updateUserSchema, userParams } from '@/lib/schemas/users';
+import { findUser, getUserDetail, userColumns } from '@/lib/users';
+import { requireAdmin } from '@/lib/session';
+
+type RouteContext = { params: Promise<{ userId: string }> };
+
+// GET /api/admin/users/[userId] - A user with their sign-in providers and
+// active sessions (admins only)
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { userId } = parseParams(await params, userParams);
+    await requireAdmin();
+
+    return NextResponse.json(await getUserDetail(userId));
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch user');
+  }
+}
+
+// PATCH /api/admin/users/[userId] - Change a user's site-wide role
+// Admins cannot demote themselves, so the console always keeps one admin.
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { userId } = parseParams(await params, userParams);
+    const admin = await requireAdmin();
+
+    const { role } = await parseBody(request, updateUserSchema);
+    if (userId === admin.id && role !== 'admin') {
+      return apiError(400, 'You cannot remove your own admin role');
+    }
+
+    const before = await findUser(userId);
+
+    const [updated] = await db
+      .update(user)
+      .set({ role, updatedAt: new Date() })
+      .where(eq(user.id, userId))
+      .returning(userColumns);
+
+    await recordAudit({
+      action: 'user.role',
+      target: { type: 'user', id: userId },
+      before,
+      after: updated,
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    return handleApiError(error, 'Failed to update user');
+  }
+}
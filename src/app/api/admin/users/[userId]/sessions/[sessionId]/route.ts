@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { session } from '@/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { apiError, handleApiError, parseParams } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { userSessionParams } from '@/lib/schemas/users';
+import { requireAdmin } from '@/lib/session';
+
+type RouteContext = {
+  params: Promise<{ userId: string; sessionId: string }>;
+};
+
+// DELETE /api/admin/users/[userId]/sessions/[sessionId] - Revoke one session
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { userId, sessionId } = parseParams(await params, userSessionParams);
+    await requireAdmin();
+
+    const [revoked] = await db
+      .delete(session)
+      .where(and(eq(session.id, sessionId), eq(session.userId, userId)))
+      .returning({
+        id: session.id,
+        ipAddress: session.ipAddress,
+        userAgent: session.userAgent,
+        impersonatedBy: session.impersonatedBy,
+        createdAt: session.createdAt,
+        expiresAt: session.expiresAt,
+      });
+
+    if (!revoked) {
+      return apiError(404, 'Session not found');
+    }
+
+    await recordAudit({
+      action: 'user.session_revoke',
+      target: { type: 'user', id: userId },
+      before: revoked,
+      after: null,
+    });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to revoke session');
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { session } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { handleApiError, parseParams } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { userParams } from '@/lib/schemas/users';
+import { findUser } from '@/lib/users';
+import { requireAdmin } from '@/lib/session';
+
+type RouteContext = { params: Promise<{ userId: string }> };
+
+// DELETE /api/admin/users/[userId]/sessions - Sign a user out everywhere
+// Revoking your own sessions signs you out too.
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { userId } = parseParams(await params, userParams);
+    await requireAdmin();
+
+    // 404 for unknown users rather than an empty success.
+    await findUser(userId);
+
+    const revoked = await db
+      .delete(session)
+      .where(eq(session.userId, userId))
+      .returning({ id: session.id });
+
+    await recordAudit({
+      action: 'user.sessions_revoke',
+      target: { type: 'user', id: userId },
+      before: { sessions: revoked.length },
+      after: { sessions: 0 },
+    });
+
+    return NextResponse.json({ revoked: revoked.length });
+  } catch (error) {
+    return handleApiError(error, 'Failed to revoke sessions');
+  }
+}
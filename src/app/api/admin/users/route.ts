@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { handleApiError, parseQuery } from '@/lib/api';
+import { listUsersQuery } from '@/lib/schemas/users';
+import { listUsers } from '@/lib/users';
+import { requireAdmin } from '@/lib/session';
+
+// GET /api/admin/users - List every user (admins only)
+// Paginated like GET /api/projects. Filters: q (name or email contains),
+// role, banned, emailVerified, createdAfter/createdBefore;
+// ?sort=name|email|createdAt.
+export async function GET(request: Request) {
+  try {
+    await requireAdmin();
+    const query = parseQuery(request, listUsersQuery);
+
+    return NextResponse.json(await listUsers(query));
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch users');
+  }
+}
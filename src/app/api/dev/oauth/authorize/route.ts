@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { apiError } from '@/lib/api';
+import {
+  MOCK_CLIENT_ID,
+  MOCK_PROVIDER_ID,
+  encodeMockToken,
+  isMockOAuthEnabled,
+  mockProfile,
+} from '@/lib/mock-oauth';
+import { appBaseUrl } from '@/lib/oauth';
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// GET /api/dev/oauth/authorize - Mock provider's consent screen
+// Without ?email= it renders a form asking who to sign in as; with it, it
+// redirects back to the app with a code, as a real provider would.
+export async function GET(request: Request) {
+  if (!isMockOAuthEnabled()) {
+    return apiError(404, 'Not found');
+  }
+
+  const params = new URL(request.url).searchParams;
+  const redirectUri = params.get('redirect_uri') ?? '';
+  const state = params.get('state') ?? '';
+
+  const callback = `${appBaseUrl()}/api/auth/oauth2/callback/${MOCK_PROVIDER_ID}`;
+  if (params.get('client_id') !== MOCK_CLIENT_ID || redirectUri !== callback) {
+    return apiError(400, 'Unknown client_id or redirect_uri');
+  }
+
+  const email = params.get('email')?.trim();
+  if (email) {
+    const profile = mockProfile(
+      email,
+      params.get('name')?.trim() ?? '',
+      params.get('email_verified') === 'on'
+    );
+    const target = new URL(redirectUri);
+    target.searchParams.set('code', encodeMockToken('code', profile));
+    target.searchParams.set('state', state);
+    return NextResponse.redirect(target);
+  }
+
+  const hidden = [
+    'client_id',
+    'redirect_uri',
+    'state',
+    'scope',
+    'response_type',
+  ]
+    .map(
+      (name) =>
+        `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name) ?? '')}">`
+    )
+    .join('');
+  const html = `<!doctype html>
+<html><head><title>Mock OAuth provider</title></head>
+<body style="font-family: system-ui; max-width: 24rem; margin: 4rem auto">
+  <h1>Mock OAuth provider</h1>
+  <p>Development only. Sign in as anyone:</p>
+  <form method="get">
+    ${hidden}
+    <p><label>Email<br><input name="email" type="email" required autofocus></label></p>
+    <p><label>Name<br><input name="name"></label></p>
+    <p><label><input name="email_verified" type="checkbox" checked> Email verified</label></p>
+    <button type="submit">Continue</button>
+  </form>
+</body></html>`;
+
+  return new NextResponse(html, {
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  });
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { apiError } from '@/lib/api';
+import {
+  MOCK_CLIENT_ID,
+  MOCK_CLIENT_SECRET,
+  decodeMockToken,
+  encodeMockToken,
+  isMockOAuthEnabled,
+} from '@/lib/mock-oauth';
+
+// POST /api/dev/oauth/token - Mock provider's token endpoint
+// Exchanges an authorization code (form-encoded, client secret in the body)
+// for an access token.
+export async function POST(request: Request) {
+  if (!isMockOAuthEnabled()) {
+    return apiError(404, 'Not found');
+  }
+
+  const form = new URLSearchParams(await request.text());
+  if (
+    form.get('client_id') !== MOCK_CLIENT_ID ||
+    form.get('client_secret') !== MOCK_CLIENT_SECRET
+  ) {
+    return NextResponse.json({ error: 'invalid_client' }, { status: 401 });
+  }
+
+  const profile =
+    form.get('grant_type') === 'authorization_code'
+      ? decodeMockToken('code', form.get('code') ?? '')
+      : null;
+  if (!profile) {
+    return NextResponse.json({ error: 'invalid_grant' }, { status: 400 });
+  }
+
+  return NextResponse.json({
+    access_token: encodeMockToken('token', profile),
+    token_type: 'Bearer',
+    expires_in: 3600,
+    scope: 'openid email profile',
+  });
+}
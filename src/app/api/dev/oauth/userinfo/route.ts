@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { apiError } from '@/lib/api';
+import { decodeMockToken, isMockOAuthEnabled } from '@/lib/mock-oauth';
+
+// GET /api/dev/oauth/userinfo - Mock provider's profile for an access token
+export async function GET(request: Request) {
+  if (!isMockOAuthEnabled()) {
+    return apiError(404, 'Not found');
+  }
+
+  const token = request.headers
+    .get('authorization')
+    ?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  const profile = token ? decodeMockToken('token', token) : null;
+  if (!profile) {
+    return NextResponse.json({ error: 'invalid_token' }, { status: 401 });
+  }
+
+  return NextResponse.json(profile);
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { acceptInvitation } from '@/lib/organizations';
+import { requireUser } from '@/lib/session';
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+// POST /api/invitations/[token] - Accept an organization invitation
+export async function POST(_request: Request, { params }: RouteContext) {
+  try {
+    const currentUser = await requireUser();
+    const { token } = await params;
+
+    const membership = await acceptInvitation(token, currentUser);
+
+    await recordAudit({
+      action: 'invitation.accept',
+      target: { type: 'user', id: currentUser.id },
+      organizationId: membership.organizationId,
+      after: membership,
+    });
+
+    return NextResponse.json(membership);
+  } catch (error) {
+    return handleApiError(error, 'Failed to accept invitation');
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { cancelJob, findJob } from '@/lib/jobs/queue';
+import { apiError, handleApiError } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { requireProject } from '@/lib/session';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/jobs/[id]/cancel - Cancel a job
+// Queued jobs are cancelled immediately; running jobs stop at their next
+// progress checkpoint, so the response may still show them as running.
+export async function POST(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+
+    const job = await findJob(id);
+    if (!job) {
+      return apiError(404, 'Job not found');
+    }
+
+    const { project } = await requireProject(job.projectId, {
+      permission: 'write',
+      includeDeleted: true,
+    });
+
+    const cancelled = await cancelJob(job.id);
+    if (!cancelled) {
+      return apiError(409, `Job already ${job.status}`);
+    }
+
+    await recordAudit({
+      action: 'job.cancel',
+      target: { type: 'job', id: job.id },
+      project,
+      before: { status: job.status, cancelRequestedAt: job.cancelRequestedAt },
+      after: {
+        status: cancelled.status,
+        cancelRequestedAt: cancelled.cancelRequestedAt,
+      },
+    });
+
+    return NextResponse.json(cancelled);
+  } catch (error) {
+    return handleApiError(error, 'Failed to cancel job');
+  }
+}
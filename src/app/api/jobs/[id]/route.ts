@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { findJob } from '@/lib/jobs/queue';
+import { apiError, handleApiError } from '@/lib/api';
+import { requireProject } from '@/lib/session';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/jobs/[id] - Get a job's status, progress and result
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+
+    const job = await findJob(id);
+    if (!job) {
+      return apiError(404, 'Job not found');
+    }
+
+    await requireProject(job.projectId, { includeDeleted: true });
+
+    return NextResponse.json(job);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch job');
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { jobs, projects } from '@/db/schema';
+import { and, desc, eq, getTableColumns } from 'drizzle-orm';
+import { handleApiError, parseQuery } from '@/lib/api';
+import { listJobsQuery } from '@/lib/schemas/jobs';
+import { accessibleBy, requireUser } from '@/lib/session';
+
+const MAX_JOBS = 100;
+
+// GET /api/jobs - List recent jobs across the caller's projects, newest first
+// ?projectId=<id> and ?status=queued|running|succeeded|failed|cancelled
+// narrow the list.
+export async function GET(request: Request) {
+  try {
+    const currentUser = await requireUser();
+    const { projectId, status } = parseQuery(request, listJobsQuery);
+
+    const recentJobs = await db
+      .select({ ...getTableColumns(jobs), projectName: projects.name })
+      .from(jobs)
+      .innerJoin(projects, eq(jobs.projectId, projects.id))
+      .where(
+        and(
+          accessibleBy(currentUser.id),
+          projectId ? eq(jobs.projectId, projectId) : undefined,
+          status ? eq(jobs.status, status) : undefined
+        )
+      )
+      .orderBy(desc(jobs.createdAt))
+      .limit(MAX_JOBS);
+
+    return NextResponse.json(recentJobs);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch jobs');
+  }
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/openapi/document';
+
+// GET /api/openapi.json - OpenAPI 3.1 description of this API (public)
+export async function GET() {
+  return NextResponse.json(buildOpenApiDocument());
+}
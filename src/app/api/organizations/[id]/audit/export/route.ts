@@ -0,0 +1,32 @@
+import { handleApiError, parseParams, parseQuery } from '@/lib/api';
+import { auditScope, exportAuditLogs } from '@/lib/audit/list';
+import { exportAuditQuery } from '@/lib/schemas/audit';
+import { organizationParams } from '@/lib/schemas/common';
+import { requireOrganization } from '@/lib/session';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/organizations/[id]/audit/export - Download the organization's
+// audit log. ?format=csv (default) or jsonl; takes the same filters as the
+// list.
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = parseParams(await params, organizationParams);
+    const query = parseQuery(request, exportAuditQuery);
+
+    const { organization } = await requireOrganization(id, 'admin');
+
+    return new Response(
+      exportAuditLogs(auditScope({ organizationId: id }), query),
+      {
+        headers: {
+          'Content-Type':
+            query.format === 'csv' ? 'text/csv' : 'application/x-ndjson',
+          'Content-Disposition': `attachment; filename="${organization.slug}-audit.${query.format}"`,
+        },
+      }
+    );
+  } catch (error) {
+    return handleApiError(error, 'Failed to export audit log');
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { handleApiError, parseParams, parseQuery } from '@/lib/api';
+import { auditScope, listAuditLogs } from '@/lib/audit/list';
+import { listAuditQuery } from '@/lib/schemas/audit';
+import { organizationParams } from '@/lib/schemas/common';
+import { requireOrganization } from '@/lib/session';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/organizations/[id]/audit - Page through the organization's audit
+// log, including its projects. Takes the project filters plus ?projectId=.
+// Requires the admin role.
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = parseParams(await params, organizationParams);
+    const query = parseQuery(request, listAuditQuery);
+
+    await requireOrganization(id, 'admin');
+
+    const page = await listAuditLogs(auditScope({ organizationId: id }), query);
+
+    return NextResponse.json(page);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch audit log');
+  }
+}
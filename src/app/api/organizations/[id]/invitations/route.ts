@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { organizationInvitations } from '@/db/schema';
+import { and, desc, eq, gt, isNull } from 'drizzle-orm';
+import { apiError, handleApiError, parseBody, parseParams } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { organizationParams } from '@/lib/schemas/common';
+import { createInvitationSchema } from '@/lib/schemas/organizations';
+import { requireOrganization } from '@/lib/session';
+import { createInvitation } from '@/lib/organizations';
+import { appBaseUrl } from '@/lib/oauth';
+import { hasRole } from '@/lib/permissions';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/organizations/[id]/invitations - List pending invitations (admin or owner)
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = parseParams(await params, organizationParams);
+
+    await requireOrganization(id, 'admin');
+
+    const invitations = await db
+      .select({
+        id: organizationInvitations.id,
+        email: organizationInvitations.email,
+        role: organizationInvitations.role,
+        expiresAt: organizationInvitations.expiresAt,
+        createdAt: organizationInvitations.createdAt,
+      })
+      .from(organizationInvitations)
+      .where(
+        and(
+          eq(organizationInvitations.organizationId, id),
+          isNull(organizationInvitations.acceptedAt),
+          gt(organizationInvitations.expiresAt, new Date())
+        )
+      )
+      .orderBy(desc(organizationInvitations.createdAt));
+
+    return NextResponse.json(invitations);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch invitations');
+  }
+}
+
+// POST /api/organizations/[id]/invitations - Invite someone by email (admin or owner)
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = parseParams(await params, organizationParams);
+
+    const {
+      user: currentUser,
+      organization,
+      role: callerRole,
+    } = await requireOrganization(id, 'admin');
+
+    const { email, role } = await parseBody(request, createInvitationSchema);
+
+    if (role === 'owner' && !hasRole(callerRole, 'owner')) {
+      return apiError(403, 'Only owners can invite other owners');
+    }
+
+    const invitation = await createInvitation({
+      organizationId: id,
+      organizationName: organization.name,
+      email,
+      role,
+      invitedBy: currentUser.id,
+      // Not the request's Host header, which the client controls.
+      baseUrl: appBaseUrl(),
+    });
+
+    await recordAudit({
+      action: 'invitation.create',
+      target: { type: 'invitation', id: invitation.id },
+      organizationId: id,
+      after: invitation,
+    });
+
+    return NextResponse.json(invitation, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to create invitation');
+  }
+}
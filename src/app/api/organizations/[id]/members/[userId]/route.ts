@@ -0,0 +1,128 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { organizationMembers } from '@/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { apiError, handleApiError, parseBody, parseParams } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { memberParams, updateMemberSchema } from '@/lib/schemas/organizations';
+import { requireOrganization } from '@/lib/session';
+import { countOwners } from '@/lib/organizations';
+import { hasRole } from '@/lib/permissions';
+
+type RouteContext = { params: Promise<{ id: string; userId: string }> };
+
+async function findMember(organizationId: number, userId: string) {
+  const [member] = await db
+    .select()
+    .from(organizationMembers)
+    .where(
+      and(
+        eq(organizationMembers.organizationId, organizationId),
+        eq(organizationMembers.userId, userId)
+      )
+    )
+    .limit(1);
+  return member;
+}
+
+// PATCH /api/organizations/[id]/members/[userId] - Change a member's role
+// Admins manage admins, editors and viewers; only owners grant or revoke owner.
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id, userId } = parseParams(await params, memberParams);
+
+    const { role: callerRole } = await requireOrganization(id, 'admin');
+
+    const { role } = await parseBody(request, updateMemberSchema);
+
+    const member = await findMember(id, userId);
+    if (!member) {
+      return apiError(404, 'Member not found');
+    }
+
+    if (
+      (role === 'owner' || member.role === 'owner') &&
+      !hasRole(callerRole, 'owner')
+    ) {
+      return apiError(403, 'Only owners can grant or revoke the owner role');
+    }
+
+    if (
+      member.role === 'owner' &&
+      role !== 'owner' &&
+      (await countOwners(id)) === 1
+    ) {
+      return apiError(409, 'An organization must keep at least one owner');
+    }
+
+    const updatedMember = await db
+      .update(organizationMembers)
+      .set({ role })
+      .where(
+        and(
+          eq(organizationMembers.organizationId, id),
+          eq(organizationMembers.userId, userId)
+        )
+      )
+      .returning();
+
+    await recordAudit({
+      action: 'member.update',
+      target: { type: 'user', id: userId },
+      organizationId: id,
+      before: member,
+      after: updatedMember[0],
+    });
+
+    return NextResponse.json(updatedMember[0]);
+  } catch (error) {
+    return handleApiError(error, 'Failed to update member');
+  }
+}
+
+// DELETE /api/organizations/[id]/members/[userId] - Remove a member, or leave
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id, userId } = parseParams(await params, memberParams);
+
+    const { user: currentUser, role: callerRole } =
+      await requireOrganization(id);
+
+    const member = await findMember(id, userId);
+    if (!member) {
+      return apiError(404, 'Member not found');
+    }
+
+    const isSelf = member.userId === currentUser.id;
+    const canRemove = isSelf
+      ? true
+      : hasRole(callerRole, member.role === 'owner' ? 'owner' : 'admin');
+    if (!canRemove) {
+      return apiError(403, 'You cannot remove this member');
+    }
+
+    if (member.role === 'owner' && (await countOwners(id)) === 1) {
+      return apiError(409, 'An organization must keep at least one owner');
+    }
+
+    await db
+      .delete(organizationMembers)
+      .where(
+        and(
+          eq(organizationMembers.organizationId, id),
+          eq(organizationMembers.userId, userId)
+        )
+      );
+
+    await recordAudit({
+      action: 'member.remove',
+      target: { type: 'user', id: userId },
+      organizationId: id,
+      before: member,
+    });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to remove member');
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { organizationMembers, user } from '@/db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { handleApiError, parseParams } from '@/lib/api';
+import { organizationParams } from '@/lib/schemas/common';
+import { requireOrganization } from '@/lib/session';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/organizations/[id]/members - List members and their roles
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = parseParams(await params, organizationParams);
+
+    await requireOrganization(id);
+
+    const members = await db
+      .select({
+        userId: organizationMembers.userId,
+        role: organizationMembers.role,
+        joinedAt: organizationMembers.createdAt,
+        name: user.name,
+        email: user.email,
+      })
+      .from(organizationMembers)
+      .innerJoin(user, eq(user.id, organizationMembers.userId))
+      .where(eq(organizationMembers.organizationId, id))
+      .orderBy(asc(user.name));
+
+    return NextResponse.json(members);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch members');
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { organizations } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { handleApiError, parseBody, parseParams } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { organizationParams } from '@/lib/schemas/common';
+import { organizationSchema } from '@/lib/schemas/organizations';
+import { requireOrganization } from '@/lib/session';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/organizations/[id] - Get an organization and the caller's role in it
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = parseParams(await params, organizationParams);
+
+    const { organization, role } = await requireOrganization(id);
+    return NextResponse.json({ ...organization, role });
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch organization');
+  }
+}
+
+// PATCH /api/organizations/[id] - Rename an organization (admin or owner)
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = parseParams(await params, organizationParams);
+
+    const { organization } = await requireOrganization(id, 'admin');
+
+    const { name } = await parseBody(request, organizationSchema);
+
+    const updatedOrganization = await db
+      .update(organizations)
+      .set({ name })
+      .where(eq(organizations.id, id))
+      .returning();
+
+    await recordAudit({
+      action: 'organization.update',
+      target: { type: 'organization', id },
+      organizationId: id,
+      before: organization,
+      after: updatedOrganization[0],
+    });
+
+    return NextResponse.json(updatedOrganization[0]);
+  } catch (error) {
+    return handleApiError(error, 'Failed to update organization');
+  }
+}
+
+// DELETE /api/organizations/[id] - Delete an organization and its projects (owner only)
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = parseParams(await params, organizationParams);
+
+    const { organization } = await requireOrganization(id, 'owner');
+
+    await db.delete(organizations).where(eq(organizations.id, id));
+
+    await recordAudit({
+      action: 'organization.delete',
+      target: { type: 'organization', id },
+      organizationId: id,
+      before: organization,
+    });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to delete organization');
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { handleApiError, parseBody } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { requireUser } from '@/lib/session';
+import { createOrganization, listOrganizations } from '@/lib/organizations';
+import { organizationSchema } from '@/lib/schemas/organizations';
+
+// GET /api/organizations - Get the organizations the caller belongs to
+export async function GET() {
+  try {
+    const currentUser = await requireUser();
+    const memberships = await listOrganizations(currentUser.id);
+    return NextResponse.json(memberships);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch organizations');
+  }
+}
+
+// POST /api/organizations - Create an organization owned by the caller
+export async function POST(request: Request) {
+  try {
+    const currentUser = await requireUser();
+
+    const { name } = await parseBody(request, organizationSchema);
+
+    const organization = await createOrganization(currentUser.id, name);
+
+    await recordAudit({
+      action: 'organization.create',
+      target: { type: 'organization', id: organization.id },
+      organizationId: organization.id,
+      after: organization,
+    });
+
+    return NextResponse.json(
+      { ...organization, role: 'owner' },
+      { status: 201 }
+    );
+  } catch (error) {
+    return handleApiError(error, 'Failed to create organization');
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { apiKeys } from '@/db/schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import { apiError, handleApiError, parseParams } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { apiKeyParams } from '@/lib/schemas/api-keys';
+import { requireProject } from '@/lib/session';
+import { apiKeyColumns } from '@/lib/api-keys';
+
+type RouteContext = { params: Promise<{ id: string; keyId: string }> };
+
+// DELETE /api/projects/[id]/api-keys/[keyId] - Revoke an API key
+// The key stops working immediately; its row is kept for the audit trail.
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId, keyId: apiKeyId } = parseParams(
+      await params,
+      apiKeyParams
+    );
+
+    const { project } = await requireProject(projectId, {
+      permission: 'admin',
+    });
+
+    const [revoked] = await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(
+          eq(apiKeys.id, apiKeyId),
+          eq(apiKeys.projectId, projectId),
+          isNull(apiKeys.revokedAt)
+        )
+      )
+      .returning(apiKeyColumns);
+
+    if (!revoked) {
+      return apiError(404, 'API key not found or already revoked');
+    }
+
+    await recordAudit({
+      action: 'api_key.revoke',
+      target: { type: 'api_key', id: revoked.id },
+      project,
+      before: { revokedAt: null },
+      after: { revokedAt: revoked.revokedAt },
+    });
+
+    return NextResponse.json(revoked);
+  } catch (error) {
+    return handleApiError(error, 'Failed to revoke API key');
+  }
+}
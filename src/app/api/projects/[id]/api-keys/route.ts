@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { apiKeys } from '@/db/schema';
+import { desc, eq } from 'drizzle-orm';
+import { apiError, handleApiError, parseBody, parseParams } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { createApiKeySchema } from '@/lib/schemas/api-keys';
+import { projectParams } from '@/lib/schemas/common';
+import { requireProject } from '@/lib/session';
+import { apiKeyColumns, createApiKey } from '@/lib/api-keys';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/projects/[id]/api-keys - List the project's API keys, including revoked ones
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId } = parseParams(await params, projectParams);
+
+    await requireProject(projectId, { permission: 'admin' });
+
+    const keys = await db
+      .select(apiKeyColumns)
+      .from(apiKeys)
+      .where(eq(apiKeys.projectId, projectId))
+      .orderBy(desc(apiKeys.createdAt));
+
+    return NextResponse.json(keys);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch API keys');
+  }
+}
+
+// POST /api/projects/[id]/api-keys - Create an API key
+// Body: { name, scope: read|write|admin }. The response carries the key in
+// `key`; it is not stored and cannot be shown again. Keys can only be
+// created from a signed-in session, not with another key.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId } = parseParams(await params, projectParams);
+
+    const { user, project } = await requireProject(projectId, {
+      permission: 'admin',
+    });
+    if (!user) {
+      return apiError(403, 'API keys cannot create other API keys');
+    }
+
+    const { name, scope } = await parseBody(request, createApiKeySchema);
+
+    const apiKey = await createApiKey({
+      projectId,
+      name,
+      scope,
+      createdBy: user.id,
+    });
+
+    await recordAudit({
+      action: 'api_key.create',
+      target: { type: 'api_key', id: apiKey.id },
+      project,
+      after: apiKey,
+    });
+
+    return NextResponse.json(apiKey, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to create API key');
+  }
+}
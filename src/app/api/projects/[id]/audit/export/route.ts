@@ -0,0 +1,28 @@
+import { handleApiError, parseParams, parseQuery } from '@/lib/api';
+import { auditScope, exportAuditLogs } from '@/lib/audit/list';
+import { exportAuditQuery } from '@/lib/schemas/audit';
+import { projectParams } from '@/lib/schemas/common';
+import { requireProject } from '@/lib/session';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/projects/[id]/audit/export - Download the project's audit log
+// ?format=csv (default) or jsonl; takes the same filters as the list.
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = parseParams(await params, projectParams);
+    const query = parseQuery(request, exportAuditQuery);
+
+    await requireProject(id, { permission: 'admin', includeDeleted: true });
+
+    return new Response(exportAuditLogs(auditScope({ projectId: id }), query), {
+      headers: {
+        'Content-Type':
+          query.format === 'csv' ? 'text/csv' : 'application/x-ndjson',
+        'Content-Disposition': `attachment; filename="project-${id}-audit.${query.format}"`,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, 'Failed to export audit log');
+  }
+}
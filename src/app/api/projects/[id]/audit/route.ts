@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { handleApiError, parseParams, parseQuery } from '@/lib/api';
+import { auditScope, listAuditLogs } from '@/lib/audit/list';
+import { listAuditQuery } from '@/lib/schemas/audit';
+import { projectParams } from '@/lib/schemas/common';
+import { requireProject } from '@/lib/session';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/projects/[id]/audit - Page through the project's audit log
+// Filter with ?action=, ?actorType=, ?actor=, ?targetType=, ?targetId=,
+// ?from= and ?to=. Requires admin access.
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = parseParams(await params, projectParams);
+    const query = parseQuery(request, listAuditQuery);
+
+    await requireProject(id, { permission: 'admin', includeDeleted: true });
+
+    const page = await listAuditLogs(auditScope({ projectId: id }), query);
+
+    return NextResponse.json(page);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch audit log');
+  }
+}
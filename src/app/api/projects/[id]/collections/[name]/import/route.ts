@@ -0,0 +1,222 @@
+import { randomUUID } from 'node:crypto';
+import { NextResponse } from 'next/server';
+import { apiError, handleApiError, parseParams, parseQuery } from '@/lib/api';
+import { ApiError } from '@/lib/api-errors';
+import { recordAudit } from '@/lib/audit/record';
+import { collectionParams } from '@/lib/schemas/common';
+import { rawImportQuery } from '@/lib/schemas/vectors';
+import { requireProject } from '@/lib/session';
+import { findCollection } from '@/lib/collections';
+import {
+  importRows,
+  inferImportFormat,
+  isImportFormat,
+  MAX_MULTIPART_IMPORT_BYTES,
+  parseCsv,
+  parseJsonl,
+  parseNpy,
+  type ImportFormat,
+  type ImportReport,
+  type ImportRow,
+} from '@/lib/import';
+import { enqueueJob } from '@/lib/jobs/queue';
+import { writeArtifact } from '@/lib/storage';
+
+type RouteContext = { params: Promise<{ id: string; name: string }> };
+
+type Upload = {
+  format: ImportFormat;
+  file: ReadableStream<Uint8Array>;
+  sidecar?: ReadableStream<Uint8Array>;
+  idColumn?: string;
+  vectorColumn?: string;
+  background: boolean;
+};
+
+function stringField(value: FormDataEntryValue | null) {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+const tooLarge = () =>
+  new ApiError(
+    413,
+    `Multipart imports can be at most ${MAX_MULTIPART_IMPORT_BYTES / 1024 / 1024} MB; send larger JSONL or CSV files as the raw request body with ?format=jsonl|csv`
+  );
+
+/**
+ * Parses a multipart body, which is buffered in memory, so it is cut off at
+ * `MAX_MULTIPART_IMPORT_BYTES`: up front from Content-Length, and while
+ * reading for chunked requests that do not send one.
+ */
+async function readForm(request: Request) {
+  const length = Number(request.headers.get('content-length'));
+  if (length > MAX_MULTIPART_IMPORT_BYTES) {
+    throw tooLarge();
+  }
+  if (!request.body) {
+    return request.formData();
+  }
+
+  let received = 0;
+  const limited = request.body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        received += chunk.byteLength;
+        if (received > MAX_MULTIPART_IMPORT_BYTES) {
+          controller.error(tooLarge());
+        } else {
+          controller.enqueue(chunk);
+        }
+      },
+    })
+  );
+  try {
+    return await new Response(limited, { headers: request.headers }).formData();
+  } catch (error) {
+    throw received > MAX_MULTIPART_IMPORT_BYTES ? tooLarge() : error;
+  }
+}
+
+// POST /api/projects/[id]/collections/[name]/import - Bulk-import vectors
+// Either a multipart form with `file` (plus `sidecar` for .npy, and optional
+// `format`, `idColumn`, `vectorColumn` fields) of up to 64 MB, or a raw
+// JSONL/CSV body of any size with ?format=jsonl|csv. Rows are streamed into the collection in batches and
+// the response lists every row that failed. With `background=true` (form
+// field or query string) the upload is stored and imported by a job instead;
+// the response is the queued job, whose result holds the same report.
+export async function POST(request: Request, { params }: RouteContext) {
+  let progress: ImportReport | null = null;
+
+  try {
+    const { id: projectId, name } = parseParams(await params, collectionParams);
+
+    const { user, project } = await requireProject(projectId, {
+      permission: 'write',
+    });
+
+    const collection = await findCollection(projectId, name);
+    if (!collection) {
+      return apiError(404, 'Collection not found');
+    }
+
+    let upload: Upload;
+    const contentType = request.headers.get('content-type') ?? '';
+
+    if (contentType.startsWith('multipart/form-data')) {
+      const form = await readForm(request);
+      const file = form.get('file');
+      const sidecar = form.get('sidecar');
+
+      if (!(file instanceof File)) {
+        return apiError(400, 'A file is required');
+      }
+
+      const format =
+        stringField(form.get('format')) ?? inferImportFormat(file.name);
+      if (!isImportFormat(format)) {
+        return apiError(400, 'Format must be one of jsonl, csv, npy');
+      }
+
+      if (format === 'npy' && !(sidecar instanceof File)) {
+        return apiError(
+          400,
+          '.npy imports need a JSONL sidecar with ids and metadata'
+        );
+      }
+
+      upload = {
+        format,
+        file: file.stream(),
+        sidecar: sidecar instanceof File ? sidecar.stream() : undefined,
+        idColumn: stringField(form.get('idColumn')),
+        vectorColumn: stringField(form.get('vectorColumn')),
+        background: stringField(form.get('background')) === 'true',
+      };
+    } else {
+      const { format, idColumn, vectorColumn, background } = parseQuery(
+        request,
+        rawImportQuery
+      );
+
+      if (!request.body) {
+        return apiError(400, 'Request body is empty');
+      }
+
+      upload = {
+        format,
+        file: request.body,
+        idColumn,
+        vectorColumn,
+        background,
+      };
+    }
+
+    if (upload.background) {
+      // Park the upload in artifact storage and let the worker import it.
+      const prefix = `uploads/${projectId}/${randomUUID()}`;
+      const fileKey = `${prefix}/data.${upload.format}`;
+      const sidecarKey = upload.sidecar && `${prefix}/sidecar.jsonl`;
+      await writeArtifact(fileKey, upload.file);
+      if (upload.sidecar && sidecarKey) {
+        await writeArtifact(sidecarKey, upload.sidecar);
+      }
+
+      const job = await enqueueJob(
+        projectId,
+        'vectors.import',
+        {
+          collectionId: collection.id,
+          format: upload.format,
+          fileKey,
+          sidecarKey,
+          idColumn: upload.idColumn,
+          vectorColumn: upload.vectorColumn,
+        },
+        { createdBy: user?.id }
+      );
+
+      await recordAudit({
+        action: 'vectors.import',
+        target: { type: 'collection', id: name },
+        project,
+        after: { format: upload.format, jobId: job.id },
+      });
+
+      return NextResponse.json(job, { status: 202 });
+    }
+
+    let rows: AsyncIterable<ImportRow>;
+    if (upload.format === 'npy' && upload.sidecar) {
+      rows = parseNpy(upload.file, upload.sidecar);
+    } else if (upload.format === 'csv') {
+      rows = parseCsv(upload.file, {
+        idColumn: upload.idColumn,
+        vectorColumn: upload.vectorColumn,
+      });
+    } else {
+      rows = parseJsonl(upload.file);
+    }
+
+    const report = await importRows(collection, rows, (current) => {
+      progress = current;
+    });
+
+    await recordAudit({
+      action: 'vectors.import',
+      target: { type: 'collection', id: name },
+      project,
+      after: {
+        format: upload.format,
+        imported: report.imported,
+        failed: report.failed,
+      },
+    });
+
+    return NextResponse.json(report);
+  } catch (error) {
+    // Batches written before the input broke stay imported.
+    return handleApiError(error, 'Failed to import vectors', {
+      report: progress,
+    });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { apiError, handleApiError, parseBody, parseParams } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { rebuildIndexSchema } from '@/lib/schemas/collections';
+import { collectionParams } from '@/lib/schemas/common';
+import { requireProject } from '@/lib/session';
+import { findCollection } from '@/lib/collections';
+import {
+  defineIndex,
+  findIndex,
+  resolveIndexParams,
+  startIndexBuild,
+} from '@/lib/indexes';
+
+type RouteContext = { params: Promise<{ id: string; name: string }> };
+
+// POST /api/projects/[id]/collections/[name]/index/rebuild - Rebuild the index
+// Body (optional): { method?, m?, efConstruction?, lists? } to change the
+// index while rebuilding; omitted fields keep their current values.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId, name } = parseParams(await params, collectionParams);
+
+    const { user, project } = await requireProject(projectId, {
+      permission: 'admin',
+    });
+
+    const collection = await findCollection(projectId, name);
+    if (!collection) {
+      return apiError(404, 'Collection not found');
+    }
+
+    const current = await findIndex(collection.id);
+    if (!current) {
+      return apiError(404, 'Collection has no index');
+    }
+
+    if (current.status === 'building') {
+      return apiError(409, 'The index is already being built');
+    }
+
+    const {
+      method = current.method,
+      m,
+      efConstruction,
+      lists,
+    } = await parseBody(request, rebuildIndexSchema, { optional: true });
+
+    const resolved = resolveIndexParams(method, {
+      ...(method === current.method ? current.params : {}),
+      ...(m !== undefined && { m }),
+      ...(efConstruction !== undefined && { efConstruction }),
+      ...(lists !== undefined && { lists }),
+    });
+    if ('error' in resolved) {
+      return apiError(400, resolved.error);
+    }
+
+    const index = await defineIndex(collection, method, resolved.params);
+    const job = await startIndexBuild(collection, user?.id);
+
+    await recordAudit({
+      action: 'index.rebuild',
+      target: { type: 'collection', id: name },
+      project,
+      before: { method: current.method, params: current.params },
+      after: { method: index.method, params: index.params, jobId: job.id },
+    });
+
+    return NextResponse.json({ ...index, jobId: job.id }, { status: 202 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to rebuild index');
+  }
+}
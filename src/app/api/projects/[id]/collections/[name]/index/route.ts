@@ -0,0 +1,131 @@
+import { NextResponse } from 'next/server';
+import { apiError, handleApiError, parseBody, parseParams } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { createIndexSchema } from '@/lib/schemas/collections';
+import { collectionParams } from '@/lib/schemas/common';
+import { requireProject } from '@/lib/session';
+import { findCollection } from '@/lib/collections';
+import {
+  defineIndex,
+  describeIndex,
+  dropIndex,
+  findIndex,
+  MAX_INDEX_DIMENSION,
+  resolveIndexParams,
+  startIndexBuild,
+} from '@/lib/indexes';
+
+type RouteContext = { params: Promise<{ id: string; name: string }> };
+
+// GET /api/projects/[id]/collections/[name]/index - Index status, size and build progress
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId, name } = parseParams(await params, collectionParams);
+
+    await requireProject(projectId);
+
+    const collection = await findCollection(projectId, name);
+    if (!collection) {
+      return apiError(404, 'Collection not found');
+    }
+
+    const index = await findIndex(collection.id);
+    if (!index) {
+      return apiError(404, 'Collection has no index');
+    }
+
+    return NextResponse.json(await describeIndex(index));
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch index');
+  }
+}
+
+// POST /api/projects/[id]/collections/[name]/index - Create an HNSW or IVFFlat index
+// Body: { method, m?, efConstruction?, lists? }. The build runs as a
+// background job (returned as `jobId`); poll GET for its progress.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId, name } = parseParams(await params, collectionParams);
+
+    const { user, project } = await requireProject(projectId, {
+      permission: 'admin',
+    });
+
+    const collection = await findCollection(projectId, name);
+    if (!collection) {
+      return apiError(404, 'Collection not found');
+    }
+
+    if (collection.dimension > MAX_INDEX_DIMENSION) {
+      return apiError(
+        400,
+        `Collections wider than ${MAX_INDEX_DIMENSION} dimensions cannot be indexed`
+      );
+    }
+
+    const { method, m, efConstruction, lists } = await parseBody(
+      request,
+      createIndexSchema
+    );
+
+    const resolved = resolveIndexParams(method, { m, efConstruction, lists });
+    if ('error' in resolved) {
+      return apiError(400, resolved.error);
+    }
+
+    if (await findIndex(collection.id)) {
+      return apiError(
+        409,
+        'Collection already has an index; rebuild or drop it to change it'
+      );
+    }
+
+    const index = await defineIndex(collection, method, resolved.params);
+    const job = await startIndexBuild(collection, user?.id);
+
+    await recordAudit({
+      action: 'index.create',
+      target: { type: 'collection', id: name },
+      project,
+      after: { method: index.method, params: index.params, jobId: job.id },
+    });
+
+    return NextResponse.json({ ...index, jobId: job.id }, { status: 202 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to create index');
+  }
+}
+
+// DELETE /api/projects/[id]/collections/[name]/index - Drop the index (queries fall back to exact scans)
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId, name } = parseParams(await params, collectionParams);
+
+    const { project } = await requireProject(projectId, {
+      permission: 'admin',
+    });
+
+    const collection = await findCollection(projectId, name);
+    if (!collection) {
+      return apiError(404, 'Collection not found');
+    }
+
+    const index = await findIndex(collection.id);
+    if (!index) {
+      return apiError(404, 'Collection has no index');
+    }
+
+    await dropIndex(collection);
+
+    await recordAudit({
+      action: 'index.delete',
+      target: { type: 'collection', id: name },
+      project,
+      before: { method: index.method, params: index.params },
+    });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to drop index');
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import {
+  apiError,
+  handleApiError,
+  parseBody,
+  parseParams,
+  parseQuery,
+} from '@/lib/api';
+import { collectionParams } from '@/lib/schemas/common';
+import { projectionSchema } from '@/lib/schemas/projections';
+import { requireProject } from '@/lib/session';
+import { findCollection } from '@/lib/collections';
+import {
+  describeProjection,
+  findProjection,
+  startProjection,
+} from '@/lib/projections';
+
+type RouteContext = { params: Promise<{ id: string; name: string }> };
+
+// GET /api/projects/[id]/collections/[name]/projection - 2D projection of a sample of the vectors
+// Query: ?method=pca|tsne&sampleSize=. Only a projection of the collection's
+// current version is returned; 404 means it has to be computed with POST.
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId, name } = parseParams(await params, collectionParams);
+
+    await requireProject(projectId);
+
+    const collection = await findCollection(projectId, name);
+    if (!collection) {
+      return apiError(404, 'Collection not found');
+    }
+
+    const { method, sampleSize } = parseQuery(request, projectionSchema);
+
+    const projection = await findProjection(collection, method, sampleSize);
+    if (!projection) {
+      return apiError(
+        404,
+        'Projection not computed for the current collection version'
+      );
+    }
+
+    return NextResponse.json(await describeProjection(collection, projection));
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch projection');
+  }
+}
+
+// POST /api/projects/[id]/collections/[name]/projection - Compute a projection
+// Body: { method?, sampleSize? }. Runs as a background job, which is
+// returned; an identical job already queued or running is reused. Needs write
+// access, since the job is CPU-heavy.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId, name } = parseParams(await params, collectionParams);
+
+    const { user } = await requireProject(projectId, { permission: 'write' });
+
+    const collection = await findCollection(projectId, name);
+    if (!collection) {
+      return apiError(404, 'Collection not found');
+    }
+
+    const { method, sampleSize } = await parseBody(request, projectionSchema);
+
+    const job = await startProjection(collection, method, sampleSize, user?.id);
+
+    return NextResponse.json(job, { status: 202 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to start projection');
+  }
+}
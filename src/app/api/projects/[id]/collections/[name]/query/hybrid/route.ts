@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { apiError, handleApiError, parseBody, parseParams } from '@/lib/api';
+import { collectionParams } from '@/lib/schemas/common';
+import { hybridQuerySchema } from '@/lib/schemas/vectors';
+import { requireProject } from '@/lib/session';
+import { findCollection } from '@/lib/collections';
+import { embedQuery } from '@/lib/embeddings';
+import { hybridSearch } from '@/lib/search';
+
+type RouteContext = { params: Promise<{ id: string; name: string }> };
+
+// POST /api/projects/[id]/collections/[name]/query/hybrid - Hybrid search
+// Body: the query body plus { keywords?, field?, language?, fusion?, weights?,
+// rrfK?, candidates? }. Runs a full-text search on metadata[field] next to
+// the vector search and fuses both rankings; keywords default to text.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId, name } = parseParams(await params, collectionParams);
+
+    await requireProject(projectId);
+
+    const collection = await findCollection(projectId, name);
+    if (!collection) {
+      return apiError(404, 'Collection not found');
+    }
+
+    const body = await parseBody(request, hybridQuerySchema);
+    // The schema guarantees exactly one of vector and text, and keywords
+    // whenever text is missing.
+    const vector = body.vector ?? (await embedQuery(collection, body.text!));
+    const keywords = body.keywords ?? body.text!;
+
+    if (vector.length !== collection.dimension) {
+      return apiError(
+        400,
+        `vector has ${vector.length} dimensions, collection expects ${collection.dimension}`
+      );
+    }
+
+    const { matches, retrievers } = await hybridSearch(collection, {
+      ...body,
+      vector,
+      keywords,
+    });
+
+    return NextResponse.json({
+      metric: collection.metric,
+      fusion: body.fusion,
+      retrievers,
+      matches,
+    });
+  } catch (error) {
+    return handleApiError(error, 'Failed to run hybrid query');
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { apiError, handleApiError, parseBody, parseParams } from '@/lib/api';
+import { collectionParams } from '@/lib/schemas/common';
+import { querySchema } from '@/lib/schemas/vectors';
+import { requireProject } from '@/lib/session';
+import { findCollection } from '@/lib/collections';
+import { embedQuery } from '@/lib/embeddings';
+import { searchCollection } from '@/lib/search';
+
+type RouteContext = { params: Promise<{ id: string; name: string }> };
+
+// POST /api/projects/[id]/collections/[name]/query - Nearest-neighbour search
+// Body: { vector | text, topK?, filter?, includeVectors?, efSearch?, probes? }.
+// text is embedded with the collection's embedding provider.
+// Matches are ranked by the collection's distance metric; see MetadataFilter
+// for the filter syntax. efSearch/probes tune HNSW/IVFFlat recall per query.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId, name } = parseParams(await params, collectionParams);
+
+    await requireProject(projectId);
+
+    const collection = await findCollection(projectId, name);
+    if (!collection) {
+      return apiError(404, 'Collection not found');
+    }
+
+    const body = await parseBody(request, querySchema);
+    const { topK, filter, includeVectors, efSearch, probes } = body;
+    // The schema guarantees exactly one of vector and text.
+    const vector = body.vector ?? (await embedQuery(collection, body.text!));
+
+    if (vector.length !== collection.dimension) {
+      return apiError(
+        400,
+        `vector has ${vector.length} dimensions, collection expects ${collection.dimension}`
+      );
+    }
+
+    const matches = await searchCollection(collection, {
+      vector,
+      topK,
+      filter,
+      includeVectors,
+      efSearch,
+      probes,
+    });
+
+    return NextResponse.json({ metric: collection.metric, matches });
+  } catch (error) {
+    return handleApiError(error, 'Failed to query collection');
+  }
+}
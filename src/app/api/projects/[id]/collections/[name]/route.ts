@@ -0,0 +1,145 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { collectionItems, collections } from '@/db/schema';
+import { count, eq } from 'drizzle-orm';
+import { apiError, handleApiError, parseBody, parseParams } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { updateCollectionSchema } from '@/lib/schemas/collections';
+import { collectionParams } from '@/lib/schemas/common';
+import { requireProject } from '@/lib/session';
+import { findCollection } from '@/lib/collections';
+import { resolveEmbeddingConfig } from '@/lib/embeddings';
+import { describeIndex, dropIndex, findIndex } from '@/lib/indexes';
+
+type RouteContext = { params: Promise<{ id: string; name: string }> };
+
+// GET /api/projects/[id]/collections/[name] - Describe a collection and its index
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId, name } = parseParams(await params, collectionParams);
+
+    await requireProject(projectId);
+
+    const collection = await findCollection(projectId, name);
+    if (!collection) {
+      return apiError(404, 'Collection not found');
+    }
+
+    const [{ itemCount }] = await db
+      .select({ itemCount: count() })
+      .from(collectionItems)
+      .where(eq(collectionItems.collectionId, collection.id));
+
+    const index = await findIndex(collection.id);
+
+    return NextResponse.json({
+      ...collection,
+      itemCount,
+      index: index ? await describeIndex(index) : null,
+    });
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch collection');
+  }
+}
+
+// PATCH /api/projects/[id]/collections/[name] - Change a collection's metric
+// or embedding provider
+// The dimension is fixed at creation: stored vectors would no longer fit, so
+// resize requests are rejected with 409. Switching providers does not
+// re-embed stored items; embedding: null turns server-side embedding off.
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId, name } = parseParams(await params, collectionParams);
+
+    const { project } = await requireProject(projectId, {
+      permission: 'write',
+    });
+
+    const collection = await findCollection(projectId, name);
+    if (!collection) {
+      return apiError(404, 'Collection not found');
+    }
+
+    const { dimension, metric, embedding } = await parseBody(
+      request,
+      updateCollectionSchema
+    );
+
+    const resolved = embedding ? resolveEmbeddingConfig(embedding) : null;
+    if (resolved && 'error' in resolved) {
+      return apiError(400, resolved.error);
+    }
+
+    if (dimension !== undefined && dimension !== collection.dimension) {
+      return apiError(
+        409,
+        `Collection dimension is fixed at ${collection.dimension}; create a new collection to change it`
+      );
+    }
+
+    if (
+      metric !== undefined &&
+      metric !== collection.metric &&
+      (await findIndex(collection.id))
+    ) {
+      return apiError(
+        409,
+        'Drop the collection index before changing its metric; the index is built for the current one'
+      );
+    }
+
+    const updatedCollection = await db
+      .update(collections)
+      .set({
+        metric,
+        // undefined leaves the provider as it is; null turns it off.
+        embedding: embedding === null ? null : resolved?.config,
+      })
+      .where(eq(collections.id, collection.id))
+      .returning();
+
+    await recordAudit({
+      action: 'collection.update',
+      target: { type: 'collection', id: name },
+      project,
+      before: collection,
+      after: updatedCollection[0],
+    });
+
+    return NextResponse.json(updatedCollection[0]);
+  } catch (error) {
+    return handleApiError(error, 'Failed to update collection');
+  }
+}
+
+// DELETE /api/projects/[id]/collections/[name] - Drop a collection and its vectors
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId, name } = parseParams(await params, collectionParams);
+
+    const { project } = await requireProject(projectId, {
+      permission: 'admin',
+    });
+
+    const collection = await findCollection(projectId, name);
+    if (!collection) {
+      return apiError(404, 'Collection not found');
+    }
+
+    // The ANN index is a partial index on collection_items, so deleting the
+    // collection's rows would leave it behind.
+    await dropIndex(collection);
+    await db.delete(collections).where(eq(collections.id, collection.id));
+
+    await recordAudit({
+      action: 'collection.delete',
+      target: { type: 'collection', id: name },
+      project,
+      before: collection,
+    });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to delete collection');
+  }
+}
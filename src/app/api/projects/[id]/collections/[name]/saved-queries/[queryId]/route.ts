@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { savedQueries } from '@/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { apiError, handleApiError, parseParams } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { savedQueryParams } from '@/lib/schemas/saved-queries';
+import { requireProject } from '@/lib/session';
+import { findCollection } from '@/lib/collections';
+
+type RouteContext = {
+  params: Promise<{ id: string; name: string; queryId: string }>;
+};
+
+// DELETE /api/projects/[id]/collections/[name]/saved-queries/[queryId] - Delete a saved query
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const {
+      id: projectId,
+      name,
+      queryId,
+    } = parseParams(await params, savedQueryParams);
+
+    const { project } = await requireProject(projectId, {
+      permission: 'write',
+    });
+
+    const collection = await findCollection(projectId, name);
+    if (!collection) {
+      return apiError(404, 'Collection not found');
+    }
+
+    const [deleted] = await db
+      .delete(savedQueries)
+      .where(
+        and(
+          eq(savedQueries.id, queryId),
+          eq(savedQueries.collectionId, collection.id)
+        )
+      )
+      .returning();
+
+    if (!deleted) {
+      return apiError(404, 'Saved query not found');
+    }
+
+    await recordAudit({
+      action: 'saved_query.delete',
+      target: { type: 'saved_query', id: deleted.id },
+      project,
+      before: { collection: collection.name, ...deleted },
+    });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to delete saved query');
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { savedQueries } from '@/db/schema';
+import { desc, eq } from 'drizzle-orm';
+import { apiError, handleApiError, parseBody, parseParams } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { collectionParams } from '@/lib/schemas/common';
+import { createSavedQuerySchema } from '@/lib/schemas/saved-queries';
+import { requireProject } from '@/lib/session';
+import { findCollection } from '@/lib/collections';
+
+type RouteContext = { params: Promise<{ id: string; name: string }> };
+
+// GET /api/projects/[id]/collections/[name]/saved-queries - Saved queries, newest first
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId, name } = parseParams(await params, collectionParams);
+
+    await requireProject(projectId);
+
+    const collection = await findCollection(projectId, name);
+    if (!collection) {
+      return apiError(404, 'Collection not found');
+    }
+
+    const queries = await db
+      .select()
+      .from(savedQueries)
+      .where(eq(savedQueries.collectionId, collection.id))
+      .orderBy(desc(savedQueries.createdAt));
+
+    return NextResponse.json(queries);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch saved queries');
+  }
+}
+
+// POST /api/projects/[id]/collections/[name]/saved-queries - Save a query
+// Body: { name, mode: vector|hybrid, query }, where query is a body the
+// query (or hybrid query) endpoint accepts.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId, name } = parseParams(await params, collectionParams);
+
+    const { user, project } = await requireProject(projectId, {
+      permission: 'write',
+    });
+
+    const collection = await findCollection(projectId, name);
+    if (!collection) {
+      return apiError(404, 'Collection not found');
+    }
+
+    const body = await parseBody(request, createSavedQuerySchema);
+
+    const [saved] = await db
+      .insert(savedQueries)
+      .values({
+        projectId,
+        collectionId: collection.id,
+        name: body.name,
+        mode: body.mode,
+        query: body.query,
+        createdBy: user?.id ?? null,
+      })
+      .returning();
+
+    await recordAudit({
+      action: 'saved_query.create',
+      target: { type: 'saved_query', id: saved.id },
+      project,
+      after: { collection: collection.name, ...saved },
+    });
+
+    return NextResponse.json(saved, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to save query');
+  }
+}
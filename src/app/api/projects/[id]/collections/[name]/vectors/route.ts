@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server';
+import {
+  apiError,
+  handleApiError,
+  parseBody,
+  parseParams,
+  parseQuery,
+} from '@/lib/api';
+import { auditedIds, recordAudit } from '@/lib/audit/record';
+import { collectionParams } from '@/lib/schemas/common';
+import {
+  deleteVectorsSchema,
+  fetchVectorsQuery,
+  upsertVectorsSchema,
+} from '@/lib/schemas/vectors';
+import { requireProject } from '@/lib/session';
+import { findCollection } from '@/lib/collections';
+import { deleteItems, fetchItems, upsertItems } from '@/lib/vectors';
+
+type RouteContext = { params: Promise<{ id: string; name: string }> };
+
+// POST /api/projects/[id]/collections/[name]/vectors - Batch-upsert items by id
+// Body: { items: [{ id, vector, metadata? }] }. Each item gets its own result,
+// so one bad vector does not fail the rest of the batch.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId, name } = parseParams(await params, collectionParams);
+
+    const { project } = await requireProject(projectId, {
+      permission: 'write',
+    });
+
+    const collection = await findCollection(projectId, name);
+    if (!collection) {
+      return apiError(404, 'Collection not found');
+    }
+
+    const { items } = await parseBody(request, upsertVectorsSchema);
+
+    const results = await upsertItems(collection, items);
+    const upserted = results.filter((result) => result.status === 'ok').length;
+
+    if (upserted > 0) {
+      await recordAudit({
+        action: 'vectors.upsert',
+        target: { type: 'collection', id: name },
+        project,
+        after: auditedIds(
+          results.flatMap((result) =>
+            result.status === 'ok' ? [result.id] : []
+          )
+        ),
+      });
+    }
+
+    return NextResponse.json({
+      upserted,
+      failed: results.length - upserted,
+      results,
+    });
+  } catch (error) {
+    return handleApiError(error, 'Failed to upsert vectors');
+  }
+}
+
+// GET /api/projects/[id]/collections/[name]/vectors?ids=a,b - Fetch items by id
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId, name } = parseParams(await params, collectionParams);
+
+    await requireProject(projectId);
+
+    const collection = await findCollection(projectId, name);
+    if (!collection) {
+      return apiError(404, 'Collection not found');
+    }
+
+    const { ids } = parseQuery(request, fetchVectorsQuery);
+
+    const items = await fetchItems(collection.id, ids);
+    const found = new Set(items.map((item) => item.id));
+
+    return NextResponse.json({
+      items,
+      missing: ids.filter((itemId) => !found.has(itemId)),
+    });
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch vectors');
+  }
+}
+
+// DELETE /api/projects/[id]/collections/[name]/vectors - Delete items
+// Body: { ids: [...] } or { filter }, using the same metadata filter syntax
+// as the query endpoint.
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId, name } = parseParams(await params, collectionParams);
+
+    const { project } = await requireProject(projectId, {
+      permission: 'write',
+    });
+
+    const collection = await findCollection(projectId, name);
+    if (!collection) {
+      return apiError(404, 'Collection not found');
+    }
+
+    const target = await parseBody(request, deleteVectorsSchema);
+    const deleted = await deleteItems(collection.id, target);
+
+    await recordAudit({
+      action: 'vectors.delete',
+      target: { type: 'collection', id: name },
+      project,
+      before: {
+        ...('ids' in target ? auditedIds(target.ids) : target),
+        deleted,
+      },
+    });
+
+    return NextResponse.json({ deleted });
+  } catch (error) {
+    return handleApiError(error, 'Failed to delete vectors');
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { collections } from '@/db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { apiError, handleApiError, parseBody, parseParams } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { createCollectionSchema } from '@/lib/schemas/collections';
+import { projectParams } from '@/lib/schemas/common';
+import { requireProject } from '@/lib/session';
+import { findCollection } from '@/lib/collections';
+import { resolveEmbeddingConfig } from '@/lib/embeddings';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/projects/[id]/collections - List a project's vector collections
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId } = parseParams(await params, projectParams);
+
+    await requireProject(projectId);
+
+    const projectCollections = await db
+      .select()
+      .from(collections)
+      .where(eq(collections.projectId, projectId))
+      .orderBy(asc(collections.name));
+
+    return NextResponse.json(projectCollections);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch collections');
+  }
+}
+
+// POST /api/projects/[id]/collections - Create a collection with a fixed
+// dimension and distance metric (cosine, l2 or inner_product)
+// An optional embedding { provider, model? } lets clients upsert and query text.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId } = parseParams(await params, projectParams);
+
+    const { project } = await requireProject(projectId, {
+      permission: 'write',
+    });
+
+    const { name, dimension, metric, embedding } = await parseBody(
+      request,
+      createCollectionSchema
+    );
+
+    const resolved = embedding ? resolveEmbeddingConfig(embedding) : null;
+    if (resolved && 'error' in resolved) {
+      return apiError(400, resolved.error);
+    }
+
+    if (await findCollection(projectId, name)) {
+      return apiError(409, 'A collection with this name already exists');
+    }
+
+    const newCollection = await db
+      .insert(collections)
+      .values({
+        projectId,
+        name,
+        dimension,
+        metric,
+        embedding: resolved?.config ?? null,
+      })
+      .returning();
+
+    await recordAudit({
+      action: 'collection.create',
+      target: { type: 'collection', id: name },
+      project,
+      after: newCollection[0],
+    });
+
+    return NextResponse.json(newCollection[0], { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to create collection');
+  }
+}
@@ -0,0 +1,181 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { documents } from '@/db/schema';
+import { eq, sql } from 'drizzle-orm';
+import { apiError, handleApiError, parseInput, parseParams } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { documentParams, replaceDocumentSchema } from '@/lib/schemas/documents';
+import { requireProject } from '@/lib/session';
+import { findCollection } from '@/lib/collections';
+import {
+  deleteDocument,
+  describeDocument,
+  findDocument,
+  findDocumentByName,
+  getDocument,
+  resolveChunking,
+  startDocumentIngestion,
+} from '@/lib/documents';
+import { readDocumentUpload } from '@/lib/documents/upload';
+
+type RouteContext = { params: Promise<{ id: string; documentId: string }> };
+
+// GET /api/projects/[id]/documents/[documentId] - A document and its chunks
+// Each chunk names the collection item (`itemId`) it was embedded as.
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId, documentId } = parseParams(
+      await params,
+      documentParams
+    );
+
+    await requireProject(projectId);
+
+    const document = await findDocument(projectId, documentId);
+    if (!document) {
+      return apiError(404, 'Document not found');
+    }
+
+    return NextResponse.json(await describeDocument(document.id));
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch document');
+  }
+}
+
+// PUT /api/projects/[id]/documents/[documentId] - Re-upload a document
+// Same body as the upload. The name, collection, format and chunking
+// options stay as they are unless given. The current chunks remain
+// searchable until the new version is embedded, then are replaced in one
+// transaction.
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId, documentId } = parseParams(
+      await params,
+      documentParams
+    );
+
+    const { user, project } = await requireProject(projectId, {
+      permission: 'write',
+    });
+
+    const document = await findDocument(projectId, documentId);
+    if (!document) {
+      return apiError(404, 'Document not found');
+    }
+
+    const {
+      name = document.name,
+      collection,
+      text,
+      ...options
+    } = parseInput(await readDocumentUpload(request), replaceDocumentSchema);
+
+    const resolved = resolveChunking(name, options, document);
+    if ('error' in resolved) {
+      return apiError(400, resolved.error);
+    }
+
+    const target = await findCollection(
+      projectId,
+      collection ?? (await getDocument(document.id)).collection
+    );
+    if (!target) {
+      return apiError(404, 'Collection not found');
+    }
+    if (!target.embedding) {
+      return apiError(
+        400,
+        `Collection ${target.name} has no embedding provider; configure one before adding documents`
+      );
+    }
+
+    if (name !== document.name && (await findDocumentByName(projectId, name))) {
+      return apiError(409, 'A document with this name already exists');
+    }
+
+    const [updated] = await db
+      .update(documents)
+      .set({
+        name,
+        collectionId: target.id,
+        format: resolved.format,
+        content: text,
+        sizeBytes: Buffer.byteLength(text),
+        chunking: resolved.chunking,
+        status: 'pending',
+        error: null,
+        version: sql`${documents.version} + 1`,
+      })
+      .where(eq(documents.id, document.id))
+      .returning();
+
+    const job = await startDocumentIngestion(updated, user?.id ?? null);
+
+    await recordAudit({
+      action: 'document.update',
+      target: { type: 'document', id: document.id },
+      project,
+      before: {
+        name: document.name,
+        collectionId: document.collectionId,
+        format: document.format,
+        chunking: document.chunking,
+        sizeBytes: document.sizeBytes,
+        version: document.version,
+      },
+      after: {
+        name: updated.name,
+        collectionId: updated.collectionId,
+        format: updated.format,
+        chunking: updated.chunking,
+        sizeBytes: updated.sizeBytes,
+        version: updated.version,
+        jobId: job.id,
+      },
+    });
+
+    return NextResponse.json(
+      { ...(await getDocument(document.id)), jobId: job.id },
+      { status: 202 }
+    );
+  } catch (error) {
+    return handleApiError(error, 'Failed to re-upload document');
+  }
+}
+
+// DELETE /api/projects/[id]/documents/[documentId] - Delete a document
+// Its chunks and their collection items go with it, in one transaction.
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId, documentId } = parseParams(
+      await params,
+      documentParams
+    );
+
+    const { project } = await requireProject(projectId, {
+      permission: 'write',
+    });
+
+    const document = await findDocument(projectId, documentId);
+    if (!document) {
+      return apiError(404, 'Document not found');
+    }
+
+    await deleteDocument(document.id);
+
+    await recordAudit({
+      action: 'document.delete',
+      target: { type: 'document', id: document.id },
+      project,
+      before: {
+        name: document.name,
+        collectionId: document.collectionId,
+        chunkCount: document.chunkCount,
+      },
+    });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to delete document');
+  }
+}
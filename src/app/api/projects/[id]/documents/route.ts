@@ -0,0 +1,113 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { documents } from '@/db/schema';
+import { apiError, handleApiError, parseInput, parseParams } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { createDocumentSchema } from '@/lib/schemas/documents';
+import { projectParams } from '@/lib/schemas/common';
+import { requireProject } from '@/lib/session';
+import { findCollection } from '@/lib/collections';
+import {
+  findDocumentByName,
+  getDocument,
+  listDocuments,
+  resolveChunking,
+  startDocumentIngestion,
+} from '@/lib/documents';
+import { readDocumentUpload } from '@/lib/documents/upload';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/projects/[id]/documents - List the project's documents
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId } = parseParams(await params, projectParams);
+
+    await requireProject(projectId);
+
+    return NextResponse.json(await listDocuments(projectId));
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch documents');
+  }
+}
+
+// POST /api/projects/[id]/documents - Upload a document and embed its chunks
+// Either JSON { name, text, collection, format?, strategy?, chunkSize?,
+// chunkOverlap? } or a multipart form with `file` and the same fields; the
+// name and format then default to the file's. The collection needs an
+// embedding provider. Chunks are embedded by a background job (returned as
+// `jobId`); the document is `ready` once they are searchable.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId } = parseParams(await params, projectParams);
+
+    const { user, project } = await requireProject(projectId, {
+      permission: 'write',
+    });
+
+    const { name, collection, text, ...options } = parseInput(
+      await readDocumentUpload(request),
+      createDocumentSchema
+    );
+
+    const resolved = resolveChunking(name, options);
+    if ('error' in resolved) {
+      return apiError(400, resolved.error);
+    }
+
+    const target = await findCollection(projectId, collection);
+    if (!target) {
+      return apiError(404, 'Collection not found');
+    }
+    if (!target.embedding) {
+      return apiError(
+        400,
+        `Collection ${collection} has no embedding provider; configure one before adding documents`
+      );
+    }
+
+    if (await findDocumentByName(projectId, name)) {
+      return apiError(
+        409,
+        'A document with this name already exists; re-upload it with PUT'
+      );
+    }
+
+    const [document] = await db
+      .insert(documents)
+      .values({
+        projectId,
+        collectionId: target.id,
+        name,
+        format: resolved.format,
+        content: text,
+        sizeBytes: Buffer.byteLength(text),
+        chunking: resolved.chunking,
+        createdBy: user?.id ?? null,
+      })
+      .returning();
+
+    const job = await startDocumentIngestion(document);
+
+    await recordAudit({
+      action: 'document.create',
+      target: { type: 'document', id: document.id },
+      project,
+      after: {
+        name,
+        collection,
+        format: document.format,
+        chunking: document.chunking,
+        sizeBytes: document.sizeBytes,
+        jobId: job.id,
+      },
+    });
+
+    return NextResponse.json(
+      { ...(await getDocument(document.id)), jobId: job.id },
+      { status: 202 }
+    );
+  } catch (error) {
+    return handleApiError(error, 'Failed to upload document');
+  }
+}
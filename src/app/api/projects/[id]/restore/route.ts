@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { projects } from '@/db/schema';
+import { and, eq, isNotNull } from 'drizzle-orm';
+import { apiError, handleApiError, parseParams } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { projectParams } from '@/lib/schemas/common';
+import { requireProject } from '@/lib/session';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/projects/[id]/restore - Restore a soft-deleted project
+export async function POST(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = parseParams(await params, projectParams);
+
+    const { project } = await requireProject(id, {
+      permission: 'admin',
+      includeDeleted: true,
+    });
+
+    const restoredProject = await db
+      .update(projects)
+      .set({ deletedAt: null })
+      .where(and(eq(projects.id, id), isNotNull(projects.deletedAt)))
+      .returning();
+
+    if (restoredProject.length === 0) {
+      return apiError(404, 'No deleted project found with this id');
+    }
+
+    await recordAudit({
+      action: 'project.restore',
+      target: { type: 'project', id },
+      project,
+      before: project,
+      after: restoredProject[0],
+    });
+
+    return NextResponse.json(restoredProject[0]);
+  } catch (error) {
+    return handleApiError(error, 'Failed to restore project');
+  }
+}
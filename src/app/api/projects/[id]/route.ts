@@ -0,0 +1,122 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { projects, user } from '@/db/schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import {
+  apiError,
+  handleApiError,
+  parseBody,
+  parseParams,
+  parseQuery,
+} from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { projectParams } from '@/lib/schemas/common';
+import { projectQuery, updateProjectSchema } from '@/lib/schemas/projects';
+import { requireProject } from '@/lib/session';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/projects/[id] - Get a single project with user information
+// Soft-deleted projects are only returned with ?includeDeleted=true
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = parseParams(await params, projectParams);
+
+    const { includeDeleted } = parseQuery(request, projectQuery);
+    await requireProject(id, { includeDeleted });
+
+    const [project] = await db
+      .select({
+        id: projects.id,
+        name: projects.name,
+        description: projects.description,
+        organizationId: projects.organizationId,
+        isActive: projects.isActive,
+        metadata: projects.metadata,
+        createdAt: projects.createdAt,
+        updatedAt: projects.updatedAt,
+        deletedAt: projects.deletedAt,
+        user: {
+          id: user.id,
+          name: user.name,
+          email: user.email,
+        },
+      })
+      .from(projects)
+      .leftJoin(user, eq(projects.userId, user.id))
+      .where(eq(projects.id, id))
+      .limit(1);
+
+    return NextResponse.json(project);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch project');
+  }
+}
+
+// PATCH /api/projects/[id] - Update a project's name, description, status or metadata
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = parseParams(await params, projectParams);
+
+    const { project } = await requireProject(id, { permission: 'write' });
+
+    const { name, description, isActive, metadata } = await parseBody(
+      request,
+      updateProjectSchema
+    );
+
+    const updatedProject = await db
+      .update(projects)
+      .set({ name, description, isActive, metadata })
+      .where(and(eq(projects.id, id), isNull(projects.deletedAt)))
+      .returning();
+
+    if (updatedProject.length === 0) {
+      return apiError(404, 'Project not found');
+    }
+
+    await recordAudit({
+      action: 'project.update',
+      target: { type: 'project', id },
+      project,
+      before: project,
+      after: updatedProject[0],
+    });
+
+    return NextResponse.json(updatedProject[0]);
+  } catch (error) {
+    return handleApiError(error, 'Failed to update project');
+  }
+}
+
+// DELETE /api/projects/[id] - Soft-delete a project (see POST .../restore)
+// Requires the admin role on organization projects.
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = parseParams(await params, projectParams);
+
+    const { project } = await requireProject(id, { permission: 'admin' });
+
+    const deletedProject = await db
+      .update(projects)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(projects.id, id), isNull(projects.deletedAt)))
+      .returning();
+
+    if (deletedProject.length === 0) {
+      return apiError(404, 'Project not found');
+    }
+
+    await recordAudit({
+      action: 'project.delete',
+      target: { type: 'project', id },
+      project,
+      before: project,
+      after: deletedProject[0],
+    });
+
+    return NextResponse.json(deletedProject[0]);
+  } catch (error) {
+    return handleApiError(error, 'Failed to delete project');
+  }
+}
@@ -0,0 +1,44 @@
+import { apiError, handleApiError, parseParams } from '@/lib/api';
+import { snapshotParams } from '@/lib/schemas/snapshots';
+import { requireProject } from '@/lib/session';
+import { findSnapshot, snapshotFilename } from '@/lib/snapshots';
+import { readArtifact } from '@/lib/storage';
+
+type RouteContext = { params: Promise<{ id: string; snapshotId: string }> };
+
+// GET /api/projects/[id]/snapshots/[snapshotId]/download - Download a completed archive
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId, snapshotId } = parseParams(
+      await params,
+      snapshotParams
+    );
+
+    const { project } = await requireProject(projectId);
+
+    const snapshot = await findSnapshot(projectId, snapshotId);
+
+    if (!snapshot) {
+      return apiError(404, 'Snapshot not found');
+    }
+
+    if (snapshot.status !== 'completed' || !snapshot.artifactKey) {
+      return apiError(
+        409,
+        `Snapshot is ${snapshot.status}, not ready for download`
+      );
+    }
+
+    return new Response(readArtifact(snapshot.artifactKey), {
+      headers: {
+        'Content-Type': 'application/gzip',
+        'Content-Disposition': `attachment; filename="${snapshotFilename(snapshot, project.name)}"`,
+        ...(snapshot.sizeBytes !== null && {
+          'Content-Length': String(snapshot.sizeBytes),
+        }),
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, 'Failed to download snapshot');
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { snapshots } from '@/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { apiError, handleApiError, parseParams } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { snapshotParams } from '@/lib/schemas/snapshots';
+import { requireProject } from '@/lib/session';
+import { findSnapshot, isSnapshotId } from '@/lib/snapshots';
+import { deleteArtifact } from '@/lib/storage';
+
+type RouteContext = { params: Promise<{ id: string; snapshotId: string }> };
+
+// GET /api/projects/[id]/snapshots/[snapshotId] - Get a snapshot's export status
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId, snapshotId } = parseParams(
+      await params,
+      snapshotParams
+    );
+
+    await requireProject(projectId);
+
+    const snapshot = await findSnapshot(projectId, snapshotId);
+
+    if (!snapshot) {
+      return apiError(404, 'Snapshot not found');
+    }
+
+    return NextResponse.json(snapshot);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch snapshot');
+  }
+}
+
+// DELETE /api/projects/[id]/snapshots/[snapshotId] - Delete a snapshot and its archive
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId, snapshotId } = parseParams(
+      await params,
+      snapshotParams
+    );
+
+    const { project } = await requireProject(projectId, {
+      permission: 'write',
+    });
+
+    const [snapshot] = isSnapshotId(snapshotId)
+      ? await db
+          .delete(snapshots)
+          .where(
+            and(
+              eq(snapshots.id, snapshotId),
+              eq(snapshots.projectId, projectId)
+            )
+          )
+          .returning()
+      : [];
+
+    if (!snapshot) {
+      return apiError(404, 'Snapshot not found');
+    }
+
+    if (snapshot.artifactKey) {
+      await deleteArtifact(snapshot.artifactKey);
+    }
+
+    await recordAudit({
+      action: 'snapshot.delete',
+      target: { type: 'snapshot', id: snapshot.id },
+      project,
+      before: snapshot,
+    });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to delete snapshot');
+  }
+}
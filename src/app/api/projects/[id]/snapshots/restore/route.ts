@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { apiError, handleApiError, parseParams } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { projectParams } from '@/lib/schemas/common';
+import { requireProject } from '@/lib/session';
+import { restoreSnapshot } from '@/lib/snapshots';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/projects/[id]/snapshots/restore - Restore a snapshot archive into this project
+// Send the .vdsnap.jsonl.gz archive as the raw body or as the `file` field of
+// a multipart form. Collections in the archive must not exist in the project.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId } = parseParams(await params, projectParams);
+
+    const { project } = await requireProject(projectId, {
+      permission: 'write',
+    });
+
+    let archive: ReadableStream<Uint8Array> | null = request.body;
+    if (
+      request.headers.get('content-type')?.startsWith('multipart/form-data')
+    ) {
+      const file = (await request.formData()).get('file');
+      archive = file instanceof File ? file.stream() : null;
+    }
+
+    if (!archive) {
+      return apiError(400, 'A snapshot archive is required');
+    }
+
+    const result = await restoreSnapshot(projectId, archive);
+
+    await recordAudit({
+      action: 'snapshot.restore',
+      target: { type: 'project', id: projectId },
+      project,
+      after: {
+        collections: result.collections.map(({ name, report }) => ({
+          name,
+          imported: report.imported,
+          failed: report.failed,
+        })),
+      },
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return handleApiError(error, 'Failed to restore snapshot');
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { snapshots } from '@/db/schema';
+import { desc, eq } from 'drizzle-orm';
+import { apiError, handleApiError, parseBody, parseParams } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { projectParams } from '@/lib/schemas/common';
+import { createSnapshotSchema } from '@/lib/schemas/snapshots';
+import { requireProject } from '@/lib/session';
+import { findCollection } from '@/lib/collections';
+import { startSnapshotExport } from '@/lib/snapshots';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/projects/[id]/snapshots - List the project's snapshot exports
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId } = parseParams(await params, projectParams);
+
+    await requireProject(projectId);
+
+    const projectSnapshots = await db
+      .select()
+      .from(snapshots)
+      .where(eq(snapshots.projectId, projectId))
+      .orderBy(desc(snapshots.createdAt));
+
+    return NextResponse.json(projectSnapshots);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch snapshots');
+  }
+}
+
+// POST /api/projects/[id]/snapshots - Export the project, or one collection
+// Body (optional): { collection }. The export runs as a background job
+// (returned as `jobId`); poll the snapshot until it is completed, then
+// download it.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id: projectId } = parseParams(await params, projectParams);
+
+    const { user, project } = await requireProject(projectId);
+
+    const { collection } = await parseBody(request, createSnapshotSchema, {
+      optional: true,
+    });
+
+    if (collection && !(await findCollection(projectId, collection))) {
+      return apiError(404, 'Collection not found');
+    }
+
+    const [snapshot] = await db
+      .insert(snapshots)
+      .values({
+        projectId,
+        collectionName: collection ?? null,
+        createdBy: user?.id ?? null,
+      })
+      .returning();
+
+    const job = await startSnapshotExport(snapshot);
+
+    await recordAudit({
+      action: 'snapshot.create',
+      target: { type: 'snapshot', id: snapshot.id },
+      project,
+      after: { ...snapshot, jobId: job.id },
+    });
+
+    return NextResponse.json({ ...snapshot, jobId: job.id }, { status: 202 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to create snapshot');
+  }
+}
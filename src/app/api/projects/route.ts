@@ -1,63 +1,59 @@
 import { NextResponse } from 'next/server';
 import { db } from '@/db';
-import { projects, users } from '@/db/schema';
+import { projects } from '@/db/schema';
 import { eq } from 'drizzle-orm';
+import { apiError, handleApiError, parseBody, parseQuery } from '@/lib/api';
+import { recordAudit } from '@/lib/audit/record';
+import { listProjects } from '@/lib/projects';
+import { createProjectSchema, listProjectsQuery } from '@/lib/schemas/projects';
+import {
+  accessibleBy,
+  requireCaller,
+  requireOrganization,
+} from '@/lib/session';
 
-// GET /api/projects - Get all projects with user information
-export async function GET() {
+// GET /api/projects - List the non-deleted projects the caller can access
+// A page of `limit` (default 20, max 100) projects plus `pageInfo` with the
+// total count and next/prev cursors; pass one back as ?cursor= to move.
+// Filters: organizationId=<id>|personal, owner=<userId>, isActive,
+// createdAfter/createdBefore, metadataKey=<key> and q (full-text search on
+// name and description). Sort with ?sort=createdAt|updatedAt|name and
+// ?order=asc|desc. An API key only sees its own project.
+export async function GET(request: Request) {
   try {
-    const allProjects = await db
-      .select({
-        id: projects.id,
-        name: projects.name,
-        description: projects.description,
-        isActive: projects.isActive,
-        metadata: projects.metadata,
-        createdAt: projects.createdAt,
-        user: {
-          id: users.id,
-          name: users.name,
-          email: users.email,
-        },
-      })
-      .from(projects)
-      .leftJoin(users, eq(projects.userId, users.id));
+    const caller = await requireCaller();
+    const query = parseQuery(request, listProjectsQuery);
 
-    return NextResponse.json(allProjects);
-  } catch (error) {
-    console.error('Failed to fetch projects:', error);
-    return NextResponse.json(
-      { error: 'Failed to fetch projects' },
-      { status: 500 }
+    const page = await listProjects(
+      caller.type === 'apiKey'
+        ? eq(projects.id, caller.apiKey.projectId)
+        : accessibleBy(caller.user.id),
+      query
     );
+
+    return NextResponse.json(page);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch projects');
   }
 }
 
-// POST /api/projects - Create a new project
+// POST /api/projects - Create a personal project, or an organization project
+// when organizationId is given (requires the editor role or above)
 export async function POST(request: Request) {
   try {
-    const body = await request.json();
-    const { name, description, userId, metadata } = body;
-
-    if (!name || !userId) {
-      return NextResponse.json(
-        { error: 'Name and userId are required' },
-        { status: 400 }
-      );
+    const caller = await requireCaller();
+    if (caller.type === 'apiKey') {
+      return apiError(403, 'API keys cannot create projects');
     }
+    const currentUser = caller.user;
 
-    // Check if userId exists
-    const userExists = await db
-      .select({ id: users.id })
-      .from(users)
-      .where(eq(users.id, userId))
-      .limit(1);
+    const { name, description, metadata, organizationId } = await parseBody(
+      request,
+      createProjectSchema
+    );
 
-    if (userExists.length === 0) {
-      return NextResponse.json(
-        { error: 'Provided userId does not exist' },
-        { status: 400 }
-      );
+    if (organizationId) {
+      await requireOrganization(organizationId, 'editor');
     }
 
     const newProject = await db
@@ -65,17 +61,21 @@ export async function POST(request: Request) {
       .values({
         name,
         description,
-        userId,
+        userId: currentUser.id,
+        organizationId: organizationId ?? null,
         metadata,
       })
       .returning();
 
+    await recordAudit({
+      action: 'project.create',
+      target: { type: 'project', id: newProject[0].id },
+      project: newProject[0],
+      after: newProject[0],
+    });
+
     return NextResponse.json(newProject[0], { status: 201 });
   } catch (error) {
-    console.error('Failed to create project:', error);
-    return NextResponse.json(
-      { error: 'Failed to create project' },
-      { status: 500 }
-    );
+    return handleApiError(error, 'Failed to create project');
   }
-}
\ No newline at end of file
+}
@@ -1,49 +0,0 @@
-import { NextResponse } from 'next/server';
-import { db } from '@/db';
-import { users } from '@/db/schema';
-import { eq } from 'drizzle-orm';
-
-// GET /api/users - Get all users
-export async function GET() {
-  try {
-    const allUsers = await db.select().from(users);
-    return NextResponse.json(allUsers);
-  } catch (error) {
-    console.error('Failed to fetch users:', error);
-    return NextResponse.json(
-      { error: 'Failed to fetch users' },
-      { status: 500 }
-    );
-  }
-}
-
-// POST /api/users - Create a new user
-export async function POST(request: Request) {
-  try {
-    const body = await request.json();
-    const { name, email } = body;
-
-    if (!name || !email) {
-      return NextResponse.json(
-        { error: 'Name and email are required' },
-        { status: 400 }
-      );
-    }
-
-    const newUser = await db
-      .insert(users)
-      .values({
-        name,
-        email,
-      })
-      .returning();
-
-    return NextResponse.json(newUser[0], { status: 201 });
-  } catch (error) {
-    console.error('Failed to create user:', error);
-    return NextResponse.json(
-      { error: 'Failed to create user' },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
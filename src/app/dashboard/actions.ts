@@ -0,0 +1,44 @@
+"use server";
+
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { revalidatePath } from "next/cache";
+import { recordAudit } from "@/lib/audit/record";
+import { requireOrganization, requireUser } from "@/lib/session";
+import {
+  ACTIVE_ORGANIZATION_COOKIE,
+  acceptInvitation as acceptOrganizationInvitation,
+} from "@/lib/organizations";
+
+/** Switches the dashboard between personal projects (`null`) and an organization. */
+export async function setActiveOrganization(organizationId: number | null) {
+  const cookieStore = await cookies();
+
+  if (organizationId === null) {
+    await requireUser();
+    cookieStore.delete(ACTIVE_ORGANIZATION_COOKIE);
+  } else {
+    await requireOrganization(organizationId);
+    cookieStore.set(ACTIVE_ORGANIZATION_COOKIE, String(organizationId), {
+      httpOnly: true,
+      sameSite: "lax",
+      path: "/",
+    });
+  }
+
+  revalidatePath("/dashboard", "layout");
+}
+
+/** Accepts an invitation and opens the organization in the dashboard. */
+export async function acceptInvitation(token: string) {
+  const currentUser = await requireUser();
+  const membership = await acceptOrganizationInvitation(token, currentUser);
+  await recordAudit({
+    action: "invitation.accept",
+    target: { type: "user", id: currentUser.id },
+    organizationId: membership.organizationId,
+    after: membership,
+  });
+  await setActiveOrganization(membership.organizationId);
+  redirect("/dashboard");
+}
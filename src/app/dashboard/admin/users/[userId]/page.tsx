@@ -0,0 +1,201 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ArrowLeftIcon } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  RevokeSessionButton,
+  UserAdminActions,
+} from "@/components/user-admin-actions";
+import { ApiError } from "@/lib/api-errors";
+import { AUDIT_ACTIONS, type AuditAction } from "@/lib/audit/labels";
+import { auditScope, listAuditLogs } from "@/lib/audit/list";
+import { isAdmin } from "@/lib/permissions";
+import { listAuditQuery } from "@/lib/schemas/audit";
+import { requireAdminForPage } from "@/lib/session";
+import { getUserDetail } from "@/lib/users";
+
+const HISTORY_SIZE = 20;
+
+const PROVIDER_NAMES: Record<string, string> = {
+  credential: "Email and password",
+};
+
+export default async function AdminUserPage({
+  params,
+}: {
+  params: Promise<{ userId: string }>;
+}) {
+  const admin = await requireAdminForPage();
+  const { userId } = await params;
+
+  const user = await getUserDetail(userId).catch((error) => {
+    if (error instanceof ApiError && error.status === 404) notFound();
+    throw error;
+  });
+  const history = await listAuditLogs(
+    auditScope({ userId }),
+    listAuditQuery.parse({ limit: HISTORY_SIZE }),
+  );
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6">
+      <Button asChild variant="ghost" size="sm">
+        <Link href="/dashboard/admin/users">
+          <ArrowLeftIcon />
+          All users
+        </Link>
+      </Button>
+      <div className="space-y-3">
+        <div>
+          <h1 className="flex items-center gap-2 text-2xl font-bold tracking-tight">
+            {user.name}
+            {isAdmin(user) && <Badge>admin</Badge>}
+            {user.banned && <Badge variant="destructive">banned</Badge>}
+          </h1>
+          <p className="flex items-center gap-2 text-muted-foreground">
+            {user.email}
+            <Badge variant={user.emailVerified ? "secondary" : "outline"}>
+              {user.emailVerified ? "verified" : "unverified"}
+            </Badge>
+          </p>
+        </div>
+        {user.banned && (
+          <p className="text-sm text-destructive">
+            Banned{user.banReason && `: ${user.banReason}`}.{" "}
+            {user.banExpires
+              ? `The ban ends ${user.banExpires.toLocaleString()}.`
+              : "The ban lasts until lifted."}
+          </p>
+        )}
+        <UserAdminActions
+          user={{
+            id: user.id,
+            name: user.name,
+            email: user.email,
+            isAdmin: isAdmin(user),
+            banned: user.banned ?? false,
+            hasPassword: user.accounts.some((account) => account.hasPassword),
+          }}
+          isSelf={user.id === admin.id}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Sign-in methods</CardTitle>
+          <CardDescription>
+            Member since {user.createdAt.toLocaleDateString()}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {user.accounts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No linked accounts.</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {user.accounts.map((account) => (
+                <li key={account.id} className="flex items-center gap-2">
+                  {PROVIDER_NAMES[account.providerId] ?? account.providerId}
+                  {account.providerId === "credential" &&
+                    !account.hasPassword && (
+                      <Badge variant="outline">reset pending</Badge>
+                    )}
+                  <span className="text-muted-foreground">
+                    linked {account.createdAt.toLocaleDateString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="pb-0">
+        <CardHeader>
+          <CardTitle>Active sessions</CardTitle>
+        </CardHeader>
+        <CardContent className="px-0">
+          {user.sessions.length === 0 ? (
+            <p className="px-6 pb-6 text-sm text-muted-foreground">
+              Not signed in anywhere.
+            </p>
+          ) : (
+            <table className="w-full text-left text-sm">
+              <thead className="border-b text-muted-foreground">
+                <tr>
+                  <th className="px-6 py-2 font-medium">Device</th>
+                  <th className="px-6 py-2 font-medium">Started</th>
+                  <th className="px-6 py-2 font-medium">Expires</th>
+                  <th className="px-6 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {user.sessions.map((session) => (
+                  <tr key={session.id} className="border-b last:border-0">
+                    <td className="px-6 py-2">
+                      <span className="flex items-center gap-2">
+                        {session.ipAddress ?? "Unknown address"}
+                        {session.impersonatedBy && (
+                          <Badge variant="outline">impersonated</Badge>
+                        )}
+                      </span>
+                      <span className="block max-w-xs truncate text-xs text-muted-foreground">
+                        {session.userAgent ?? "Unknown user agent"}
+                      </span>
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-2">
+                      {session.createdAt.toLocaleString()}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-2">
+                      {session.expiresAt.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-2">
+                      <RevokeSessionButton
+                        userId={user.id}
+                        sessionId={session.id}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Account history</CardTitle>
+          <CardDescription>
+            The latest admin actions on this account, newest first.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {history.data.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing yet.</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {history.data.map((entry) => (
+                <li key={entry.id} className="flex flex-wrap gap-x-2">
+                  <span className="font-medium">
+                    {AUDIT_ACTIONS[entry.action as AuditAction] ?? entry.action}
+                  </span>
+                  <span className="text-muted-foreground">
+                    by {entry.actorLabel} · {entry.createdAt.toLocaleString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ApiError } from "@/lib/api-errors";
+import { isAdmin } from "@/lib/permissions";
+import { requireAdminForPage } from "@/lib/session";
+import { listUsers } from "@/lib/users";
+import { USER_ROLES, type UserRole } from "@/lib/schemas/users";
+
+const PAGE_SIZE = 25;
+
+interface UsersSearchParams {
+  q?: string;
+  role?: string;
+  status?: string;
+  cursor?: string;
+}
+
+type StatusFilter = "all" | "active" | "banned";
+
+const selectClassName =
+  "border-input h-9 rounded-md border bg-transparent px-3 text-sm shadow-xs";
+
+export default async function AdminUsersPage({
+  searchParams,
+}: {
+  searchParams: Promise<UsersSearchParams>;
+}) {
+  await requireAdminForPage();
+
+  const params = await searchParams;
+  const query = params.q?.trim() ?? "";
+  const role = USER_ROLES.includes(params.role as UserRole)
+    ? (params.role as UserRole)
+    : undefined;
+  const status: StatusFilter =
+    params.status === "active" || params.status === "banned"
+      ? params.status
+      : "all";
+
+  const listQuery = {
+    sort: "name" as const,
+    limit: PAGE_SIZE,
+    q: query || undefined,
+    role,
+    banned: status === "all" ? undefined : status === "banned",
+  };
+  const { data: users, pageInfo } = await listUsers({
+    ...listQuery,
+    cursor: params.cursor,
+  }).catch((error) => {
+    // A stale or hand-edited cursor falls back to the first page.
+    if (error instanceof ApiError && error.status === 400) {
+      return listUsers(listQuery);
+    }
+    throw error;
+  });
+
+  const pageHref = (cursor: string) => {
+    const next = new URLSearchParams();
+    if (query) next.set("q", query);
+    if (role) next.set("role", role);
+    if (status !== "all") next.set("status", status);
+    next.set("cursor", cursor);
+    return `/dashboard/admin/users?${next}`;
+  };
+
+  return (
+    <div className="mx-auto max-w-5xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Users</h1>
+        <p className="text-muted-foreground">
+          Everyone with an account. Only admins can see this page.
+        </p>
+      </div>
+      <form className="flex flex-wrap gap-2">
+        <Input
+          name="q"
+          placeholder="Search by name or email"
+          defaultValue={query}
+          className="max-w-xs"
+        />
+        <select
+          name="role"
+          defaultValue={role ?? ""}
+          className={selectClassName}
+          aria-label="Role"
+        >
+          <option value="">All roles</option>
+          <option value="user">Users</option>
+          <option value="admin">Admins</option>
+        </select>
+        <select
+          name="status"
+          defaultValue={status}
+          className={selectClassName}
+          aria-label="Status"
+        >
+          <option value="all">Any status</option>
+          <option value="active">Active</option>
+          <option value="banned">Banned</option>
+        </select>
+        <Button type="submit" variant="secondary">
+          Apply
+        </Button>
+      </form>
+
+      <Card className="py-0">
+        <CardContent className="px-0">
+          {users.length === 0 ? (
+            <p className="p-6 text-sm text-muted-foreground">
+              No users match these filters.
+            </p>
+          ) : (
+            <table className="w-full text-left text-sm">
+              <thead className="border-b text-muted-foreground">
+                <tr>
+                  <th className="px-4 py-2 font-medium">User</th>
+                  <th className="px-4 py-2 font-medium">Status</th>
+                  <th className="px-4 py-2 font-medium">Joined</th>
+                </tr>
+              </thead>
+              <tbody>
+                {users.map((user) => (
+                  <tr key={user.id} className="border-b last:border-0">
+                    <td className="px-4 py-2">
+                      <Link
+                        href={`/dashboard/admin/users/${user.id}`}
+                        className="font-medium hover:underline"
+                      >
+                        {user.name}
+                      </Link>
+                      <span className="block text-muted-foreground">
+                        {user.email}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2">
+                      <span className="flex flex-wrap gap-1">
+                        {isAdmin(user) && <Badge>admin</Badge>}
+                        {user.banned && (
+                          <Badge variant="destructive">banned</Badge>
+                        )}
+                        {!user.emailVerified && (
+                          <Badge variant="outline">unverified</Badge>
+                        )}
+                      </span>
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-2">
+                      {user.createdAt.toLocaleDateString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">
+          {pageInfo.total.toLocaleString()} users
+        </span>
+        <div className="flex gap-2">
+          {pageInfo.prevCursor ? (
+            <Button asChild variant="outline" size="sm">
+              <Link href={pageHref(pageInfo.prevCursor)}>Previous</Link>
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" disabled>
+              Previous
+            </Button>
+          )}
+          {pageInfo.nextCursor ? (
+            <Button asChild variant="outline" size="sm">
+              <Link href={pageHref(pageInfo.nextCursor)}>Next</Link>
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" disabled>
+              Next
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
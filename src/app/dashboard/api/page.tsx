@@ -0,0 +1,86 @@
+import Link from "next/link";
+import {
+  ApiReference,
+  type ReferenceOperation,
+  type ReferenceParameter,
+} from "@/components/api-reference";
+import { buildOpenApiDocument } from "@/lib/openapi/document";
+import { requireUser } from "@/lib/session";
+
+type JsonSchema = Record<string, unknown>;
+
+interface DocumentOperation {
+  summary: string;
+  description?: string;
+  tags: string[];
+  security: Record<string, string[]>[];
+  parameters: ReferenceParameter[];
+  requestBody?: { content: Record<string, { schema: JsonSchema }> };
+  responses: Record<
+    string,
+    { content?: Record<string, { schema: JsonSchema }> }
+  >;
+}
+
+/** Flattens the document's paths into the list the reference renders. */
+function referenceOperations(
+  paths: Record<string, Record<string, JsonSchema>>,
+): ReferenceOperation[] {
+  return Object.entries(paths).flatMap(([path, methods]) =>
+    Object.entries(methods).map(([method, raw]) => {
+      const operation = raw as unknown as DocumentOperation;
+      const [status, success] = Object.entries(operation.responses)[0];
+      const [contentType, content] =
+        Object.entries(success.content ?? {})[0] ?? [];
+
+      return {
+        method: method.toUpperCase(),
+        path,
+        summary: operation.summary,
+        description: operation.description,
+        tag: operation.tags[0],
+        apiKey: operation.security.some((scheme) => "apiKey" in scheme),
+        parameters: operation.parameters,
+        requestBody: operation.requestBody
+          ? Object.fromEntries(
+              Object.entries(operation.requestBody.content).map(
+                ([type, { schema }]) => [type, schema],
+              ),
+            )
+          : null,
+        status,
+        response:
+          contentType === undefined
+            ? null
+            : contentType === "application/json"
+              ? content.schema
+              : contentType,
+      };
+    }),
+  );
+}
+
+export default async function ApiReferencePage() {
+  await requireUser();
+  const spec = buildOpenApiDocument();
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">API reference</h1>
+        <p className="text-muted-foreground">
+          Every route of the dashboard API. The same description is served as
+          OpenAPI 3.1 at{" "}
+          <Link href="/api/openapi.json" className="underline">
+            /api/openapi.json
+          </Link>
+          .
+        </p>
+      </div>
+      <ApiReference
+        operations={referenceOperations(spec.paths)}
+        schemas={spec.components.schemas}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import Link from "next/link";
+import { and, asc, count, eq, isNull } from "drizzle-orm";
+import { db } from "@/db";
+import { collectionItems, collections, projects } from "@/db/schema";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { accessibleBy, requireUser } from "@/lib/session";
+import { getActiveOrganizationId } from "@/lib/organizations";
+
+export default async function AllCollectionsPage() {
+  const currentUser = await requireUser();
+  const activeOrganizationId = await getActiveOrganizationId(currentUser.id);
+
+  const rows = await db
+    .select({
+      collection: collections,
+      project: { id: projects.id, name: projects.name },
+      itemCount: count(collectionItems.id),
+    })
+    .from(collections)
+    .innerJoin(projects, eq(collections.projectId, projects.id))
+    .leftJoin(collectionItems, eq(collectionItems.collectionId, collections.id))
+    .where(
+      and(
+        accessibleBy(currentUser.id),
+        isNull(projects.deletedAt),
+        activeOrganizationId === null
+          ? isNull(projects.organizationId)
+          : eq(projects.organizationId, activeOrganizationId),
+      ),
+    )
+    .groupBy(collections.id, projects.id)
+    .orderBy(asc(projects.name), asc(collections.name));
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6">
+      <h1 className="text-2xl font-bold tracking-tight">Collections</h1>
+      {rows.length === 0 ? (
+        <p className="text-muted-foreground">No collections yet.</p>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          {rows.map(({ collection, project, itemCount }) => (
+            <Link
+              key={collection.id}
+              href={`/dashboard/projects/${project.id}/collections`}
+            >
+              <Card className="h-full transition-colors hover:bg-accent/50">
+                <CardHeader>
+                  <CardTitle>{collection.name}</CardTitle>
+                  <CardDescription className="flex flex-wrap gap-2">
+                    <span>{project.name}</span>
+                    <Badge variant="outline">{collection.dimension}d</Badge>
+                    <Badge variant="outline">{collection.metric}</Badge>
+                    <Badge variant="secondary">
+                      {itemCount.toLocaleString()} vectors
+                    </Badge>
+                  </CardDescription>
+                </CardHeader>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { desc, eq } from "drizzle-orm";
+import { db } from "@/db";
+import { jobs, projects } from "@/db/schema";
+import { JobList } from "@/components/job-list";
+import { accessibleBy, requireUser } from "@/lib/session";
+
+export default async function JobsPage() {
+  const currentUser = await requireUser();
+
+  const recentJobs = await db
+    .select({
+      id: jobs.id,
+      projectId: jobs.projectId,
+      projectName: projects.name,
+      type: jobs.type,
+      status: jobs.status,
+      progress: jobs.progress,
+      attempts: jobs.attempts,
+      maxAttempts: jobs.maxAttempts,
+      runAt: jobs.runAt,
+      error: jobs.error,
+      cancelRequestedAt: jobs.cancelRequestedAt,
+      createdAt: jobs.createdAt,
+      finishedAt: jobs.finishedAt,
+    })
+    .from(jobs)
+    .innerJoin(projects, eq(jobs.projectId, projects.id))
+    .where(accessibleBy(currentUser.id))
+    .orderBy(desc(jobs.createdAt))
+    .limit(100);
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Jobs</h1>
+        <p className="text-muted-foreground">
+          Imports, exports and index builds running in the background.
+        </p>
+      </div>
+      <JobList
+        initialJobs={recentJobs.map((job) => ({
+          ...job,
+          runAt: job.runAt.toISOString(),
+          cancelRequestedAt: job.cancelRequestedAt?.toISOString() ?? null,
+          createdAt: job.createdAt.toISOString(),
+          finishedAt: job.finishedAt?.toISOString() ?? null,
+        }))}
+      />
+    </div>
+  );
+}
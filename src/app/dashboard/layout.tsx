@@ -0,0 +1,58 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { DashboardNav } from "@/components/dashboard-nav";
+import { ImpersonationBanner } from "@/components/impersonation-banner";
+import { OrgSwitcher } from "@/components/org-switcher";
+import { UserMenu } from "@/components/user-menu";
+import { isAdmin } from "@/lib/permissions";
+import { getSession } from "@/lib/session";
+import {
+  getActiveOrganizationId,
+  listOrganizations,
+} from "@/lib/organizations";
+
+export default async function DashboardLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  // The middleware only checks for a session cookie; this validates it.
+  const session = await getSession();
+  if (!session) {
+    redirect("/signin?next=/dashboard");
+  }
+
+  const [organizations, activeOrganizationId] = await Promise.all([
+    listOrganizations(session.user.id),
+    getActiveOrganizationId(session.user.id),
+  ]);
+
+  return (
+    <div className="flex min-h-screen bg-background">
+      <aside className="flex w-16 shrink-0 flex-col gap-6 border-r p-3 md:w-60 md:p-4">
+        <Link href="/dashboard" className="hidden px-3 font-semibold md:block">
+          Vector Dashboard
+        </Link>
+        <DashboardNav isAdmin={isAdmin(session.user)} />
+      </aside>
+      <div className="flex min-w-0 flex-1 flex-col">
+        {session.session.impersonatedBy && (
+          <ImpersonationBanner
+            user={{ name: session.user.name, email: session.user.email }}
+            expiresAt={session.session.expiresAt.toISOString()}
+          />
+        )}
+        <header className="flex items-center justify-between border-b px-6 py-3">
+          <OrgSwitcher
+            organizations={organizations}
+            activeOrganizationId={activeOrganizationId}
+          />
+          <UserMenu
+            user={{ name: session.user.name, email: session.user.email }}
+          />
+        </header>
+        <main className="flex-1 p-6">{children}</main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { asc, eq } from "drizzle-orm";
+import { db } from "@/db";
+import { projects } from "@/db/schema";
+import { AuditLog, type AuditFilterValues } from "@/components/audit-log";
+import { auditScope, loadAuditLog } from "@/lib/audit/list";
+import { requireOrganizationForPage } from "@/lib/session";
+
+const PAGE_SIZE = 50;
+
+export default async function OrganizationAuditPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<AuditFilterValues & { cursor?: string }>;
+}) {
+  const { organization } = await requireOrganizationForPage(
+    (await params).id,
+    "admin",
+  );
+  const { cursor, ...filters } = await searchParams;
+
+  const [{ entries, pageInfo, error }, organizationProjects] =
+    await Promise.all([
+      loadAuditLog(
+        auditScope({ organizationId: organization.id }),
+        { ...filters, cursor },
+        PAGE_SIZE,
+      ),
+      // Deleted projects included, so their history stays labelled.
+      db
+        .select({ id: projects.id, name: projects.name })
+        .from(projects)
+        .where(eq(projects.organizationId, organization.id))
+        .orderBy(asc(projects.name)),
+    ]);
+
+  return (
+    <div className="mx-auto max-w-5xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Audit log</h1>
+        <p className="text-muted-foreground">
+          Changes to {organization.name}, its members and all of its projects.
+        </p>
+      </div>
+      <AuditLog
+        entries={entries}
+        pageInfo={pageInfo}
+        filters={filters}
+        basePath={`/dashboard/organizations/${organization.id}/audit`}
+        exportPath={`/api/organizations/${organization.id}/audit/export`}
+        projects={organizationProjects}
+        error={error}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ProjectFormDialog } from "@/components/project-form-dialog";
+import { ApiError } from "@/lib/api-errors";
+import { accessibleBy, requireUser } from "@/lib/session";
+import { getActiveOrganizationId } from "@/lib/organizations";
+import { listProjects } from "@/lib/projects";
+import type { ProjectSort } from "@/lib/schemas/projects";
+
+const PAGE_SIZE = 12;
+
+const SORT_ORDERS = {
+  newest: { sort: "createdAt", order: "desc" },
+  oldest: { sort: "createdAt", order: "asc" },
+  name: { sort: "name", order: "asc" },
+  updated: { sort: "updatedAt", order: "desc" },
+} satisfies Record<string, { sort: ProjectSort; order: "asc" | "desc" }>;
+
+type SortOrder = keyof typeof SORT_ORDERS;
+type StatusFilter = "active" | "archived" | "all";
+
+interface ProjectsSearchParams {
+  q?: string;
+  status?: string;
+  sort?: string;
+  cursor?: string;
+}
+
+const selectClassName =
+  "border-input h-9 rounded-md border bg-transparent px-3 text-sm shadow-xs";
+
+export default async function DashboardPage({
+  searchParams,
+}: {
+  searchParams: Promise<ProjectsSearchParams>;
+}) {
+  const params = await searchParams;
+  const query = params.q?.trim() ?? "";
+  const status: StatusFilter =
+    params.status === "archived" || params.status === "all"
+      ? params.status
+      : "active";
+  const sort: SortOrder =
+    params.sort && params.sort in SORT_ORDERS
+      ? (params.sort as SortOrder)
+      : "newest";
+
+  const currentUser = await requireUser();
+  const activeOrganizationId = await getActiveOrganizationId(currentUser.id);
+
+  const listQuery = {
+    ...SORT_ORDERS[sort],
+    limit: PAGE_SIZE,
+    q: query || undefined,
+    organizationId: activeOrganizationId ?? ("personal" as const),
+    isActive: status === "all" ? undefined : status === "active",
+  };
+  const page = await listProjects(accessibleBy(currentUser.id), {
+    ...listQuery,
+    cursor: params.cursor,
+  }).catch((error) => {
+    // A stale or hand-edited cursor falls back to the first page.
+    if (error instanceof ApiError && error.status === 400) {
+      return listProjects(accessibleBy(currentUser.id), listQuery);
+    }
+    throw error;
+  });
+  const { data: visibleProjects, pageInfo } = page;
+
+  const pageHref = (cursor: string) => {
+    const next = new URLSearchParams();
+    if (query) next.set("q", query);
+    if (status !== "active") next.set("status", status);
+    if (sort !== "newest") next.set("sort", sort);
+    next.set("cursor", cursor);
+    return `/dashboard?${next}`;
+  };
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold tracking-tight">Projects</h1>
+        <ProjectFormDialog />
+      </div>
+      <form className="flex flex-wrap gap-2">
+        <Input
+          name="q"
+          placeholder="Search by name or description"
+          defaultValue={query}
+          className="max-w-xs"
+        />
+        <select
+          name="status"
+          defaultValue={status}
+          className={selectClassName}
+          aria-label="Status"
+        >
+          <option value="active">Active</option>
+          <option value="archived">Archived</option>
+          <option value="all">All</option>
+        </select>
+        <select
+          name="sort"
+          defaultValue={sort}
+          className={selectClassName}
+          aria-label="Sort by"
+        >
+          <option value="newest">Newest first</option>
+          <option value="oldest">Oldest first</option>
+          <option value="name">Name</option>
+          <option value="updated">Recently updated</option>
+        </select>
+        <Button type="submit" variant="secondary">
+          Apply
+        </Button>
+      </form>
+      {visibleProjects.length === 0 ? (
+        <p className="text-muted-foreground">
+          {query || status !== "active"
+            ? "No projects match these filters."
+            : "No projects yet."}
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          {visibleProjects.map((project) => (
+            <Link key={project.id} href={`/dashboard/projects/${project.id}`}>
+              <Card className="h-full transition-colors hover:bg-accent/50">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    {project.name}
+                    {!project.isActive && (
+                      <Badge variant="secondary">Archived</Badge>
+                    )}
+                  </CardTitle>
+                  {project.description && (
+                    <CardDescription className="line-clamp-2">
+                      {project.description}
+                    </CardDescription>
+                  )}
+                </CardHeader>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+      {(pageInfo.nextCursor || pageInfo.prevCursor) && (
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">
+            {pageInfo.total.toLocaleString()} projects
+          </span>
+          <div className="flex gap-2">
+            {pageInfo.prevCursor ? (
+              <Button asChild variant="outline" size="sm">
+                <Link href={pageHref(pageInfo.prevCursor)}>Previous</Link>
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" disabled>
+                Previous
+              </Button>
+            )}
+            {pageInfo.nextCursor ? (
+              <Button asChild variant="outline" size="sm">
+                <Link href={pageHref(pageInfo.nextCursor)}>Next</Link>
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" disabled>
+                Next
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { desc, eq } from "drizzle-orm";
+import { db } from "@/db";
+import { apiKeys } from "@/db/schema";
+import { ApiKeyManager } from "@/components/api-key-manager";
+import { apiKeyColumns } from "@/lib/api-keys";
+import { requireProjectForPage } from "@/lib/session";
+
+export default async function ApiKeysPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { project } = await requireProjectForPage((await params).id, {
+    permission: "admin",
+  });
+
+  const keys = await db
+    .select(apiKeyColumns)
+    .from(apiKeys)
+    .where(eq(apiKeys.projectId, project.id))
+    .orderBy(desc(apiKeys.createdAt));
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">API keys</h1>
+        <p className="text-muted-foreground">{project.name}</p>
+      </div>
+      <ApiKeyManager
+        projectId={project.id}
+        initialKeys={keys.map((key) => ({
+          id: key.id,
+          name: key.name,
+          scope: key.scope,
+          prefix: key.prefix,
+          lastUsedAt: key.lastUsedAt?.toISOString() ?? null,
+          revokedAt: key.revokedAt?.toISOString() ?? null,
+          createdAt: key.createdAt.toISOString(),
+        }))}
+      />
+    </div>
+  );
+}
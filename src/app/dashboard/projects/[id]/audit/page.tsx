@@ -0,0 +1,43 @@
+import { AuditLog, type AuditFilterValues } from "@/components/audit-log";
+import { auditScope, loadAuditLog } from "@/lib/audit/list";
+import { requireProjectForPage } from "@/lib/session";
+
+const PAGE_SIZE = 50;
+
+export default async function ProjectAuditPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<AuditFilterValues & { cursor?: string }>;
+}) {
+  const { project } = await requireProjectForPage((await params).id, {
+    permission: "admin",
+  });
+  const { cursor, ...filters } = await searchParams;
+
+  const { entries, pageInfo, error } = await loadAuditLog(
+    auditScope({ projectId: project.id }),
+    { ...filters, cursor },
+    PAGE_SIZE,
+  );
+
+  return (
+    <div className="mx-auto max-w-5xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Audit log</h1>
+        <p className="text-muted-foreground">
+          Every change to {project.name}, its keys, collections and vectors.
+        </p>
+      </div>
+      <AuditLog
+        entries={entries}
+        pageInfo={pageInfo}
+        filters={filters}
+        basePath={`/dashboard/projects/${project.id}/audit`}
+        exportPath={`/api/projects/${project.id}/audit/export`}
+        error={error}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { notFound } from "next/navigation";
+import { ProjectionExplorer } from "@/components/projection-explorer";
+import { findCollection } from "@/lib/collections";
+import { can } from "@/lib/permissions";
+import {
+  DEFAULT_SAMPLE_SIZE,
+  describeProjection,
+  findProjection,
+  MAX_SAMPLE_SIZE,
+  MAX_TSNE_SAMPLE_SIZE,
+} from "@/lib/projections";
+import { requireProjectForPage } from "@/lib/session";
+
+export default async function ExplorerPage({
+  params,
+}: {
+  params: Promise<{ id: string; name: string }>;
+}) {
+  const { id, name } = await params;
+  const { project, role } = await requireProjectForPage(id);
+  const collection = await findCollection(project.id, name);
+  if (!collection) notFound();
+
+  const projection = await findProjection(
+    collection,
+    "pca",
+    DEFAULT_SAMPLE_SIZE,
+  );
+  const initialProjection =
+    projection && (await describeProjection(collection, projection));
+
+  return (
+    <div className="mx-auto max-w-5xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">
+          Embedding explorer
+        </h1>
+        <p className="text-muted-foreground">
+          {project.name} · {collection.name}
+        </p>
+      </div>
+      <ProjectionExplorer
+        projectId={project.id}
+        collection={{ name: collection.name, version: collection.version }}
+        initialProjection={
+          initialProjection && {
+            ...initialProjection,
+            computedAt: initialProjection.computedAt.toISOString(),
+          }
+        }
+        limits={{
+          defaultSampleSize: DEFAULT_SAMPLE_SIZE,
+          maxSampleSize: MAX_SAMPLE_SIZE,
+          maxTsneSampleSize: MAX_TSNE_SAMPLE_SIZE,
+        }}
+        canWrite={can(role, "write")}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { notFound } from "next/navigation";
+import { asc, desc, eq } from "drizzle-orm";
+import { db } from "@/db";
+import { collections, savedQueries, type QueryMode } from "@/db/schema";
+import { QueryPlayground } from "@/components/query-playground";
+import { findCollection } from "@/lib/collections";
+import { can } from "@/lib/permissions";
+import { requireProjectForPage } from "@/lib/session";
+
+/** The query in `?q=`, if it is a JSON object. */
+function parseSharedQuery(value: string | undefined) {
+  if (!value) return null;
+  try {
+    const query: unknown = JSON.parse(value);
+    return typeof query === "object" && query !== null && !Array.isArray(query)
+      ? (query as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export default async function PlaygroundPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string; name: string }>;
+  searchParams: Promise<{ q?: string; mode?: string }>;
+}) {
+  const { id, name } = await params;
+  const { project, role } = await requireProjectForPage(id);
+  const collection = await findCollection(project.id, name);
+  if (!collection) notFound();
+
+  const { q, mode } = await searchParams;
+  const [names, saved] = await Promise.all([
+    db
+      .select({ name: collections.name })
+      .from(collections)
+      .where(eq(collections.projectId, project.id))
+      .orderBy(asc(collections.name)),
+    db
+      .select()
+      .from(savedQueries)
+      .where(eq(savedQueries.collectionId, collection.id))
+      .orderBy(desc(savedQueries.createdAt)),
+  ]);
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Query playground</h1>
+        <p className="text-muted-foreground">
+          {project.name} · {collection.name}
+        </p>
+      </div>
+      <QueryPlayground
+        projectId={project.id}
+        collection={{
+          name: collection.name,
+          dimension: collection.dimension,
+          metric: collection.metric,
+          canEmbed: collection.embedding !== null,
+        }}
+        collections={names.map((row) => row.name)}
+        savedQueries={saved.map((query) => ({
+          id: query.id,
+          name: query.name,
+          mode: query.mode,
+          query: query.query,
+          createdAt: query.createdAt.toISOString(),
+        }))}
+        initialMode={(mode === "hybrid" ? mode : "vector") satisfies QueryMode}
+        initialQuery={parseSharedQuery(q)}
+        canWrite={can(role, "write")}
+      />
+    </div>
+  );
+}
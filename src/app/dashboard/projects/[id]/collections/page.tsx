@@ -0,0 +1,102 @@
+import Link from "next/link";
+import { asc, count, eq } from "drizzle-orm";
+import { db } from "@/db";
+import { collectionItems, collections } from "@/db/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { IndexStatus } from "@/components/index-status";
+import { ImportVectorsDialog } from "@/components/import-vectors-dialog";
+import { requireProjectForPage } from "@/lib/session";
+import { describeIndex, findIndex } from "@/lib/indexes";
+
+export default async function CollectionsPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { project } = await requireProjectForPage((await params).id);
+  const projectId = project.id;
+
+  const rows = await db
+    .select({ collection: collections, itemCount: count(collectionItems.id) })
+    .from(collections)
+    .leftJoin(collectionItems, eq(collectionItems.collectionId, collections.id))
+    .where(eq(collections.projectId, projectId))
+    .groupBy(collections.id)
+    .orderBy(asc(collections.name));
+
+  const withIndexes = await Promise.all(
+    rows.map(async ({ collection, itemCount }) => {
+      const index = await findIndex(collection.id);
+      return {
+        collection,
+        itemCount,
+        index: index ? await describeIndex(index) : null,
+      };
+    }),
+  );
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Collections</h1>
+        <p className="text-muted-foreground">{project.name}</p>
+      </div>
+      {withIndexes.length === 0 ? (
+        <p className="text-muted-foreground">No collections yet.</p>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          {withIndexes.map(({ collection, itemCount, index }) => (
+            <Card key={collection.id}>
+              <CardHeader>
+                <CardTitle>{collection.name}</CardTitle>
+                <CardDescription className="flex flex-wrap gap-2">
+                  <Badge variant="outline">{collection.dimension}d</Badge>
+                  <Badge variant="outline">{collection.metric}</Badge>
+                  <Badge variant="secondary">
+                    {itemCount.toLocaleString()} vectors
+                  </Badge>
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <IndexStatus
+                  projectId={projectId}
+                  collectionName={collection.name}
+                  initialIndex={index}
+                />
+              </CardContent>
+              <CardFooter className="gap-2">
+                <ImportVectorsDialog
+                  projectId={projectId}
+                  collectionName={collection.name}
+                />
+                <Button asChild variant="outline" size="sm">
+                  <Link
+                    href={`/dashboard/projects/${projectId}/collections/${encodeURIComponent(collection.name)}/playground`}
+                  >
+                    Playground
+                  </Link>
+                </Button>
+                <Button asChild variant="outline" size="sm">
+                  <Link
+                    href={`/dashboard/projects/${projectId}/collections/${encodeURIComponent(collection.name)}/explorer`}
+                  >
+                    Explorer
+                  </Link>
+                </Button>
+              </CardFooter>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { and, asc, eq, isNotNull } from "drizzle-orm";
+import { db } from "@/db";
+import { collections } from "@/db/schema";
+import { DocumentManager } from "@/components/document-manager";
+import { listDocuments } from "@/lib/documents";
+import { can } from "@/lib/permissions";
+import { requireProjectForPage } from "@/lib/session";
+
+export default async function DocumentsPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { project, role } = await requireProjectForPage((await params).id);
+
+  const [documents, embeddable] = await Promise.all([
+    listDocuments(project.id),
+    db
+      .select({ name: collections.name })
+      .from(collections)
+      .where(
+        and(
+          eq(collections.projectId, project.id),
+          isNotNull(collections.embedding),
+        ),
+      )
+      .orderBy(asc(collections.name)),
+  ]);
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Documents</h1>
+        <p className="text-muted-foreground">{project.name}</p>
+      </div>
+      <DocumentManager
+        projectId={project.id}
+        collections={embeddable.map(({ name }) => name)}
+        canWrite={can(role, "write")}
+        initialDocuments={documents.map((document) => ({
+          id: document.id,
+          name: document.name,
+          collection: document.collection,
+          format: document.format,
+          strategy: document.chunking.strategy,
+          status: document.status,
+          error: document.error,
+          chunkCount: document.chunkCount,
+          sizeBytes: document.sizeBytes,
+          updatedAt: document.updatedAt.toISOString(),
+        }))}
+      />
+    </div>
+  );
+}
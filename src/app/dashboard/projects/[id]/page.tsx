@@ -0,0 +1,200 @@
+import Link from "next/link";
+import { asc, count, desc, eq } from "drizzle-orm";
+import { db } from "@/db";
+import { collectionItems, collections, jobs } from "@/db/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ArchiveProjectDialog } from "@/components/archive-project-dialog";
+import { ProjectFormDialog } from "@/components/project-form-dialog";
+import { JOB_LABELS } from "@/lib/jobs/labels";
+import { can } from "@/lib/permissions";
+import { requireProjectForPage } from "@/lib/session";
+
+const RECENT_JOBS = 10;
+
+const JOB_STATUS_VARIANTS = {
+  queued: "outline",
+  running: "secondary",
+  succeeded: "default",
+  failed: "destructive",
+  cancelled: "outline",
+} as const;
+
+export default async function ProjectPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { project, role } = await requireProjectForPage((await params).id);
+
+  const [projectCollections, recentJobs] = await Promise.all([
+    db
+      .select({
+        collection: collections,
+        itemCount: count(collectionItems.id),
+      })
+      .from(collections)
+      .leftJoin(
+        collectionItems,
+        eq(collectionItems.collectionId, collections.id),
+      )
+      .where(eq(collections.projectId, project.id))
+      .groupBy(collections.id)
+      .orderBy(asc(collections.name)),
+    db
+      .select()
+      .from(jobs)
+      .where(eq(jobs.projectId, project.id))
+      .orderBy(desc(jobs.createdAt))
+      .limit(RECENT_JOBS),
+  ]);
+
+  const metadata = Object.entries(project.metadata ?? {});
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="flex items-center gap-2 text-2xl font-bold tracking-tight">
+            {project.name}
+            {!project.isActive && <Badge variant="secondary">Archived</Badge>}
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            Created {project.createdAt.toLocaleDateString()} · updated{" "}
+            {project.updatedAt.toLocaleDateString()}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button asChild variant="outline" size="sm">
+            <Link href={`/dashboard/projects/${project.id}/documents`}>
+              Documents
+            </Link>
+          </Button>
+          {can(role, "admin") && (
+            <>
+              <Button asChild variant="outline" size="sm">
+                <Link href={`/dashboard/projects/${project.id}/api-keys`}>
+                  API keys
+                </Link>
+              </Button>
+              <Button asChild variant="outline" size="sm">
+                <Link href={`/dashboard/projects/${project.id}/audit`}>
+                  Audit log
+                </Link>
+              </Button>
+            </>
+          )}
+          {can(role, "write") && (
+            <>
+              <ProjectFormDialog project={project} />
+              <ArchiveProjectDialog project={project} />
+            </>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Details</CardTitle>
+          <CardDescription>
+            {project.description ?? "No description."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {metadata.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No metadata.</p>
+          ) : (
+            <dl className="grid grid-cols-[auto_1fr] gap-x-6 gap-y-2 text-sm">
+              {metadata.map(([key, value]) => (
+                <div key={key} className="contents">
+                  <dt className="font-medium">{key}</dt>
+                  <dd className="break-all font-mono text-muted-foreground">
+                    {typeof value === "string" ? value : JSON.stringify(value)}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Collections</CardTitle>
+            <Button asChild variant="link" size="sm" className="h-auto p-0">
+              <Link href={`/dashboard/projects/${project.id}/collections`}>
+                Manage
+              </Link>
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {projectCollections.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No collections yet.</p>
+          ) : (
+            <ul className="divide-y text-sm">
+              {projectCollections.map(({ collection, itemCount }) => (
+                <li
+                  key={collection.id}
+                  className="flex flex-wrap items-center justify-between gap-2 py-2"
+                >
+                  <span className="font-medium">{collection.name}</span>
+                  <span className="flex gap-2">
+                    <Badge variant="outline">{collection.dimension}d</Badge>
+                    <Badge variant="outline">{collection.metric}</Badge>
+                    <Badge variant="secondary">
+                      {itemCount.toLocaleString()} vectors
+                    </Badge>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Recent activity</CardTitle>
+            <Button asChild variant="link" size="sm" className="h-auto p-0">
+              <Link href="/dashboard/jobs">All jobs</Link>
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {recentJobs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No imports, exports or index builds yet.
+            </p>
+          ) : (
+            <ul className="divide-y text-sm">
+              {recentJobs.map((job) => (
+                <li
+                  key={job.id}
+                  className="flex items-center justify-between gap-2 py-2"
+                >
+                  <span>{JOB_LABELS[job.type] ?? job.type}</span>
+                  <span className="flex items-center gap-2 text-muted-foreground">
+                    {job.createdAt.toLocaleString()}
+                    <Badge variant={JOB_STATUS_VARIANTS[job.status]}>
+                      {job.status}
+                    </Badge>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+import { and, eq, isNull } from "drizzle-orm";
+import { db } from "@/db";
+import { projects } from "@/db/schema";
+import { recordAudit } from "@/lib/audit/record";
+import { getActiveOrganizationId } from "@/lib/organizations";
+import { fieldErrors } from "@/lib/schemas/common";
+import {
+  projectFormSchema,
+  type ProjectFormErrors,
+} from "@/lib/schemas/projects";
+import {
+  AuthError,
+  requireOrganization,
+  requireProject,
+  requireUser,
+} from "@/lib/session";
+
+export interface ProjectFormState {
+  errors?: ProjectFormErrors;
+  /** Submitted text, so the form can be refilled after a failed attempt. */
+  values?: Record<"name" | "description" | "metadata", string>;
+  /** Error not tied to a single field, e.g. a missing permission. */
+  message?: string;
+  success?: boolean;
+}
+
+function submittedValues(formData: FormData) {
+  return {
+    name: String(formData.get("name") ?? ""),
+    description: String(formData.get("description") ?? ""),
+    metadata: String(formData.get("metadata") ?? ""),
+  };
+}
+
+/**
+ * Creates a project in the active organization (or as a personal project)
+ * and opens it.
+ */
+export async function createProject(
+  _state: ProjectFormState,
+  formData: FormData,
+): Promise<ProjectFormState> {
+  const values = submittedValues(formData);
+  const parsed = projectFormSchema.safeParse(values);
+  if (!parsed.success) {
+    return { errors: fieldErrors(parsed.error), values };
+  }
+
+  let projectId: number;
+  try {
+    const currentUser = await requireUser();
+    const organizationId = await getActiveOrganizationId(currentUser.id);
+    if (organizationId !== null) {
+      await requireOrganization(organizationId, "editor");
+    }
+
+    const [project] = await db
+      .insert(projects)
+      .values({
+        ...parsed.data,
+        userId: currentUser.id,
+        organizationId,
+      })
+      .returning();
+    projectId = project.id;
+
+    await recordAudit({
+      action: "project.create",
+      target: { type: "project", id: project.id },
+      project,
+      after: project,
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return { message: error.message, values };
+    }
+    throw error;
+  }
+
+  revalidatePath("/dashboard");
+  redirect(`/dashboard/projects/${projectId}`);
+}
+
+export async function updateProject(
+  projectId: number,
+  _state: ProjectFormState,
+  formData: FormData,
+): Promise<ProjectFormState> {
+  const values = submittedValues(formData);
+  const parsed = projectFormSchema.safeParse(values);
+  if (!parsed.success) {
+    return { errors: fieldErrors(parsed.error), values };
+  }
+
+  try {
+    const { project } = await requireProject(projectId, {
+      permission: "write",
+    });
+    const [updated] = await db
+      .update(projects)
+      .set(parsed.data)
+      .where(and(eq(projects.id, projectId), isNull(projects.deletedAt)))
+      .returning();
+
+    await recordAudit({
+      action: "project.update",
+      target: { type: "project", id: projectId },
+      project,
+      before: project,
+      after: updated,
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return { message: error.message, values };
+    }
+    throw error;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true };
+}
+
+/** Archives a project, or reactivates it when `archived` is false. */
+export async function setProjectArchived(
+  projectId: number,
+  archived: boolean,
+): Promise<ProjectFormState> {
+  try {
+    const { project } = await requireProject(projectId, {
+      permission: "write",
+    });
+    const [updated] = await db
+      .update(projects)
+      .set({ isActive: !archived })
+      .where(and(eq(projects.id, projectId), isNull(projects.deletedAt)))
+      .returning();
+
+    await recordAudit({
+      action: "project.update",
+      target: { type: "project", id: projectId },
+      project,
+      before: project,
+      after: updated,
+    });
+  } catch (error) {
+    if (error instanceof AuthError) return { message: error.message };
+    throw error;
+  }
+
+  revalidatePath("/dashboard", "layout");
+  return { success: true };
+}
@@ -0,0 +1,99 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ChangePasswordForm } from "@/components/change-password-form";
+import { LinkedAccounts } from "@/components/linked-accounts";
+import { enabledOAuthProviders } from "@/lib/oauth";
+import { requireUser } from "@/lib/session";
+import { listAccounts } from "@/lib/users";
+
+// better-auth's ?error= codes from a failed link.
+const LINK_ERRORS: Record<string, string> = {
+  account_already_linked_to_different_user:
+    "That provider account is already linked to another user.",
+  unable_to_link_account: "The provider did not confirm your email address.",
+};
+
+export default async function SettingsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ error?: string }>;
+}) {
+  const currentUser = await requireUser();
+  const { error } = await searchParams;
+  const accounts = await listAccounts(currentUser.id);
+  const hasPassword = accounts.some((account) => account.hasPassword);
+
+  return (
+    <div className="mx-auto max-w-2xl space-y-6">
+      <h1 className="text-2xl font-bold tracking-tight">Settings</h1>
+      <Card>
+        <CardHeader>
+          <CardTitle>Profile</CardTitle>
+          <CardDescription>
+            Member since {currentUser.createdAt.toLocaleDateString()}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          <p>
+            <span className="text-muted-foreground">Name:</span>{" "}
+            {currentUser.name}
+          </p>
+          <p className="flex items-center gap-2">
+            <span className="text-muted-foreground">Email:</span>
+            {currentUser.email}
+            <Badge
+              variant={currentUser.emailVerified ? "secondary" : "outline"}
+            >
+              {currentUser.emailVerified ? "verified" : "unverified"}
+            </Badge>
+          </p>
+        </CardContent>
+      </Card>
+      <Card>
+        <CardHeader>
+          <CardTitle>Sign-in methods</CardTitle>
+          <CardDescription>
+            Every way you can sign in to this account.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <LinkedAccounts
+            accounts={accounts.map((account) => ({
+              id: account.id,
+              providerId: account.providerId,
+              accountId: account.accountId,
+              createdAt: account.createdAt.toISOString(),
+            }))}
+            providers={enabledOAuthProviders()}
+            error={
+              error
+                ? (LINK_ERRORS[error] ?? "Linking the account failed.")
+                : undefined
+            }
+          />
+        </CardContent>
+      </Card>
+      <Card>
+        <CardHeader>
+          <CardTitle>Password</CardTitle>
+          <CardDescription>
+            {hasPassword
+              ? "Changing it signs out every other session."
+              : "You sign in with a linked provider only. To add a password, sign out and use Forgot password."}
+          </CardDescription>
+        </CardHeader>
+        {hasPassword && (
+          <CardContent>
+            <ChangePasswordForm />
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
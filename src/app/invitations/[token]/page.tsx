@@ -0,0 +1,44 @@
+import { redirect } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { acceptInvitation } from "@/app/dashboard/actions";
+import { getSession } from "@/lib/session";
+
+export default async function InvitationPage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+  const session = await getSession();
+  if (!session) {
+    redirect(`/signin?next=${encodeURIComponent(`/invitations/${token}`)}`);
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-8">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Join organization</CardTitle>
+          <CardDescription>
+            You have been invited to collaborate on shared projects. Accepting
+            adds {session.user.email} as a member.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form action={acceptInvitation.bind(null, token)}>
+            <Button type="submit" className="w-full">
+              Accept invitation
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { CopyIcon, KeyRoundIcon } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { ApiKeyScope } from "@/db/schema";
+import { errorMessage } from "@/lib/api-errors";
+
+export interface ApiKeySummary {
+  id: number;
+  name: string;
+  scope: ApiKeyScope;
+  prefix: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+interface ApiKeyManagerProps {
+  projectId: number;
+  initialKeys: ApiKeySummary[];
+}
+
+/** Create dialog that reveals the new key exactly once. */
+function CreateApiKeyDialog({ projectId }: { projectId: number }) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      setCreatedKey(null);
+      setError(null);
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsCreating(true);
+    setError(null);
+
+    const form = new FormData(event.currentTarget);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/api-keys`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.get("name"),
+          scope: form.get("scope"),
+        }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        setError(errorMessage(body, "Failed to create API key"));
+        return;
+      }
+      setCreatedKey(body.key);
+      router.refresh();
+    } catch {
+      setError("Failed to create API key");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm">
+          <KeyRoundIcon />
+          New API key
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {createdKey ? "Copy your API key" : "Create API key"}
+          </DialogTitle>
+          <DialogDescription>
+            {createdKey
+              ? "This is the only time the key is shown. Store it somewhere safe."
+              : "Services send the key as an Authorization: Bearer header."}
+          </DialogDescription>
+        </DialogHeader>
+        {createdKey ? (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Input readOnly value={createdKey} className="font-mono" />
+              <Button
+                variant="outline"
+                size="icon"
+                aria-label="Copy API key"
+                onClick={() => navigator.clipboard.writeText(createdKey)}
+              >
+                <CopyIcon />
+              </Button>
+            </div>
+            <DialogFooter>
+              <Button onClick={() => handleOpenChange(false)}>Done</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="api-key-name">Name</Label>
+              <Input
+                id="api-key-name"
+                name="name"
+                placeholder="ingestion-service"
+                maxLength={255}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="api-key-scope">Scope</Label>
+              <select
+                id="api-key-scope"
+                name="scope"
+                defaultValue="read"
+                className="border-input flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+              >
+                <option value="read">read: fetch and query</option>
+                <option value="write">
+                  write: also upsert, import, delete
+                </option>
+                <option value="admin">admin: full project access</option>
+              </select>
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <DialogFooter>
+              <Button type="submit" disabled={isCreating}>
+                {isCreating ? "Creating..." : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** Lists a project's API keys with create and revoke actions. */
+export function ApiKeyManager({ projectId, initialKeys }: ApiKeyManagerProps) {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRevoke = async (key: ApiKeySummary) => {
+    if (
+      !confirm(`Revoke "${key.name}"? Services using it will stop working.`)
+    ) {
+      return;
+    }
+    setError(null);
+    const response = await fetch(
+      `/api/projects/${projectId}/api-keys/${key.id}`,
+      { method: "DELETE" },
+    );
+    if (!response.ok) {
+      const body = await response.json();
+      setError(errorMessage(body, "Failed to revoke API key"));
+      return;
+    }
+    router.refresh();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <CreateApiKeyDialog projectId={projectId} />
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {initialKeys.length === 0 ? (
+        <p className="text-muted-foreground">No API keys yet.</p>
+      ) : (
+        <div className="divide-y rounded-md border">
+          {initialKeys.map((key) => (
+            <div
+              key={key.id}
+              className="flex items-center justify-between gap-4 p-4"
+            >
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{key.name}</span>
+                  <Badge variant="outline">{key.scope}</Badge>
+                  {key.revokedAt && (
+                    <Badge variant="destructive">revoked</Badge>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  <span className="font-mono">{key.prefix}…</span> · created{" "}
+                  {new Date(key.createdAt).toLocaleDateString()} ·{" "}
+                  {key.lastUsedAt
+                    ? `last used ${new Date(key.lastUsedAt).toLocaleString()}`
+                    : "never used"}
+                </p>
+              </div>
+              {!key.revokedAt && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRevoke(key)}
+                >
+                  Revoke
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,367 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronRightIcon } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+
+type JsonSchema = Record<string, unknown>;
+
+export interface ReferenceParameter {
+  name: string;
+  in: "path" | "query";
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+/** One operation of the OpenAPI document, flattened for display. */
+export interface ReferenceOperation {
+  method: string;
+  path: string;
+  summary: string;
+  description?: string;
+  tag: string;
+  apiKey: boolean;
+  parameters: ReferenceParameter[];
+  /** Request body schemas by content type. */
+  requestBody: Record<string, JsonSchema> | null;
+  status: string;
+  /** Success response schema, or its content type for file downloads. */
+  response: JsonSchema | string | null;
+}
+
+interface ApiReferenceProps {
+  operations: ReferenceOperation[];
+  schemas: Record<string, JsonSchema>;
+}
+
+const METHOD_VARIANTS = {
+  GET: "secondary",
+  POST: "default",
+  PATCH: "outline",
+  DELETE: "destructive",
+} as const;
+
+interface TryResult {
+  status: number;
+  ms: number;
+  body: string;
+}
+
+function pretty(value: unknown) {
+  return JSON.stringify(value, null, 2);
+}
+
+/** Short type name for a parameter table row. */
+function typeLabel(schema: JsonSchema): string {
+  if (typeof schema.$ref === "string") return schema.$ref.split("/").pop()!;
+  if (Array.isArray(schema.enum)) return schema.enum.join(" | ");
+  if (Array.isArray(schema.anyOf)) {
+    return (schema.anyOf as JsonSchema[]).map(typeLabel).join(" | ");
+  }
+  if ("const" in schema) return JSON.stringify(schema.const);
+  if (schema.type === "array" && schema.items) {
+    return `${typeLabel(schema.items as JsonSchema)}[]`;
+  }
+  const type = String(schema.type ?? "any");
+  return schema.format ? `${type} (${schema.format})` : type;
+}
+
+function SchemaBlock({ schema }: { schema: JsonSchema }) {
+  return (
+    <pre className="max-h-80 overflow-auto rounded-md bg-muted p-3 font-mono text-xs">
+      {pretty(schema)}
+    </pre>
+  );
+}
+
+function TryIt({ operation }: { operation: ReferenceOperation }) {
+  const jsonBody = operation.requestBody?.["application/json"];
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [body, setBody] = useState(jsonBody ? "{\n  \n}" : "");
+  const [pending, setPending] = useState(false);
+  const [result, setResult] = useState<TryResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (operation.requestBody && !jsonBody) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        File uploads cannot be sent from here; use the API client or curl.
+      </p>
+    );
+  }
+
+  const handleSend = async () => {
+    setError(null);
+    const path = operation.path.replace(/\{(\w+)\}/g, (_, name: string) =>
+      encodeURIComponent(values[name] ?? ""),
+    );
+    const search = new URLSearchParams();
+    for (const parameter of operation.parameters) {
+      const value = values[parameter.name];
+      if (parameter.in === "query" && value) search.set(parameter.name, value);
+    }
+    const url = search.size > 0 ? `${path}?${search}` : path;
+
+    if (typeof operation.response === "string") {
+      window.open(url, "_blank", "noopener");
+      return;
+    }
+
+    setPending(true);
+    const started = performance.now();
+    try {
+      const response = await fetch(url, {
+        method: operation.method,
+        headers: jsonBody ? { "Content-Type": "application/json" } : undefined,
+        body: jsonBody ? body : undefined,
+      });
+      const text = await response.text();
+      let formatted = text;
+      try {
+        formatted = pretty(JSON.parse(text));
+      } catch {
+        // Not JSON; show it as is.
+      }
+      setResult({
+        status: response.status,
+        ms: Math.round(performance.now() - started),
+        body: formatted,
+      });
+    } catch {
+      setError("Request failed");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {operation.parameters.length > 0 && (
+        <div className="grid gap-3 sm:grid-cols-2">
+          {operation.parameters.map((parameter) => {
+            const id = `${operation.method}-${operation.path}-${parameter.name}`;
+            return (
+              <div key={parameter.name} className="space-y-1">
+                <Label htmlFor={id}>
+                  {parameter.name}
+                  {parameter.required && (
+                    <span className="text-destructive">*</span>
+                  )}
+                </Label>
+                <Input
+                  id={id}
+                  value={values[parameter.name] ?? ""}
+                  placeholder={typeLabel(parameter.schema)}
+                  onChange={(event) =>
+                    setValues((current) => ({
+                      ...current,
+                      [parameter.name]: event.target.value,
+                    }))
+                  }
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {jsonBody && (
+        <textarea
+          aria-label="Request body"
+          value={body}
+          onChange={(event) => setBody(event.target.value)}
+          rows={6}
+          className="border-input w-full rounded-md border bg-transparent px-3 py-2 font-mono text-sm shadow-xs"
+        />
+      )}
+      <div className="flex items-center gap-3">
+        <Button size="sm" onClick={handleSend} disabled={pending}>
+          {pending ? "Sending..." : "Send request"}
+        </Button>
+        <span className="text-xs text-muted-foreground">
+          Runs as you, with your session.
+        </span>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {result && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">
+            <Badge variant={result.status < 400 ? "secondary" : "destructive"}>
+              {result.status}
+            </Badge>{" "}
+            in {result.ms} ms
+          </p>
+          {result.body && (
+            <pre className="max-h-80 overflow-auto rounded-md bg-muted p-3 font-mono text-xs">
+              {result.body}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function OperationCard({ operation }: { operation: ReferenceOperation }) {
+  const [open, setOpen] = useState(false);
+  const variant =
+    METHOD_VARIANTS[operation.method as keyof typeof METHOD_VARIANTS] ??
+    "outline";
+
+  return (
+    <Card className="gap-0 py-0">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className="flex w-full items-center gap-3 px-6 py-4 text-left"
+      >
+        <ChevronRightIcon
+          className={cn(
+            "size-4 shrink-0 transition-transform",
+            open && "rotate-90",
+          )}
+        />
+        <Badge variant={variant} className="w-16">
+          {operation.method}
+        </Badge>
+        <code className="truncate text-sm">{operation.path}</code>
+        <span className="ml-auto hidden text-sm text-muted-foreground sm:inline">
+          {operation.summary}
+        </span>
+      </button>
+      {open && (
+        <CardContent className="space-y-4 border-t py-4 text-sm">
+          <div className="space-y-1">
+            <p className="font-medium">{operation.summary}</p>
+            {operation.description && (
+              <p className="text-muted-foreground">{operation.description}</p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              {operation.apiKey
+                ? "Session or project API key (Authorization: Bearer vdk_...)"
+                : "Signed-in session only"}
+            </p>
+          </div>
+          {operation.parameters.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="font-medium">Parameters</h3>
+              <table className="w-full text-left text-xs">
+                <tbody>
+                  {operation.parameters.map((parameter) => (
+                    <tr key={parameter.name} className="border-b last:border-0">
+                      <td className="py-1 pr-3 font-mono">
+                        {parameter.name}
+                        {parameter.required && (
+                          <span className="text-destructive">*</span>
+                        )}
+                      </td>
+                      <td className="py-1 pr-3 text-muted-foreground">
+                        {parameter.in}
+                      </td>
+                      <td className="py-1 font-mono">
+                        {typeLabel(parameter.schema)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {operation.requestBody &&
+            Object.entries(operation.requestBody).map(([type, schema]) => (
+              <div key={type} className="space-y-2">
+                <h3 className="font-medium">
+                  Request body <code className="text-xs">{type}</code>
+                </h3>
+                <SchemaBlock schema={schema} />
+              </div>
+            ))}
+          <div className="space-y-2">
+            <h3 className="font-medium">Response {operation.status}</h3>
+            {typeof operation.response === "string" ? (
+              <p className="text-muted-foreground">
+                A file (<code>{operation.response}</code>)
+              </p>
+            ) : operation.response ? (
+              <SchemaBlock schema={operation.response} />
+            ) : (
+              <p className="text-muted-foreground">No content</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <h3 className="font-medium">Try it</h3>
+            <TryIt operation={operation} />
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+/**
+ * Browsable reference for the API, generated from the same document as
+ * /api/openapi.json, with a form to send each request as the current user.
+ */
+export function ApiReference({ operations, schemas }: ApiReferenceProps) {
+  const [filter, setFilter] = useState("");
+  const needle = filter.trim().toLowerCase();
+  const visible = operations.filter(
+    (operation) =>
+      !needle ||
+      `${operation.method} ${operation.path} ${operation.summary}`
+        .toLowerCase()
+        .includes(needle),
+  );
+  const tags = [...new Set(visible.map((operation) => operation.tag))];
+
+  return (
+    <div className="space-y-6">
+      <Input
+        type="search"
+        value={filter}
+        onChange={(event) => setFilter(event.target.value)}
+        placeholder="Filter by path or summary"
+        aria-label="Filter operations"
+      />
+      {tags.map((tag) => (
+        <section key={tag} className="space-y-2">
+          <h2 className="text-lg font-semibold">{tag}</h2>
+          {visible
+            .filter((operation) => operation.tag === tag)
+            .map((operation) => (
+              <OperationCard
+                key={`${operation.method} ${operation.path}`}
+                operation={operation}
+              />
+            ))}
+        </section>
+      ))}
+      {tags.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No operations match &quot;{filter}&quot;.
+        </p>
+      )}
+      <Card>
+        <CardHeader>
+          <CardTitle>Schemas</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {Object.entries(schemas).map(([name, schema]) => (
+            <details key={name} className="text-sm">
+              <summary className="cursor-pointer font-mono">{name}</summary>
+              <div className="mt-2">
+                <SchemaBlock schema={schema} />
+              </div>
+            </details>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
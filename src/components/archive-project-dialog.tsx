@@ -0,0 +1,72 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { ArchiveIcon, ArchiveRestoreIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { setProjectArchived } from "@/app/dashboard/projects/actions";
+
+interface ArchiveProjectDialogProps {
+  project: { id: number; name: string; isActive: boolean };
+}
+
+/** Confirms archiving a project, or reactivates an archived one. */
+export function ArchiveProjectDialog({ project }: ArchiveProjectDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+  const archiving = project.isActive;
+
+  const handleConfirm = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await setProjectArchived(project.id, archiving);
+      if (result.message) {
+        setError(result.message);
+      } else {
+        setIsOpen(false);
+      }
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          {archiving ? <ArchiveIcon /> : <ArchiveRestoreIcon />}
+          {archiving ? "Archive" : "Unarchive"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {archiving ? "Archive" : "Unarchive"} {project.name}?
+          </DialogTitle>
+          <DialogDescription>
+            {archiving
+              ? "Archived projects are hidden from the default project list. Their collections and API keys keep working, and you can unarchive the project at any time."
+              : "The project will show up in the default project list again."}
+          </DialogDescription>
+        </DialogHeader>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <DialogFooter>
+          <Button
+            variant={archiving ? "destructive" : "default"}
+            onClick={handleConfirm}
+            disabled={isPending}
+          >
+            {isPending ? "Saving..." : archiving ? "Archive" : "Unarchive"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,314 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import Link from "next/link";
+import { DownloadIcon } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import type { AuditActorType } from "@/db/schema";
+import { AUDIT_ACTIONS, type AuditAction } from "@/lib/audit/labels";
+import type { PageInfo } from "@/lib/pagination";
+
+export interface AuditEntrySummary {
+  id: number;
+  actorType: AuditActorType;
+  actorLabel: string;
+  action: string;
+  targetType: string;
+  targetId: string;
+  projectId: number | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+/** Filter values as they appear in the page's query string. */
+export interface AuditFilterValues {
+  action?: string;
+  actor?: string;
+  actorType?: string;
+  targetType?: string;
+  projectId?: string;
+  from?: string;
+  to?: string;
+}
+
+interface AuditLogProps {
+  entries: AuditEntrySummary[];
+  pageInfo: PageInfo;
+  filters: AuditFilterValues;
+  /** Path of the page itself, for filter and pagination links. */
+  basePath: string;
+  /** The export endpoint; the current filters are appended. */
+  exportPath: string;
+  /** Offered as a filter on organization logs. */
+  projects?: { id: number; name: string }[];
+  /** Set when the query string could not be parsed. */
+  error?: string;
+}
+
+const selectClassName =
+  "border-input h-9 rounded-md border bg-transparent px-3 text-sm shadow-xs";
+
+function withFilters(path: string, filters: AuditFilterValues, extra = {}) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries({ ...filters, ...extra })) {
+    if (value) params.set(key, value);
+  }
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+function formatValue(value: unknown) {
+  if (value === undefined) return "";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function Changes({ entry }: { entry: AuditEntrySummary }) {
+  const fields = [
+    ...new Set([
+      ...Object.keys(entry.before ?? {}),
+      ...Object.keys(entry.after ?? {}),
+    ]),
+  ];
+  if (fields.length === 0) {
+    return <p className="text-muted-foreground">No field changes recorded.</p>;
+  }
+
+  return (
+    <table className="w-full table-fixed text-left text-xs">
+      <thead className="text-muted-foreground">
+        <tr>
+          <th className="w-1/5 py-1 font-medium">Field</th>
+          <th className="py-1 font-medium">Before</th>
+          <th className="py-1 font-medium">After</th>
+        </tr>
+      </thead>
+      <tbody className="font-mono">
+        {fields.map((field) => (
+          <tr key={field} className="border-t align-top">
+            <td className="py-1 pr-2">{field}</td>
+            <td className="break-all py-1 pr-2 text-destructive">
+              {entry.before && formatValue(entry.before[field])}
+            </td>
+            <td className="break-all py-1 text-emerald-600">
+              {entry.after && formatValue(entry.after[field])}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Audit entries with filters, pagination and CSV/JSONL export. Filters are
+ * submitted as a plain GET form so the page stays server-rendered.
+ */
+export function AuditLog({
+  entries,
+  pageInfo,
+  filters,
+  basePath,
+  exportPath,
+  projects,
+  error,
+}: AuditLogProps) {
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const projectNames = new Map(
+    projects?.map((project) => [project.id, project.name]),
+  );
+
+  return (
+    <div className="space-y-4">
+      <form action={basePath} className="flex flex-wrap gap-2">
+        <select
+          name="action"
+          defaultValue={filters.action ?? ""}
+          className={selectClassName}
+          aria-label="Action"
+        >
+          <option value="">All actions</option>
+          {Object.entries(AUDIT_ACTIONS).map(([action, label]) => (
+            <option key={action} value={action}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          name="actorType"
+          defaultValue={filters.actorType ?? ""}
+          className={selectClassName}
+          aria-label="Actor type"
+        >
+          <option value="">Users and API keys</option>
+          <option value="user">Users</option>
+          <option value="api_key">API keys</option>
+        </select>
+        {projects && (
+          <select
+            name="projectId"
+            defaultValue={filters.projectId ?? ""}
+            className={selectClassName}
+            aria-label="Project"
+          >
+            <option value="">All projects</option>
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <Input
+          name="actor"
+          placeholder="Actor email or key name"
+          defaultValue={filters.actor}
+          className="max-w-56"
+        />
+        <Input
+          name="from"
+          type="date"
+          defaultValue={filters.from}
+          className="w-auto"
+          aria-label="From"
+        />
+        <Input
+          name="to"
+          type="date"
+          defaultValue={filters.to}
+          className="w-auto"
+          aria-label="To"
+        />
+        <Button type="submit" variant="secondary">
+          Apply
+        </Button>
+        <Button asChild variant="outline">
+          <a href={withFilters(exportPath, filters, { format: "csv" })}>
+            <DownloadIcon />
+            CSV
+          </a>
+        </Button>
+        <Button asChild variant="outline">
+          <a href={withFilters(exportPath, filters, { format: "jsonl" })}>
+            <DownloadIcon />
+            JSONL
+          </a>
+        </Button>
+      </form>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <Card className="py-0">
+        <CardContent className="px-0">
+          {entries.length === 0 ? (
+            <p className="p-6 text-sm text-muted-foreground">
+              No audit entries match these filters.
+            </p>
+          ) : (
+            <table className="w-full text-left text-sm">
+              <thead className="border-b text-muted-foreground">
+                <tr>
+                  <th className="px-4 py-2 font-medium">When</th>
+                  <th className="px-4 py-2 font-medium">Actor</th>
+                  <th className="px-4 py-2 font-medium">Action</th>
+                  <th className="px-4 py-2 font-medium">Target</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <Fragment key={entry.id}>
+                    <tr
+                      className="cursor-pointer border-b hover:bg-accent/50"
+                      onClick={() =>
+                        setExpanded(expanded === entry.id ? null : entry.id)
+                      }
+                      aria-expanded={expanded === entry.id}
+                    >
+                      <td className="whitespace-nowrap px-4 py-2">
+                        {new Date(entry.createdAt).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-2">
+                        <span className="flex items-center gap-2">
+                          {entry.actorLabel}
+                          {entry.actorType === "api_key" && (
+                            <Badge variant="outline">API key</Badge>
+                          )}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2">
+                        {AUDIT_ACTIONS[entry.action as AuditAction] ??
+                          entry.action}
+                      </td>
+                      <td className="px-4 py-2 font-mono text-xs">
+                        {entry.targetType}:{entry.targetId}
+                        {projects && entry.projectId !== null && (
+                          <span className="block text-muted-foreground">
+                            {projectNames.get(entry.projectId) ??
+                              `project ${entry.projectId}`}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                    {expanded === entry.id && (
+                      <tr className="border-b bg-muted/30">
+                        <td colSpan={4} className="space-y-2 px-4 py-3">
+                          <Changes entry={entry} />
+                          <p className="text-xs text-muted-foreground">
+                            {entry.ipAddress ?? "Unknown address"} ·{" "}
+                            {entry.userAgent ?? "Unknown user agent"}
+                          </p>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">
+          {pageInfo.total.toLocaleString()} entries
+        </span>
+        <div className="flex gap-2">
+          {pageInfo.prevCursor ? (
+            <Button asChild variant="outline" size="sm">
+              <Link
+                href={withFilters(basePath, filters, {
+                  cursor: pageInfo.prevCursor,
+                })}
+              >
+                Previous
+              </Link>
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" disabled>
+              Previous
+            </Button>
+          )}
+          {pageInfo.nextCursor ? (
+            <Button asChild variant="outline" size="sm">
+              <Link
+                href={withFilters(basePath, filters, {
+                  cursor: pageInfo.nextCursor,
+                })}
+              >
+                Next
+              </Link>
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" disabled>
+              Next
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
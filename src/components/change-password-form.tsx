@@ -0,0 +1,88 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { authClient } from "@/lib/auth-client";
+
+export function ChangePasswordForm() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = event.currentTarget;
+    const formData = new FormData(form);
+    const newPassword = formData.get("newPassword") as string;
+
+    setSaved(false);
+    if (newPassword !== formData.get("confirmPassword")) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    const { error } = await authClient.changePassword({
+      currentPassword: formData.get("currentPassword") as string,
+      newPassword,
+      revokeOtherSessions: true,
+    });
+    setIsLoading(false);
+
+    if (error) {
+      setError(error.message ?? "Could not change the password");
+      return;
+    }
+    form.reset();
+    setSaved(true);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="currentPassword">Current password</Label>
+        <Input
+          id="currentPassword"
+          name="currentPassword"
+          type="password"
+          autoComplete="current-password"
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="newPassword">New password</Label>
+        <Input
+          id="newPassword"
+          name="newPassword"
+          type="password"
+          autoComplete="new-password"
+          minLength={8}
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="confirmPassword">Confirm new password</Label>
+        <Input
+          id="confirmPassword"
+          name="confirmPassword"
+          type="password"
+          autoComplete="new-password"
+          minLength={8}
+          required
+        />
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {saved && (
+        <p className="text-sm text-muted-foreground">
+          Password changed. Your other sessions were signed out.
+        </p>
+      )}
+      <Button type="submit" disabled={isLoading}>
+        {isLoading ? "Saving..." : "Change password"}
+      </Button>
+    </form>
+  );
+}
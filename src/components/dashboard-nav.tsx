@@ -0,0 +1,64 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import {
+  BookOpenIcon,
+  BriefcaseIcon,
+  DatabaseIcon,
+  FolderIcon,
+  SettingsIcon,
+  ShieldIcon,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+
+const NAV_ITEMS = [
+  { href: "/dashboard", label: "Projects", icon: FolderIcon },
+  { href: "/dashboard/collections", label: "Collections", icon: DatabaseIcon },
+  { href: "/dashboard/jobs", label: "Jobs", icon: BriefcaseIcon },
+  { href: "/dashboard/api", label: "API", icon: BookOpenIcon },
+  { href: "/dashboard/settings", label: "Settings", icon: SettingsIcon },
+];
+
+const ADMIN_ITEM = {
+  href: "/dashboard/admin/users",
+  label: "Admin",
+  icon: ShieldIcon,
+};
+
+function isActive(pathname: string, href: string) {
+  if (href === "/dashboard") {
+    // Project pages live under /dashboard/projects.
+    return pathname === href || pathname.startsWith("/dashboard/projects");
+  }
+  return pathname === href || pathname.startsWith(`${href}/`);
+}
+
+/**
+ * Sidebar links for the dashboard, highlighting the current section. The
+ * admin console link is only shown to admins; its pages check again.
+ */
+export function DashboardNav({ isAdmin = false }: { isAdmin?: boolean }) {
+  const pathname = usePathname();
+  const items = isAdmin ? [...NAV_ITEMS, ADMIN_ITEM] : NAV_ITEMS;
+
+  return (
+    <nav className="flex flex-col gap-1">
+      {items.map(({ href, label, icon: Icon }) => (
+        <Link
+          key={href}
+          href={href}
+          title={label}
+          className={cn(
+            "flex items-center gap-2 rounded-md px-3 py-2 text-sm font-medium text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground",
+            isActive(pathname, href) && "bg-accent text-accent-foreground",
+          )}
+        >
+          <Icon className="size-4 shrink-0" />
+          {/* Icons only on narrow screens. */}
+          <span className="sr-only md:not-sr-only">{label}</span>
+        </Link>
+      ))}
+    </nav>
+  );
+}
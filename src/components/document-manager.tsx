@@ -0,0 +1,341 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { FileTextIcon, RefreshCwIcon, TrashIcon } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { DocumentStatus } from "@/db/schema";
+import { errorMessage } from "@/lib/api-errors";
+
+export interface DocumentSummary {
+  id: string;
+  name: string;
+  collection: string;
+  format: string;
+  strategy: string;
+  status: DocumentStatus;
+  error: string | null;
+  chunkCount: number;
+  sizeBytes: number;
+  updatedAt: string;
+}
+
+interface DocumentManagerProps {
+  projectId: number;
+  /** Collections with an embedding provider, which can take documents. */
+  collections: string[];
+  initialDocuments: DocumentSummary[];
+  canWrite: boolean;
+}
+
+const STATUS_VARIANTS: Record<
+  DocumentStatus,
+  "default" | "secondary" | "outline" | "destructive"
+> = {
+  pending: "outline",
+  processing: "secondary",
+  ready: "default",
+  failed: "destructive",
+};
+
+const POLL_INTERVAL_MS = 3000;
+
+const fieldClassName =
+  "border-input flex w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs";
+
+/**
+ * Upload form for a new document, or a re-upload of `document`. Sent as
+ * multipart so the server infers the name and format from the file.
+ */
+function UploadDocumentDialog({
+  projectId,
+  collections,
+  document,
+}: {
+  projectId: number;
+  collections: string[];
+  document?: DocumentSummary;
+}) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsUploading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        document
+          ? `/api/projects/${projectId}/documents/${document.id}`
+          : `/api/projects/${projectId}/documents`,
+        {
+          method: document ? "PUT" : "POST",
+          body: new FormData(event.currentTarget),
+        },
+      );
+      if (!response.ok) {
+        const body = await response.json();
+        setError(errorMessage(body, "Upload failed"));
+        return;
+      }
+      setIsOpen(false);
+      router.refresh();
+    } catch {
+      setError("Upload failed");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        setError(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        {document ? (
+          <Button variant="ghost" size="sm">
+            <RefreshCwIcon />
+            Re-upload
+          </Button>
+        ) : (
+          <Button size="sm" disabled={collections.length === 0}>
+            <FileTextIcon />
+            Upload document
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {document ? `Re-upload ${document.name}` : "Upload document"}
+          </DialogTitle>
+          <DialogDescription>
+            {document
+              ? "The current chunks stay searchable until the new version is embedded. Empty fields keep their current values."
+              : "Plain text, Markdown or HTML, up to 5 MB. It is split into chunks and embedded into the collection in the background."}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="document-file">File</Label>
+            <Input
+              id="document-file"
+              name="file"
+              type="file"
+              accept=".txt,.md,.markdown,.html,.htm,text/*"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="document-text">Or paste text</Label>
+            <textarea
+              id="document-text"
+              name="text"
+              rows={4}
+              className={`${fieldClassName} py-2`}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="document-name">Name</Label>
+              <Input
+                id="document-name"
+                name="name"
+                maxLength={255}
+                placeholder={document?.name ?? "Defaults to the file name"}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="document-collection">Collection</Label>
+              <select
+                id="document-collection"
+                name="collection"
+                defaultValue={document?.collection ?? collections[0]}
+                className={`${fieldClassName} h-9`}
+              >
+                {collections.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="document-strategy">Chunking</Label>
+              <select
+                id="document-strategy"
+                name="strategy"
+                defaultValue=""
+                className={`${fieldClassName} h-9`}
+              >
+                <option value="">{document ? "Unchanged" : "By format"}</option>
+                <option value="tokens">Fixed tokens</option>
+                <option value="markdown">Markdown headings</option>
+                <option value="html">HTML sections</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="document-chunk-size">Chunk size</Label>
+              <Input
+                id="document-chunk-size"
+                name="chunkSize"
+                type="number"
+                min={16}
+                max={2048}
+                placeholder={document ? "Unchanged" : "256"}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="document-chunk-overlap">Overlap</Label>
+              <Input
+                id="document-chunk-overlap"
+                name="chunkOverlap"
+                type="number"
+                min={0}
+                placeholder={document ? "Unchanged" : "32"}
+              />
+            </div>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <DialogFooter>
+            <Button type="submit" disabled={isUploading}>
+              {isUploading ? "Uploading..." : "Upload"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * A project's documents with upload, re-upload and delete. Refreshes while
+ * any document is still being chunked and embedded.
+ */
+export function DocumentManager({
+  projectId,
+  collections,
+  initialDocuments,
+  canWrite,
+}: DocumentManagerProps) {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+
+  const isIngesting = initialDocuments.some(
+    (document) =>
+      document.status === "pending" || document.status === "processing",
+  );
+  useEffect(() => {
+    if (!isIngesting) return;
+    const timer = setInterval(() => router.refresh(), POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isIngesting, router]);
+
+  const handleDelete = async (document: DocumentSummary) => {
+    if (
+      !confirm(
+        `Delete "${document.name}"? Its ${document.chunkCount} chunks are removed from ${document.collection}.`,
+      )
+    ) {
+      return;
+    }
+    setError(null);
+    const response = await fetch(
+      `/api/projects/${projectId}/documents/${document.id}`,
+      { method: "DELETE" },
+    );
+    if (!response.ok) {
+      const body = await response.json();
+      setError(errorMessage(body, "Failed to delete document"));
+      return;
+    }
+    router.refresh();
+  };
+
+  return (
+    <div className="space-y-4">
+      {canWrite && (
+        <div className="flex items-center justify-end gap-2">
+          {collections.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              Configure an embedding provider on a collection to add documents.
+            </p>
+          )}
+          <UploadDocumentDialog
+            projectId={projectId}
+            collections={collections}
+          />
+        </div>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {initialDocuments.length === 0 ? (
+        <p className="text-muted-foreground">No documents yet.</p>
+      ) : (
+        <div className="divide-y rounded-md border">
+          {initialDocuments.map((document) => (
+            <div
+              key={document.id}
+              className="flex items-center justify-between gap-4 p-4"
+            >
+              <div className="min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="truncate font-medium">{document.name}</span>
+                  <Badge variant={STATUS_VARIANTS[document.status]}>
+                    {document.status}
+                  </Badge>
+                  <Badge variant="outline">{document.format}</Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {document.chunkCount.toLocaleString()} chunks in{" "}
+                  {document.collection} · {document.strategy} ·{" "}
+                  {(document.sizeBytes / 1024).toFixed(1)} KB · updated{" "}
+                  {new Date(document.updatedAt).toLocaleString()}
+                </p>
+                {document.error && (
+                  <p className="text-sm text-destructive">{document.error}</p>
+                )}
+              </div>
+              {canWrite && (
+                <div className="flex shrink-0 gap-1">
+                  <UploadDocumentDialog
+                    projectId={projectId}
+                    collections={collections}
+                    document={document}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(document)}
+                  >
+                    <TrashIcon />
+                    Delete
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
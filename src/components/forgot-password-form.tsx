@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { authClient } from "@/lib/auth-client";
+
+export function ForgotPasswordForm() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const email = new FormData(event.currentTarget).get("email") as string;
+
+    setIsLoading(true);
+    setError(null);
+    const { error } = await authClient.requestPasswordReset({
+      email,
+      redirectTo: "/reset-password",
+    });
+    setIsLoading(false);
+
+    if (error) {
+      setError(error.message ?? "Could not send the reset link");
+      return;
+    }
+    setSentTo(email);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Forgot your password?</CardTitle>
+        <CardDescription>
+          Enter your email and we will send you a link to choose a new one.
+        </CardDescription>
+      </CardHeader>
+      {sentTo ? (
+        <CardContent className="space-y-4 text-sm">
+          <p>
+            If an account exists for {sentTo}, a reset link is on its way. It
+            expires in one hour.
+          </p>
+          <Link href="/signin" className="underline">
+            Back to sign in
+          </Link>
+        </CardContent>
+      ) : (
+        <form onSubmit={handleSubmit}>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                name="email"
+                type="email"
+                autoComplete="email"
+                required
+              />
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </CardContent>
+          <CardFooter className="mt-6 flex-col gap-4">
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? "Sending..." : "Send reset link"}
+            </Button>
+            <Link
+              href="/signin"
+              className="text-sm text-muted-foreground underline"
+            >
+              Back to sign in
+            </Link>
+          </CardFooter>
+        </form>
+      )}
+    </Card>
+  );
+}
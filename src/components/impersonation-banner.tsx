@@ -0,0 +1,53 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { createApiClient } from "@/lib/api-client";
+import { ApiError } from "@/lib/api-errors";
+
+const api = createApiClient();
+
+interface ImpersonationBannerProps {
+  user: { name: string; email: string };
+  expiresAt: string;
+}
+
+/** Shown across the dashboard while an admin is signed in as someone else. */
+export function ImpersonationBanner({
+  user,
+  expiresAt,
+}: ImpersonationBannerProps) {
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleStop = async () => {
+    setIsPending(true);
+    setError(null);
+    try {
+      await api.request("DELETE /api/admin/impersonation");
+      window.location.assign("/dashboard/admin/users");
+    } catch (error) {
+      setError(
+        error instanceof ApiError
+          ? error.message
+          : "Failed to stop impersonating",
+      );
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 border-b bg-amber-100 px-6 py-2 text-sm text-amber-950">
+      <span>
+        You are signed in as <strong>{user.name}</strong> ({user.email}) until{" "}
+        {new Date(expiresAt).toLocaleTimeString()}. Your actions are audited.
+      </span>
+      <span className="flex items-center gap-2">
+        {error && <span className="text-destructive">{error}</span>}
+        <Button size="sm" onClick={handleStop} disabled={isPending}>
+          {isPending ? "Stopping..." : "Stop impersonating"}
+        </Button>
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { UploadIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { errorMessage } from "@/lib/api-errors";
+
+interface ImportVectorsDialogProps {
+  projectId: number;
+  collectionName: string;
+}
+
+interface ImportReport {
+  total: number;
+  imported: number;
+  failed: number;
+  errors: { row: number; id: string | null; error: string }[];
+  errorsTruncated: boolean;
+}
+
+function csvCell(value: string | number | null) {
+  const text = value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function downloadErrorReport(collectionName: string, report: ImportReport) {
+  const lines = [
+    "row,id,error",
+    ...report.errors.map((error) =>
+      [error.row, error.id, error.error].map(csvCell).join(","),
+    ),
+  ];
+  const url = URL.createObjectURL(
+    new Blob([lines.join("\n")], { type: "text/csv" }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${collectionName}-import-errors.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Upload flow for JSONL, CSV or .npy (+ JSONL sidecar) vector files. */
+export function ImportVectorsDialog({
+  projectId,
+  collectionName,
+}: ImportVectorsDialogProps) {
+  const router = useRouter();
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isNpy, setIsNpy] = useState(false);
+  const [isQueued, setIsQueued] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsImporting(true);
+    setError(null);
+    setReport(null);
+    setIsQueued(false);
+
+    try {
+      const response = await fetch(
+        `/api/projects/${projectId}/collections/${encodeURIComponent(collectionName)}/import`,
+        { method: "POST", body: new FormData(event.currentTarget) },
+      );
+      const body = await response.json();
+      if (!response.ok) {
+        setError(errorMessage(body, "Import failed"));
+        setReport(body.report ?? null);
+      } else if (response.status === 202) {
+        // Background imports answer with the queued job instead of a report.
+        setIsQueued(true);
+      } else {
+        setReport(body);
+      }
+      router.refresh();
+    } catch {
+      setError("Import failed");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <UploadIcon />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import vectors into {collectionName}</DialogTitle>
+          <DialogDescription>
+            JSONL with id, vector and metadata; CSV with id and vector columns;
+            or a float32/float64 .npy matrix with a JSONL sidecar of ids and
+            metadata. Up to 64 MB; import larger JSONL and CSV files through the
+            API as a raw request body.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="import-file">File</Label>
+            <Input
+              id="import-file"
+              name="file"
+              type="file"
+              accept=".jsonl,.ndjson,.csv,.npy"
+              required
+              onChange={(event) =>
+                setIsNpy(
+                  event.target.files?.[0]?.name
+                    .toLowerCase()
+                    .endsWith(".npy") ?? false,
+                )
+              }
+            />
+          </div>
+          {isNpy && (
+            <div className="space-y-2">
+              <Label htmlFor="import-sidecar">Sidecar (JSONL)</Label>
+              <Input
+                id="import-sidecar"
+                name="sidecar"
+                type="file"
+                accept=".jsonl,.ndjson"
+                required
+              />
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <input
+              id="import-background"
+              name="background"
+              type="checkbox"
+              value="true"
+              className="size-4"
+            />
+            <Label htmlFor="import-background">
+              Run as a background job (for large files)
+            </Label>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          {isQueued && (
+            <p className="rounded-md border p-3 text-sm">
+              Import queued. Follow its progress on the{" "}
+              <Link href="/dashboard/jobs" className="underline">
+                jobs page
+              </Link>
+              .
+            </p>
+          )}
+          {report && (
+            <div className="space-y-2 rounded-md border p-3 text-sm">
+              <p>
+                Imported {report.imported.toLocaleString()} of{" "}
+                {report.total.toLocaleString()} rows
+                {report.failed > 0 &&
+                  `, ${report.failed.toLocaleString()} failed`}
+                .
+              </p>
+              {report.errors.length > 0 && (
+                <Button
+                  type="button"
+                  variant="link"
+                  className="h-auto p-0"
+                  onClick={() => downloadErrorReport(collectionName, report)}
+                >
+                  Download error report
+                  {report.errorsTruncated && " (first 10,000 errors)"}
+                </Button>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button type="submit" disabled={isImporting}>
+              {isImporting ? "Importing..." : "Import"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
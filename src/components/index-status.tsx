@@ -0,0 +1,117 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import type { IndexStatus as IndexBuildStatus } from "@/db/schema";
+
+export interface IndexSummary {
+  method: string;
+  params: Record<string, number | undefined>;
+  status: IndexBuildStatus;
+  error: string | null;
+  sizeBytes: number | null;
+  progress: { phase: string; percent: number | null } | null;
+}
+
+interface IndexStatusProps {
+  projectId: number;
+  collectionName: string;
+  initialIndex: IndexSummary | null;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+const STATUS_VARIANTS = {
+  pending: "outline",
+  building: "secondary",
+  ready: "default",
+  failed: "destructive",
+} as const;
+
+export function formatBytes(bytes: number) {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+/** Shows a collection's ANN index and polls its progress while it builds. */
+export function IndexStatus({
+  projectId,
+  collectionName,
+  initialIndex,
+}: IndexStatusProps) {
+  const [index, setIndex] = useState(initialIndex);
+  const isBuilding =
+    index?.status === "pending" || index?.status === "building";
+
+  useEffect(() => {
+    if (!isBuilding) return;
+
+    const timer = setInterval(async () => {
+      const response = await fetch(
+        `/api/projects/${projectId}/collections/${encodeURIComponent(collectionName)}/index`,
+      );
+      if (response.ok) {
+        setIndex(await response.json());
+      } else if (response.status === 404) {
+        setIndex(null);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [isBuilding, projectId, collectionName]);
+
+  if (!index) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No index, queries use exact search.
+      </p>
+    );
+  }
+
+  const params = Object.entries(index.params)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(", ");
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex items-center gap-2">
+        <span className="font-medium uppercase">{index.method}</span>
+        <Badge variant={STATUS_VARIANTS[index.status]}>{index.status}</Badge>
+        {index.sizeBytes !== null && (
+          <span className="text-muted-foreground">
+            {formatBytes(index.sizeBytes)}
+          </span>
+        )}
+      </div>
+      <p className="text-muted-foreground">{params}</p>
+      {index.status === "building" && (
+        <div className="space-y-1">
+          <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+            <div
+              className="h-full bg-primary transition-all"
+              style={{ width: `${index.progress?.percent ?? 0}%` }}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {index.progress
+              ? `${index.progress.phase}${
+                  index.progress.percent !== null
+                    ? ` (${index.progress.percent.toFixed(0)}%)`
+                    : ""
+                }`
+              : "Waiting to start"}
+          </p>
+        </div>
+      )}
+      {index.status === "failed" && index.error && (
+        <p className="text-destructive">{index.error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type { JobStatus } from "@/db/schema";
+import { createApiClient } from "@/lib/api-client";
+import { ApiError } from "@/lib/api-errors";
+import { JOB_LABELS } from "@/lib/jobs/labels";
+
+export interface JobSummary {
+  id: string;
+  projectId: number;
+  projectName: string;
+  type: string;
+  status: JobStatus;
+  progress: number;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  error: string | null;
+  cancelRequestedAt: string | null;
+  createdAt: string;
+  finishedAt: string | null;
+}
+
+interface JobListProps {
+  initialJobs: JobSummary[];
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+const api = createApiClient();
+
+const STATUS_VARIANTS = {
+  queued: "outline",
+  running: "secondary",
+  succeeded: "default",
+  failed: "destructive",
+  cancelled: "outline",
+} as const;
+
+/** Lists recent jobs, polling while any are still queued or running. */
+export function JobList({ initialJobs }: JobListProps) {
+  const [jobs, setJobs] = useState(initialJobs);
+  const [error, setError] = useState<string | null>(null);
+  const isActive = jobs.some(
+    (job) => job.status === "queued" || job.status === "running",
+  );
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    const timer = setInterval(async () => {
+      try {
+        setJobs(await api.request("GET /api/jobs"));
+      } catch {
+        // Keep showing the last list; the next poll tries again.
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [isActive]);
+
+  const handleCancel = async (jobId: string) => {
+    setError(null);
+    try {
+      const cancelled = await api.request("POST /api/jobs/{id}/cancel", {
+        params: { id: jobId },
+      });
+      setJobs((current) =>
+        current.map((job) =>
+          job.id === jobId ? { ...job, ...cancelled } : job,
+        ),
+      );
+    } catch (error) {
+      setError(
+        error instanceof ApiError ? error.message : "Failed to cancel job",
+      );
+    }
+  };
+
+  if (jobs.length === 0) {
+    return <p className="text-muted-foreground">No jobs yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {jobs.map((job) => {
+        const cancellable =
+          (job.status === "queued" || job.status === "running") &&
+          !job.cancelRequestedAt;
+        const retrying =
+          job.status === "queued" && job.attempts > 0 && job.error;
+
+        return (
+          <Card key={job.id}>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1.5">
+                  <CardTitle>{JOB_LABELS[job.type] ?? job.type}</CardTitle>
+                  <CardDescription className="flex flex-wrap items-center gap-2">
+                    <Badge variant={STATUS_VARIANTS[job.status]}>
+                      {job.cancelRequestedAt && job.status === "running"
+                        ? "cancelling"
+                        : job.status}
+                    </Badge>
+                    <span>{job.projectName}</span>
+                    <span>
+                      Queued {new Date(job.createdAt).toLocaleString()}
+                    </span>
+                  </CardDescription>
+                </div>
+                {cancellable && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleCancel(job.id)}
+                  >
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {job.status === "running" && (
+                <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+                  <div
+                    className="h-full bg-primary transition-all"
+                    style={{ width: `${job.progress * 100}%` }}
+                  />
+                </div>
+              )}
+              <p className="text-muted-foreground">
+                Attempt {job.attempts} of {job.maxAttempts}
+                {retrying &&
+                  `, retrying at ${new Date(job.runAt).toLocaleTimeString()}`}
+                {job.finishedAt &&
+                  `, finished ${new Date(job.finishedAt).toLocaleString()}`}
+              </p>
+              {job.error && job.status !== "succeeded" && (
+                <p className="text-destructive">{job.error}</p>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
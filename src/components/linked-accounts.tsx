@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { LinkIcon, UnlinkIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { authClient } from "@/lib/auth-client";
+import type { OAuthProvider } from "@/lib/oauth";
+
+export interface LinkedAccount {
+  id: string;
+  providerId: string;
+  accountId: string;
+  createdAt: string;
+}
+
+interface LinkedAccountsProps {
+  accounts: LinkedAccount[];
+  providers: OAuthProvider[];
+  /** Settings page messages from a failed link, via ?error=. */
+  error?: string;
+}
+
+const CALLBACK_URL = "/dashboard/settings";
+
+/**
+ * Sign-in methods of the current user, with unlink, and the configured
+ * providers they have not linked yet. The last method cannot be unlinked.
+ */
+export function LinkedAccounts({
+  accounts,
+  providers,
+  error: initialError,
+}: LinkedAccountsProps) {
+  const router = useRouter();
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(initialError ?? null);
+
+  const names = new Map(
+    providers.map((provider) => [provider.id, provider.name]),
+  );
+  const providerName = (id: string) =>
+    id === "credential" ? "Email and password" : (names.get(id) ?? id);
+  const unlinked = providers.filter(
+    (provider) =>
+      !accounts.some((account) => account.providerId === provider.id),
+  );
+
+  const handleLink = async (provider: OAuthProvider) => {
+    setPending(provider.id);
+    setError(null);
+    const options = {
+      callbackURL: CALLBACK_URL,
+      errorCallbackURL: CALLBACK_URL,
+    };
+    // Both redirect to the provider on success.
+    const { error } =
+      provider.kind === "social"
+        ? await authClient.linkSocial({ provider: provider.id, ...options })
+        : await authClient.oauth2.link({ providerId: provider.id, ...options });
+    if (error) {
+      setError(error.message ?? `Could not link ${provider.name}`);
+      setPending(null);
+    }
+  };
+
+  const handleUnlink = async (account: LinkedAccount) => {
+    setPending(account.id);
+    setError(null);
+    const { error } = await authClient.unlinkAccount({
+      providerId: account.providerId,
+      accountId: account.accountId,
+    });
+    setPending(null);
+    if (error) {
+      setError(error.message ?? "Could not unlink the account");
+      return;
+    }
+    router.refresh();
+  };
+
+  return (
+    <div className="space-y-4">
+      <ul className="divide-y rounded-md border text-sm">
+        {accounts.map((account) => (
+          <li
+            key={account.id}
+            className="flex items-center justify-between gap-2 px-4 py-2"
+          >
+            <span>
+              {providerName(account.providerId)}
+              <span className="block text-xs text-muted-foreground">
+                Linked {new Date(account.createdAt).toLocaleDateString()}
+              </span>
+            </span>
+            {account.providerId !== "credential" && (
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={accounts.length === 1 || pending !== null}
+                title={
+                  accounts.length === 1
+                    ? "Your only sign-in method cannot be unlinked"
+                    : undefined
+                }
+                onClick={() => handleUnlink(account)}
+              >
+                <UnlinkIcon />
+                {pending === account.id ? "Unlinking..." : "Unlink"}
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {unlinked.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {unlinked.map((provider) => (
+            <Button
+              key={provider.id}
+              variant="outline"
+              size="sm"
+              disabled={pending !== null}
+              onClick={() => handleLink(provider)}
+            >
+              <LinkIcon />
+              {pending === provider.id
+                ? "Redirecting..."
+                : `Link ${provider.name}`}
+            </Button>
+          ))}
+        </div>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
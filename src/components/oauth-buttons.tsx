@@ -0,0 +1,62 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { authClient } from "@/lib/auth-client";
+import type { OAuthProvider } from "@/lib/oauth";
+
+interface OAuthButtonsProps {
+  providers: OAuthProvider[];
+  /** Same-origin path to continue to after signing in. */
+  redirectTo: string;
+}
+
+/**
+ * One "Continue with ..." button per configured provider. A first sign-in
+ * creates the account, or links it to an existing one with the same
+ * verified email.
+ */
+export function OAuthButtons({ providers, redirectTo }: OAuthButtonsProps) {
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (providers.length === 0) return null;
+
+  const handleClick = async (provider: OAuthProvider) => {
+    setPending(provider.id);
+    setError(null);
+    const options = { callbackURL: redirectTo, errorCallbackURL: "/signin" };
+    // Both redirect to the provider on success.
+    const { error } =
+      provider.kind === "social"
+        ? await authClient.signIn.social({ provider: provider.id, ...options })
+        : await authClient.signIn.oauth2({
+            providerId: provider.id,
+            ...options,
+          });
+    if (error) {
+      setError(error.message ?? `Could not sign in with ${provider.name}`);
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {providers.map((provider) => (
+        <Button
+          key={provider.id}
+          type="button"
+          variant="outline"
+          className="w-full"
+          disabled={pending !== null}
+          onClick={() => handleClick(provider)}
+        >
+          {pending === provider.id
+            ? "Redirecting..."
+            : `Continue with ${provider.name}`}
+        </Button>
+      ))}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useTransition } from "react";
+import Link from "next/link";
+import {
+  Building2Icon,
+  ChevronsUpDownIcon,
+  ScrollTextIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { setActiveOrganization } from "@/app/dashboard/actions";
+import type { MemberRole } from "@/db/schema";
+import { hasRole } from "@/lib/permissions";
+
+interface OrgSwitcherProps {
+  organizations: { id: number; name: string; role: MemberRole }[];
+  /** Selected organization id, or `null` for personal projects. */
+  activeOrganizationId: number | null;
+}
+
+/** Dropdown for switching the dashboard between personal and organization projects. */
+export function OrgSwitcher({
+  organizations,
+  activeOrganizationId,
+}: OrgSwitcherProps) {
+  const [isPending, startTransition] = useTransition();
+  const active = organizations.find((org) => org.id === activeOrganizationId);
+
+  const handleChange = (value: string) => {
+    startTransition(() =>
+      setActiveOrganization(value === "personal" ? null : Number(value)),
+    );
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          className="w-56 justify-between"
+          disabled={isPending}
+        >
+          <span className="flex items-center gap-2 truncate">
+            <Building2Icon />
+            {active ? active.name : "Personal"}
+          </span>
+          <ChevronsUpDownIcon className="opacity-50" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-56" align="start">
+        <DropdownMenuLabel>Workspace</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={active ? String(active.id) : "personal"}
+          onValueChange={handleChange}
+        >
+          <DropdownMenuRadioItem value="personal">
+            Personal
+          </DropdownMenuRadioItem>
+          {organizations.map((org) => (
+            <DropdownMenuRadioItem key={org.id} value={String(org.id)}>
+              <span className="truncate">{org.name}</span>
+              <span className="ml-auto text-xs text-muted-foreground">
+                {org.role}
+              </span>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        {active && hasRole(active.role, "admin") && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem asChild>
+              <Link href={`/dashboard/organizations/${active.id}/audit`}>
+                <ScrollTextIcon />
+                Audit log
+              </Link>
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
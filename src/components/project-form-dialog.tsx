@@ -0,0 +1,174 @@
+"use client";
+
+import { useActionState, useEffect, useState } from "react";
+import { PencilIcon, PlusIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  createProject,
+  updateProject,
+  type ProjectFormState,
+} from "@/app/dashboard/projects/actions";
+import type { ProjectMetadata } from "@/db/schema";
+import { fieldErrors } from "@/lib/schemas/common";
+import {
+  MAX_PROJECT_NAME_LENGTH,
+  projectFormSchema,
+  type ProjectFormErrors,
+} from "@/lib/schemas/projects";
+
+interface ProjectFormDialogProps {
+  /** The project to edit; omit to create a new one. */
+  project?: {
+    id: number;
+    name: string;
+    description: string | null;
+    metadata: ProjectMetadata | null;
+  };
+}
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="text-sm text-destructive">{message}</p>;
+}
+
+function ProjectForm({
+  project,
+  onSuccess,
+}: ProjectFormDialogProps & { onSuccess: () => void }) {
+  const action = project ? updateProject.bind(null, project.id) : createProject;
+  const [state, formAction, isPending] = useActionState<
+    ProjectFormState,
+    FormData
+  >(action, {});
+  const [clientErrors, setClientErrors] = useState<ProjectFormErrors>();
+  const errors = clientErrors ?? state.errors;
+
+  // Same schema as the server action, so obvious mistakes are caught
+  // without a round trip; the action still validates on its own.
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    const formData = new FormData(event.currentTarget);
+    const parsed = projectFormSchema.safeParse({
+      name: String(formData.get("name") ?? ""),
+      description: String(formData.get("description") ?? ""),
+      metadata: String(formData.get("metadata") ?? ""),
+    });
+    if (!parsed.success) {
+      event.preventDefault();
+      setClientErrors(fieldErrors(parsed.error));
+      return;
+    }
+    setClientErrors(undefined);
+  };
+
+  useEffect(() => {
+    if (state.success) onSuccess();
+  }, [state, onSuccess]);
+
+  // After a failed submit the form is refilled from what was sent.
+  const defaults = state.values ?? {
+    name: project?.name ?? "",
+    description: project?.description ?? "",
+    metadata: project?.metadata
+      ? JSON.stringify(project.metadata, null, 2)
+      : "",
+  };
+
+  return (
+    <form action={formAction} onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="project-name">Name</Label>
+        <Input
+          id="project-name"
+          name="name"
+          defaultValue={defaults.name}
+          maxLength={MAX_PROJECT_NAME_LENGTH}
+          aria-invalid={Boolean(errors?.name)}
+          required
+        />
+        <FieldError message={errors?.name} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="project-description">Description</Label>
+        <textarea
+          id="project-description"
+          name="description"
+          defaultValue={defaults.description}
+          rows={3}
+          className="border-input w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs"
+        />
+        <FieldError message={errors?.description} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="project-metadata">Metadata (JSON object)</Label>
+        <textarea
+          id="project-metadata"
+          name="metadata"
+          defaultValue={defaults.metadata}
+          rows={4}
+          placeholder='{"team": "search"}'
+          aria-invalid={Boolean(errors?.metadata)}
+          className="border-input aria-invalid:border-destructive w-full rounded-md border bg-transparent px-3 py-2 font-mono text-sm shadow-xs"
+        />
+        <FieldError message={errors?.metadata} />
+      </div>
+      <FieldError message={state.message} />
+      <DialogFooter>
+        <Button type="submit" disabled={isPending}>
+          {isPending
+            ? "Saving..."
+            : project
+              ? "Save changes"
+              : "Create project"}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
+
+/** Create or edit dialog backed by the project server actions. */
+export function ProjectFormDialog({ project }: ProjectFormDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        {project ? (
+          <Button variant="outline" size="sm">
+            <PencilIcon />
+            Edit
+          </Button>
+        ) : (
+          <Button size="sm">
+            <PlusIcon />
+            New project
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{project ? "Edit project" : "New project"}</DialogTitle>
+          <DialogDescription>
+            {project
+              ? "Update the project's name, description and metadata."
+              : "Projects group collections, API keys and snapshots."}
+          </DialogDescription>
+        </DialogHeader>
+        {/* Remounted on every open so a previous attempt's errors are cleared. */}
+        {isOpen && (
+          <ProjectForm project={project} onSuccess={() => setIsOpen(false)} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,632 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { ChartScatterIcon, DownloadIcon, TrashIcon } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { ProjectionMethod } from "@/db/schema";
+import { createApiClient, type ResponseOf } from "@/lib/api-client";
+import { ApiError } from "@/lib/api-errors";
+
+export type ProjectionData =
+  ResponseOf<"GET /api/projects/{id}/collections/{name}/projection">;
+
+type ProjectionPoint = ProjectionData["points"][number];
+
+interface ProjectionExplorerProps {
+  projectId: number;
+  collection: { name: string; version: number };
+  initialProjection: ProjectionData | null;
+  limits: {
+    defaultSampleSize: number;
+    maxSampleSize: number;
+    maxTsneSampleSize: number;
+  };
+  canWrite: boolean;
+}
+
+const api = createApiClient();
+
+const METHOD_LABELS: Record<ProjectionMethod, string> = {
+  pca: "PCA",
+  tsne: "t-SNE",
+};
+
+const POLL_INTERVAL_MS = 1000;
+
+// The vectors endpoints take at most this many ids; fetches go by a
+// smaller batch so the ids fit in the query string.
+const FETCH_BATCH_SIZE = 100;
+const DELETE_BATCH_SIZE = 1000;
+
+const WIDTH = 640;
+const HEIGHT = 480;
+const PADDING = 16;
+
+const PALETTE = [
+  "#2563eb",
+  "#dc2626",
+  "#16a34a",
+  "#d97706",
+  "#9333ea",
+  "#0891b2",
+  "#db2777",
+  "#65a30d",
+  "#7c3aed",
+  "#ea580c",
+];
+const OTHER_COLOR = "#a1a1aa";
+
+const selectClassName =
+  "border-input flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs";
+
+/** Value at a dot-separated path, as metadata filters read fields. */
+function fieldValue(metadata: Record<string, unknown> | null, field: string) {
+  let value: unknown = metadata;
+  for (const key of field.split(".")) {
+    if (typeof value !== "object" || value === null) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+type ColorScale =
+  | { kind: "none" }
+  | { kind: "numeric"; min: number; max: number }
+  | { kind: "categorical"; colors: Map<string, string>; hasOther: boolean };
+
+/**
+ * A gradient when every value of the field is a number, otherwise one colour
+ * per value for the most common ones and grey for the rest.
+ */
+function colorScale(points: ProjectionPoint[], field: string): ColorScale {
+  if (!field) return { kind: "none" };
+  const values = points
+    .map((point) => fieldValue(point.metadata, field))
+    .filter((value) => value !== undefined && value !== null);
+  if (values.length === 0) return { kind: "none" };
+
+  if (values.every((value) => typeof value === "number")) {
+    const numbers = values as number[];
+    return {
+      kind: "numeric",
+      min: Math.min(...numbers),
+      max: Math.max(...numbers),
+    };
+  }
+
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    const key = categoryKey(value);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  const ranked = [...counts].sort((a, b) => b[1] - a[1]);
+  return {
+    kind: "categorical",
+    colors: new Map(
+      ranked
+        .slice(0, PALETTE.length)
+        .map(([key], i) => [key, PALETTE[i]] as const),
+    ),
+    hasOther: ranked.length > PALETTE.length,
+  };
+}
+
+function categoryKey(value: unknown) {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function gradient(t: number) {
+  return `hsl(${Math.round(240 - 240 * t)} 70% 50%)`;
+}
+
+function pointColor(scale: ColorScale, value: unknown) {
+  if (scale.kind === "none") return PALETTE[0];
+  if (value === undefined || value === null) return OTHER_COLOR;
+  if (scale.kind === "numeric") {
+    if (typeof value !== "number") return OTHER_COLOR;
+    const range = scale.max - scale.min;
+    return gradient(range > 0 ? (value - scale.min) / range : 0.5);
+  }
+  return scale.colors.get(categoryKey(value)) ?? OTHER_COLOR;
+}
+
+/** Ray casting: whether (x, y) is inside the polygon. */
+function isInside(x: number, y: number, polygon: [number, number][]) {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function download(name: string, lines: string[]) {
+  const url = URL.createObjectURL(
+    new Blob([lines.join("\n")], { type: "application/x-ndjson" }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function chunks<T>(items: T[], size: number) {
+  const batches: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    batches.push(items.slice(start, start + size));
+  }
+  return batches;
+}
+
+/**
+ * Scatter plot of a collection's vectors projected to 2D. Projections are
+ * computed by a background job and cached per collection version; hovering
+ * a point shows its payload, and a lasso (drag on the plot, Shift to add)
+ * selects points to export as JSONL or delete.
+ */
+export function ProjectionExplorer({
+  projectId,
+  collection,
+  initialProjection,
+  limits,
+  canWrite,
+}: ProjectionExplorerProps) {
+  const router = useRouter();
+  const params = { id: projectId, name: collection.name };
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const [method, setMethod] = useState<ProjectionMethod>(
+    initialProjection?.method ?? "pca",
+  );
+  const [sampleSize, setSampleSize] = useState(
+    String(initialProjection?.sampleSize ?? limits.defaultSampleSize),
+  );
+  const [projection, setProjection] = useState(initialProjection);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [colorField, setColorField] = useState("");
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [lasso, setLasso] = useState<[number, number][] | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const points = useMemo(() => projection?.points ?? [], [projection]);
+
+  const layout = useMemo(() => {
+    if (points.length === 0) return new Map<string, [number, number]>();
+    const xs = points.map((point) => point.x);
+    const ys = points.map((point) => point.y);
+    const [minX, maxX] = [Math.min(...xs), Math.max(...xs)];
+    const [minY, maxY] = [Math.min(...ys), Math.max(...ys)];
+    // One scale for both axes, so distances are not distorted.
+    const scale = Math.min(
+      (WIDTH - 2 * PADDING) / (maxX - minX || 1),
+      (HEIGHT - 2 * PADDING) / (maxY - minY || 1),
+    );
+    const offsetX = (WIDTH - (maxX - minX) * scale) / 2;
+    const offsetY = (HEIGHT - (maxY - minY) * scale) / 2;
+    return new Map(
+      points.map((point) => [
+        point.id,
+        [
+          offsetX + (point.x - minX) * scale,
+          HEIGHT - offsetY - (point.y - minY) * scale,
+        ] as [number, number],
+      ]),
+    );
+  }, [points]);
+
+  const fields = useMemo(() => {
+    const keys = new Set<string>();
+    for (const point of points) {
+      for (const key of Object.keys(point.metadata ?? {})) keys.add(key);
+    }
+    return [...keys].sort();
+  }, [points]);
+
+  const scale = useMemo(
+    () => colorScale(points, colorField.trim()),
+    [points, colorField],
+  );
+
+  const hovered = points.find((point) => point.id === hoveredId) ?? null;
+  const isStale =
+    projection !== null && projection.collectionVersion !== collection.version;
+
+  const selectProjection = (next: ProjectionData | null) => {
+    setProjection(next);
+    setSelected(new Set());
+    setHoveredId(null);
+  };
+
+  /** Shows the cached projection, or computes it if there is none. */
+  const handleProject = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setIsWorking(true);
+    const query = { method, sampleSize: Number(sampleSize) };
+    try {
+      try {
+        selectProjection(
+          await api.request(
+            "GET /api/projects/{id}/collections/{name}/projection",
+            { params, query },
+          ),
+        );
+        return;
+      } catch (error) {
+        if (!(error instanceof ApiError && error.status === 404)) throw error;
+      }
+      if (!canWrite) {
+        setError(
+          "No projection with these settings yet; computing one needs write access.",
+        );
+        return;
+      }
+
+      let job = await api.request(
+        "POST /api/projects/{id}/collections/{name}/projection",
+        { params, body: query },
+      );
+      while (job.status === "queued" || job.status === "running") {
+        setProgress(job.progress);
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        job = await api.request("GET /api/jobs/{id}", {
+          params: { id: job.id },
+        });
+      }
+      if (job.status !== "succeeded") {
+        setError(job.error ?? `The projection job was ${job.status}`);
+        return;
+      }
+      selectProjection(
+        await api.request(
+          "GET /api/projects/{id}/collections/{name}/projection",
+          { params, query },
+        ),
+      );
+      // The collection's version may have moved on.
+      router.refresh();
+    } catch (error) {
+      setError(
+        error instanceof ApiError ? error.message : "Failed to project vectors",
+      );
+    } finally {
+      setIsWorking(false);
+      setProgress(null);
+    }
+  };
+
+  const toPlot = (event: React.PointerEvent<SVGSVGElement>) => {
+    const svg = svgRef.current!;
+    const point = svg.createSVGPoint();
+    point.x = event.clientX;
+    point.y = event.clientY;
+    const { x, y } = point.matrixTransform(svg.getScreenCTM()!.inverse());
+    return [x, y] as [number, number];
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!lasso) return;
+    setLasso(null);
+    const next = event.shiftKey ? new Set(selected) : new Set<string>();
+    // A click without a drag just clears the selection.
+    if (lasso.length > 2) {
+      for (const [id, [x, y]] of layout) {
+        if (isInside(x, y, lasso)) next.add(id);
+      }
+    }
+    setSelected(next);
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    setIsWorking(true);
+    try {
+      const lines: string[] = [];
+      for (const ids of chunks([...selected], FETCH_BATCH_SIZE)) {
+        const { items } = await api.request(
+          "GET /api/projects/{id}/collections/{name}/vectors",
+          { params, query: { ids } },
+        );
+        for (const { id, vector, metadata } of items) {
+          lines.push(JSON.stringify({ id, vector, metadata }));
+        }
+      }
+      download(`${collection.name}-selection.jsonl`, lines);
+    } catch (error) {
+      setError(
+        error instanceof ApiError ? error.message : "Failed to export vectors",
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (
+      !confirm(
+        `Delete ${selected.size} vectors from ${collection.name}? This cannot be undone.`,
+      )
+    ) {
+      return;
+    }
+    setError(null);
+    setIsWorking(true);
+    const deleted = new Set<string>();
+    try {
+      for (const ids of chunks([...selected], DELETE_BATCH_SIZE)) {
+        await api.request(
+          "DELETE /api/projects/{id}/collections/{name}/vectors",
+          { params, body: { ids } },
+        );
+        ids.forEach((id) => deleted.add(id));
+      }
+    } catch (error) {
+      setError(
+        error instanceof ApiError ? error.message : "Failed to delete vectors",
+      );
+    } finally {
+      // Keep the layout, minus what is gone; it is marked as outdated.
+      if (projection && deleted.size > 0) {
+        setProjection({
+          ...projection,
+          points: projection.points.filter((point) => !deleted.has(point.id)),
+        });
+        setSelected(new Set([...selected].filter((id) => !deleted.has(id))));
+        router.refresh();
+      }
+      setIsWorking(false);
+    }
+  };
+
+  const sampleLimit =
+    method === "tsne" ? limits.maxTsneSampleSize : limits.maxSampleSize;
+
+  return (
+    <div className="space-y-4">
+      <form
+        onSubmit={handleProject}
+        className="flex flex-wrap items-end gap-4 rounded-md border p-4"
+      >
+        <div className="w-32 space-y-2">
+          <Label htmlFor="projection-method">Method</Label>
+          <select
+            id="projection-method"
+            value={method}
+            onChange={(event) =>
+              setMethod(event.target.value as ProjectionMethod)
+            }
+            className={selectClassName}
+          >
+            {Object.entries(METHOD_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="w-32 space-y-2">
+          <Label htmlFor="projection-sample-size">Sample size</Label>
+          <Input
+            id="projection-sample-size"
+            type="number"
+            min={10}
+            max={sampleLimit}
+            value={sampleSize}
+            onChange={(event) => setSampleSize(event.target.value)}
+          />
+        </div>
+        <div className="w-48 space-y-2">
+          <Label htmlFor="projection-color">Colour by</Label>
+          <Input
+            id="projection-color"
+            list="projection-fields"
+            placeholder="Metadata field"
+            value={colorField}
+            onChange={(event) => setColorField(event.target.value)}
+          />
+          <datalist id="projection-fields">
+            {fields.map((field) => (
+              <option key={field} value={field} />
+            ))}
+          </datalist>
+        </div>
+        <Button type="submit" disabled={isWorking}>
+          <ChartScatterIcon />
+          {progress !== null
+            ? `Projecting... ${Math.round(progress * 100)}%`
+            : "Project"}
+        </Button>
+      </form>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {projection === null ? (
+        <p className="text-muted-foreground">
+          No projection of the current vectors yet. Choose a method and sample
+          size and press Project.
+        </p>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-[1fr_16rem]">
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+              <Badge variant="secondary">
+                {METHOD_LABELS[projection.method]}
+              </Badge>
+              <span>
+                {points.length.toLocaleString()} points · computed{" "}
+                {new Date(projection.computedAt).toLocaleString()}
+              </span>
+              {projection.explainedVariance && (
+                <span>
+                  · explains{" "}
+                  {projection.explainedVariance
+                    .map((share) => `${(share * 100).toFixed(1)}%`)
+                    .join(" + ")}{" "}
+                  of the variance
+                </span>
+              )}
+              {isStale && (
+                <Badge variant="outline">Vectors changed since</Badge>
+              )}
+            </div>
+            <svg
+              ref={svgRef}
+              viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+              className="w-full cursor-crosshair touch-none rounded-md border select-none"
+              onPointerDown={(event) => {
+                if (event.button !== 0) return;
+                event.currentTarget.setPointerCapture(event.pointerId);
+                setLasso([toPlot(event)]);
+              }}
+              onPointerMove={(event) => {
+                if (lasso) setLasso([...lasso, toPlot(event)]);
+              }}
+              onPointerUp={handlePointerUp}
+            >
+              {points.map((point) => {
+                const [x, y] = layout.get(point.id)!;
+                const isSelected = selected.has(point.id);
+                return (
+                  <circle
+                    key={point.id}
+                    cx={x}
+                    cy={y}
+                    r={point.id === hoveredId ? 6 : 3.5}
+                    fill={pointColor(
+                      scale,
+                      fieldValue(point.metadata, colorField.trim()),
+                    )}
+                    fillOpacity={selected.size > 0 && !isSelected ? 0.25 : 0.8}
+                    stroke={isSelected ? "currentColor" : "none"}
+                    strokeWidth={1.5}
+                    onPointerEnter={() => setHoveredId(point.id)}
+                    onPointerLeave={() => setHoveredId(null)}
+                  />
+                );
+              })}
+              {lasso && (
+                <polygon
+                  points={lasso.map(([x, y]) => `${x},${y}`).join(" ")}
+                  fill="currentColor"
+                  fillOpacity={0.08}
+                  stroke="currentColor"
+                  strokeDasharray="4 3"
+                />
+              )}
+            </svg>
+            <Legend scale={scale} />
+            <p className="text-xs text-muted-foreground">
+              Drag to lasso points, with Shift to add to the selection; click to
+              clear it.
+            </p>
+          </div>
+
+          <div className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Selection</CardTitle>
+                <CardDescription>
+                  {selected.size.toLocaleString()} of{" "}
+                  {points.length.toLocaleString()} points
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={selected.size === 0 || isWorking}
+                  onClick={handleExport}
+                >
+                  <DownloadIcon />
+                  Export JSONL
+                </Button>
+                {canWrite && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={selected.size === 0 || isWorking}
+                    onClick={handleDelete}
+                  >
+                    <TrashIcon />
+                    Delete
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle className="truncate text-base">
+                  {hovered ? hovered.id : "Payload"}
+                </CardTitle>
+                {!hovered && (
+                  <CardDescription>
+                    Hover a point to inspect it.
+                  </CardDescription>
+                )}
+              </CardHeader>
+              {hovered && (
+                <CardContent>
+                  <pre className="max-h-80 overflow-auto rounded-md bg-muted p-2 text-xs">
+                    {hovered.metadata === null
+                      ? "Deleted since the projection"
+                      : JSON.stringify(hovered.metadata, null, 2)}
+                  </pre>
+                </CardContent>
+              )}
+            </Card>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Legend({ scale }: { scale: ColorScale }) {
+  if (scale.kind === "none") return null;
+  if (scale.kind === "numeric") {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <span>{scale.min.toLocaleString()}</span>
+        <span
+          className="h-2 w-32 rounded-full"
+          style={{
+            background: `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1].map(gradient).join(", ")})`,
+          }}
+        />
+        <span>{scale.max.toLocaleString()}</span>
+      </div>
+    );
+  }
+  const entries = [...scale.colors];
+  if (scale.hasOther) entries.push(["Other", OTHER_COLOR]);
+  return (
+    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+      {entries.map(([value, color]) => (
+        <span key={value} className="flex items-center gap-1">
+          <span
+            className="size-2 rounded-full"
+            style={{ backgroundColor: color }}
+          />
+          {value}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,786 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  LinkIcon,
+  PlayIcon,
+  PlusIcon,
+  SaveIcon,
+  TrashIcon,
+  XIcon,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { DistanceMetric, QueryMode } from "@/db/schema";
+import { createApiClient, type ResponseOf } from "@/lib/api-client";
+import { ApiError } from "@/lib/api-errors";
+import {
+  EMPTY_FORM,
+  FILTER_OPERATORS,
+  formToQuery,
+  playgroundSearch,
+  queryToForm,
+  type FilterCondition,
+  type FilterOperator,
+  type PlaygroundForm,
+  type PlaygroundQuery,
+} from "@/lib/playground";
+
+export interface PlaygroundCollection {
+  name: string;
+  dimension: number;
+  metric: DistanceMetric;
+  /** Whether the collection has an embedding provider for text queries. */
+  canEmbed: boolean;
+}
+
+export interface SavedQuerySummary {
+  id: number;
+  name: string;
+  mode: QueryMode;
+  query: Record<string, unknown>;
+  createdAt: string;
+}
+
+interface QueryPlaygroundProps {
+  projectId: number;
+  collection: PlaygroundCollection;
+  /** Names of the project's collections, to switch between. */
+  collections: string[];
+  savedQueries: SavedQuerySummary[];
+  /** A shared or saved query from the URL, run on load. */
+  initialMode: QueryMode;
+  initialQuery: Record<string, unknown> | null;
+  canWrite: boolean;
+}
+
+type HybridResult =
+  ResponseOf<"POST /api/projects/{id}/collections/{name}/query/hybrid">;
+
+type Match =
+  ResponseOf<"POST /api/projects/{id}/collections/{name}/query">["matches"][number] &
+    Partial<Pick<HybridResult["matches"][number], "contributions">>;
+
+interface QueryResult {
+  matches: Match[];
+  /** Round trip in milliseconds, embedding included. */
+  latency: number;
+  retrievers?: HybridResult["retrievers"];
+}
+
+const api = createApiClient();
+
+const selectClassName =
+  "border-input flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs";
+
+async function runQuery(
+  projectId: number,
+  collectionName: string,
+  { mode, query }: PlaygroundQuery,
+): Promise<QueryResult> {
+  const params = { id: projectId, name: collectionName };
+  const started = performance.now();
+  if (mode === "hybrid") {
+    const { matches, retrievers } = await api.request(
+      "POST /api/projects/{id}/collections/{name}/query/hybrid",
+      { params, body: query },
+    );
+    return { matches, retrievers, latency: performance.now() - started };
+  }
+  const { matches } = await api.request(
+    "POST /api/projects/{id}/collections/{name}/query",
+    { params, body: query },
+  );
+  return { matches, latency: performance.now() - started };
+}
+
+function errorText(error: unknown) {
+  return error instanceof ApiError ? error.message : "The query failed";
+}
+
+function FilterRow({
+  condition,
+  onChange,
+  onRemove,
+}: {
+  condition: FilterCondition;
+  onChange: (condition: FilterCondition) => void;
+  onRemove: () => void;
+}) {
+  const needsValue =
+    condition.operator !== "exists" && condition.operator !== "missing";
+  return (
+    <div className="flex gap-2">
+      <Input
+        aria-label="Field"
+        placeholder="metadata.field"
+        value={condition.field}
+        onChange={(event) =>
+          onChange({ ...condition, field: event.target.value })
+        }
+      />
+      <select
+        aria-label="Operator"
+        value={condition.operator}
+        onChange={(event) =>
+          onChange({
+            ...condition,
+            operator: event.target.value as FilterOperator,
+          })
+        }
+        className={`${selectClassName} w-40 shrink-0`}
+      >
+        {Object.entries(FILTER_OPERATORS).map(([operator, label]) => (
+          <option key={operator} value={operator}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <Input
+        aria-label="Value"
+        placeholder={condition.operator === "in" ? "a, b, 3" : "value"}
+        value={condition.value}
+        disabled={!needsValue}
+        onChange={(event) =>
+          onChange({ ...condition, value: event.target.value })
+        }
+      />
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        aria-label="Remove condition"
+        onClick={onRemove}
+      >
+        <XIcon />
+      </Button>
+    </div>
+  );
+}
+
+function SaveQueryDialog({
+  projectId,
+  collectionName,
+  mode,
+  query,
+}: {
+  projectId: number;
+  collectionName: string;
+  mode: QueryMode;
+  query: Record<string, unknown> | null;
+}) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    // The dialog is portalled, but React still bubbles its submit to the
+    // playground form it is rendered in.
+    event.stopPropagation();
+    if (!query) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await api.request(
+        "POST /api/projects/{id}/collections/{name}/saved-queries",
+        {
+          params: { id: projectId, name: collectionName },
+          body: { name, mode, query },
+        },
+      );
+      setIsOpen(false);
+      setName("");
+      router.refresh();
+    } catch (error) {
+      setError(
+        error instanceof ApiError ? error.message : "Failed to save query",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        setError(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" disabled={!query}>
+          <SaveIcon />
+          Save
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save query</DialogTitle>
+          <DialogDescription>
+            Everyone in the project can run saved queries of {collectionName}.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="saved-query-name">Name</Label>
+            <Input
+              id="saved-query-name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              maxLength={255}
+              required
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <DialogFooter>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function MatchCard({ match, rank }: { match: Match; rank: number }) {
+  const { contributions } = match;
+  return (
+    <Card className="gap-3 py-4">
+      <CardHeader className="px-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 font-mono text-sm">
+            <span className="text-muted-foreground">#{rank}</span>
+            <span className="break-all">{match.id}</span>
+          </CardTitle>
+          <span className="flex flex-wrap gap-2">
+            <Badge>score {match.score.toFixed(4)}</Badge>
+            <Badge variant="outline">
+              distance {match.distance.toFixed(4)}
+            </Badge>
+          </span>
+        </div>
+        {contributions && (
+          <CardDescription className="flex flex-wrap gap-2">
+            <Badge variant="secondary">
+              vector {contributions.vector.contribution.toFixed(4)}
+              {contributions.vector.rank !== null &&
+                ` · #${contributions.vector.rank}`}
+            </Badge>
+            <Badge variant="secondary">
+              keyword {contributions.keyword.contribution.toFixed(4)}
+              {contributions.keyword.rank !== null &&
+                ` · #${contributions.keyword.rank}`}
+            </Badge>
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="px-4">
+        {match.metadata === null ? (
+          <p className="text-sm text-muted-foreground">No payload.</p>
+        ) : (
+          <pre className="max-h-48 overflow-auto rounded-md bg-muted p-2 text-xs">
+            {JSON.stringify(match.metadata, null, 2)}
+          </pre>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Runs queries against one collection from a form: text or a pasted vector,
+ * a metadata filter builder, search parameters and hybrid options. The URL
+ * always holds the last query run, so it can be shared as is.
+ */
+export function QueryPlayground({
+  projectId,
+  collection,
+  collections,
+  savedQueries,
+  initialMode,
+  initialQuery,
+  canWrite,
+}: QueryPlaygroundProps) {
+  const router = useRouter();
+  const [form, setForm] = useState<PlaygroundForm>(() =>
+    initialQuery
+      ? queryToForm(initialMode, initialQuery)
+      : { ...EMPTY_FORM, input: collection.canEmbed ? "text" : "vector" },
+  );
+  const [result, setResult] = useState<QueryResult | null>(null);
+  // Refreshes re-render the page with the last query in the URL; only the
+  // one the playground opened with runs by itself, as the form shows it.
+  const [initial] = useState(() => (initialQuery ? formToQuery(form) : null));
+  const [isRunning, setIsRunning] = useState(Boolean(initialQuery));
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const basePath = `/dashboard/projects/${projectId}/collections/${encodeURIComponent(collection.name)}/playground`;
+  const built = formToQuery(form);
+  const query = "query" in built ? built.query : null;
+
+  useEffect(() => {
+    if (!initial) return;
+    if ("error" in initial) {
+      setError(initial.error);
+      setIsRunning(false);
+      return;
+    }
+    runQuery(projectId, collection.name, initial)
+      .then(setResult, (error) => setError(errorText(error)))
+      .finally(() => setIsRunning(false));
+  }, [projectId, collection.name, initial]);
+
+  const update = (changes: Partial<PlaygroundForm>) =>
+    setForm((current) => ({ ...current, ...changes }));
+
+  const updateCondition = (index: number, condition: FilterCondition) =>
+    update({
+      conditions: form.conditions.map((current, i) =>
+        i === index ? condition : current,
+      ),
+    });
+
+  const handleRun = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if ("error" in built) {
+      setError(built.error);
+      return;
+    }
+    window.history.replaceState(
+      null,
+      "",
+      basePath + playgroundSearch(built.mode, built.query),
+    );
+    setIsRunning(true);
+    setError(null);
+    try {
+      setResult(await runQuery(projectId, collection.name, built));
+    } catch (error) {
+      setError(errorText(error));
+      setResult(null);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!query) return;
+    const search = playgroundSearch(form.mode, query);
+    window.history.replaceState(null, "", basePath + search);
+    await navigator.clipboard.writeText(
+      window.location.origin + basePath + search,
+    );
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleDeleteSaved = async (saved: SavedQuerySummary) => {
+    if (!confirm(`Delete the saved query "${saved.name}"?`)) return;
+    try {
+      await api.request(
+        "DELETE /api/projects/{id}/collections/{name}/saved-queries/{queryId}",
+        {
+          params: { id: projectId, name: collection.name, queryId: saved.id },
+        },
+      );
+      router.refresh();
+    } catch (error) {
+      setError(
+        error instanceof ApiError
+          ? error.message
+          : "Failed to delete saved query",
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleRun} className="space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <CardTitle>Query</CardTitle>
+              <div className="flex gap-2">
+                <select
+                  aria-label="Collection"
+                  value={collection.name}
+                  onChange={(event) =>
+                    router.push(
+                      `/dashboard/projects/${projectId}/collections/${encodeURIComponent(event.target.value)}/playground`,
+                    )
+                  }
+                  className={`${selectClassName} w-48`}
+                >
+                  {collections.map((name) => (
+                    <option key={name} value={name}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  aria-label="Search"
+                  value={form.mode}
+                  onChange={(event) =>
+                    update({ mode: event.target.value as QueryMode })
+                  }
+                  className={`${selectClassName} w-36`}
+                >
+                  <option value="vector">Vector</option>
+                  <option value="hybrid">Hybrid</option>
+                </select>
+              </div>
+            </div>
+            <CardDescription className="flex flex-wrap gap-2">
+              <Badge variant="outline">{collection.dimension}d</Badge>
+              <Badge variant="outline">{collection.metric}</Badge>
+              {!collection.canEmbed && (
+                <Badge variant="secondary">vectors only</Badge>
+              )}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-4 text-sm">
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="input"
+                  checked={form.input === "text"}
+                  disabled={!collection.canEmbed}
+                  onChange={() => update({ input: "text" })}
+                />
+                Text
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="input"
+                  checked={form.input === "vector"}
+                  onChange={() => update({ input: "vector" })}
+                />
+                Vector
+              </label>
+            </div>
+            {form.input === "text" ? (
+              <Input
+                aria-label="Text"
+                placeholder="What are you looking for?"
+                value={form.text}
+                onChange={(event) => update({ text: event.target.value })}
+              />
+            ) : (
+              <textarea
+                aria-label="Vector"
+                placeholder={`[0.12, -0.4, ...] (${collection.dimension} numbers)`}
+                rows={3}
+                value={form.vector}
+                onChange={(event) => update({ vector: event.target.value })}
+                className="border-input flex w-full rounded-md border bg-transparent px-3 py-2 font-mono text-xs shadow-xs"
+              />
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Filter</Label>
+                {form.conditions.length > 1 && (
+                  <select
+                    aria-label="Combine conditions"
+                    value={form.combine}
+                    onChange={(event) =>
+                      update({
+                        combine: event.target
+                          .value as PlaygroundForm["combine"],
+                      })
+                    }
+                    className={`${selectClassName} w-36`}
+                  >
+                    <option value="and">Match all</option>
+                    <option value="or">Match any</option>
+                  </select>
+                )}
+              </div>
+              {form.rawFilter !== undefined && form.conditions.length === 0 && (
+                <div className="flex items-start justify-between gap-2 rounded-md border p-2">
+                  <pre className="overflow-auto text-xs">
+                    {JSON.stringify(form.rawFilter)}
+                  </pre>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove filter"
+                    onClick={() => update({ rawFilter: undefined })}
+                  >
+                    <XIcon />
+                  </Button>
+                </div>
+              )}
+              {form.conditions.map((condition, index) => (
+                <FilterRow
+                  key={index}
+                  condition={condition}
+                  onChange={(changed) => updateCondition(index, changed)}
+                  onRemove={() =>
+                    update({
+                      conditions: form.conditions.filter((_, i) => i !== index),
+                    })
+                  }
+                />
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  update({
+                    conditions: [
+                      ...form.conditions,
+                      { field: "", operator: "eq", value: "" },
+                    ],
+                  })
+                }
+              >
+                <PlusIcon />
+                Add condition
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="playground-top-k">topK</Label>
+                <Input
+                  id="playground-top-k"
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={form.topK}
+                  onChange={(event) => update({ topK: event.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="playground-ef-search">efSearch</Label>
+                <Input
+                  id="playground-ef-search"
+                  type="number"
+                  min={1}
+                  max={1000}
+                  placeholder="HNSW default"
+                  value={form.efSearch}
+                  onChange={(event) => update({ efSearch: event.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="playground-probes">probes</Label>
+                <Input
+                  id="playground-probes"
+                  type="number"
+                  min={1}
+                  placeholder="IVFFlat default"
+                  value={form.probes}
+                  onChange={(event) => update({ probes: event.target.value })}
+                />
+              </div>
+            </div>
+
+            {form.mode === "hybrid" && (
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2 space-y-2">
+                  <Label htmlFor="playground-keywords">Keywords</Label>
+                  <Input
+                    id="playground-keywords"
+                    placeholder={
+                      form.input === "text" ? "Same as the text" : "AB-1234"
+                    }
+                    value={form.keywords}
+                    onChange={(event) =>
+                      update({ keywords: event.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="playground-field">Text field</Label>
+                  <Input
+                    id="playground-field"
+                    placeholder="text"
+                    value={form.field}
+                    onChange={(event) => update({ field: event.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="playground-fusion">Fusion</Label>
+                  <select
+                    id="playground-fusion"
+                    value={form.fusion}
+                    onChange={(event) =>
+                      update({
+                        fusion: event.target.value as PlaygroundForm["fusion"],
+                      })
+                    }
+                    className={selectClassName}
+                  >
+                    <option value="rrf">Reciprocal rank</option>
+                    <option value="weighted">Weighted score</option>
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="playground-vector-weight">
+                    Vector weight
+                  </Label>
+                  <Input
+                    id="playground-vector-weight"
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={form.vectorWeight}
+                    onChange={(event) =>
+                      update({ vectorWeight: event.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="playground-keyword-weight">
+                    Keyword weight
+                  </Label>
+                  <Input
+                    id="playground-keyword-weight"
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={form.keywordWeight}
+                    onChange={(event) =>
+                      update({ keywordWeight: event.target.value })
+                    }
+                  />
+                </div>
+              </div>
+            )}
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <div className="flex flex-wrap gap-2">
+              <Button type="submit" disabled={isRunning}>
+                <PlayIcon />
+                {isRunning ? "Running..." : "Run"}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                disabled={!query}
+                onClick={handleCopyLink}
+              >
+                <LinkIcon />
+                {copied ? "Copied" : "Copy link"}
+              </Button>
+              {canWrite && (
+                <SaveQueryDialog
+                  projectId={projectId}
+                  collectionName={collection.name}
+                  mode={form.mode}
+                  query={query}
+                />
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </form>
+
+      {savedQueries.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Saved queries</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y text-sm">
+              {savedQueries.map((saved) => (
+                <li
+                  key={saved.id}
+                  className="flex items-center justify-between gap-2 py-2"
+                >
+                  <span className="flex items-center gap-2">
+                    {/* A full navigation, so the page runs the query on load. */}
+                    <a
+                      href={
+                        basePath + playgroundSearch(saved.mode, saved.query)
+                      }
+                      className="font-medium hover:underline"
+                    >
+                      {saved.name}
+                    </a>
+                    {saved.mode === "hybrid" && (
+                      <Badge variant="outline">hybrid</Badge>
+                    )}
+                  </span>
+                  <span className="flex items-center gap-2 text-muted-foreground">
+                    {new Date(saved.createdAt).toLocaleDateString()}
+                    {canWrite && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Delete ${saved.name}`}
+                        onClick={() => handleDeleteSaved(saved)}
+                      >
+                        <TrashIcon />
+                      </Button>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {result && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+            <span>
+              {result.matches.length} matches in {Math.round(result.latency)} ms
+            </span>
+            {result.retrievers && (
+              <>
+                <Badge variant="outline">
+                  {result.retrievers.vector.candidates} vector candidates
+                </Badge>
+                <Badge variant="outline">
+                  {result.retrievers.keyword.candidates} keyword candidates
+                </Badge>
+              </>
+            )}
+          </div>
+          {result.matches.length === 0 ? (
+            <p className="text-muted-foreground">Nothing matched.</p>
+          ) : (
+            result.matches.map((match, index) => (
+              <MatchCard key={match.id} match={match} rank={index + 1} />
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
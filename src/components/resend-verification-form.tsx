@@ -0,0 +1,63 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { authClient } from "@/lib/auth-client";
+
+export function ResendVerificationForm({ email }: { email?: string }) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sent, setSent] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const address = new FormData(event.currentTarget).get("email") as string;
+
+    setIsLoading(true);
+    setError(null);
+    setSent(false);
+    const { error } = await authClient.sendVerificationEmail({
+      email: address,
+      callbackURL: "/verify-email?verified=true",
+    });
+    setIsLoading(false);
+
+    if (error) {
+      setError(error.message ?? "Could not send the verification email");
+      return;
+    }
+    setSent(true);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="email">Email</Label>
+        <Input
+          id="email"
+          name="email"
+          type="email"
+          autoComplete="email"
+          defaultValue={email}
+          required
+        />
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {sent && (
+        <p className="text-sm text-muted-foreground">
+          A new verification link is on its way.
+        </p>
+      )}
+      <Button
+        type="submit"
+        variant="outline"
+        className="w-full"
+        disabled={isLoading}
+      >
+        {isLoading ? "Sending..." : "Resend verification email"}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { OAuthButtons } from "@/components/oauth-buttons";
+import { authClient } from "@/lib/auth-client";
+import type { OAuthProvider } from "@/lib/oauth";
+
+interface SignInFormProps {
+  /** Same-origin path to continue to after signing in. */
+  redirectTo: string;
+  notice?: string;
+  /** Configured OAuth providers, offered above the password form. */
+  providers?: OAuthProvider[];
+}
+
+export function SignInForm({
+  redirectTo,
+  notice,
+  providers = [],
+}: SignInFormProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [unverifiedEmail, setUnverifiedEmail] = useState<string | null>(null);
+
+  const handleSignIn = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const formData = new FormData(event.currentTarget);
+    const email = formData.get("email") as string;
+    const password = formData.get("password") as string;
+
+    setIsLoading(true);
+    setError(null);
+    setUnverifiedEmail(null);
+    const { error } = await authClient.signIn.email({ email, password });
+    setIsLoading(false);
+
+    if (error) {
+      // better-auth answers 403 when the address has not been verified yet.
+      if (error.status === 403) {
+        setUnverifiedEmail(email);
+      } else {
+        setError(error.message ?? "Sign in failed");
+      }
+      return;
+    }
+    router.push(redirectTo);
+    router.refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sign in</CardTitle>
+        <CardDescription>Welcome back to Vector Dashboard.</CardDescription>
+      </CardHeader>
+      <form onSubmit={handleSignIn}>
+        <CardContent className="space-y-4">
+          {notice && <p className="rounded-md border p-3 text-sm">{notice}</p>}
+          {providers.length > 0 && (
+            <>
+              <OAuthButtons providers={providers} redirectTo={redirectTo} />
+              <p className="text-center text-xs text-muted-foreground">
+                or with your email
+              </p>
+            </>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="email">Email</Label>
+            <Input
+              id="email"
+              name="email"
+              type="email"
+              autoComplete="email"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="password">Password</Label>
+              <Link
+                href="/forgot-password"
+                className="text-sm text-muted-foreground underline"
+              >
+                Forgot password?
+              </Link>
+            </div>
+            <Input
+              id="password"
+              name="password"
+              type="password"
+              autoComplete="current-password"
+              required
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          {unverifiedEmail && (
+            <p className="text-sm text-destructive">
+              Verify your email address before signing in.{" "}
+              <Link
+                href={`/verify-email?email=${encodeURIComponent(unverifiedEmail)}`}
+                className="underline"
+              >
+                Resend the link
+              </Link>
+            </p>
+          )}
+        </CardContent>
+        <CardFooter className="mt-6 flex-col gap-4">
+          <Button type="submit" className="w-full" disabled={isLoading}>
+            {isLoading ? "Signing in..." : "Sign in"}
+          </Button>
+          <p className="text-sm text-muted-foreground">
+            No account yet?{" "}
+            <Link href="/signup" className="underline">
+              Sign up
+            </Link>
+          </p>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
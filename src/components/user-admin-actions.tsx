@@ -0,0 +1,340 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  BanIcon,
+  KeyRoundIcon,
+  LogOutIcon,
+  ShieldIcon,
+  UserRoundIcon,
+  XIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { createApiClient } from "@/lib/api-client";
+import { ApiError } from "@/lib/api-errors";
+
+const api = createApiClient();
+
+interface UserAdminActionsProps {
+  user: {
+    id: string;
+    name: string;
+    email: string;
+    isAdmin: boolean;
+    banned: boolean;
+    hasPassword: boolean;
+  };
+  /** The admin is looking at their own account. */
+  isSelf: boolean;
+}
+
+interface ConfirmDialogProps {
+  trigger: React.ReactNode;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  destructive?: boolean;
+  onConfirm: () => Promise<void>;
+  children?: React.ReactNode;
+}
+
+/** A dialog that runs `onConfirm` and shows its error, if any. */
+function ConfirmDialog({
+  trigger,
+  title,
+  description,
+  confirmLabel,
+  destructive,
+  onConfirm,
+  children,
+}: ConfirmDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsPending(true);
+    setError(null);
+    try {
+      await onConfirm();
+      setIsOpen(false);
+    } catch (error) {
+      setError(error instanceof ApiError ? error.message : `${title} failed`);
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        setError(null);
+      }}
+    >
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>{description}</DialogDescription>
+          </DialogHeader>
+          {children}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <DialogFooter>
+            <Button
+              type="submit"
+              variant={destructive ? "destructive" : "default"}
+              disabled={isPending}
+            >
+              {isPending ? "Working..." : confirmLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Role, ban, password reset, sign-out and impersonation controls for one
+ * user in the admin console. Every action is audited by its route.
+ */
+export function UserAdminActions({ user, isSelf }: UserAdminActionsProps) {
+  const router = useRouter();
+  const [banReason, setBanReason] = useState("");
+  const [banUntil, setBanUntil] = useState("");
+  const params = { userId: user.id };
+
+  const setRole = async () => {
+    await api.request("PATCH /api/admin/users/{userId}", {
+      params,
+      body: { role: user.isAdmin ? "user" : "admin" },
+    });
+    router.refresh();
+  };
+
+  const ban = async () => {
+    await api.request("POST /api/admin/users/{userId}/ban", {
+      params,
+      body: {
+        reason: banReason || undefined,
+        // The end of the chosen day, in the admin's time zone.
+        expiresAt: banUntil
+          ? new Date(`${banUntil}T23:59:59`).toISOString()
+          : undefined,
+      },
+    });
+    router.refresh();
+  };
+
+  const unban = async () => {
+    await api.request("DELETE /api/admin/users/{userId}/ban", { params });
+    router.refresh();
+  };
+
+  const resetPassword = async () => {
+    await api.request("POST /api/admin/users/{userId}/password-reset", {
+      params,
+    });
+    router.refresh();
+  };
+
+  const revokeSessions = async () => {
+    await api.request("DELETE /api/admin/users/{userId}/sessions", { params });
+    if (isSelf) {
+      window.location.assign("/signin");
+    } else {
+      router.refresh();
+    }
+  };
+
+  const impersonate = async () => {
+    await api.request("POST /api/admin/impersonation", {
+      body: { userId: user.id },
+    });
+    // A full load, so every server component sees the new session.
+    window.location.assign("/dashboard");
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <ConfirmDialog
+        trigger={
+          <Button variant="outline" size="sm" disabled={isSelf}>
+            <ShieldIcon />
+            {user.isAdmin ? "Remove admin" : "Make admin"}
+          </Button>
+        }
+        title={user.isAdmin ? "Remove admin role" : "Make admin"}
+        description={
+          user.isAdmin
+            ? `${user.name} will lose access to the admin console.`
+            : `${user.name} will be able to manage every user, including you.`
+        }
+        confirmLabel={user.isAdmin ? "Remove admin" : "Make admin"}
+        onConfirm={setRole}
+      />
+
+      {user.banned ? (
+        <ConfirmDialog
+          trigger={
+            <Button variant="outline" size="sm">
+              <XIcon />
+              Unban
+            </Button>
+          }
+          title="Lift ban"
+          description={`${user.name} will be able to sign in again.`}
+          confirmLabel="Unban"
+          onConfirm={unban}
+        />
+      ) : (
+        <ConfirmDialog
+          trigger={
+            <Button variant="outline" size="sm" disabled={isSelf}>
+              <BanIcon />
+              Ban
+            </Button>
+          }
+          title={`Ban ${user.name}`}
+          description="They are signed out everywhere and cannot sign in until the ban ends."
+          confirmLabel="Ban user"
+          destructive
+          onConfirm={ban}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="ban-reason">Reason</Label>
+            <Input
+              id="ban-reason"
+              value={banReason}
+              onChange={(event) => setBanReason(event.target.value)}
+              maxLength={500}
+              placeholder="Optional"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ban-until">Banned until</Label>
+            <Input
+              id="ban-until"
+              type="date"
+              value={banUntil}
+              onChange={(event) => setBanUntil(event.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Leave empty to ban until you lift it.
+            </p>
+          </div>
+        </ConfirmDialog>
+      )}
+
+      <ConfirmDialog
+        trigger={
+          <Button variant="outline" size="sm" disabled={!user.hasPassword}>
+            <KeyRoundIcon />
+            Force password reset
+          </Button>
+        }
+        title="Force a password reset"
+        description={`The current password stops working, ${user.name} is signed out everywhere, and a reset link goes to ${user.email}.`}
+        confirmLabel="Reset password"
+        destructive
+        onConfirm={resetPassword}
+      />
+
+      <ConfirmDialog
+        trigger={
+          <Button variant="outline" size="sm">
+            <LogOutIcon />
+            Revoke all sessions
+          </Button>
+        }
+        title="Revoke all sessions"
+        description={
+          isSelf
+            ? "This signs you out on every device, including this one."
+            : `${user.name} is signed out on every device.`
+        }
+        confirmLabel="Revoke sessions"
+        destructive
+        onConfirm={revokeSessions}
+      />
+
+      <ConfirmDialog
+        trigger={
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isSelf || user.isAdmin || user.banned}
+          >
+            <UserRoundIcon />
+            Impersonate
+          </Button>
+        }
+        title={`Impersonate ${user.name}`}
+        description="You will see the dashboard as they do for up to an hour. Everything you do is audited under your name; stop from the banner at the top of the page."
+        confirmLabel="Impersonate"
+        onConfirm={impersonate}
+      />
+    </div>
+  );
+}
+
+/** Signs out one of a user's sessions. */
+export function RevokeSessionButton({
+  userId,
+  sessionId,
+}: {
+  userId: string;
+  sessionId: string;
+}) {
+  const router = useRouter();
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClick = async () => {
+    setIsPending(true);
+    setError(null);
+    try {
+      await api.request(
+        "DELETE /api/admin/users/{userId}/sessions/{sessionId}",
+        { params: { userId, sessionId } },
+      );
+      router.refresh();
+    } catch (error) {
+      setError(
+        error instanceof ApiError ? error.message : "Failed to revoke session",
+      );
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <span className="flex items-center justify-end gap-2">
+      {error && <span className="text-xs text-destructive">{error}</span>}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={handleClick}
+        disabled={isPending}
+      >
+        {isPending ? "Revoking..." : "Revoke"}
+      </Button>
+    </span>
+  );
+}
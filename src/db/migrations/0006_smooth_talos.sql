@@ -0,0 +1,24 @@
+CREATE TYPE "public"."distance_metric" AS ENUM('cosine', 'l2', 'inner_product');--> statement-breakpoint
+CREATE TABLE "collection_items" (
+	"collection_id" integer NOT NULL,
+	"id" text NOT NULL,
+	"embedding" vector NOT NULL,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "collection_items_collection_id_id_pk" PRIMARY KEY("collection_id","id")
+);
+--> statement-breakpoint
+CREATE TABLE "collections" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"name" varchar(64) NOT NULL,
+	"dimension" integer NOT NULL,
+	"metric" "distance_metric" NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "collections_project_id_name_unique" UNIQUE("project_id","name")
+);
+--> statement-breakpoint
+ALTER TABLE "collection_items" ADD CONSTRAINT "collection_items_collection_id_collections_id_fk" FOREIGN KEY ("collection_id") REFERENCES "public"."collections"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "collections" ADD CONSTRAINT "collections_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TYPE "public"."index_method" AS ENUM('hnsw', 'ivfflat');--> statement-breakpoint
+CREATE TYPE "public"."index_status" AS ENUM('pending', 'building', 'ready', 'failed');--> statement-breakpoint
+CREATE TABLE "collection_indexes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"collection_id" integer NOT NULL,
+	"method" "index_method" NOT NULL,
+	"params" jsonb NOT NULL,
+	"status" "index_status" DEFAULT 'pending' NOT NULL,
+	"error" text,
+	"built_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "collection_indexes_collection_id_unique" UNIQUE("collection_id")
+);
+--> statement-breakpoint
+ALTER TABLE "collection_indexes" ADD CONSTRAINT "collection_indexes_collection_id_collections_id_fk" FOREIGN KEY ("collection_id") REFERENCES "public"."collections"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TYPE "public"."snapshot_status" AS ENUM('pending', 'running', 'completed', 'failed');--> statement-breakpoint
+CREATE TABLE "snapshots" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" integer NOT NULL,
+	"collection_name" varchar(64),
+	"status" "snapshot_status" DEFAULT 'pending' NOT NULL,
+	"artifact_key" text,
+	"size_bytes" bigint,
+	"item_count" integer,
+	"error" text,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "snapshots" ADD CONSTRAINT "snapshots_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "snapshots" ADD CONSTRAINT "snapshots_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "snapshots_project_id_idx" ON "snapshots" USING btree ("project_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+CREATE INDEX "projects_search_idx" ON "projects" USING gin (to_tsvector('simple', "name" || ' ' || coalesce("description", '')));--> statement-breakpoint
+CREATE INDEX "projects_created_at_id_idx" ON "projects" USING btree ("created_at","id");
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TYPE "public"."audit_actor_type" AS ENUM('user', 'api_key');--> statement-breakpoint
+CREATE TABLE "audit_logs" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"actor_type" "audit_actor_type" NOT NULL,
+	"actor_user_id" text,
+	"actor_api_key_id" integer,
+	"actor_label" text NOT NULL,
+	"action" varchar(64) NOT NULL,
+	"target_type" varchar(32) NOT NULL,
+	"target_id" text NOT NULL,
+	"organization_id" integer,
+	"project_id" integer,
+	"before" jsonb,
+	"after" jsonb,
+	"ip_address" text,
+	"user_agent" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "audit_logs_project_id_created_at_idx" ON "audit_logs" USING btree ("project_id","created_at");--> statement-breakpoint
+CREATE INDEX "audit_logs_organization_id_created_at_idx" ON "audit_logs" USING btree ("organization_id","created_at");
\ No newline at end of file
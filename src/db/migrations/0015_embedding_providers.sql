@@ -0,0 +1,11 @@
+CREATE TABLE "embedding_cache" (
+	"provider" varchar(32) NOT NULL,
+	"model" varchar(128) NOT NULL,
+	"dimension" integer NOT NULL,
+	"content_hash" varchar(64) NOT NULL,
+	"embedding" vector NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "embedding_cache_provider_model_dimension_content_hash_pk" PRIMARY KEY("provider","model","dimension","content_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "collections" ADD COLUMN "embedding" jsonb;
\ No newline at end of file
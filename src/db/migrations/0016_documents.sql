@@ -0,0 +1,36 @@
+CREATE TYPE "public"."document_format" AS ENUM('text', 'markdown', 'html');--> statement-breakpoint
+CREATE TYPE "public"."document_status" AS ENUM('pending', 'processing', 'ready', 'failed');--> statement-breakpoint
+CREATE TABLE "document_chunks" (
+	"document_id" uuid NOT NULL,
+	"chunk_index" integer NOT NULL,
+	"collection_id" integer NOT NULL,
+	"item_id" text NOT NULL,
+	"heading" text,
+	"text" text NOT NULL,
+	"token_count" integer NOT NULL,
+	CONSTRAINT "document_chunks_document_id_chunk_index_pk" PRIMARY KEY("document_id","chunk_index")
+);
+--> statement-breakpoint
+CREATE TABLE "documents" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" integer NOT NULL,
+	"collection_id" integer NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"format" "document_format" NOT NULL,
+	"content" text NOT NULL,
+	"size_bytes" integer NOT NULL,
+	"chunking" jsonb NOT NULL,
+	"status" "document_status" DEFAULT 'pending' NOT NULL,
+	"error" text,
+	"version" integer DEFAULT 1 NOT NULL,
+	"chunk_count" integer DEFAULT 0 NOT NULL,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "documents_project_id_name_unique" UNIQUE("project_id","name")
+);
+--> statement-breakpoint
+ALTER TABLE "document_chunks" ADD CONSTRAINT "document_chunks_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "documents" ADD CONSTRAINT "documents_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "documents" ADD CONSTRAINT "documents_collection_id_collections_id_fk" FOREIGN KEY ("collection_id") REFERENCES "public"."collections"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "documents" ADD CONSTRAINT "documents_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TYPE "public"."query_mode" AS ENUM('vector', 'hybrid');--> statement-breakpoint
+CREATE TABLE "saved_queries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"collection_id" integer NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"mode" "query_mode" DEFAULT 'vector' NOT NULL,
+	"query" jsonb NOT NULL,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "saved_queries" ADD CONSTRAINT "saved_queries_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_queries" ADD CONSTRAINT "saved_queries_collection_id_collections_id_fk" FOREIGN KEY ("collection_id") REFERENCES "public"."collections"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_queries" ADD CONSTRAINT "saved_queries_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "saved_queries_collection_id_idx" ON "saved_queries" USING btree ("collection_id");
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TYPE "public"."projection_method" AS ENUM('pca', 'tsne');--> statement-breakpoint
+CREATE TABLE "projections" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"collection_id" integer NOT NULL,
+	"collection_version" integer NOT NULL,
+	"method" "projection_method" NOT NULL,
+	"sample_size" integer NOT NULL,
+	"points" jsonb NOT NULL,
+	"explained_variance" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "projections_key_unique" UNIQUE("collection_id","collection_version","method","sample_size")
+);
+--> statement-breakpoint
+ALTER TABLE "collections" ADD COLUMN "version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "projections" ADD CONSTRAINT "projections_collection_id_collections_id_fk" FOREIGN KEY ("collection_id") REFERENCES "public"."collections"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
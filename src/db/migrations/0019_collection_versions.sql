@@ -0,0 +1,25 @@
+-- Custom SQL migration file, put your code below! --
+-- Bump collections.version once per statement that writes or deletes
+-- items, for every collection the statement touched.
+CREATE OR REPLACE FUNCTION collection_items_bump_version() RETURNS trigger AS $$
+BEGIN
+  UPDATE collections SET version = version + 1
+  WHERE id IN (SELECT DISTINCT collection_id FROM changed_items);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+--> statement-breakpoint
+CREATE TRIGGER collection_items_version_insert
+  AFTER INSERT ON collection_items
+  REFERENCING NEW TABLE AS changed_items
+  FOR EACH STATEMENT EXECUTE FUNCTION collection_items_bump_version();
+--> statement-breakpoint
+CREATE TRIGGER collection_items_version_update
+  AFTER UPDATE ON collection_items
+  REFERENCING NEW TABLE AS changed_items
+  FOR EACH STATEMENT EXECUTE FUNCTION collection_items_bump_version();
+--> statement-breakpoint
+CREATE TRIGGER collection_items_version_delete
+  AFTER DELETE ON collection_items
+  REFERENCING OLD TABLE AS changed_items
+  FOR EACH STATEMENT EXECUTE FUNCTION collection_items_bump_version();
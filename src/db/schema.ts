@@ -1,4 +1,23 @@
-import { pgTable, text, timestamp,boolean } from 'drizzle-orm/pg-core';
+import {
+  pgTable,
+  text,
+  timestamp,
+  boolean,
+  serial,
+  varchar,
+  jsonb,
+  index,
+  integer,
+  pgEnum,
+  primaryKey,
+  unique,
+  customType,
+  uuid,
+  bigint,
+  bigserial,
+  real,
+} from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
 
 export const user = pgTable("user", {
   id: text("id").primaryKey(),
@@ -14,6 +33,11 @@ export const user = pgTable("user", {
   updatedAt: timestamp("updated_at")
     .$defaultFn(() => /* @__PURE__ */ new Date())
     .notNull(),
+  // Managed by the better-auth admin plugin; "admin" opens the admin console.
+  role: text("role").default("user"),
+  banned: boolean("banned").default(false),
+  banReason: text("ban_reason"),
+  banExpires: timestamp("ban_expires"),
 });
 
 export const session = pgTable("session", {
@@ -27,6 +51,8 @@ export const session = pgTable("session", {
   userId: text("user_id")
     .notNull()
     .references(() => user.id, { onDelete: "cascade" }),
+  // The admin who started this session by impersonating the user.
+  impersonatedBy: text("impersonated_by"),
 });
 
 export const account = pgTable("account", {
@@ -59,3 +85,598 @@ export const verification = pgTable("verification", {
     () => /* @__PURE__ */ new Date(),
   ),
 });
+
+export const memberRole = pgEnum("member_role", [
+  "owner",
+  "admin",
+  "editor",
+  "viewer",
+]);
+
+export type MemberRole = (typeof memberRole.enumValues)[number];
+
+export const organizations = pgTable("organizations", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 255 }).notNull(),
+  slug: varchar("slug", { length: 255 }).notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .$onUpdate(() => /* @__PURE__ */ new Date())
+    .notNull(),
+});
+
+export type Organization = typeof organizations.$inferSelect;
+
+export const organizationMembers = pgTable(
+  "organization_members",
+  {
+    organizationId: integer("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    role: memberRole("role").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.organizationId, table.userId] }),
+    index("organization_members_user_id_idx").on(table.userId),
+  ],
+);
+
+export const organizationInvitations = pgTable(
+  "organization_invitations",
+  {
+    id: serial("id").primaryKey(),
+    organizationId: integer("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    email: text("email").notNull(),
+    role: memberRole("role").notNull(),
+    // SHA-256 of the token sent by email; the token itself is never stored.
+    tokenHash: text("token_hash").notNull().unique(),
+    invitedBy: text("invited_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    expiresAt: timestamp("expires_at").notNull(),
+    acceptedAt: timestamp("accepted_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("organization_invitations_organization_id_idx").on(
+      table.organizationId,
+    ),
+  ],
+);
+
+export type OrganizationInvitation =
+  typeof organizationInvitations.$inferSelect;
+
+export type ProjectMetadata = Record<string, unknown>;
+
+export const projects = pgTable(
+  "projects",
+  {
+    id: serial("id").primaryKey(),
+    name: varchar("name", { length: 255 }).notNull(),
+    description: text("description"),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    // Projects without an organization are personal to `userId`.
+    organizationId: integer("organization_id").references(
+      () => organizations.id,
+      { onDelete: "cascade" },
+    ),
+    isActive: boolean("is_active").default(true).notNull(),
+    metadata: jsonb("metadata").$type<ProjectMetadata>(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => /* @__PURE__ */ new Date())
+      .notNull(),
+    // Set when a project is soft-deleted; cleared again on restore.
+    deletedAt: timestamp("deleted_at"),
+  },
+  (table) => [
+    index("projects_user_id_idx").on(table.userId),
+    index("projects_organization_id_idx").on(table.organizationId),
+    // Serves full-text search on name and description; the expression must
+    // match the one used by listProjects.
+    index("projects_search_idx").using(
+      "gin",
+      sql`to_tsvector('simple', ${table.name} || ' ' || coalesce(${table.description}, ''))`,
+    ),
+    index("projects_created_at_id_idx").on(table.createdAt, table.id),
+  ],
+);
+
+export type Project = typeof projects.$inferSelect;
+export type NewProject = typeof projects.$inferInsert;
+
+/**
+ * pgvector `vector` column without a fixed dimension, so one table can hold
+ * collections of different sizes. The dimension is enforced per collection
+ * by the API and by casts to `vector(n)` in queries and indexes.
+ */
+const vector = customType<{ data: number[]; driverData: string }>({
+  dataType() {
+    return "vector";
+  },
+  toDriver(value) {
+    return JSON.stringify(value);
+  },
+  fromDriver(value) {
+    return JSON.parse(value);
+  },
+});
+
+export const distanceMetric = pgEnum("distance_metric", [
+  "cosine",
+  "l2",
+  "inner_product",
+]);
+
+export type DistanceMetric = (typeof distanceMetric.enumValues)[number];
+
+/**
+ * Server-side embedding of a collection: which provider turns text into
+ * vectors, and with which model. See `src/lib/embeddings`.
+ */
+export type EmbeddingConfig = {
+  provider: "openai" | "local" | "hash";
+  model: string;
+};
+
+export const collections = pgTable(
+  "collections",
+  {
+    id: serial("id").primaryKey(),
+    projectId: integer("project_id")
+      .notNull()
+      .references(() => projects.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 64 }).notNull(),
+    dimension: integer("dimension").notNull(),
+    metric: distanceMetric("metric").notNull(),
+    embedding: jsonb("embedding").$type<EmbeddingConfig>(),
+    // Bumped by a trigger whenever items are written or deleted, so derived
+    // data such as projections can tell it is stale.
+    version: integer("version").default(1).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [
+    unique("collections_project_id_name_unique").on(
+      table.projectId,
+      table.name,
+    ),
+  ],
+);
+
+export type Collection = typeof collections.$inferSelect;
+
+export type ItemMetadata = Record<string, unknown>;
+
+export const collectionItems = pgTable(
+  "collection_items",
+  {
+    collectionId: integer("collection_id")
+      .notNull()
+      .references(() => collections.id, { onDelete: "cascade" }),
+    id: text("id").notNull(),
+    embedding: vector("embedding").notNull(),
+    metadata: jsonb("metadata").$type<ItemMetadata>(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.collectionId, table.id] })],
+);
+
+export type CollectionItem = typeof collectionItems.$inferSelect;
+
+/**
+ * Vectors already computed for a text, keyed by a SHA-256 of the text so a
+ * re-upload or repeated query does not call the provider again.
+ */
+export const embeddingCache = pgTable(
+  "embedding_cache",
+  {
+    provider: varchar("provider", { length: 32 }).notNull(),
+    model: varchar("model", { length: 128 }).notNull(),
+    dimension: integer("dimension").notNull(),
+    contentHash: varchar("content_hash", { length: 64 }).notNull(),
+    embedding: vector("embedding").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    primaryKey({
+      columns: [
+        table.provider,
+        table.model,
+        table.dimension,
+        table.contentHash,
+      ],
+    }),
+  ],
+);
+
+export const indexMethod = pgEnum("index_method", ["hnsw", "ivfflat"]);
+
+export type IndexMethod = (typeof indexMethod.enumValues)[number];
+
+export const indexStatus = pgEnum("index_status", [
+  "pending",
+  "building",
+  "ready",
+  "failed",
+]);
+
+export type IndexStatus = (typeof indexStatus.enumValues)[number];
+
+/** Build parameters: `m`/`efConstruction` for HNSW, `lists` for IVFFlat. */
+export type IndexParams = {
+  m?: number;
+  efConstruction?: number;
+  lists?: number;
+};
+
+/**
+ * Approximate-nearest-neighbour index of a collection. Each row maps to a
+ * partial expression index on `collection_items` named after the collection.
+ */
+export const collectionIndexes = pgTable("collection_indexes", {
+  id: serial("id").primaryKey(),
+  collectionId: integer("collection_id")
+    .notNull()
+    .unique()
+    .references(() => collections.id, { onDelete: "cascade" }),
+  method: indexMethod("method").notNull(),
+  params: jsonb("params").$type<IndexParams>().notNull(),
+  status: indexStatus("status").default("pending").notNull(),
+  error: text("error"),
+  builtAt: timestamp("built_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .$onUpdate(() => /* @__PURE__ */ new Date())
+    .notNull(),
+});
+
+export type CollectionIndex = typeof collectionIndexes.$inferSelect;
+
+export const snapshotStatus = pgEnum("snapshot_status", [
+  "pending",
+  "running",
+  "completed",
+  "failed",
+]);
+
+export type SnapshotStatus = (typeof snapshotStatus.enumValues)[number];
+
+/**
+ * Export of a whole project, or of one collection when `collectionName` is
+ * set. The archive itself lives in artifact storage under `artifactKey`.
+ */
+export const snapshots = pgTable(
+  "snapshots",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    projectId: integer("project_id")
+      .notNull()
+      .references(() => projects.id, { onDelete: "cascade" }),
+    collectionName: varchar("collection_name", { length: 64 }),
+    status: snapshotStatus("status").default("pending").notNull(),
+    artifactKey: text("artifact_key"),
+    sizeBytes: bigint("size_bytes", { mode: "number" }),
+    itemCount: integer("item_count"),
+    error: text("error"),
+    createdBy: text("created_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    completedAt: timestamp("completed_at"),
+  },
+  (table) => [index("snapshots_project_id_idx").on(table.projectId)],
+);
+
+export type Snapshot = typeof snapshots.$inferSelect;
+
+export const documentFormat = pgEnum("document_format", [
+  "text",
+  "markdown",
+  "html",
+]);
+
+export type DocumentFormat = (typeof documentFormat.enumValues)[number];
+
+export const documentStatus = pgEnum("document_status", [
+  "pending",
+  "processing",
+  "ready",
+  "failed",
+]);
+
+export type DocumentStatus = (typeof documentStatus.enumValues)[number];
+
+/**
+ * How a document is split. Sizes are in approximate tokens; `markdown` and
+ * `html` split at headings first and only cut sections longer than
+ * `chunkSize`.
+ */
+export type ChunkingOptions = {
+  strategy: "tokens" | "markdown" | "html";
+  chunkSize: number;
+  chunkOverlap: number;
+};
+
+/**
+ * A source document whose chunks are embedded into one collection. `version`
+ * goes up on every re-upload, so an ingestion job for an older version can
+ * tell it has been superseded.
+ */
+export const documents = pgTable(
+  "documents",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    projectId: integer("project_id")
+      .notNull()
+      .references(() => projects.id, { onDelete: "cascade" }),
+    collectionId: integer("collection_id")
+      .notNull()
+      .references(() => collections.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 255 }).notNull(),
+    format: documentFormat("format").notNull(),
+    content: text("content").notNull(),
+    sizeBytes: integer("size_bytes").notNull(),
+    chunking: jsonb("chunking").$type<ChunkingOptions>().notNull(),
+    status: documentStatus("status").default("pending").notNull(),
+    error: text("error"),
+    version: integer("version").default(1).notNull(),
+    chunkCount: integer("chunk_count").default(0).notNull(),
+    createdBy: text("created_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [
+    unique("documents_project_id_name_unique").on(table.projectId, table.name),
+  ],
+);
+
+export type Document = typeof documents.$inferSelect;
+
+/**
+ * The chunks a document was last embedded as, each stored as one item of
+ * `collectionId`. Replaced together with those items in one transaction.
+ */
+export const documentChunks = pgTable(
+  "document_chunks",
+  {
+    documentId: uuid("document_id")
+      .notNull()
+      .references(() => documents.id, { onDelete: "cascade" }),
+    chunkIndex: integer("chunk_index").notNull(),
+    collectionId: integer("collection_id").notNull(),
+    itemId: text("item_id").notNull(),
+    heading: text("heading"),
+    text: text("text").notNull(),
+    tokenCount: integer("token_count").notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.documentId, table.chunkIndex] })],
+);
+
+export type DocumentChunk = typeof documentChunks.$inferSelect;
+
+export const queryMode = pgEnum("query_mode", ["vector", "hybrid"]);
+
+export type QueryMode = (typeof queryMode.enumValues)[number];
+
+/**
+ * A query saved from the playground, kept as the request body of the query
+ * or hybrid query endpoint so it can be replayed as is.
+ */
+export const savedQueries = pgTable(
+  "saved_queries",
+  {
+    id: serial("id").primaryKey(),
+    projectId: integer("project_id")
+      .notNull()
+      .references(() => projects.id, { onDelete: "cascade" }),
+    collectionId: integer("collection_id")
+      .notNull()
+      .references(() => collections.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 255 }).notNull(),
+    mode: queryMode("mode").default("vector").notNull(),
+    query: jsonb("query").$type<Record<string, unknown>>().notNull(),
+    createdBy: text("created_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("saved_queries_collection_id_idx").on(table.collectionId),
+  ],
+);
+
+export type SavedQuery = typeof savedQueries.$inferSelect;
+
+export const projectionMethod = pgEnum("projection_method", ["pca", "tsne"]);
+
+export type ProjectionMethod = (typeof projectionMethod.enumValues)[number];
+
+export type ProjectionPoint = { id: string; x: number; y: number };
+
+/**
+ * A 2D projection of a sample of a collection's items, cached for the
+ * collection version it was computed from.
+ */
+export const projections = pgTable(
+  "projections",
+  {
+    id: serial("id").primaryKey(),
+    collectionId: integer("collection_id")
+      .notNull()
+      .references(() => collections.id, { onDelete: "cascade" }),
+    collectionVersion: integer("collection_version").notNull(),
+    method: projectionMethod("method").notNull(),
+    sampleSize: integer("sample_size").notNull(),
+    points: jsonb("points").$type<ProjectionPoint[]>().notNull(),
+    // Share of the variance each PCA axis explains; null for t-SNE.
+    explainedVariance: jsonb("explained_variance").$type<[number, number]>(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    unique("projections_key_unique").on(
+      table.collectionId,
+      table.collectionVersion,
+      table.method,
+      table.sampleSize,
+    ),
+  ],
+);
+
+export type Projection = typeof projections.$inferSelect;
+
+export const jobStatus = pgEnum("job_status", [
+  "queued",
+  "running",
+  "succeeded",
+  "failed",
+  "cancelled",
+]);
+
+export type JobStatus = (typeof jobStatus.enumValues)[number];
+
+/**
+ * Long-running work (index builds, exports, imports) executed by the worker
+ * process. Failed attempts are retried with backoff by pushing `runAt` back.
+ */
+export const jobs = pgTable(
+  "jobs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    projectId: integer("project_id")
+      .notNull()
+      .references(() => projects.id, { onDelete: "cascade" }),
+    type: varchar("type", { length: 64 }).notNull(),
+    payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+    status: jobStatus("status").default("queued").notNull(),
+    // Fraction complete, from 0 to 1.
+    progress: real("progress").default(0).notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    maxAttempts: integer("max_attempts").default(3).notNull(),
+    runAt: timestamp("run_at").defaultNow().notNull(),
+    lockedBy: text("locked_by"),
+    lockedAt: timestamp("locked_at"),
+    cancelRequestedAt: timestamp("cancel_requested_at"),
+    error: text("error"),
+    result: jsonb("result").$type<Record<string, unknown>>(),
+    createdBy: text("created_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    startedAt: timestamp("started_at"),
+    finishedAt: timestamp("finished_at"),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("jobs_status_run_at_idx").on(table.status, table.runAt),
+    index("jobs_project_id_idx").on(table.projectId),
+  ],
+);
+
+export type Job = typeof jobs.$inferSelect;
+
+export const apiKeyScope = pgEnum("api_key_scope", ["read", "write", "admin"]);
+
+export type ApiKeyScope = (typeof apiKeyScope.enumValues)[number];
+
+/**
+ * Per-project credentials for services that cannot hold a browser session.
+ * Sent as `Authorization: Bearer <key>`; only a hash of the key is stored.
+ */
+export const apiKeys = pgTable(
+  "api_keys",
+  {
+    id: serial("id").primaryKey(),
+    projectId: integer("project_id")
+      .notNull()
+      .references(() => projects.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 255 }).notNull(),
+    scope: apiKeyScope("scope").notNull(),
+    // Leading characters of the key, shown so users can tell keys apart.
+    prefix: varchar("prefix", { length: 16 }).notNull(),
+    // SHA-256 of the key; the key itself is only shown once, on creation.
+    keyHash: text("key_hash").notNull().unique(),
+    createdBy: text("created_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    lastUsedAt: timestamp("last_used_at"),
+    revokedAt: timestamp("revoked_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("api_keys_project_id_idx").on(table.projectId)],
+);
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+
+export const auditActorType = pgEnum("audit_actor_type", ["user", "api_key"]);
+
+export type AuditActorType = (typeof auditActorType.enumValues)[number];
+
+/**
+ * Append-only record of every mutation made through the API or dashboard; a
+ * trigger rejects updates and deletes. Ids are copied rather than referenced,
+ * so entries outlive the users, keys, projects and organizations they name.
+ */
+export const auditLogs = pgTable(
+  "audit_logs",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    actorType: auditActorType("actor_type").notNull(),
+    actorUserId: text("actor_user_id"),
+    actorApiKeyId: integer("actor_api_key_id"),
+    // Email or key name at the time, for display after the actor is gone.
+    actorLabel: text("actor_label").notNull(),
+    // e.g. "project.update"; see AUDIT_ACTIONS.
+    action: varchar("action", { length: 64 }).notNull(),
+    targetType: varchar("target_type", { length: 32 }).notNull(),
+    targetId: text("target_id").notNull(),
+    organizationId: integer("organization_id"),
+    projectId: integer("project_id"),
+    // Only the fields that changed; `before` is null for creations and
+    // `after` for deletions.
+    before: jsonb("before").$type<Record<string, unknown>>(),
+    after: jsonb("after").$type<Record<string, unknown>>(),
+    ipAddress: text("ip_address"),
+    userAgent: text("user_agent"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("audit_logs_project_id_created_at_idx").on(
+      table.projectId,
+      table.createdAt,
+    ),
+    index("audit_logs_organization_id_created_at_idx").on(
+      table.organizationId,
+      table.createdAt,
+    ),
+  ],
+);
+
+export type AuditLog = typeof auditLogs.$inferSelect;
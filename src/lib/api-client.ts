@@ -0,0 +1,164 @@
+import type { z } from "zod";
+import {
+  ApiError,
+  defaultErrorCode,
+  type ApiErrorBody,
+} from "@/lib/api-errors";
+import type { OperationId, Operations } from "@/lib/openapi/operations";
+
+/**
+ * A typed client for this API, driven by the same operation table as the
+ * OpenAPI document. Safe to import from client components and scripts:
+ *
+ *   const api = createApiClient({ baseUrl, apiKey });
+ *   const { matches } = await api.request(
+ *     "POST /api/projects/{id}/collections/{name}/query",
+ *     { params: { id: 1, name: "docs" }, body: { vector, topK: 5 } },
+ *   );
+ *
+ * Failed requests throw an `ApiError` carrying the response's error code.
+ */
+
+type Input<T> = T extends z.ZodType ? z.input<T> : never;
+type Output<T> = T extends z.ZodType ? z.output<T> : never;
+
+export type RequestOptions<K extends OperationId> = (Operations[K] extends {
+  params: infer P;
+}
+  ? { params: Input<P> }
+  : { params?: never }) &
+  (Operations[K] extends { query: infer Q }
+    ? { query?: Input<Q> }
+    : { query?: never }) &
+  (Operations[K] extends { body: infer B }
+    ? { body: Input<B> }
+    : Operations[K] extends { upload: unknown }
+      ? { body: BodyInit; contentType?: string }
+      : { body?: never }) & { signal?: AbortSignal };
+
+/** Parsed JSON for most operations; downloads hand back the raw response. */
+export type ResponseOf<K extends OperationId> = Operations[K] extends {
+  download: string;
+}
+  ? Response
+  : Operations[K] extends { response: infer R }
+    ? Output<R>
+    : undefined;
+
+export interface ApiClientOptions {
+  /** Origin of the dashboard; relative URLs are used when omitted. */
+  baseUrl?: string;
+  /** A project API key, sent as a bearer token instead of the session. */
+  apiKey?: string;
+  headers?: HeadersInit;
+  fetch?: typeof fetch;
+}
+
+type QueryValue = string | number | boolean | Date | null | undefined;
+
+function buildUrl(
+  baseUrl: string,
+  path: string,
+  params: Record<string, string | number> = {},
+  query: Record<string, QueryValue | QueryValue[]> = {},
+) {
+  const resolved = path.replace(/\{(\w+)\}/g, (_, name: string) => {
+    if (params[name] === undefined) {
+      throw new Error(`Missing path parameter "${name}"`);
+    }
+    return encodeURIComponent(String(params[name]));
+  });
+
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item === undefined || item === null) continue;
+      search.append(
+        key,
+        item instanceof Date ? item.toISOString() : String(item),
+      );
+    }
+  }
+  const queryString = search.toString();
+  return `${baseUrl}${resolved}${queryString ? `?${queryString}` : ""}`;
+}
+
+async function toApiError(response: Response) {
+  const body = (await response
+    .json()
+    .catch(() => null)) as Partial<ApiErrorBody> | null;
+  return new ApiError(
+    response.status,
+    body?.error?.message ?? `Request failed with status ${response.status}`,
+    {
+      code: body?.error?.code ?? defaultErrorCode(response.status),
+      details: body?.error?.details,
+    },
+  );
+}
+
+export function createApiClient({
+  baseUrl = "",
+  apiKey,
+  headers,
+  fetch: fetchImpl = fetch,
+}: ApiClientOptions = {}) {
+  async function request<K extends OperationId>(
+    operation: K,
+    ...[options]: Partial<RequestOptions<K>> extends RequestOptions<K>
+      ? [options?: RequestOptions<K>]
+      : [options: RequestOptions<K>]
+  ): Promise<ResponseOf<K>> {
+    const [method, path] = operation.split(" ");
+    const { params, query, body, signal, contentType } = (options ?? {}) as {
+      params?: Record<string, string | number>;
+      query?: Record<string, QueryValue | QueryValue[]>;
+      body?: unknown;
+      signal?: AbortSignal;
+      contentType?: string;
+    };
+
+    const requestHeaders = new Headers(headers);
+    if (apiKey) requestHeaders.set("Authorization", `Bearer ${apiKey}`);
+
+    let requestBody: BodyInit | undefined;
+    if (contentType !== undefined || isBodyInit(body)) {
+      requestBody = body as BodyInit;
+      if (contentType) requestHeaders.set("Content-Type", contentType);
+    } else if (body !== undefined) {
+      requestBody = JSON.stringify(body);
+      requestHeaders.set("Content-Type", "application/json");
+    }
+
+    const response = await fetchImpl(buildUrl(baseUrl, path, params, query), {
+      method,
+      headers: requestHeaders,
+      body: requestBody,
+      signal,
+      credentials: apiKey ? "omit" : "same-origin",
+    });
+
+    if (!response.ok) throw await toApiError(response);
+    if (response.status === 204) return undefined as ResponseOf<K>;
+    if (!response.headers.get("Content-Type")?.includes("application/json")) {
+      return response as ResponseOf<K>;
+    }
+    return (await response.json()) as ResponseOf<K>;
+  }
+
+  return { request };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+
+function isBodyInit(body: unknown) {
+  return (
+    typeof body === "string" ||
+    body instanceof Blob ||
+    body instanceof FormData ||
+    body instanceof URLSearchParams ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body) ||
+    body instanceof ReadableStream
+  );
+}
@@ -0,0 +1,73 @@
+/**
+ * The error envelope every API route returns, and the error class routes
+ * throw to produce it. Safe to import from client components.
+ */
+
+export const API_ERROR_CODES = [
+  "bad_request",
+  "validation_error",
+  "invalid_json",
+  "unauthorized",
+  "forbidden",
+  "not_found",
+  "conflict",
+  "payload_too_large",
+  "internal_error",
+  "upstream_error",
+] as const;
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+/** A problem with one field; `path` locates it within the input. */
+export interface FieldIssue {
+  path: (string | number)[];
+  message: string;
+}
+
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    details?: FieldIssue[];
+  };
+}
+
+const DEFAULT_CODES: Record<number, ApiErrorCode> = {
+  400: "bad_request",
+  401: "unauthorized",
+  403: "forbidden",
+  404: "not_found",
+  409: "conflict",
+  413: "payload_too_large",
+  502: "upstream_error",
+};
+
+export function defaultErrorCode(status: number): ApiErrorCode {
+  return DEFAULT_CODES[status] ?? "internal_error";
+}
+
+/**
+ * An error with a known HTTP status. Route handlers turn it into the
+ * envelope above; domain errors (auth, filters, imports...) extend it.
+ */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly details?: FieldIssue[];
+
+  constructor(
+    public readonly status: number,
+    message: string,
+    { code, details }: { code?: ApiErrorCode; details?: FieldIssue[] } = {},
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.code = code ?? defaultErrorCode(status);
+    this.details = details;
+  }
+}
+
+/** Reads the message out of an error response body, for client code. */
+export function errorMessage(body: unknown, fallback: string) {
+  const message = (body as Partial<ApiErrorBody> | null)?.error?.message;
+  return typeof message === "string" ? message : fallback;
+}
@@ -0,0 +1,95 @@
+import { and, eq, isNull, lt, or } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  apiKeys,
+  apiKeyScope,
+  type ApiKeyScope,
+  type MemberRole,
+} from "@/db/schema";
+import { generateToken, hashToken } from "@/lib/tokens";
+
+export const API_KEY_PREFIX = "vdk_";
+
+export const API_KEY_SCOPES: readonly ApiKeyScope[] = apiKeyScope.enumValues;
+
+/** Role a key acts with, so keys pass the same checks as members. */
+export const SCOPE_ROLES: Record<ApiKeyScope, MemberRole> = {
+  read: "viewer",
+  write: "editor",
+  admin: "admin",
+};
+
+/** Writes to `lastUsedAt` are skipped when it is more recent than this. */
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+/** Columns safe to return to clients; the hash never leaves the server. */
+export const apiKeyColumns = {
+  id: apiKeys.id,
+  projectId: apiKeys.projectId,
+  name: apiKeys.name,
+  scope: apiKeys.scope,
+  prefix: apiKeys.prefix,
+  createdBy: apiKeys.createdBy,
+  lastUsedAt: apiKeys.lastUsedAt,
+  revokedAt: apiKeys.revokedAt,
+  createdAt: apiKeys.createdAt,
+};
+
+/** Creates a key and returns it with its plaintext, which is not stored. */
+export async function createApiKey({
+  projectId,
+  name,
+  scope,
+  createdBy,
+}: {
+  projectId: number;
+  name: string;
+  scope: ApiKeyScope;
+  createdBy: string;
+}) {
+  const key = generateToken(API_KEY_PREFIX);
+  const [apiKey] = await db
+    .insert(apiKeys)
+    .values({
+      projectId,
+      name,
+      scope,
+      prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+      keyHash: hashToken(key),
+      createdBy,
+    })
+    .returning(apiKeyColumns);
+  return { ...apiKey, key };
+}
+
+/**
+ * Resolves an unrevoked key from its plaintext and records that it was used.
+ */
+export async function verifyApiKey(key: string) {
+  if (!key.startsWith(API_KEY_PREFIX)) return null;
+
+  const [apiKey] = await db
+    .select()
+    .from(apiKeys)
+    .where(and(eq(apiKeys.keyHash, hashToken(key)), isNull(apiKeys.revokedAt)))
+    .limit(1);
+  if (!apiKey) return null;
+
+  const now = new Date();
+  await db
+    .update(apiKeys)
+    .set({ lastUsedAt: now })
+    .where(
+      and(
+        eq(apiKeys.id, apiKey.id),
+        or(
+          isNull(apiKeys.lastUsedAt),
+          lt(
+            apiKeys.lastUsedAt,
+            new Date(now.getTime() - LAST_USED_RESOLUTION_MS),
+          ),
+        ),
+      ),
+    );
+  return apiKey;
+}
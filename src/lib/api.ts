@@ -0,0 +1,212 @@
+import { NextResponse } from "next/server";
+import type { z } from "zod";
+import {
+  ApiError,
+  defaultErrorCode,
+  type ApiErrorBody,
+  type ApiErrorCode,
+  type FieldIssue,
+} from "@/lib/api-errors";
+
+/**
+ * Builds an error response in the shared envelope. `extra` adds top-level
+ * fields next to `error`, e.g. a partial import report.
+ */
+export function apiError(
+  status: number,
+  message: string,
+  {
+    code,
+    details,
+    extra,
+  }: {
+    code?: ApiErrorCode;
+    details?: FieldIssue[];
+    extra?: Record<string, unknown>;
+  } = {},
+) {
+  const body: ApiErrorBody = {
+    error: {
+      code: code ?? defaultErrorCode(status),
+      message,
+      ...(details && { details }),
+    },
+  };
+  return NextResponse.json({ ...extra, ...body }, { status });
+}
+
+function formatPath(path: PropertyKey[]) {
+  return path
+    .map((key, index) =>
+      typeof key === "number"
+        ? `[${key}]`
+        : index === 0
+          ? String(key)
+          : `.${String(key)}`,
+    )
+    .join("");
+}
+
+/** Turns a failed parse into a 400 listing every invalid field. */
+export function validationError(error: z.ZodError) {
+  const details = error.issues.map((issue) => ({
+    path: issue.path.map((key) =>
+      typeof key === "number" ? key : String(key),
+    ),
+    message: issue.message,
+  }));
+  const [first] = details;
+  const where = first.path.length > 0 ? `${formatPath(first.path)}: ` : "";
+  const more = details.length > 1 ? ` (and ${details.length - 1} more)` : "";
+  return new ApiError(400, `${where}${first.message}${more}`, {
+    code: "validation_error",
+    details,
+  });
+}
+
+function parseWith<T extends z.ZodType>(
+  schema: T,
+  input: unknown,
+): z.output<T> {
+  const result = schema.safeParse(input);
+  if (!result.success) throw validationError(result.error);
+  return result.data;
+}
+
+/**
+ * Parses and validates a JSON body. With `optional`, an empty body is read
+ * as `{}`.
+ */
+export async function parseBody<T extends z.ZodType>(
+  request: Request,
+  schema: T,
+  { optional = false }: { optional?: boolean } = {},
+): Promise<z.output<T>> {
+  const text = await request.text();
+  let input: unknown = {};
+  if (text.trim() || !optional) {
+    try {
+      input = JSON.parse(text);
+    } catch {
+      throw new ApiError(400, "Request body must be valid JSON", {
+        code: "invalid_json",
+      });
+    }
+  }
+  return parseWith(schema, input);
+}
+
+/** Validates the query string; repeated keys are passed as arrays. */
+export function parseQuery<T extends z.ZodType>(
+  request: Request,
+  schema: T,
+): z.output<T> {
+  const query: Record<string, string | string[]> = {};
+  for (const [key, value] of new URL(request.url).searchParams) {
+    const previous = query[key];
+    query[key] = previous === undefined ? value : [previous, value].flat();
+  }
+  return parseWith(schema, query);
+}
+
+/** Validates input the route has already read, e.g. multipart fields. */
+export function parseInput<T extends z.ZodType>(
+  input: unknown,
+  schema: T,
+): z.output<T> {
+  return parseWith(schema, input);
+}
+
+/** Validates dynamic route segments, e.g. `await params`. */
+export function parseParams<T extends z.ZodType>(
+  params: Record<string, string | string[]>,
+  schema: T,
+): z.output<T> {
+  return parseWith(schema, params);
+}
+
+interface PostgresErrorLike {
+  code: string;
+  detail?: string;
+  constraint_name?: string;
+}
+
+/** Finds the Postgres error behind a (possibly wrapped) driver error. */
+function findPostgresError(error: unknown): PostgresErrorLike | null {
+  for (let current = error; current instanceof Error;) {
+    const { code } = current as Error & { code?: unknown };
+    if (typeof code === "string" && /^[0-9A-Z]{5}$/.test(code)) {
+      return current as unknown as PostgresErrorLike;
+    }
+    current = current.cause;
+  }
+  return null;
+}
+
+const snakeToCamel = (name: string) =>
+  name.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+/** Maps constraint violations to client errors; anything else stays a 500. */
+function databaseError(error: unknown): ApiError | null {
+  const pgError = findPostgresError(error);
+  if (!pgError) return null;
+
+  // detail reads e.g. `Key (email)=(a@example.com) already exists.`
+  const columns = pgError.detail
+    ?.match(/^Key \(([^)]+)\)=/)?.[1]
+    .split(",")
+    .map((column) => snakeToCamel(column.trim()));
+
+  switch (pgError.code) {
+    case "23505":
+      return new ApiError(409, "A record with the same value already exists", {
+        details: columns?.map((column) => ({
+          path: [column],
+          message: "Already in use",
+        })),
+      });
+    case "23503":
+      return new ApiError(
+        409,
+        "A referenced record does not exist or is still in use",
+        {
+          details: columns?.map((column) => ({
+            path: [column],
+            message: "Referenced record is missing or in use",
+          })),
+        },
+      );
+    case "23502":
+    case "23514":
+    case "22001":
+    case "22P02":
+    case "22003":
+    case "22007":
+    case "22008":
+      return new ApiError(400, "A value is missing, malformed or out of range");
+    default:
+      return null;
+  }
+}
+
+/**
+ * Shared catch block for route handlers: known errors become their status,
+ * constraint violations 409/400, and anything else is logged as a 500 with
+ * `fallbackMessage`. `extra` is passed through to `apiError`.
+ */
+export function handleApiError(
+  error: unknown,
+  fallbackMessage: string,
+  extra?: Record<string, unknown>,
+) {
+  const known = error instanceof ApiError ? error : databaseError(error);
+  if (known) {
+    return apiError(known.status, known.message, {
+      code: known.code,
+      details: known.details,
+      extra,
+    });
+  }
+  console.error(`${fallbackMessage}:`, error);
+  return apiError(500, fallbackMessage, { extra });
+}
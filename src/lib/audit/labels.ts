@@ -0,0 +1,45 @@
+/** Display names for audit actions; safe to import from client components. */
+export const AUDIT_ACTIONS = {
+  "project.create": "Project created",
+  "project.update": "Project updated",
+  "project.delete": "Project deleted",
+  "project.restore": "Project restored",
+  "api_key.create": "API key created",
+  "api_key.revoke": "API key revoked",
+  "collection.create": "Collection created",
+  "collection.update": "Collection updated",
+  "collection.delete": "Collection dropped",
+  "vectors.upsert": "Vectors upserted",
+  "vectors.delete": "Vectors deleted",
+  "vectors.import": "Vectors imported",
+  "index.create": "Index created",
+  "index.rebuild": "Index rebuilt",
+  "index.delete": "Index dropped",
+  "document.create": "Document uploaded",
+  "document.update": "Document re-uploaded",
+  "document.delete": "Document deleted",
+  "saved_query.create": "Query saved",
+  "saved_query.delete": "Saved query deleted",
+  "snapshot.create": "Snapshot exported",
+  "snapshot.delete": "Snapshot deleted",
+  "snapshot.restore": "Snapshot restored",
+  "job.cancel": "Job cancelled",
+  "organization.create": "Organization created",
+  "organization.update": "Organization renamed",
+  "organization.delete": "Organization deleted",
+  "member.update": "Member role changed",
+  "member.remove": "Member removed",
+  "invitation.create": "Member invited",
+  "invitation.accept": "Invitation accepted",
+  "user.create": "User created",
+  "user.role": "User role changed",
+  "user.ban": "User banned",
+  "user.unban": "User unbanned",
+  "user.session_revoke": "User session revoked",
+  "user.sessions_revoke": "User sessions revoked",
+  "user.password_reset": "Password reset forced",
+  "user.impersonate": "Impersonation started",
+  "user.impersonate_stop": "Impersonation stopped",
+} as const;
+
+export type AuditAction = keyof typeof AUDIT_ACTIONS;
@@ -0,0 +1,227 @@
+import {
+  and,
+  count,
+  desc,
+  eq,
+  gte,
+  ilike,
+  lt,
+  lte,
+  type SQL,
+} from "drizzle-orm";
+import { db } from "@/db";
+import { auditLogs, type AuditLog } from "@/db/schema";
+import { ApiError } from "@/lib/api-errors";
+import { cursorValue, keyset, toPage } from "@/lib/pagination";
+import {
+  listAuditQuery,
+  type AuditExportFormat,
+  type ExportAuditQuery,
+  type ListAuditQuery,
+} from "@/lib/schemas/audit";
+
+const EXPORT_PAGE_SIZE = 1000;
+
+/**
+ * Entries of one project, of an organization and all its projects, or
+ * targeting one user (what admins did to their account).
+ */
+export function auditScope(
+  scope:
+    { projectId: number } | { organizationId: number } | { userId: string },
+): SQL {
+  if ("userId" in scope) {
+    return and(
+      eq(auditLogs.targetType, "user"),
+      eq(auditLogs.targetId, scope.userId),
+    )!;
+  }
+  return "projectId" in scope
+    ? eq(auditLogs.projectId, scope.projectId)
+    : eq(auditLogs.organizationId, scope.organizationId);
+}
+
+type AuditFilters = Omit<ListAuditQuery, "limit" | "cursor" | "order">;
+
+function auditFilters(query: AuditFilters) {
+  // Escape LIKE wildcards so the search matches literally.
+  const pattern = query.actor && `%${query.actor.replace(/[\\%_]/g, "\\$&")}%`;
+  return and(
+    query.action ? eq(auditLogs.action, query.action) : undefined,
+    query.actorType ? eq(auditLogs.actorType, query.actorType) : undefined,
+    pattern ? ilike(auditLogs.actorLabel, pattern) : undefined,
+    query.targetType ? eq(auditLogs.targetType, query.targetType) : undefined,
+    query.targetId ? eq(auditLogs.targetId, query.targetId) : undefined,
+    query.projectId ? eq(auditLogs.projectId, query.projectId) : undefined,
+    query.from ? gte(auditLogs.createdAt, query.from) : undefined,
+    query.to ? lte(auditLogs.createdAt, query.to) : undefined,
+  );
+}
+
+/** One page of audit entries within `scope`, newest first by default. */
+export async function listAuditLogs(scope: SQL, query: ListAuditQuery) {
+  const direction = query.order ?? "desc";
+  const sort = `createdAt:${direction}`;
+  const page = keyset({
+    column: auditLogs.createdAt,
+    direction,
+    tiebreaker: auditLogs.id,
+    sort,
+    cursor: query.cursor,
+  });
+  const where = and(scope, auditFilters(query));
+
+  const [rows, [{ total }]] = await Promise.all([
+    db
+      .select({
+        entry: auditLogs,
+        cursorValue: cursorValue(auditLogs.createdAt),
+      })
+      .from(auditLogs)
+      .where(and(where, page.where))
+      .orderBy(...page.orderBy)
+      .limit(query.limit + 1),
+    db.select({ total: count() }).from(auditLogs).where(where),
+  ]);
+
+  const { data, pageInfo } = toPage(rows, {
+    cursor: page.cursor,
+    sort,
+    limit: query.limit,
+    total,
+    id: (row) => row.entry.id,
+  });
+  return { data: data.map((row) => row.entry), pageInfo };
+}
+
+/**
+ * The audit log page's data: entries matching the filters in the query
+ * string, ready to hand to the client. Unparseable filters are dropped with
+ * an error message, and a stale cursor falls back to the first page.
+ */
+export async function loadAuditLog(
+  scope: SQL,
+  searchParams: Record<string, string | undefined>,
+  pageSize: number,
+) {
+  // The filter form submits empty fields; they mean "any".
+  const given = Object.fromEntries(
+    Object.entries(searchParams).filter(([, value]) => value),
+  );
+  const parsed = listAuditQuery.safeParse({ ...given, limit: pageSize });
+  const query = parsed.success
+    ? parsed.data
+    : listAuditQuery.parse({ limit: pageSize });
+
+  const page = await listAuditLogs(scope, query).catch((error) => {
+    if (error instanceof ApiError && error.status === 400) {
+      return listAuditLogs(scope, { ...query, cursor: undefined });
+    }
+    throw error;
+  });
+
+  return {
+    entries: page.data.map((entry) => ({
+      id: entry.id,
+      actorType: entry.actorType,
+      actorLabel: entry.actorLabel,
+      action: entry.action,
+      targetType: entry.targetType,
+      targetId: entry.targetId,
+      projectId: entry.projectId,
+      before: entry.before,
+      after: entry.after,
+      ipAddress: entry.ipAddress,
+      userAgent: entry.userAgent,
+      createdAt: entry.createdAt.toISOString(),
+    })),
+    pageInfo: page.pageInfo,
+    error: parsed.success
+      ? undefined
+      : "Some filters were invalid and ignored.",
+  };
+}
+
+// Ids grow with time, so walking them backwards lists newest first with
+// memory flat however long the log is.
+async function* auditLogPages(scope: SQL, query: ExportAuditQuery) {
+  let before: number | null = null;
+  while (true) {
+    const page: AuditLog[] = await db
+      .select()
+      .from(auditLogs)
+      .where(
+        and(
+          scope,
+          auditFilters(query),
+          before === null ? undefined : lt(auditLogs.id, before),
+        ),
+      )
+      .orderBy(desc(auditLogs.id))
+      .limit(EXPORT_PAGE_SIZE);
+
+    if (page.length === 0) return;
+    yield page;
+    before = page[page.length - 1].id;
+  }
+}
+
+const CSV_COLUMNS = [
+  "id",
+  "createdAt",
+  "action",
+  "actorType",
+  "actorLabel",
+  "actorUserId",
+  "actorApiKeyId",
+  "targetType",
+  "targetId",
+  "organizationId",
+  "projectId",
+  "before",
+  "after",
+  "ipAddress",
+  "userAgent",
+] as const satisfies readonly (keyof AuditLog)[];
+
+function csvField(value: unknown) {
+  if (value === null || value === undefined) return "";
+  const text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Every entry matching the filters as CSV (one JSON-encoded cell each for
+ * `before` and `after`) or JSON Lines, streamed page by page.
+ */
+export function exportAuditLogs(scope: SQL, query: ExportAuditQuery) {
+  async function* lines(format: AuditExportFormat) {
+    if (format === "csv") yield CSV_COLUMNS.join(",") + "\r\n";
+    for await (const page of auditLogPages(scope, query)) {
+      for (const entry of page) {
+        yield format === "csv"
+          ? CSV_COLUMNS.map((column) => csvField(entry[column])).join(",") +
+            "\r\n"
+          : JSON.stringify(entry) + "\n";
+      }
+    }
+  }
+
+  const source = lines(query.format);
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await source.next();
+      if (done) controller.close();
+      else controller.enqueue(encoder.encode(value));
+    },
+    async cancel() {
+      await source.return(undefined);
+    },
+  });
+}
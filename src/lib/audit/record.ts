@@ -0,0 +1,165 @@
+import { headers } from "next/headers";
+import { eq } from "drizzle-orm";
+import { db } from "@/db";
+import { auditLogs, user } from "@/db/schema";
+import { getSession, requireCaller, type Caller } from "@/lib/session";
+import type { AuditAction } from "./labels";
+
+type Snapshot = Record<string, unknown>;
+
+// Secrets that must never reach the log, whatever the route hands us.
+const REDACTED_FIELDS = new Set(["key", "keyHash", "password", "token"]);
+
+// Bumped by every write, so they would show up in every diff.
+const IGNORED_FIELDS = new Set(["updatedAt"]);
+
+/** Bulk operations record at most this many item ids. */
+const MAX_AUDITED_IDS = 100;
+
+export interface AuditEntry {
+  action: AuditAction;
+  target: { type: string; id: string | number };
+  /**
+   * The project the change belongs to. Entries of organization projects are
+   * listed under the organization too.
+   */
+  project?: { id: number; organizationId: number | null };
+  organizationId?: number | null;
+  /** State before the change, or null when something was created. */
+  before?: Snapshot | null;
+  /** State after the change, or null when something was deleted. */
+  after?: Snapshot | null;
+}
+
+/** Plain JSON with secrets and noisy fields removed; dates become strings. */
+function clean(snapshot: Snapshot): Snapshot {
+  const result: Snapshot = {};
+  for (const [field, value] of Object.entries(snapshot)) {
+    if (REDACTED_FIELDS.has(field) || IGNORED_FIELDS.has(field)) continue;
+    if (value === undefined) continue;
+    result[field] = JSON.parse(JSON.stringify(value));
+  }
+  return result;
+}
+
+/**
+ * Reduces two snapshots to the fields that differ between them. Creations
+ * and deletions keep the whole snapshot on their one side.
+ */
+export function diffSnapshots(
+  before: Snapshot | null | undefined,
+  after: Snapshot | null | undefined,
+) {
+  if (!before || !after) {
+    return {
+      before: before ? clean(before) : null,
+      after: after ? clean(after) : null,
+    };
+  }
+
+  const cleanBefore = clean(before);
+  const cleanAfter = clean(after);
+  const changedBefore: Snapshot = {};
+  const changedAfter: Snapshot = {};
+  for (const field of new Set([
+    ...Object.keys(cleanBefore),
+    ...Object.keys(cleanAfter),
+  ])) {
+    if (
+      JSON.stringify(cleanBefore[field]) !== JSON.stringify(cleanAfter[field])
+    ) {
+      changedBefore[field] = cleanBefore[field] ?? null;
+      changedAfter[field] = cleanAfter[field] ?? null;
+    }
+  }
+  return { before: changedBefore, after: changedAfter };
+}
+
+/** Ids touched by a bulk operation, capped so one entry stays small. */
+export function auditedIds(ids: string[]) {
+  return {
+    ids: ids.slice(0, MAX_AUDITED_IDS),
+    idCount: ids.length,
+  };
+}
+
+/**
+ * Where the request came from. Signed-in users get the address and agent
+ * better-auth stored on their session; API keys get the request headers.
+ */
+async function requestOrigin(caller: Caller) {
+  const requestHeaders = await headers();
+  const session = caller.type === "user" ? await getSession() : null;
+  const forwarded = requestHeaders.get("x-forwarded-for")?.split(",")[0];
+
+  return {
+    ipAddress:
+      session?.session.ipAddress ||
+      forwarded?.trim() ||
+      requestHeaders.get("x-real-ip"),
+    userAgent: session?.session.userAgent || requestHeaders.get("user-agent"),
+  };
+}
+
+/**
+ * Who to credit with the change. While an admin impersonates a user, the
+ * entry names the admin and the user they are acting as.
+ */
+async function actor(caller: Caller) {
+  if (caller.type === "apiKey") {
+    return {
+      actorUserId: null,
+      actorApiKeyId: caller.apiKey.id,
+      actorLabel: `${caller.apiKey.name} (${caller.apiKey.prefix}...)`,
+    };
+  }
+
+  const adminId = (await getSession())?.session.impersonatedBy;
+  if (adminId) {
+    const [admin] = await db
+      .select({ email: user.email })
+      .from(user)
+      .where(eq(user.id, adminId))
+      .limit(1);
+    return {
+      actorUserId: adminId,
+      actorApiKeyId: null,
+      actorLabel: `${admin?.email ?? adminId} (as ${caller.user.email})`,
+    };
+  }
+
+  return {
+    actorUserId: caller.user.id,
+    actorApiKeyId: null,
+    actorLabel: caller.user.email,
+  };
+}
+
+/**
+ * Appends an entry for a mutation the current caller just made. Call it
+ * after the change succeeded, from route handlers and server actions.
+ */
+export async function recordAudit({
+  action,
+  target,
+  project,
+  organizationId,
+  before,
+  after,
+}: AuditEntry) {
+  const caller = await requireCaller();
+  const changes = diffSnapshots(before, after);
+
+  await db.insert(auditLogs).values({
+    actorType: caller.type === "user" ? "user" : "api_key",
+    ...(await actor(caller)),
+    action,
+    targetType: target.type,
+    targetId: String(target.id),
+    projectId: project?.id ?? null,
+    organizationId: project?.organizationId ?? organizationId ?? null,
+    before: changes.before,
+    after: changes.after,
+    ...(await requestOrigin(caller)),
+  });
+}
@@ -1,5 +1,7 @@
-import { createAuthClient } from "better-auth/react"
+import { createAuthClient } from "better-auth/react";
+import { genericOAuthClient } from "better-auth/client/plugins";
 export const authClient = createAuthClient({
-    /** The base URL of the server (optional if you're using the same domain) */
-    baseURL: "http://localhost:3000"
-})
\ No newline at end of file
+  /** The base URL of the server (optional if you're using the same domain) */
+  baseURL: "http://localhost:3000",
+  plugins: [genericOAuthClient()],
+});
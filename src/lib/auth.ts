@@ -1,19 +1,74 @@
 import { db } from "@/db"; // your drizzle instance
 import { account, session, user, verification } from "@/db/schema";
-import { betterAuth } from "better-auth";
+import { betterAuth, type BetterAuthOptions } from "better-auth";
 import { drizzleAdapter } from "better-auth/adapters/drizzle";
+import { admin, genericOAuth } from "better-auth/plugins";
+import { passwordResetEmail, verificationEmail } from "@/lib/emails";
+import { sendMail } from "@/lib/mailer";
+import { genericOAuthProviders, socialProviders } from "@/lib/oauth";
 
-export const auth = betterAuth({
-  database: drizzleAdapter(db, {
-    provider: "pg",
-    schema: {
-      user,
-      account,
-      session,
-      verification,
-    }, // or "mysql", "sqlite"
-  }),
-  emailAndPassword: {
-    enabled: true,
-  },
-});
+/**
+ * The auth configuration for a database adapter; tests run it against an
+ * in-memory one.
+ */
+export function authOptions(database: BetterAuthOptions["database"]) {
+  return {
+    database,
+    emailAndPassword: {
+      enabled: true,
+      requireEmailVerification: true,
+      sendResetPassword: async ({ user, url }) => {
+        await sendMail({ to: user.email, ...passwordResetEmail(url) });
+      },
+    },
+    emailVerification: {
+      sendOnSignUp: true,
+      autoSignInAfterVerification: true,
+      sendVerificationEmail: async ({ user, url }) => {
+        await sendMail({ to: user.email, ...verificationEmail(url) });
+      },
+    },
+    socialProviders: socialProviders(),
+    account: {
+      encryptOAuthTokens: true,
+      accountLinking: {
+        // Signing in with a provider whose verified email matches an existing
+        // user links it to that user. Linking from account settings needs the
+        // same email too.
+        enabled: true,
+      },
+    },
+    // OAuth callbacks that fail land back on the sign-in page with ?error=.
+    onAPIError: { errorURL: "/signin" },
+    // Admin actions go through the audited routes under /api/admin, which call
+    // these endpoints server-side; they are not reachable over HTTP.
+    disabledPaths: [
+      "/admin/set-role",
+      "/admin/create-user",
+      "/admin/update-user",
+      "/admin/ban-user",
+      "/admin/unban-user",
+      "/admin/impersonate-user",
+      "/admin/stop-impersonating",
+      "/admin/revoke-user-session",
+      "/admin/revoke-user-sessions",
+      "/admin/remove-user",
+      "/admin/set-user-password",
+    ],
+    plugins: [admin(), genericOAuth({ config: genericOAuthProviders() })],
+  } satisfies BetterAuthOptions;
+}
+
+export const auth = betterAuth(
+  authOptions(
+    drizzleAdapter(db, {
+      provider: "pg",
+      schema: {
+        user,
+        account,
+        session,
+        verification,
+      }, // or "mysql", "sqlite"
+    }),
+  ),
+);
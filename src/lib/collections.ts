@@ -0,0 +1,47 @@
+import { and, eq } from "drizzle-orm";
+import { db } from "@/db";
+import { collections, type DistanceMetric } from "@/db/schema";
+
+export const DISTANCE_METRICS: readonly DistanceMetric[] = [
+  "cosine",
+  "l2",
+  "inner_product",
+];
+
+/** pgvector's limit for the `vector` type. */
+export const MAX_DIMENSION = 16000;
+
+// Collection names appear in URLs, so keep them to a safe character set.
+const COLLECTION_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+export function isDistanceMetric(value: unknown): value is DistanceMetric {
+  return (
+    typeof value === "string" &&
+    (DISTANCE_METRICS as readonly string[]).includes(value)
+  );
+}
+
+export function isValidCollectionName(value: unknown): value is string {
+  return typeof value === "string" && COLLECTION_NAME_PATTERN.test(value);
+}
+
+export function isValidDimension(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= 1 &&
+    value <= MAX_DIMENSION
+  );
+}
+
+/** Looks up a collection by name within a project. */
+export async function findCollection(projectId: number, name: string) {
+  const [collection] = await db
+    .select()
+    .from(collections)
+    .where(
+      and(eq(collections.projectId, projectId), eq(collections.name, name)),
+    )
+    .limit(1);
+  return collection ?? null;
+}
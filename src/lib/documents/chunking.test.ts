@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  chunkSections,
+  countTokens,
+  enterHeading,
+  splitTokens,
+} from "./chunking";
+
+const options = { strategy: "tokens", chunkSize: 4, chunkOverlap: 1 } as const;
+
+describe("countTokens", () => {
+  it("counts words and punctuation marks", () => {
+    assert.equal(countTokens("Hello, world!"), 4);
+    assert.equal(countTokens("naïve café 2024"), 3);
+    assert.equal(countTokens("  \n\t "), 0);
+  });
+});
+
+describe("splitTokens", () => {
+  it("cuts overlapping windows out of the original text", () => {
+    assert.deepEqual(splitTokens("one two,  three\nfour five six", 3, 1), [
+      { text: "one two,", tokenCount: 3 },
+      { text: ",  three\nfour", tokenCount: 3 },
+      { text: "four five six", tokenCount: 3 },
+    ]);
+  });
+
+  it("ends with the last token, without a trailing sliver", () => {
+    assert.deepEqual(splitTokens("a b c d e", 3, 1), [
+      { text: "a b c", tokenCount: 3 },
+      { text: "c d e", tokenCount: 3 },
+    ]);
+    assert.deepEqual(splitTokens("a b c d e", 2, 0), [
+      { text: "a b", tokenCount: 2 },
+      { text: "c d", tokenCount: 2 },
+      { text: "e", tokenCount: 1 },
+    ]);
+  });
+
+  it("returns nothing for text without tokens", () => {
+    assert.deepEqual(splitTokens(" \n ", 3, 1), []);
+  });
+});
+
+describe("chunkSections", () => {
+  it("keeps short sections whole and splits long ones", () => {
+    const chunks = chunkSections(
+      [
+        { heading: "Intro", text: "\n  Short section.\n" },
+        { heading: null, text: "   " },
+        { heading: "Guide > Setup", text: "a b c d e f g" },
+      ],
+      options,
+    );
+
+    assert.deepEqual(chunks, [
+      { heading: "Intro", text: "Short section.", tokenCount: 3 },
+      { heading: "Guide > Setup", text: "a b c d", tokenCount: 4 },
+      { heading: "Guide > Setup", text: "d e f g", tokenCount: 4 },
+    ]);
+  });
+
+  it("keeps every token in some chunk", () => {
+    const words = Array.from({ length: 50 }, (_, i) => `w${i}`);
+    const chunks = chunkSections([{ heading: null, text: words.join(" ") }], {
+      strategy: "tokens",
+      chunkSize: 8,
+      chunkOverlap: 3,
+    });
+
+    const covered = new Set(chunks.flatMap((chunk) => chunk.text.split(" ")));
+    assert.deepEqual([...covered].sort(), [...words].sort());
+    assert.ok(chunks.every((chunk) => chunk.tokenCount <= 8));
+  });
+});
+
+describe("enterHeading", () => {
+  it("tracks the heading path as levels go up and down", () => {
+    const stack: { level: number; title: string }[] = [];
+
+    assert.equal(enterHeading(stack, 1, "Guide"), "Guide");
+    assert.equal(enterHeading(stack, 2, "Setup"), "Guide > Setup");
+    assert.equal(enterHeading(stack, 3, "Linux"), "Guide > Setup > Linux");
+    assert.equal(enterHeading(stack, 2, "Usage"), "Guide > Usage");
+    assert.equal(enterHeading(stack, 1, "FAQ"), "FAQ");
+  });
+
+  it("skips missing levels", () => {
+    const stack: { level: number; title: string }[] = [];
+
+    assert.equal(enterHeading(stack, 1, "Guide"), "Guide");
+    assert.equal(enterHeading(stack, 3, "Deep"), "Guide > Deep");
+    assert.equal(enterHeading(stack, 2, "Setup"), "Guide > Setup");
+  });
+});
@@ -0,0 +1,84 @@
+import type { ChunkingOptions } from "@/db/schema";
+
+/**
+ * Words and individual punctuation marks. Close enough to a subword
+ * tokenizer's count for sizing chunks, without shipping a vocabulary.
+ */
+const TOKEN_PATTERN = /[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu;
+
+/** A run of text under one heading path ("Guide > Setup"), if any. */
+export interface Section {
+  heading: string | null;
+  text: string;
+}
+
+export interface Chunk {
+  heading: string | null;
+  text: string;
+  tokenCount: number;
+}
+
+export function countTokens(text: string) {
+  return text.match(TOKEN_PATTERN)?.length ?? 0;
+}
+
+/**
+ * Cuts text into windows of `size` tokens, each starting `size - overlap`
+ * tokens after the previous one. Chunks are slices of the original text, so
+ * whitespace and punctuation inside them are kept.
+ */
+export function splitTokens(
+  text: string,
+  size: number,
+  overlap: number,
+): { text: string; tokenCount: number }[] {
+  const spans = Array.from(text.matchAll(TOKEN_PATTERN), (match) => [
+    match.index,
+    match.index + match[0].length,
+  ]);
+
+  const chunks: { text: string; tokenCount: number }[] = [];
+  for (let start = 0; start < spans.length; start += size - overlap) {
+    const end = Math.min(start + size, spans.length);
+    chunks.push({
+      text: text.slice(spans[start][0], spans[end - 1][1]),
+      tokenCount: end - start,
+    });
+    if (end === spans.length) break;
+  }
+  return chunks;
+}
+
+/**
+ * One chunk per section, except that sections longer than `chunkSize` are
+ * cut with `splitTokens`. Every piece keeps its section's heading.
+ */
+export function chunkSections(
+  sections: Section[],
+  { chunkSize, chunkOverlap }: ChunkingOptions,
+): Chunk[] {
+  return sections.flatMap(({ heading, text }) => {
+    const tokenCount = countTokens(text);
+    if (tokenCount === 0) return [];
+    if (tokenCount <= chunkSize) {
+      return [{ heading, text: text.trim(), tokenCount }];
+    }
+    return splitTokens(text, chunkSize, chunkOverlap).map((chunk) => ({
+      heading,
+      ...chunk,
+    }));
+  });
+}
+
+/** Keeps the headings above `level` and pushes `title` at that level. */
+export function enterHeading(
+  stack: { level: number; title: string }[],
+  level: number,
+  title: string,
+) {
+  while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+    stack.pop();
+  }
+  stack.push({ level, title });
+  return stack.map((entry) => entry.title).join(" > ");
+}
@@ -0,0 +1,96 @@
+import { enterHeading, type Section } from "./chunking";
+
+// Elements whose content is never text a reader sees.
+const HIDDEN_ELEMENTS =
+  /<(script|style|head|noscript|template|svg)\b[^>]*>[\s\S]*?<\/\1\s*>/gi;
+
+const BLOCK_TAGS =
+  /<\/?(?:p|div|br|hr|li|ul|ol|dl|dt|dd|tr|table|thead|tbody|blockquote|pre|header|footer|main|nav|aside|figure|figcaption)\b[^>]*>/gi;
+
+// A heading element, or the start of a <section>/<article>.
+const BOUNDARY =
+  /<(h[1-6])\b[^>]*>([\s\S]*?)<\/\1\s*>|<(?:section|article)\b[^>]*>/gi;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(text: string) {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (entity, name: string) => {
+      if (name[0] === "#") {
+        const code =
+          name[1] === "x" || name[1] === "X"
+            ? parseInt(name.slice(2), 16)
+            : parseInt(name.slice(1), 10);
+        return code > 0 && code <= 0x10ffff
+          ? String.fromCodePoint(code)
+          : entity;
+      }
+      return ENTITIES[name.toLowerCase()] ?? entity;
+    },
+  );
+}
+
+function stripHidden(html: string) {
+  return html.replace(/<!--[\s\S]*?-->/g, "").replace(HIDDEN_ELEMENTS, "");
+}
+
+/** Visible text of an HTML fragment, one line per block element. */
+export function htmlToText(html: string) {
+  return decodeEntities(
+    stripHidden(html)
+      .replace(BLOCK_TAGS, "\n")
+      .replace(/<[^>]*>/g, ""),
+  )
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Splits HTML at headings (`<h1>` to `<h6>`) and at each `<section>` or
+ * `<article>`. Sections start with their heading's text; scripts, styles and
+ * other invisible elements are dropped.
+ */
+export function htmlSections(html: string): Section[] {
+  const source = stripHidden(html);
+
+  const sections: Section[] = [];
+  const stack: { level: number; title: string }[] = [];
+  let heading: string | null = null;
+  let title: string | null = null;
+  let start = 0;
+
+  const flush = (end: number) => {
+    const body = htmlToText(source.slice(start, end));
+    if (body) {
+      sections.push({
+        heading,
+        text: title ? `${title}\n\n${body}` : body,
+      });
+    }
+  };
+
+  for (const match of source.matchAll(BOUNDARY)) {
+    flush(match.index);
+    start = match.index + match[0].length;
+    if (match[1]) {
+      title = htmlToText(match[2]).replace(/\n/g, " ");
+      heading = enterHeading(stack, Number(match[1][1]), title);
+    } else {
+      // A section without a heading of its own stays under the current one.
+      title = null;
+    }
+  }
+  flush(source.length);
+
+  return sections;
+}
@@ -0,0 +1,405 @@
+import { and, asc, eq, inArray, sql } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  collectionItems,
+  collections,
+  documentChunks,
+  documentFormat,
+  documents,
+  type ChunkingOptions,
+  type Collection,
+  type Document,
+  type DocumentFormat,
+} from "@/db/schema";
+import { embedTexts } from "@/lib/embeddings";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { chunkSections, type Chunk } from "./chunking";
+import { htmlSections, htmlToText } from "./html";
+import { markdownSections } from "./markdown";
+
+export { countTokens, splitTokens, type Chunk, type Section } from "./chunking";
+export { htmlSections, htmlToText } from "./html";
+export { markdownSections } from "./markdown";
+
+export const DOCUMENT_FORMATS: readonly DocumentFormat[] =
+  documentFormat.enumValues;
+
+export const CHUNKING_STRATEGIES = [
+  "tokens",
+  "markdown",
+  "html",
+] as const satisfies readonly ChunkingOptions["strategy"][];
+
+/** Largest document accepted, in bytes of UTF-8. */
+export const MAX_DOCUMENT_BYTES = 5 * 1024 * 1024;
+
+export const MAX_CHUNK_SIZE = 2048;
+
+export const DEFAULT_CHUNK_SIZE = 256;
+
+export const DEFAULT_CHUNK_OVERLAP = 32;
+
+/** A document splitting into more chunks than this fails to ingest. */
+export const MAX_CHUNKS = 10_000;
+
+// Chunks embedded between progress checkpoints, and rows per insert.
+const EMBED_BATCH_SIZE = 256;
+const WRITE_BATCH_SIZE = 500;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/** The `documents` columns the API returns; the content is left out. */
+export const documentColumns = {
+  id: documents.id,
+  projectId: documents.projectId,
+  collection: collections.name,
+  name: documents.name,
+  format: documents.format,
+  sizeBytes: documents.sizeBytes,
+  chunking: documents.chunking,
+  status: documents.status,
+  error: documents.error,
+  version: documents.version,
+  chunkCount: documents.chunkCount,
+  createdBy: documents.createdBy,
+  createdAt: documents.createdAt,
+  updatedAt: documents.updatedAt,
+};
+
+/** Guesses the format from a file name's extension; plain text otherwise. */
+export function inferDocumentFormat(filename: string): DocumentFormat {
+  const extension = filename.toLowerCase().split(".").pop();
+  if (extension === "md" || extension === "markdown") return "markdown";
+  if (extension === "html" || extension === "htm") return "html";
+  return "text";
+}
+
+/** Headings for Markdown and HTML, fixed-size windows for plain text. */
+export function defaultStrategy(
+  format: DocumentFormat,
+): ChunkingOptions["strategy"] {
+  return format === "text" ? "tokens" : format;
+}
+
+/**
+ * Fills in an upload's format and chunking options. Anything not given is
+ * kept from the `current` version on a re-upload (the strategy only while
+ * the format is unchanged); otherwise the format comes from the name's
+ * extension and the strategy from the format.
+ */
+export function resolveChunking(
+  name: string,
+  fields: { format?: DocumentFormat } & Partial<ChunkingOptions>,
+  current?: Pick<Document, "format" | "chunking">,
+): { format: DocumentFormat; chunking: ChunkingOptions } | { error: string } {
+  const format = fields.format ?? current?.format ?? inferDocumentFormat(name);
+  const strategy =
+    fields.strategy ??
+    (current?.format === format ? current.chunking.strategy : undefined) ??
+    defaultStrategy(format);
+  const chunkSize =
+    fields.chunkSize ?? current?.chunking.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const chunkOverlap =
+    fields.chunkOverlap ??
+    current?.chunking.chunkOverlap ??
+    DEFAULT_CHUNK_OVERLAP;
+
+  if (chunkOverlap >= chunkSize) {
+    return { error: "chunkOverlap must be smaller than chunkSize" };
+  }
+  if (strategy === "html" && format !== "html") {
+    return { error: "The html strategy only applies to HTML documents" };
+  }
+  if (strategy === "markdown" && format === "html") {
+    return { error: "Split HTML documents with the html or tokens strategy" };
+  }
+  return { format, chunking: { strategy, chunkSize, chunkOverlap } };
+}
+
+/** The collection item id of a document's chunk. */
+export function chunkItemId(documentId: string, chunkIndex: number) {
+  return `${documentId}:${chunkIndex}`;
+}
+
+/** Splits a document with its chunking options. */
+export function chunkDocument({
+  content,
+  format,
+  chunking,
+}: Pick<Document, "content" | "format" | "chunking">): Chunk[] {
+  if (chunking.strategy === "markdown") {
+    return chunkSections(markdownSections(content), chunking);
+  }
+  if (chunking.strategy === "html") {
+    return chunkSections(htmlSections(content), chunking);
+  }
+  const text = format === "html" ? htmlToText(content) : content;
+  return chunkSections([{ heading: null, text }], chunking);
+}
+
+export async function listDocuments(projectId: number) {
+  return db
+    .select(documentColumns)
+    .from(documents)
+    .innerJoin(collections, eq(collections.id, documents.collectionId))
+    .where(eq(documents.projectId, projectId))
+    .orderBy(asc(documents.name));
+}
+
+/** Looks up a document within a project; malformed ids simply match nothing. */
+export async function findDocument(projectId: number, documentId: string) {
+  if (!UUID_PATTERN.test(documentId)) return null;
+  const [document] = await db
+    .select()
+    .from(documents)
+    .where(
+      and(eq(documents.id, documentId), eq(documents.projectId, projectId)),
+    );
+  return document ?? null;
+}
+
+export async function findDocumentByName(projectId: number, name: string) {
+  const [document] = await db
+    .select()
+    .from(documents)
+    .where(and(eq(documents.projectId, projectId), eq(documents.name, name)));
+  return document ?? null;
+}
+
+/** A document as the API returns it. */
+export async function getDocument(documentId: string) {
+  const [document] = await db
+    .select(documentColumns)
+    .from(documents)
+    .innerJoin(collections, eq(collections.id, documents.collectionId))
+    .where(eq(documents.id, documentId));
+  return document;
+}
+
+/** A document as the API returns it, with its current chunks. */
+export async function describeDocument(documentId: string) {
+  const document = await getDocument(documentId);
+  const chunks = await db
+    .select({
+      index: documentChunks.chunkIndex,
+      itemId: documentChunks.itemId,
+      heading: documentChunks.heading,
+      tokenCount: documentChunks.tokenCount,
+      text: documentChunks.text,
+    })
+    .from(documentChunks)
+    .where(eq(documentChunks.documentId, documentId))
+    .orderBy(asc(documentChunks.chunkIndex));
+
+  return { ...document, chunks };
+}
+
+/** Queues embedding of the document's current version. */
+export async function startDocumentIngestion(
+  document: Document,
+  createdBy = document.createdBy,
+) {
+  return enqueueJob(
+    document.projectId,
+    "documents.ingest",
+    { documentId: document.id, version: document.version },
+    { createdBy },
+  );
+}
+
+/** Deletes a document's chunks and the collection items stored for them. */
+async function removeChunks(tx: Transaction, documentId: string) {
+  const chunks = await tx
+    .select({
+      collectionId: documentChunks.collectionId,
+      itemId: documentChunks.itemId,
+    })
+    .from(documentChunks)
+    .where(eq(documentChunks.documentId, documentId));
+
+  for (let start = 0; start < chunks.length; start += WRITE_BATCH_SIZE) {
+    const batch = chunks.slice(start, start + WRITE_BATCH_SIZE);
+    // A re-upload may have moved the document to another collection.
+    for (const collectionId of new Set(
+      batch.map((chunk) => chunk.collectionId),
+    )) {
+      await tx.delete(collectionItems).where(
+        and(
+          eq(collectionItems.collectionId, collectionId),
+          inArray(
+            collectionItems.id,
+            batch
+              .filter((chunk) => chunk.collectionId === collectionId)
+              .map((chunk) => chunk.itemId),
+          ),
+        ),
+      );
+    }
+  }
+
+  await tx
+    .delete(documentChunks)
+    .where(eq(documentChunks.documentId, documentId));
+}
+
+/**
+ * Swaps a document's chunks and their items for new ones in a single
+ * transaction, so searches see either the old set or the new one. Returns
+ * false, writing nothing, when the document was deleted or re-uploaded in
+ * the meantime.
+ */
+async function replaceChunks(
+  document: Document,
+  collection: Collection,
+  chunks: Chunk[],
+  vectors: number[][],
+) {
+  return db.transaction(async (tx) => {
+    const [current] = await tx
+      .select({ version: documents.version })
+      .from(documents)
+      .where(eq(documents.id, document.id))
+      .for("update");
+    if (current?.version !== document.version) return false;
+
+    await removeChunks(tx, document.id);
+
+    for (let start = 0; start < chunks.length; start += WRITE_BATCH_SIZE) {
+      const rows = chunks
+        .slice(start, start + WRITE_BATCH_SIZE)
+        .map((chunk, i) => ({
+          ...chunk,
+          chunkIndex: start + i,
+          itemId: chunkItemId(document.id, start + i),
+        }));
+
+      await tx.insert(documentChunks).values(
+        rows.map((row) => ({
+          documentId: document.id,
+          chunkIndex: row.chunkIndex,
+          collectionId: collection.id,
+          itemId: row.itemId,
+          heading: row.heading,
+          text: row.text,
+          tokenCount: row.tokenCount,
+        })),
+      );
+
+      await tx
+        .insert(collectionItems)
+        .values(
+          rows.map((row) => ({
+            collectionId: collection.id,
+            id: row.itemId,
+            embedding: vectors[row.chunkIndex],
+            metadata: {
+              documentId: document.id,
+              documentName: document.name,
+              chunkIndex: row.chunkIndex,
+              heading: row.heading,
+              text: row.text,
+            },
+          })),
+        )
+        .onConflictDoUpdate({
+          target: [collectionItems.collectionId, collectionItems.id],
+          set: {
+            embedding: sql`excluded.embedding`,
+            metadata: sql`excluded.metadata`,
+            updatedAt: sql`now()`,
+          },
+        });
+    }
+
+    await tx
+      .update(documents)
+      .set({ status: "ready", error: null, chunkCount: chunks.length })
+      .where(eq(documents.id, document.id));
+    return true;
+  });
+}
+
+/**
+ * Chunks a document version and embeds the chunks into its collection,
+ * replacing the previous chunks only once every chunk has a vector. Skips
+ * versions that have been deleted or superseded by a re-upload.
+ */
+export async function ingestDocument(
+  documentId: string,
+  version: number,
+  onProgress?: (fraction: number) => Promise<void>,
+) {
+  const [document] = await db
+    .update(documents)
+    .set({ status: "processing", error: null })
+    .where(and(eq(documents.id, documentId), eq(documents.version, version)))
+    .returning();
+  if (!document) return { skipped: true };
+
+  try {
+    const [collection] = await db
+      .select()
+      .from(collections)
+      .where(eq(collections.id, document.collectionId));
+    if (!collection.embedding) {
+      throw new Error(
+        `Collection ${collection.name} has no embedding provider`,
+      );
+    }
+
+    const chunks = chunkDocument(document);
+    if (chunks.length > MAX_CHUNKS) {
+      throw new Error(
+        `The document splits into ${chunks.length} chunks, more than the ${MAX_CHUNKS} allowed; use a larger chunk size`,
+      );
+    }
+
+    const vectors: number[][] = [];
+    for (let start = 0; start < chunks.length; start += EMBED_BATCH_SIZE) {
+      const batch = chunks.slice(start, start + EMBED_BATCH_SIZE);
+      const results = await embedTexts(
+        collection.embedding,
+        collection.dimension,
+        batch.map((chunk) => chunk.text),
+      );
+      for (const [i, result] of results.entries()) {
+        if ("error" in result) {
+          throw new Error(
+            `Chunk ${start + i} could not be embedded: ${result.error}`,
+          );
+        }
+        vectors.push(result.vector);
+      }
+      await onProgress?.(vectors.length / chunks.length);
+    }
+
+    const replaced = await replaceChunks(document, collection, chunks, vectors);
+    return replaced ? { chunks: chunks.length } : { skipped: true };
+  } catch (error) {
+    // The previous chunks, if any, are still in place.
+    await db
+      .update(documents)
+      .set({
+        status: "failed",
+        error: error instanceof Error ? error.message : "Ingestion failed",
+      })
+      .where(and(eq(documents.id, documentId), eq(documents.version, version)));
+    throw error;
+  }
+}
+
+/** Deletes a document together with its chunks and their items. */
+export async function deleteDocument(documentId: string) {
+  await db.transaction(async (tx) => {
+    await tx
+      .select({ id: documents.id })
+      .from(documents)
+      .where(eq(documents.id, documentId))
+      .for("update");
+    await removeChunks(tx, documentId);
+    await tx.delete(documents).where(eq(documents.id, documentId));
+  });
+}
@@ -0,0 +1,59 @@
+import { enterHeading, type Section } from "./chunking";
+
+const HEADING_PATTERN = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Splits Markdown at ATX headings (`#` to `######`), ignoring `#` lines
+ * inside fenced code. Each section starts with its heading line; a heading
+ * with nothing under it before the next one produces no section.
+ */
+export function markdownSections(markdown: string): Section[] {
+  const sections: Section[] = [];
+  const stack: { level: number; title: string }[] = [];
+  let current: { heading: string | null; lines: string[]; body: boolean } = {
+    heading: null,
+    lines: [],
+    body: false,
+  };
+  let fence: string | null = null;
+
+  const flush = () => {
+    if (current.body) {
+      sections.push({
+        heading: current.heading,
+        text: current.lines.join("\n").trim(),
+      });
+    }
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (fence === null) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = null;
+      }
+    }
+
+    const headingMatch = fence === null ? line.match(HEADING_PATTERN) : null;
+    if (headingMatch && !fenceMatch) {
+      flush();
+      const [, hashes, title] = headingMatch;
+      current = {
+        heading: enterHeading(stack, hashes.length, title),
+        lines: [line],
+        body: false,
+      };
+      continue;
+    }
+
+    current.lines.push(line);
+    if (line.trim()) current.body = true;
+  }
+  flush();
+
+  return sections;
+}
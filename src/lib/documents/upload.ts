@@ -0,0 +1,39 @@
+import { parseBody } from "@/lib/api";
+import { ApiError } from "@/lib/api-errors";
+import { jsonObject } from "@/lib/schemas/common";
+import { inferDocumentFormat, MAX_DOCUMENT_BYTES } from "./index";
+
+/**
+ * Reads a document upload into the fields of `createDocumentSchema`: either
+ * a JSON body, or a multipart form whose `file` becomes `text`. A file also
+ * supplies the name and format when the form does not.
+ */
+export async function readDocumentUpload(
+  request: Request,
+): Promise<Record<string, unknown>> {
+  const contentType = request.headers.get("content-type") ?? "";
+  if (!contentType.startsWith("multipart/form-data")) {
+    return parseBody(request, jsonObject);
+  }
+
+  const form = await request.formData();
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of form) {
+    if (typeof value === "string" && value) fields[key] = value;
+  }
+
+  // Browsers send an empty, unnamed file when the input was left blank.
+  const file = form.get("file");
+  if (file instanceof File && file.name) {
+    if (file.size > MAX_DOCUMENT_BYTES) {
+      throw new ApiError(
+        413,
+        `Documents can be at most ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB`,
+      );
+    }
+    fields.text = await file.text();
+    fields.name ??= file.name;
+    fields.format ??= inferDocumentFormat(file.name);
+  }
+  return fields;
+}
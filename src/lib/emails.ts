@@ -0,0 +1,54 @@
+import type { MemberRole } from "@/db/schema";
+import type { MailMessage } from "@/lib/mailer";
+
+type Email = Omit<MailMessage, "to">;
+
+export function verificationEmail(url: string): Email {
+  return {
+    subject: "Verify your email address",
+    text: [
+      "Welcome to Vector Dashboard!",
+      "",
+      "Confirm your email address by opening this link:",
+      url,
+      "",
+      "The link expires in one hour. If you did not sign up, ignore this email.",
+    ].join("\n"),
+  };
+}
+
+export function passwordResetEmail(url: string): Email {
+  return {
+    subject: "Reset your password",
+    text: [
+      "Someone asked to reset the password for your Vector Dashboard account.",
+      "",
+      "Choose a new password here:",
+      url,
+      "",
+      "The link expires in one hour. If it wasn't you, ignore this email; your password stays the same.",
+    ].join("\n"),
+  };
+}
+
+export function invitationEmail({
+  organizationName,
+  role,
+  url,
+}: {
+  organizationName: string;
+  role: MemberRole;
+  url: string;
+}): Email {
+  return {
+    subject: `You're invited to join ${organizationName}`,
+    text: [
+      `You have been invited to join ${organizationName} on Vector Dashboard as ${/^[aeiou]/.test(role) ? "an" : "a"} ${role}.`,
+      "",
+      "Accept the invitation here:",
+      url,
+      "",
+      "The invitation expires in 7 days.",
+    ].join("\n"),
+  };
+}
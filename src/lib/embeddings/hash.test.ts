@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { hashEmbedding, hashProvider } from "./hash";
+
+function cosine(a: number[], b: number[]) {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+function norm(vector: number[]) {
+  return Math.sqrt(cosine(vector, vector));
+}
+
+describe("hashEmbedding", () => {
+  it("is stable across runs", () => {
+    // Stored vectors were computed with these hashes; changing them would
+    // silently break search over existing collections.
+    const a = 2 / Math.sqrt(5);
+    const b = 1 / Math.sqrt(5);
+    assert.deepEqual(hashEmbedding("hello world", 8), [0, 0, 0, a, 0, 0, 0, b]);
+  });
+
+  it("returns unit vectors of the requested dimension", () => {
+    for (const dimension of [1, 2, 16, 384]) {
+      for (const text of ["a", "several words in a row", "¿?", "🙂"]) {
+        const vector = hashEmbedding(text, dimension);
+        assert.equal(vector.length, dimension);
+        assert.ok(Math.abs(norm(vector) - 1) < 1e-12, `${text} @ ${dimension}`);
+      }
+    }
+  });
+
+  it("ignores case and punctuation", () => {
+    assert.deepEqual(
+      hashEmbedding("Hello, World!", 64),
+      hashEmbedding("hello world", 64),
+    );
+  });
+
+  it("places texts that share words closer together", () => {
+    const fox = hashEmbedding("the quick brown fox", 256);
+    const dog = hashEmbedding("a quick brown dog", 256);
+    const index = hashEmbedding("vector database index", 256);
+
+    assert.ok(cosine(fox, dog) > 0.3);
+    assert.ok(cosine(fox, dog) > cosine(fox, index));
+  });
+
+  it("takes word order into account", () => {
+    assert.notDeepEqual(
+      hashEmbedding("dog bites man", 256),
+      hashEmbedding("man bites dog", 256),
+    );
+  });
+});
+
+describe("hashProvider", () => {
+  it("embeds each text in order", async () => {
+    const texts = ["first text", "second text", "first text"];
+    const vectors = await hashProvider.embed(texts, {
+      model: hashProvider.defaultModel,
+      dimension: 32,
+    });
+
+    assert.deepEqual(
+      vectors,
+      texts.map((text) => hashEmbedding(text, 32)),
+    );
+    assert.deepEqual(vectors[0], vectors[2]);
+  });
+});
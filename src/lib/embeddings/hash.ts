@@ -0,0 +1,58 @@
+import type { EmbeddingProvider } from "./types";
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// 32-bit FNV-1a; two offsets give independent bucket and sign hashes.
+function fnv1a(value: string, offset: number) {
+  let hash = offset;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Lowercased word unigrams and bigrams. Text without any word characters is
+ * hashed whole, so every non-empty text gets a non-zero vector.
+ */
+function features(text: string) {
+  const tokens = text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+  if (tokens.length === 0) return [text];
+  const bigrams = tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`);
+  return [...tokens, ...bigrams];
+}
+
+/** Signed feature hashing into `dimension` buckets, L2-normalized. */
+export function hashEmbedding(text: string, dimension: number) {
+  const vector = new Array<number>(dimension).fill(0);
+  for (const feature of features(text)) {
+    const bucket = fnv1a(feature, 0x811c9dc5) % dimension;
+    const sign = fnv1a(feature, 0x050c5d1f) & 1 ? 1 : -1;
+    vector[bucket] += sign;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value ** 2, 0));
+  // Opposite signs can cancel out in tiny dimensions.
+  if (norm === 0) {
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map((value) => value / norm);
+}
+
+/**
+ * A deterministic, offline embedder for development and tests. Texts that
+ * share words land close together, but there is no notion of meaning; the
+ * model name is only a label.
+ */
+export const hashProvider: EmbeddingProvider = {
+  id: "hash",
+  name: "Hashing (built in)",
+  defaultModel: "feature-hash-v1",
+  maxBatchSize: 1000,
+  cacheable: false,
+  async embed(texts, { dimension }) {
+    return texts.map((text) => hashEmbedding(text, dimension));
+  },
+};
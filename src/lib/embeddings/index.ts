@@ -0,0 +1,255 @@
+import { createHash } from "node:crypto";
+import { and, eq, inArray } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  embeddingCache,
+  type Collection,
+  type EmbeddingConfig,
+} from "@/db/schema";
+import { ApiError } from "@/lib/api-errors";
+import { hashProvider } from "./hash";
+import { openAICompatibleProvider } from "./openai";
+import {
+  EMBEDDING_PROVIDERS,
+  EmbeddingError,
+  type EmbeddingProvider,
+  type EmbeddingProviderId,
+  type EmbeddingResult,
+} from "./types";
+
+export { hashEmbedding } from "./hash";
+export {
+  EMBEDDING_PROVIDERS,
+  EmbeddingError,
+  type EmbeddingProvider,
+  type EmbeddingProviderId,
+  type EmbeddingResult,
+} from "./types";
+
+/** Longest text, in characters, the server will embed. */
+export const MAX_TEXT_LENGTH = 32_000;
+
+export function isEmbeddingConfig(value: unknown): value is EmbeddingConfig {
+  if (typeof value !== "object" || value === null) return false;
+  const { provider, model } = value as Record<string, unknown>;
+  return (
+    (EMBEDDING_PROVIDERS as readonly unknown[]).includes(provider) &&
+    typeof model === "string" &&
+    model.length > 0 &&
+    model.length <= 128
+  );
+}
+
+/**
+ * The providers this server can use. `hash` is always there; `openai` needs
+ * `OPENAI_API_KEY` (and honours `OPENAI_BASE_URL`), and `local` needs
+ * `LOCAL_EMBEDDINGS_URL` pointing at an OpenAI-compatible server.
+ */
+export function embeddingProviders(): EmbeddingProvider[] {
+  const providers: EmbeddingProvider[] = [];
+  if (process.env.OPENAI_API_KEY) {
+    providers.push(
+      openAICompatibleProvider({
+        id: "openai",
+        name: "OpenAI",
+        baseUrl: process.env.OPENAI_BASE_URL ?? "https://api.openai.com/v1",
+        apiKey: process.env.OPENAI_API_KEY,
+        defaultModel: "text-embedding-3-small",
+        maxBatchSize: 256,
+        // Older models reject the parameter.
+        supportsDimensions: (model) => model.startsWith("text-embedding-3"),
+      }),
+    );
+  }
+  if (process.env.LOCAL_EMBEDDINGS_URL) {
+    providers.push(
+      openAICompatibleProvider({
+        id: "local",
+        name: "Local embeddings server",
+        baseUrl: process.env.LOCAL_EMBEDDINGS_URL,
+        apiKey: process.env.LOCAL_EMBEDDINGS_API_KEY,
+        defaultModel: process.env.LOCAL_EMBEDDINGS_MODEL ?? "nomic-embed-text",
+        maxBatchSize: 32,
+      }),
+    );
+  }
+  providers.push(hashProvider);
+  return providers;
+}
+
+export function findEmbeddingProvider(id: EmbeddingProviderId) {
+  return embeddingProviders().find((provider) => provider.id === id) ?? null;
+}
+
+/** Checks a requested provider is configured and fills in its default model. */
+export function resolveEmbeddingConfig(raw: {
+  provider: EmbeddingProviderId;
+  model?: string;
+}): { config: EmbeddingConfig } | { error: string } {
+  const provider = findEmbeddingProvider(raw.provider);
+  if (!provider) {
+    const available = embeddingProviders().map(({ id }) => id);
+    return {
+      error: `Embedding provider ${raw.provider} is not configured on this server; available: ${available.join(", ")}`,
+    };
+  }
+  return {
+    config: {
+      provider: provider.id,
+      model: raw.model ?? provider.defaultModel,
+    },
+  };
+}
+
+function contentHash(text: string) {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : "Embedding failed";
+}
+
+async function readCache(
+  config: EmbeddingConfig,
+  dimension: number,
+  hashes: string[],
+) {
+  const rows = await db
+    .select({
+      contentHash: embeddingCache.contentHash,
+      embedding: embeddingCache.embedding,
+    })
+    .from(embeddingCache)
+    .where(
+      and(
+        eq(embeddingCache.provider, config.provider),
+        eq(embeddingCache.model, config.model),
+        eq(embeddingCache.dimension, dimension),
+        inArray(embeddingCache.contentHash, hashes),
+      ),
+    );
+  return new Map(rows.map((row) => [row.contentHash, row.embedding]));
+}
+
+/**
+ * Embeds texts with a collection's provider. Identical texts are embedded
+ * once, cached vectors are reused, and the rest are sent in batches of the
+ * provider's size. A failed batch is retried text by text, so a provider
+ * error only fails the texts it concerns; nothing is thrown.
+ */
+export async function embedTexts(
+  config: EmbeddingConfig,
+  dimension: number,
+  texts: string[],
+): Promise<EmbeddingResult[]> {
+  const provider = findEmbeddingProvider(config.provider);
+  if (!provider) {
+    return texts.map(() => ({
+      error: `Embedding provider ${config.provider} is not configured on this server`,
+    }));
+  }
+
+  const hashes = texts.map(contentHash);
+  const outcomes = new Map<string, EmbeddingResult>();
+  // The cache only saves provider calls, so a failed lookup is not fatal.
+  const cached =
+    provider.cacheable && texts.length > 0
+      ? await readCache(config, dimension, [...new Set(hashes)]).catch(
+          (error) => {
+            console.warn("Failed to read cached embeddings:", error);
+            return new Map<string, number[]>();
+          },
+        )
+      : new Map<string, number[]>();
+  for (const [hash, vector] of cached) {
+    outcomes.set(hash, { vector });
+  }
+
+  const pending = new Map<string, string>();
+  hashes.forEach((hash, i) => {
+    if (!outcomes.has(hash)) pending.set(hash, texts[i]);
+  });
+
+  const check = (vector: number[]): EmbeddingResult =>
+    vector.length === dimension
+      ? { vector }
+      : {
+          error: `${provider.name} returned ${vector.length} dimensions, collection expects ${dimension}`,
+        };
+
+  const entries = [...pending];
+  for (let start = 0; start < entries.length; start += provider.maxBatchSize) {
+    const batch = entries.slice(start, start + provider.maxBatchSize);
+    const options = { model: config.model, dimension };
+    try {
+      const vectors = await provider.embed(
+        batch.map(([, text]) => text),
+        options,
+      );
+      batch.forEach(([hash], i) => outcomes.set(hash, check(vectors[i])));
+    } catch (batchError) {
+      if (batch.length === 1) {
+        outcomes.set(batch[0][0], { error: errorMessage(batchError) });
+        continue;
+      }
+      console.warn(
+        "Embedding batch failed, retrying texts one by one:",
+        batchError,
+      );
+      for (const [hash, text] of batch) {
+        try {
+          const [vector] = await provider.embed([text], options);
+          outcomes.set(hash, check(vector));
+        } catch (error) {
+          outcomes.set(hash, { error: errorMessage(error) });
+        }
+      }
+    }
+  }
+
+  if (provider.cacheable) {
+    const fresh = [...pending.keys()].flatMap((hash) => {
+      const outcome = outcomes.get(hash)!;
+      return "vector" in outcome ? [{ hash, vector: outcome.vector }] : [];
+    });
+    if (fresh.length > 0) {
+      await db
+        .insert(embeddingCache)
+        .values(
+          fresh.map(({ hash, vector }) => ({
+            provider: config.provider,
+            model: config.model,
+            dimension,
+            contentHash: hash,
+            embedding: vector,
+          })),
+        )
+        .onConflictDoNothing()
+        .catch((error) => console.warn("Failed to cache embeddings:", error));
+    }
+  }
+
+  return hashes.map((hash) => outcomes.get(hash)!);
+}
+
+/**
+ * Embeds a query text with the collection's provider. Throws a 400 when the
+ * collection has none, and `EmbeddingError` (502) when the provider fails.
+ */
+export async function embedQuery(collection: Collection, text: string) {
+  if (!collection.embedding) {
+    throw new ApiError(
+      400,
+      "This collection has no embedding provider; send a vector, or configure one to query by text",
+    );
+  }
+  const [result] = await embedTexts(
+    collection.embedding,
+    collection.dimension,
+    [text],
+  );
+  if ("error" in result) {
+    throw new EmbeddingError(result.error);
+  }
+  return result.vector;
+}
@@ -0,0 +1,98 @@
+import {
+  EmbeddingError,
+  type EmbeddingProvider,
+  type EmbeddingProviderId,
+} from "./types";
+
+const REQUEST_TIMEOUT_MS = 60_000;
+
+interface OpenAICompatibleOptions {
+  id: EmbeddingProviderId;
+  name: string;
+  /** Base URL up to and including the API version, e.g. `.../v1`. */
+  baseUrl: string;
+  apiKey?: string;
+  defaultModel: string;
+  maxBatchSize: number;
+  /** Whether a model accepts the `dimensions` request parameter. */
+  supportsDimensions?: (model: string) => boolean;
+}
+
+interface EmbeddingsResponse {
+  data?: { index: number; embedding: unknown }[];
+  error?: { message?: string };
+}
+
+/**
+ * A provider for any server implementing OpenAI's `POST /embeddings`:
+ * OpenAI itself, or a locally hosted one (Ollama, vLLM, LM Studio, text
+ * embeddings inference...).
+ */
+export function openAICompatibleProvider({
+  id,
+  name,
+  baseUrl,
+  apiKey,
+  defaultModel,
+  maxBatchSize,
+  supportsDimensions = () => false,
+}: OpenAICompatibleOptions): EmbeddingProvider {
+  const url = `${baseUrl.replace(/\/+$/, "")}/embeddings`;
+
+  return {
+    id,
+    name,
+    defaultModel,
+    maxBatchSize,
+    cacheable: true,
+    async embed(texts, { model, dimension }) {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model,
+            input: texts,
+            encoding_format: "float",
+            ...(supportsDimensions(model) ? { dimensions: dimension } : {}),
+          }),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+      } catch (error) {
+        throw new EmbeddingError(
+          `${name} could not be reached: ${error instanceof Error ? error.message : "request failed"}`,
+        );
+      }
+
+      const body = (await response
+        .json()
+        .catch(() => null)) as EmbeddingsResponse | null;
+      if (!response.ok) {
+        throw new EmbeddingError(
+          `${name} returned ${response.status}: ${body?.error?.message ?? response.statusText}`,
+        );
+      }
+      if (!Array.isArray(body?.data) || body.data.length !== texts.length) {
+        throw new EmbeddingError(
+          `${name} returned an unexpected response for ${texts.length} texts`,
+        );
+      }
+
+      const data = [...body.data].sort((a, b) => a.index - b.index);
+      return data.map(({ index, embedding }, position) => {
+        if (
+          index !== position ||
+          !Array.isArray(embedding) ||
+          !embedding.every((value) => Number.isFinite(value))
+        ) {
+          throw new EmbeddingError(`${name} returned a malformed vector`);
+        }
+        return embedding as number[];
+      });
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import type { EmbeddingConfig } from "@/db/schema";
+import { ApiError } from "@/lib/api-errors";
+
+export type EmbeddingProviderId = EmbeddingConfig["provider"];
+
+export const EMBEDDING_PROVIDERS = [
+  "openai",
+  "local",
+  "hash",
+] as const satisfies readonly EmbeddingProviderId[];
+
+/**
+ * Turns texts into vectors. Providers only speak to their backend; batching,
+ * caching and per-item error handling are done by `embedTexts`.
+ */
+export interface EmbeddingProvider {
+  id: EmbeddingProviderId;
+  name: string;
+  defaultModel: string;
+  /** Most texts sent in one request. */
+  maxBatchSize: number;
+  /** False when computing a vector is cheaper than looking it up. */
+  cacheable: boolean;
+  /**
+   * Embeds `texts` in order. Throws `EmbeddingError` when the request fails
+   * as a whole; vectors of the wrong length are caught by the caller.
+   */
+  embed(
+    texts: string[],
+    options: { model: string; dimension: number },
+  ): Promise<number[][]>;
+}
+
+/** Outcome for one text, in the order the texts were given. */
+export type EmbeddingResult = { vector: number[] } | { error: string };
+
+/** Raised when a provider cannot be reached or rejects a request. */
+export class EmbeddingError extends ApiError {
+  constructor(message: string) {
+    super(502, message);
+    this.name = "EmbeddingError";
+  }
+}
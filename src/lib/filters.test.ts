@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { compileFilter, FilterError } from "./filters";
+
+const dialect = new PgDialect();
+const metadata = `"collection_items"."metadata"`;
+
+function render(filter: unknown) {
+  const { sql, params } = dialect.sqlToQuery(compileFilter(filter));
+  return { sql, params };
+}
+
+function assertRejected(filter: unknown, path: string) {
+  assert.throws(
+    () => compileFilter(filter),
+    (error) =>
+      error instanceof FilterError &&
+      error.status === 400 &&
+      error.path === path,
+  );
+}
+
+describe("compileFilter", () => {
+  it("compares a path into the metadata with a JSON value", () => {
+    assert.deepEqual(render({ field: "author.name", eq: "Ada" }), {
+      sql: `((${metadata} #> ARRAY[$1, $2]::text[]) = $3::jsonb)`,
+      params: ["author", "name", '"Ada"'],
+    });
+  });
+
+  it("combines conditions and passes every value as a parameter", () => {
+    const { sql, params } = render({
+      and: [
+        { field: "year", range: { gte: 2000, lt: 2010 } },
+        {
+          or: [
+            { field: "tag", in: ["a", 1] },
+            { not: { field: "draft", exists: true } },
+          ],
+        },
+      ],
+    });
+
+    assert.match(sql, /^\(\(jsonb_typeof\(.+\) = \$2 AND .+ >= \$4::jsonb/);
+    assert.match(sql, / IN \(\$8::jsonb, \$9::jsonb\)\) OR \(NOT coalesce\(/);
+    assert.deepEqual(params, [
+      "year",
+      "number",
+      "year",
+      "2000",
+      "year",
+      "2010",
+      "tag",
+      '"a"',
+      "1",
+      "draft",
+    ]);
+  });
+
+  it("keeps field names out of the SQL text", () => {
+    const { sql, params } = render({
+      field: "x'); DROP TABLE users; --",
+      eq: 1,
+    });
+    assert.doesNotMatch(sql, /DROP/);
+    assert.equal(params[0], "x'); DROP TABLE users; --");
+  });
+
+  it("rejects malformed filters with the path of the problem", () => {
+    assertRejected(null, "filter");
+    assertRejected({ field: "a", like: "b" }, "filter");
+    assertRejected({ field: "a..b", eq: 1 }, "filter.field");
+    assertRejected({ and: [] }, "filter");
+    assertRejected({ or: [{ field: "a", in: [] }] }, "filter.or[0].in");
+    assertRejected({ not: { field: "a", exists: "yes" } }, "filter.not.exists");
+    assertRejected(
+      { field: "a", in: Array.from({ length: 1001 }, (_, i) => i) },
+      "filter.in",
+    );
+  });
+
+  it("rejects ranges without bounds of one type", () => {
+    assertRejected({ field: "a", range: {} }, "filter.range");
+    assertRejected({ field: "a", range: { gt: 1, lt: "z" } }, "filter.range");
+    assertRejected({ field: "a", range: { gt: true } }, "filter.range");
+    assertRejected({ field: "a", range: { above: 1 } }, "filter.range.above");
+  });
+
+  it("limits nesting", () => {
+    let filter: unknown = { field: "a", eq: 1 };
+    for (let depth = 0; depth < 10; depth++) filter = { not: filter };
+    assert.ok(compileFilter(filter));
+    assertRejected({ not: filter }, `filter${".not".repeat(11)}`);
+  });
+});
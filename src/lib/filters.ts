@@ -0,0 +1,191 @@
+import { sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { collectionItems } from "@/db/schema";
+import { ApiError } from "@/lib/api-errors";
+
+export type JsonValue =
+  string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+type RangeBound = number | string;
+
+/**
+ * Structured filter over an item's JSON metadata. `field` is a dot-separated
+ * path into the payload, e.g. `"author.name"`.
+ *
+ * - `{ field, eq }` matches an exact JSON value
+ * - `{ field, in }` matches any of several values
+ * - `{ field, range: { gt, gte, lt, lte } }` compares numbers or strings
+ *   (e.g. ISO dates); values of another type never match
+ * - `{ field, exists }` tests whether the path is present
+ * - `{ and }`, `{ or }` and `{ not }` combine filters
+ */
+export type MetadataFilter =
+  | { and: MetadataFilter[] }
+  | { or: MetadataFilter[] }
+  | { not: MetadataFilter }
+  | { field: string; eq: JsonValue }
+  | { field: string; in: JsonValue[] }
+  | {
+      field: string;
+      range: {
+        gt?: RangeBound;
+        gte?: RangeBound;
+        lt?: RangeBound;
+        lte?: RangeBound;
+      };
+    }
+  | { field: string; exists: boolean };
+
+/** Thrown for malformed filters; `path` locates the problem in the input. */
+export class FilterError extends ApiError {
+  constructor(
+    message: string,
+    public readonly path: string,
+  ) {
+    super(400, `${path}: ${message}`, {
+      details: [
+        {
+          path: path
+            .split(/[.[\]]+/)
+            .filter(Boolean)
+            .map((key) => (/^\d+$/.test(key) ? Number(key) : key)),
+          message,
+        },
+      ],
+    });
+    this.name = "FilterError";
+  }
+}
+
+const MAX_DEPTH = 10;
+const MAX_IN_VALUES = 1000;
+const FIELD_PATTERN = /^[^.]+(\.[^.]+)*$/;
+const RANGE_OPERATORS = { gt: ">", gte: ">=", lt: "<", lte: "<=" } as const;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function jsonb(value: unknown) {
+  return sql`${JSON.stringify(value)}::jsonb`;
+}
+
+function fieldPath(column: AnyPgColumn, field: unknown, path: string) {
+  if (typeof field !== "string" || !FIELD_PATTERN.test(field)) {
+    throw new FilterError("field must be a dot-separated path", path);
+  }
+  const segments = field.split(".").map((segment) => sql`${segment}`);
+  return sql`(${column} #> ARRAY[${sql.join(segments, sql`, `)}]::text[])`;
+}
+
+function compile(
+  filter: unknown,
+  column: AnyPgColumn,
+  path: string,
+  depth: number,
+): SQL {
+  if (depth > MAX_DEPTH) {
+    throw new FilterError(`filters may nest at most ${MAX_DEPTH} levels`, path);
+  }
+  if (!isPlainObject(filter)) {
+    throw new FilterError("filter must be an object", path);
+  }
+
+  if ("and" in filter || "or" in filter) {
+    const operator = "and" in filter ? "and" : "or";
+    const children = filter[operator];
+    if (!Array.isArray(children) || children.length === 0) {
+      throw new FilterError(`${operator} must be a non-empty array`, path);
+    }
+    const compiled = children.map((child, index) =>
+      compile(child, column, `${path}.${operator}[${index}]`, depth + 1),
+    );
+    return sql`(${sql.join(compiled, operator === "and" ? sql` AND ` : sql` OR `)})`;
+  }
+
+  if ("not" in filter) {
+    const inner = compile(filter.not, column, `${path}.not`, depth + 1);
+    // A missing field makes comparisons NULL; treat that as "no match" so
+    // that `not` includes items without the field.
+    return sql`(NOT coalesce(${inner}, false))`;
+  }
+
+  const target = fieldPath(column, filter.field, `${path}.field`);
+
+  if ("eq" in filter) {
+    return sql`(${target} = ${jsonb(filter.eq)})`;
+  }
+
+  if ("in" in filter) {
+    const values = filter.in;
+    if (!Array.isArray(values) || values.length === 0) {
+      throw new FilterError("in must be a non-empty array", `${path}.in`);
+    }
+    if (values.length > MAX_IN_VALUES) {
+      throw new FilterError(
+        `in accepts at most ${MAX_IN_VALUES} values`,
+        `${path}.in`,
+      );
+    }
+    return sql`(${target} IN (${sql.join(values.map(jsonb), sql`, `)}))`;
+  }
+
+  if ("range" in filter) {
+    const range = filter.range;
+    if (!isPlainObject(range)) {
+      throw new FilterError("range must be an object", `${path}.range`);
+    }
+    const bounds = Object.entries(range);
+    const kinds = new Set(bounds.map(([, value]) => typeof value));
+    if (
+      bounds.length === 0 ||
+      kinds.size !== 1 ||
+      !(kinds.has("number") || kinds.has("string"))
+    ) {
+      throw new FilterError(
+        "range needs at least one bound, all numbers or all strings",
+        `${path}.range`,
+      );
+    }
+
+    const conditions = bounds.map(([key, value]) => {
+      if (!(key in RANGE_OPERATORS)) {
+        throw new FilterError(
+          "range bounds must be gt, gte, lt or lte",
+          `${path}.range.${key}`,
+        );
+      }
+      const operator = RANGE_OPERATORS[key as keyof typeof RANGE_OPERATORS];
+      return sql`${target} ${sql.raw(operator)} ${jsonb(value)}`;
+    });
+    // jsonb orders values of different types by type, so restrict the
+    // comparison to values of the bound's type.
+    const type = kinds.has("number") ? "number" : "string";
+    return sql`(jsonb_typeof(${target}) = ${type} AND ${sql.join(conditions, sql` AND `)})`;
+  }
+
+  if ("exists" in filter) {
+    if (typeof filter.exists !== "boolean") {
+      throw new FilterError("exists must be a boolean", `${path}.exists`);
+    }
+    return filter.exists
+      ? sql`(${target} IS NOT NULL)`
+      : sql`(${target} IS NULL)`;
+  }
+
+  throw new FilterError(
+    "expected one of and, or, not, eq, in, range or exists",
+    path,
+  );
+}
+
+/**
+ * Validates `filter` and compiles it to a SQL condition over a JSON payload
+ * column (item metadata by default). Throws `FilterError` on malformed input.
+ */
+export function compileFilter(
+  filter: unknown,
+  column: AnyPgColumn = collectionItems.metadata,
+): SQL {
+  return compile(filter, column, "filter", 0);
+}
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseCsv, type CsvOptions } from "./csv";
+import { ImportFormatError, type ImportRow } from "./types";
+
+/** Streams `text` in tiny chunks, so records and characters straddle them. */
+function streamOf(text: string, chunkSize = 3) {
+  const bytes = new TextEncoder().encode(text);
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let start = 0; start < bytes.length; start += chunkSize) {
+        controller.enqueue(bytes.subarray(start, start + chunkSize));
+      }
+      controller.close();
+    },
+  });
+}
+
+async function parse(text: string, options?: CsvOptions) {
+  const rows: ImportRow[] = [];
+  for await (const row of parseCsv(streamOf(text), options)) rows.push(row);
+  return rows;
+}
+
+describe("parseCsv", () => {
+  it("builds items from the id, vector and other columns", async () => {
+    const rows = await parse(
+      'id,vector,title,metadata\r\na,"[1, 2]",Café,"{""tags"": [""x""]}"\r\nb,3 4;5,,\r\n',
+    );
+
+    assert.deepEqual(rows, [
+      {
+        row: 1,
+        item: {
+          id: "a",
+          vector: [1, 2],
+          metadata: { title: "Café", tags: ["x"] },
+        },
+      },
+      { row: 2, item: { id: "b", vector: [3, 4, 5], metadata: { title: "" } } },
+    ]);
+  });
+
+  it("keeps commas, quotes and newlines inside quoted fields", async () => {
+    const rows = await parse(
+      'id,vector,note\n"x,1",1 2,"line one\nsaid ""hi"""',
+    );
+
+    assert.deepEqual(rows, [
+      {
+        row: 1,
+        item: {
+          id: "x,1",
+          vector: [1, 2],
+          metadata: { note: 'line one\nsaid "hi"' },
+        },
+      },
+    ]);
+  });
+
+  it("uses the configured id and vector columns", async () => {
+    const rows = await parse("key,embedding\nk1,0.5\n", {
+      idColumn: "key",
+      vectorColumn: "embedding",
+    });
+
+    assert.deepEqual(rows, [
+      { row: 1, item: { id: "k1", vector: [0.5], metadata: {} } },
+    ]);
+  });
+
+  it("reports bad rows and carries on", async () => {
+    const rows = await parse("id,vector\na,1 2\n\nb\nc,1 two\nd,[1\ne,3\n");
+    // JSON.parse's wording differs between Node versions.
+    const { error: jsonError, ...invalidJson } = rows[3] as {
+      error: string;
+    };
+
+    assert.deepEqual(rows.toSpliced(3, 1), [
+      { row: 1, item: { id: "a", vector: [1, 2], metadata: {} } },
+      { row: 2, error: "Expected 2 columns, found 1" },
+      { row: 3, id: "c", error: 'Invalid field: "two" is not a number' },
+      { row: 5, item: { id: "e", vector: [3], metadata: {} } },
+    ]);
+    assert.deepEqual(invalidJson, { row: 4, id: "d" });
+    assert.match(jsonError, /^Invalid field: /);
+  });
+
+  it("rejects a header without the id or vector column", async () => {
+    await assert.rejects(parse("id,embedding\na,1\n"), (error) => {
+      assert.ok(error instanceof ImportFormatError);
+      assert.equal(error.message, 'CSV header has no "vector" column');
+      return true;
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import type { ImportRow } from "./types";
+import { ImportFormatError } from "./types";
+
+export interface CsvOptions {
+  idColumn?: string;
+  vectorColumn?: string;
+}
+
+/** Streams RFC 4180 records; quoted fields may contain commas and newlines. */
+async function* readCsvRecords(stream: ReadableStream<Uint8Array>) {
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  // Inside quotes, a quote either ends the field or escapes a second quote.
+  let quotePending = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      const text = decoder.decode(value, { stream: !done });
+
+      for (const char of text) {
+        if (inQuotes) {
+          if (quotePending) {
+            quotePending = false;
+            if (char === '"') {
+              field += '"';
+              continue;
+            }
+            inQuotes = false;
+          } else if (char === '"') {
+            quotePending = true;
+            continue;
+          } else {
+            field += char;
+            continue;
+          }
+        }
+
+        if (char === '"' && field === "") {
+          inQuotes = true;
+        } else if (char === ",") {
+          record.push(field);
+          field = "";
+        } else if (char === "\n") {
+          record.push(field);
+          yield record;
+          record = [];
+          field = "";
+        } else if (char !== "\r") {
+          field += char;
+        }
+      }
+
+      if (done) break;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  if (field || record.length > 0) {
+    record.push(field);
+    yield record;
+  }
+}
+
+/** Accepts `[1, 2, 3]` (JSON) or numbers separated by spaces or semicolons. */
+function parseVectorField(value: string) {
+  const trimmed = value.trim();
+  if (trimmed.startsWith("[")) {
+    return JSON.parse(trimmed) as unknown;
+  }
+  return trimmed
+    .split(/[\s;]+/)
+    .filter(Boolean)
+    .map((part) => {
+      const number = Number(part);
+      if (Number.isNaN(number)) {
+        throw new Error(`"${part}" is not a number`);
+      }
+      return number;
+    });
+}
+
+/**
+ * Parses CSV with a header row. `idColumn` and `vectorColumn` (default `id`
+ * and `vector`) build the item; a `metadata` column holding JSON is merged
+ * into the payload, and every other column is stored as a string field.
+ */
+export async function* parseCsv(
+  stream: ReadableStream<Uint8Array>,
+  { idColumn = "id", vectorColumn = "vector" }: CsvOptions = {},
+): AsyncGenerator<ImportRow> {
+  let header: string[] | null = null;
+  let row = 0;
+
+  for await (const record of readCsvRecords(stream)) {
+    if (!header) {
+      header = record.map((name) => name.trim());
+      for (const column of [idColumn, vectorColumn]) {
+        if (!header.includes(column)) {
+          throw new ImportFormatError(`CSV header has no "${column}" column`);
+        }
+      }
+      continue;
+    }
+
+    if (record.length === 1 && record[0].trim() === "") continue;
+    row++;
+
+    if (record.length !== header.length) {
+      yield {
+        row,
+        error: `Expected ${header.length} columns, found ${record.length}`,
+      };
+      continue;
+    }
+
+    const metadata: Record<string, unknown> = {};
+    let id = "";
+    let vector: unknown;
+    try {
+      header.forEach((column, index) => {
+        const value = record[index];
+        if (column === idColumn) {
+          id = value;
+        } else if (column === vectorColumn) {
+          vector = parseVectorField(value);
+        } else if (column === "metadata") {
+          if (value.trim()) Object.assign(metadata, JSON.parse(value));
+        } else {
+          metadata[column] = value;
+        }
+      });
+    } catch (error) {
+      yield {
+        row,
+        id: id || undefined,
+        error: `Invalid field: ${error instanceof Error ? error.message : error}`,
+      };
+      continue;
+    }
+
+    yield { row, item: { id, vector, metadata } };
+  }
+}
@@ -0,0 +1,117 @@
+import type { Collection } from "@/db/schema";
+import { upsertItems } from "@/lib/vectors";
+import type { ImportFormat, ImportRow } from "./types";
+
+export { parseCsv } from "./csv";
+export { parseJsonl } from "./jsonl";
+export { parseNpy } from "./npy";
+export { ImportFormatError, type ImportFormat, type ImportRow } from "./types";
+
+export const IMPORT_FORMATS: readonly ImportFormat[] = ["jsonl", "csv", "npy"];
+
+/** Rows written per upsert while streaming an import. */
+export const IMPORT_BATCH_SIZE = 500;
+
+/**
+ * Largest multipart import. The runtime buffers a whole form before any of
+ * it can be read, so bigger JSONL and CSV files have to be sent as a raw
+ * body, which is streamed.
+ */
+export const MAX_MULTIPART_IMPORT_BYTES = 64 * 1024 * 1024;
+
+/** Errors beyond this many are counted but left out of the report. */
+export const MAX_REPORTED_ERRORS = 10_000;
+
+export interface ImportError {
+  row: number;
+  id: string | null;
+  error: string;
+}
+
+export interface ImportReport {
+  total: number;
+  imported: number;
+  failed: number;
+  errors: ImportError[];
+  errorsTruncated: boolean;
+}
+
+export function isImportFormat(value: unknown): value is ImportFormat {
+  return (
+    typeof value === "string" &&
+    (IMPORT_FORMATS as readonly string[]).includes(value)
+  );
+}
+
+/** Guesses the format from a file name's extension. */
+export function inferImportFormat(filename: string): ImportFormat | null {
+  const extension = filename.toLowerCase().split(".").pop();
+  if (extension === "jsonl" || extension === "ndjson") return "jsonl";
+  if (extension === "csv") return "csv";
+  if (extension === "npy") return "npy";
+  return null;
+}
+
+/**
+ * Streams parsed rows into a collection in batches of `IMPORT_BATCH_SIZE`,
+ * collecting a per-row error report. Only one batch is held in memory.
+ */
+export async function importRows(
+  collection: Collection,
+  rows: AsyncIterable<ImportRow>,
+  onProgress?: (report: ImportReport) => void | Promise<void>,
+): Promise<ImportReport> {
+  const report: ImportReport = {
+    total: 0,
+    imported: 0,
+    failed: 0,
+    errors: [],
+    errorsTruncated: false,
+  };
+
+  const recordError = (error: ImportError) => {
+    report.failed++;
+    if (report.errors.length < MAX_REPORTED_ERRORS) {
+      report.errors.push(error);
+    } else {
+      report.errorsTruncated = true;
+    }
+  };
+
+  let batch: { row: number; item: unknown }[] = [];
+  const flush = async () => {
+    if (batch.length === 0) return;
+    const results = await upsertItems(
+      collection,
+      batch.map(({ item }) => item),
+    );
+    for (const result of results) {
+      if (result.status === "ok") {
+        report.imported++;
+      } else {
+        recordError({
+          row: batch[result.index].row,
+          id: result.id,
+          error: result.error,
+        });
+      }
+    }
+    batch = [];
+    await onProgress?.(report);
+  };
+
+  for await (const row of rows) {
+    report.total++;
+    if ("error" in row) {
+      recordError({ row: row.row, id: row.id ?? null, error: row.error });
+      continue;
+    }
+    batch.push(row);
+    if (batch.length >= IMPORT_BATCH_SIZE) {
+      await flush();
+    }
+  }
+  await flush();
+
+  return report;
+}
@@ -0,0 +1,18 @@
+import { readLines } from "./streams";
+import type { ImportRow } from "./types";
+
+/** Parses JSON Lines of `{ id, vector, metadata? }`; blank lines are skipped. */
+export async function* parseJsonl(
+  stream: ReadableStream<Uint8Array>,
+): AsyncGenerator<ImportRow> {
+  let row = 0;
+  for await (const line of readLines(stream)) {
+    if (!line.trim()) continue;
+    row++;
+    try {
+      yield { row, item: JSON.parse(line) };
+    } catch {
+      yield { row, error: "Invalid JSON" };
+    }
+  }
+}
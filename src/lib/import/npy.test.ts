@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseNpy } from "./npy";
+import { ImportFormatError, type ImportRow } from "./types";
+
+function streamOf(bytes: Uint8Array, chunkSize = 5) {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let start = 0; start < bytes.length; start += chunkSize) {
+        controller.enqueue(bytes.subarray(start, start + chunkSize));
+      }
+      controller.close();
+    },
+  });
+}
+
+/** A version 1.0 `.npy` file, as `numpy.save` writes it. */
+function npy(
+  values: number[],
+  {
+    descr = "<f4",
+    shape = `(${values.length}, 1)`,
+    fortranOrder = "False",
+  }: { descr?: string; shape?: string; fortranOrder?: string } = {},
+) {
+  let header = `{'descr': '${descr}', 'fortran_order': ${fortranOrder}, 'shape': ${shape}, }`;
+  // The prelude plus header is padded to a multiple of 64 bytes.
+  header = header.padEnd(Math.ceil((header.length + 11) / 64) * 64 - 11) + "\n";
+
+  const data =
+    descr === "<f8" ? new Float64Array(values) : new Float32Array(values);
+  const bytes = new Uint8Array(10 + header.length + data.byteLength);
+  bytes.set([0x93, ...new TextEncoder().encode("NUMPY"), 1, 0]);
+  new DataView(bytes.buffer).setUint16(8, header.length, true);
+  bytes.set(new TextEncoder().encode(header), 10);
+  bytes.set(new Uint8Array(data.buffer), 10 + header.length);
+  return bytes;
+}
+
+async function parse(matrix: Uint8Array, sidecar: string) {
+  const rows: ImportRow[] = [];
+  for await (const row of parseNpy(
+    streamOf(matrix),
+    streamOf(new TextEncoder().encode(sidecar)),
+  )) {
+    rows.push(row);
+  }
+  return rows;
+}
+
+async function assertFormatError(matrix: Uint8Array, message: RegExp) {
+  await assert.rejects(parse(matrix, ""), (error) => {
+    assert.ok(error instanceof ImportFormatError);
+    assert.match(error.message, message);
+    return true;
+  });
+}
+
+describe("parseNpy", () => {
+  it("pairs each matrix row with a sidecar line", async () => {
+    const matrix = npy([0.5, 1, -2, 3.25, 0, 8], { shape: "(3, 2)" });
+    const sidecar = [
+      '{"id": "a", "metadata": {"n": 1}}',
+      "",
+      '{"id": "b"}',
+      '{"id": "c"}',
+    ].join("\n");
+
+    assert.deepEqual(await parse(matrix, sidecar), [
+      { row: 1, item: { id: "a", vector: [0.5, 1], metadata: { n: 1 } } },
+      { row: 2, item: { id: "b", vector: [-2, 3.25], metadata: undefined } },
+      { row: 3, item: { id: "c", vector: [0, 8], metadata: undefined } },
+    ]);
+  });
+
+  it("reads float64 matrices", async () => {
+    const matrix = npy([0.1, 0.2], { descr: "<f8", shape: "(1, 2)" });
+
+    assert.deepEqual(await parse(matrix, '{"id": 1}\n'), [
+      { row: 1, item: { id: 1, vector: [0.1, 0.2], metadata: undefined } },
+    ]);
+  });
+
+  it("reports rows without a usable sidecar entry", async () => {
+    const matrix = npy([1, 2, 3], { shape: "(3, 1)" });
+
+    assert.deepEqual(await parse(matrix, '{"id": "a"}\nnot json\n'), [
+      { row: 1, item: { id: "a", vector: [1], metadata: undefined } },
+      { row: 2, error: "Invalid JSON in sidecar" },
+      { row: 3, error: "No sidecar entry for this row" },
+    ]);
+  });
+
+  it("rejects files it cannot read", async () => {
+    await assertFormatError(
+      new TextEncoder().encode("id,vector\n"),
+      /^Not a NumPy/,
+    );
+    await assertFormatError(npy([1], { descr: ">f4" }), /^Unsupported dtype/);
+    await assertFormatError(npy([1], { descr: "<i8" }), /^Unsupported dtype/);
+    await assertFormatError(npy([1], { fortranOrder: "True" }), /Fortran/);
+    await assertFormatError(npy([1, 2], { shape: "(2,)" }), /2-D array/);
+    await assertFormatError(npy([1, 2], { shape: "(2, 2)" }), /ends early/);
+  });
+});
@@ -0,0 +1,131 @@
+import { ByteReader, readLines } from "./streams";
+import type { ImportRow } from "./types";
+import { ImportFormatError } from "./types";
+
+const MAGIC = [0x93, 0x4e, 0x55, 0x4d, 0x50, 0x59]; // "\x93NUMPY"
+
+const DTYPES = {
+  "<f4": {
+    size: 4,
+    read: (view: DataView, offset: number) => view.getFloat32(offset, true),
+  },
+  "<f8": {
+    size: 8,
+    read: (view: DataView, offset: number) => view.getFloat64(offset, true),
+  },
+} as const;
+
+interface NpyHeader {
+  dtype: keyof typeof DTYPES;
+  rows: number;
+  columns: number;
+}
+
+async function readHeader(reader: ByteReader): Promise<NpyHeader> {
+  const prelude = await reader.read(8);
+  if (
+    prelude.length < 8 ||
+    MAGIC.some((byte, index) => prelude[index] !== byte)
+  ) {
+    throw new ImportFormatError("Not a NumPy .npy file");
+  }
+
+  const major = prelude[6];
+  const lengthBytes = await reader.read(major === 1 ? 2 : 4);
+  const view = new DataView(
+    lengthBytes.buffer,
+    lengthBytes.byteOffset,
+    lengthBytes.byteLength,
+  );
+  const headerLength =
+    major === 1 ? view.getUint16(0, true) : view.getUint32(0, true);
+  const header = new TextDecoder().decode(await reader.read(headerLength));
+
+  const descr = /'descr':\s*'([^']+)'/.exec(header)?.[1];
+  const fortranOrder = /'fortran_order':\s*(True|False)/.exec(header)?.[1];
+  const shape = /'shape':\s*\(([^)]*)\)/.exec(header)?.[1];
+
+  if (!descr || !(descr in DTYPES)) {
+    throw new ImportFormatError(
+      `Unsupported dtype ${descr ?? "(missing)"}; use little-endian float32 or float64`,
+    );
+  }
+  if (fortranOrder !== "False") {
+    throw new ImportFormatError("Fortran-ordered arrays are not supported");
+  }
+
+  const dims = (shape ?? "")
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map(Number);
+  if (dims.length !== 2 || dims.some((dim) => !Number.isInteger(dim))) {
+    throw new ImportFormatError(
+      "Expected a 2-D array of shape (rows, dimension)",
+    );
+  }
+
+  return {
+    dtype: descr as NpyHeader["dtype"],
+    rows: dims[0],
+    columns: dims[1],
+  };
+}
+
+/**
+ * Parses a float32/float64 `.npy` matrix row by row, pairing row `i` with
+ * line `i` of a JSONL sidecar holding `{ id, metadata? }`.
+ */
+export async function* parseNpy(
+  matrix: ReadableStream<Uint8Array>,
+  sidecar: ReadableStream<Uint8Array>,
+): AsyncGenerator<ImportRow> {
+  const reader = new ByteReader(matrix);
+  const sidecarLines = readLines(sidecar)[Symbol.asyncIterator]();
+
+  try {
+    const { dtype, rows, columns } = await readHeader(reader);
+    const { size, read } = DTYPES[dtype];
+    const rowBytes = size * columns;
+
+    for (let row = 1; row <= rows; row++) {
+      const bytes = await reader.read(rowBytes);
+      if (bytes.length < rowBytes) {
+        throw new ImportFormatError(
+          `Matrix ends early at row ${row} of ${rows}`,
+        );
+      }
+
+      let line = await sidecarLines.next();
+      while (!line.done && !line.value.trim()) {
+        line = await sidecarLines.next();
+      }
+      if (line.done) {
+        yield { row, error: "No sidecar entry for this row" };
+        continue;
+      }
+
+      let entry: { id?: unknown; metadata?: unknown };
+      try {
+        entry = JSON.parse(line.value);
+      } catch {
+        yield { row, error: "Invalid JSON in sidecar" };
+        continue;
+      }
+
+      const view = new DataView(
+        bytes.buffer,
+        bytes.byteOffset,
+        bytes.byteLength,
+      );
+      const vector = Array.from({ length: columns }, (_, index) =>
+        read(view, index * size),
+      );
+
+      yield { row, item: { id: entry.id, vector, metadata: entry.metadata } };
+    }
+  } finally {
+    reader.release();
+    await sidecarLines.return?.();
+  }
+}
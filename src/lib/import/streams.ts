@@ -0,0 +1,76 @@
+/** Decodes a byte stream as UTF-8 and yields it line by line (without `\n`). */
+export async function* readLines(stream: ReadableStream<Uint8Array>) {
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  let buffered = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffered += decoder.decode(value, { stream: !done });
+
+      let newline = buffered.indexOf("\n");
+      while (newline !== -1) {
+        yield buffered.slice(0, newline).replace(/\r$/, "");
+        buffered = buffered.slice(newline + 1);
+        newline = buffered.indexOf("\n");
+      }
+
+      if (done) break;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  if (buffered) {
+    yield buffered.replace(/\r$/, "");
+  }
+}
+
+/**
+ * Pull-based reader over a byte stream that hands out exact-sized chunks,
+ * for binary formats whose records do not line up with network chunks.
+ */
+export class ByteReader {
+  private reader: ReadableStreamDefaultReader<Uint8Array>;
+  private chunks: Uint8Array[] = [];
+  private length = 0;
+  private done = false;
+
+  constructor(stream: ReadableStream<Uint8Array>) {
+    this.reader = stream.getReader();
+  }
+
+  /** Reads exactly `size` bytes, or fewer only at the end of the stream. */
+  async read(size: number): Promise<Uint8Array> {
+    while (this.length < size && !this.done) {
+      const { done, value } = await this.reader.read();
+      if (done) {
+        this.done = true;
+      } else if (value.length > 0) {
+        this.chunks.push(value);
+        this.length += value.length;
+      }
+    }
+
+    const result = new Uint8Array(Math.min(size, this.length));
+    let offset = 0;
+    while (offset < result.length) {
+      const chunk = this.chunks[0];
+      const take = Math.min(chunk.length, result.length - offset);
+      result.set(chunk.subarray(0, take), offset);
+      offset += take;
+      if (take === chunk.length) {
+        this.chunks.shift();
+      } else {
+        this.chunks[0] = chunk.subarray(take);
+      }
+    }
+    this.length -= result.length;
+    return result;
+  }
+
+  release() {
+    this.reader.releaseLock();
+  }
+}
@@ -0,0 +1,19 @@
+import { ApiError } from "@/lib/api-errors";
+
+/**
+ * One parsed input row: either a candidate item for `upsertItems` (which
+ * still validates it) or a parse error. `row` is 1-based, counting data rows
+ * only (a CSV header is not a row).
+ */
+export type ImportRow =
+  { row: number; item: unknown } | { row: number; error: string; id?: string };
+
+export type ImportFormat = "jsonl" | "csv" | "npy";
+
+/** Raised when the input as a whole cannot be read (bad header, etc.). */
+export class ImportFormatError extends ApiError {
+  constructor(message: string) {
+    super(400, message);
+    this.name = "ImportFormatError";
+  }
+}
@@ -0,0 +1,227 @@
+import { eq, sql } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  collectionIndexes,
+  type Collection,
+  type CollectionIndex,
+  type DistanceMetric,
+  type IndexMethod,
+  type IndexParams,
+} from "@/db/schema";
+import { enqueueJob } from "@/lib/jobs/queue";
+
+/** pgvector cannot index `vector` columns wider than this. */
+export const MAX_INDEX_DIMENSION = 2000;
+
+export const INDEX_METHODS: readonly IndexMethod[] = ["hnsw", "ivfflat"];
+
+export const DEFAULT_INDEX_PARAMS: Record<IndexMethod, IndexParams> = {
+  hnsw: { m: 16, efConstruction: 64 },
+  ivfflat: { lists: 100 },
+};
+
+const OPERATOR_CLASSES: Record<DistanceMetric, string> = {
+  cosine: "vector_cosine_ops",
+  l2: "vector_l2_ops",
+  inner_product: "vector_ip_ops",
+};
+
+export function isIndexMethod(value: unknown): value is IndexMethod {
+  return (
+    typeof value === "string" &&
+    (INDEX_METHODS as readonly string[]).includes(value)
+  );
+}
+
+/** Name of the physical Postgres index backing a collection's ANN index. */
+export function indexName(collectionId: number) {
+  return `collection_items_ann_${collectionId}`;
+}
+
+function isIntegerBetween(value: unknown, min: number, max: number) {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= min &&
+    value <= max
+  );
+}
+
+/**
+ * Fills in defaults and checks the tuning parameters against pgvector's
+ * limits. Only the parameters relevant to `method` are kept.
+ */
+export function resolveIndexParams(
+  method: IndexMethod,
+  raw: IndexParams,
+): { params: IndexParams } | { error: string } {
+  if (method === "hnsw") {
+    const { m, efConstruction } = { ...DEFAULT_INDEX_PARAMS.hnsw, ...raw };
+    if (!isIntegerBetween(m, 2, 100)) {
+      return { error: "m must be an integer between 2 and 100" };
+    }
+    if (!isIntegerBetween(efConstruction, 2 * m!, 1000)) {
+      return {
+        error: "efConstruction must be an integer between 2 * m and 1000",
+      };
+    }
+    return { params: { m, efConstruction } };
+  }
+
+  const { lists } = { ...DEFAULT_INDEX_PARAMS.ivfflat, ...raw };
+  if (!isIntegerBetween(lists, 1, 32768)) {
+    return { error: "lists must be an integer between 1 and 32768" };
+  }
+  return { params: { lists } };
+}
+
+export async function findIndex(collectionId: number) {
+  const [index] = await db
+    .select()
+    .from(collectionIndexes)
+    .where(eq(collectionIndexes.collectionId, collectionId))
+    .limit(1);
+  return index ?? null;
+}
+
+function dropStatement(collectionId: number) {
+  return sql.raw(
+    `DROP INDEX CONCURRENTLY IF EXISTS "${indexName(collectionId)}"`,
+  );
+}
+
+// DDL cannot take bind parameters; every interpolated value here is either
+// an identifier we generate or an integer validated by resolveIndexParams.
+function createStatement(collection: Collection, index: CollectionIndex) {
+  const { m, efConstruction, lists } = index.params;
+  const options =
+    index.method === "hnsw"
+      ? `m = ${m}, ef_construction = ${efConstruction}`
+      : `lists = ${lists}`;
+
+  return sql.raw(
+    `CREATE INDEX CONCURRENTLY "${indexName(collection.id)}" ON "collection_items" ` +
+      `USING ${index.method} ((embedding::vector(${collection.dimension})) ${OPERATOR_CLASSES[collection.metric]}) ` +
+      `WITH (${options}) WHERE collection_id = ${collection.id}`,
+  );
+}
+
+/**
+ * (Re)builds the physical index and records the outcome on the index row.
+ * Any previous index is dropped first, as is a half-built one on failure;
+ * the error is rethrown so the job queue can retry the build.
+ */
+export async function buildIndex(
+  collection: Collection,
+  index: CollectionIndex,
+) {
+  await db
+    .update(collectionIndexes)
+    .set({ status: "building", error: null })
+    .where(eq(collectionIndexes.id, index.id));
+
+  try {
+    await db.execute(dropStatement(collection.id));
+    await db.execute(createStatement(collection, index));
+    await db
+      .update(collectionIndexes)
+      .set({ status: "ready", builtAt: new Date() })
+      .where(eq(collectionIndexes.id, index.id));
+  } catch (error) {
+    console.error(`Failed to build index ${indexName(collection.id)}:`, error);
+    await db.execute(dropStatement(collection.id)).catch(() => undefined);
+    await db
+      .update(collectionIndexes)
+      .set({
+        status: "failed",
+        error: error instanceof Error ? error.message : "Index build failed",
+      })
+      .where(eq(collectionIndexes.id, index.id));
+    throw error;
+  }
+}
+
+/**
+ * Queues a build on the job queue; progress is visible through
+ * `describeIndex` while it runs.
+ */
+export async function startIndexBuild(
+  collection: Collection,
+  createdBy?: string | null,
+) {
+  return enqueueJob(
+    collection.projectId,
+    "index.build",
+    { collectionId: collection.id },
+    { createdBy },
+  );
+}
+
+/** Saves a new index definition (or replaces the existing one) as pending. */
+export async function defineIndex(
+  collection: Collection,
+  method: IndexMethod,
+  params: IndexParams,
+) {
+  const [index] = await db
+    .insert(collectionIndexes)
+    .values({ collectionId: collection.id, method, params })
+    .onConflictDoUpdate({
+      target: collectionIndexes.collectionId,
+      set: { method, params, status: "pending", error: null, builtAt: null },
+    })
+    .returning();
+  return index;
+}
+
+export async function dropIndex(collection: Collection) {
+  await db.execute(dropStatement(collection.id));
+  await db
+    .delete(collectionIndexes)
+    .where(eq(collectionIndexes.collectionId, collection.id));
+}
+
+type BuildProgress = {
+  phase: string;
+  blocks_done: string;
+  blocks_total: string;
+  tuples_done: string;
+  tuples_total: string;
+};
+
+/** Index definition plus its on-disk size and live build progress. */
+export async function describeIndex(index: CollectionIndex) {
+  const name = indexName(index.collectionId);
+
+  const [size] = await db.execute<{ bytes: string | null }>(
+    sql`SELECT pg_relation_size(to_regclass(${name})) AS bytes`,
+  );
+
+  let progress = null;
+  if (index.status === "building") {
+    const [row] = await db.execute<BuildProgress>(sql`
+      SELECT phase, blocks_done, blocks_total, tuples_done, tuples_total
+      FROM pg_stat_progress_create_index
+      WHERE index_relid = to_regclass(${name})
+    `);
+    if (row) {
+      const blocksTotal = Number(row.blocks_total);
+      const tuplesTotal = Number(row.tuples_total);
+      const [done, total] =
+        blocksTotal > 0
+          ? [Number(row.blocks_done), blocksTotal]
+          : [Number(row.tuples_done), tuplesTotal];
+      progress = {
+        phase: row.phase,
+        percent: total > 0 ? Math.min(100, (done / total) * 100) : null,
+      };
+    }
+  }
+
+  return {
+    ...index,
+    name,
+    sizeBytes: size?.bytes != null ? Number(size.bytes) : null,
+    progress,
+  };
+}
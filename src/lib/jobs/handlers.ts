@@ -0,0 +1,126 @@
+import { eq } from "drizzle-orm";
+import { db } from "@/db";
+import { collections, type Job } from "@/db/schema";
+import { ingestDocument } from "@/lib/documents";
+import {
+  importRows,
+  parseCsv,
+  parseJsonl,
+  parseNpy,
+  type ImportRow,
+} from "@/lib/import";
+import { buildIndex, findIndex } from "@/lib/indexes";
+import { computeProjection } from "@/lib/projections";
+import { runSnapshotExport } from "@/lib/snapshots";
+import { artifactSize, deleteArtifact, readArtifact } from "@/lib/storage";
+import { JobCancelledError, type JobPayloads, type JobType } from "./queue";
+
+export interface JobContext<T extends JobType> {
+  job: Job;
+  payload: JobPayloads[T];
+  /**
+   * Records progress (0-1). Throws `JobCancelledError` once a cancellation
+   * has been requested, or `JobLostError` once this worker no longer holds
+   * the job, so handlers stop at their next checkpoint.
+   */
+  progress(fraction: number): Promise<void>;
+}
+
+export type JobHandler<T extends JobType> = (
+  context: JobContext<T>,
+) => Promise<Record<string, unknown> | void>;
+
+async function findCollectionById(collectionId: number) {
+  const [collection] = await db
+    .select()
+    .from(collections)
+    .where(eq(collections.id, collectionId));
+  return collection;
+}
+
+/** Passes bytes through unchanged while reporting how many have been read. */
+function countBytes(onChunk: (bytes: number) => void) {
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      onChunk(chunk.byteLength);
+      controller.enqueue(chunk);
+    },
+  });
+}
+
+export const jobHandlers: { [T in JobType]: JobHandler<T> } = {
+  async "index.build"({ payload, progress }) {
+    const collection = await findCollectionById(payload.collectionId);
+    const index = collection && (await findIndex(collection.id));
+    // The collection or its index was dropped while the job was queued.
+    if (!collection || !index) return { skipped: true };
+
+    await progress(0);
+    await buildIndex(collection, index);
+  },
+
+  async "snapshot.export"({ payload, progress }) {
+    await runSnapshotExport(payload.snapshotId, progress);
+  },
+
+  async "vectors.import"({ job, payload, progress }) {
+    const uploads = [payload.fileKey, payload.sidecarKey].filter(
+      (key): key is string => key !== undefined,
+    );
+
+    try {
+      const collection = await findCollectionById(payload.collectionId);
+      if (!collection) throw new Error("Collection no longer exists");
+
+      // Progress follows the main file, which dominates the upload's size.
+      const totalBytes = await artifactSize(payload.fileKey);
+      let readBytes = 0;
+      const file = readArtifact(payload.fileKey).pipeThrough(
+        countBytes((bytes) => (readBytes += bytes)),
+      );
+
+      let rows: AsyncIterable<ImportRow>;
+      if (payload.format === "npy") {
+        if (!payload.sidecarKey) throw new Error("Missing .npy sidecar");
+        rows = parseNpy(file, readArtifact(payload.sidecarKey));
+      } else if (payload.format === "csv") {
+        rows = parseCsv(file, {
+          idColumn: payload.idColumn,
+          vectorColumn: payload.vectorColumn,
+        });
+      } else {
+        rows = parseJsonl(file);
+      }
+
+      const report = await importRows(collection, rows, () =>
+        progress(totalBytes ? readBytes / totalBytes : 1),
+      );
+      await Promise.all(uploads.map(deleteArtifact));
+      return { ...report };
+    } catch (error) {
+      // Keep the upload around while there are attempts left to retry it.
+      if (
+        error instanceof JobCancelledError ||
+        job.attempts >= job.maxAttempts
+      ) {
+        await Promise.all(uploads.map(deleteArtifact));
+      }
+      throw error;
+    }
+  },
+
+  async "documents.ingest"({ payload, progress }) {
+    await progress(0);
+    return ingestDocument(payload.documentId, payload.version, progress);
+  },
+
+  async "projections.compute"({ payload, progress }) {
+    await progress(0);
+    return computeProjection(
+      payload.collectionId,
+      payload.method,
+      payload.sampleSize,
+      progress,
+    );
+  },
+};
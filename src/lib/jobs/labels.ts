@@ -0,0 +1,8 @@
+/** Display names for job types; safe to import from client components. */
+export const JOB_LABELS: Record<string, string> = {
+  "index.build": "Index build",
+  "snapshot.export": "Snapshot export",
+  "vectors.import": "Vector import",
+  "documents.ingest": "Document ingestion",
+  "projections.compute": "Projection",
+};
@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import { before, beforeEach, describe, it } from "node:test";
+import type { Job } from "@/db/schema";
+
+// The job writes run against a one-row stand-in for the jobs table: the
+// database client only has to answer `UPDATE "jobs" ... WHERE a = $1 AND ...`
+// the way Postgres would.
+
+const env = process.env as Record<string, string | undefined>;
+env.DATABASE_URL ??= "postgres://localhost/unused";
+
+type Queue = typeof import("./queue");
+
+let queue: Queue;
+let row: Record<string, unknown>;
+
+function runUpdate(query: string, params: unknown[]) {
+  const match = /^update "jobs" set (.+) where \((.+)\) returning (.+)$/.exec(
+    query,
+  );
+  if (!match) throw new Error(`Unexpected query: ${query}`);
+  const [, assignments, conditions, returning] = match;
+  const param = (ref: string) => params[Number(ref.slice(1)) - 1];
+
+  const matches = conditions.split(" and ").every((condition) => {
+    const [, column, ref] = /^"jobs"\."(\w+)" = (\$\d+)$/.exec(condition)!;
+    return row[column] === param(ref);
+  });
+  if (!matches) return [];
+
+  for (const assignment of assignments.split(", ")) {
+    const [, column, ref] = /^"(\w+)" = (\$\d+)$/.exec(assignment)!;
+    row[column] = param(ref);
+  }
+  return [returning.split(", ").map((column) => row[column.slice(1, -1)])];
+}
+
+/** The job as `workerId` claimed it on its `attempts`-th attempt. */
+function claim(workerId: string, attempts: number): Job {
+  Object.assign(row, {
+    status: "running",
+    locked_by: workerId,
+    attempts,
+  });
+  return {
+    id: row.id as string,
+    projectId: 1,
+    type: "index.build",
+    payload: { collectionId: 1 },
+    status: "running",
+    progress: 0,
+    attempts,
+    maxAttempts: 3,
+    runAt: new Date(),
+    lockedBy: workerId,
+    lockedAt: new Date(),
+    cancelRequestedAt: null,
+    error: null,
+    result: null,
+    createdBy: null,
+    createdAt: new Date(),
+    startedAt: new Date(),
+    finishedAt: null,
+    updatedAt: new Date(),
+  };
+}
+
+/** What stale-job recovery does to a job whose worker stopped heartbeating. */
+function requeue() {
+  Object.assign(row, { status: "queued", locked_by: null });
+}
+
+describe("job writes", () => {
+  before(async () => {
+    const { db } = await import("@/db");
+    queue = await import("./queue");
+    Object.assign(db.$client, {
+      unsafe: (query: string, params: unknown[]) => ({
+        values: async () => runUpdate(query, params),
+      }),
+    });
+  });
+
+  beforeEach(() => {
+    row = {
+      id: "7d0c7f6e-54a6-4a57-8a5e-0f3b1f0c2a11",
+      status: "queued",
+      locked_by: null,
+      attempts: 0,
+      result: null,
+      cancel_requested_at: null,
+    };
+  });
+
+  it("drop a late completion after the job was requeued and claimed again", async () => {
+    const first = claim("worker-a", 1);
+    requeue();
+    const second = claim("worker-b", 2);
+
+    assert.equal(
+      await queue.completeJob(first, "worker-a", { stale: true }),
+      false,
+    );
+    assert.equal(row.status, "running");
+    assert.equal(row.locked_by, "worker-b");
+    assert.equal(row.result, null);
+
+    assert.equal(
+      await queue.completeJob(second, "worker-b", { fresh: true }),
+      true,
+    );
+    assert.equal(row.status, "succeeded");
+    assert.equal(row.result, JSON.stringify({ fresh: true }));
+  });
+
+  it("tell a new claim by the same worker from the old one", async () => {
+    const first = claim("worker-a", 1);
+    requeue();
+    claim("worker-a", 2);
+
+    assert.equal(await queue.completeJob(first, "worker-a", null), false);
+    assert.equal(row.status, "running");
+  });
+
+  it("report a requeued job as no longer held", async () => {
+    const job = claim("worker-a", 1);
+    assert.deepEqual(await queue.updateProgress(job, "worker-a", 0.5), {
+      held: true,
+      cancelRequested: false,
+    });
+
+    requeue();
+    assert.deepEqual(await queue.updateProgress(job, "worker-a", 0.75), {
+      held: false,
+      cancelRequested: false,
+    });
+    assert.equal(
+      await queue.failJob(job, "worker-a", new Error("boom")),
+      false,
+    );
+    assert.equal(await queue.markCancelled(job, "worker-a"), false);
+    assert.equal(row.status, "queued");
+    assert.equal(row.progress, 0.5);
+  });
+});
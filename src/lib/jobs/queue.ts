@@ -0,0 +1,296 @@
+import { and, eq, gte, inArray, isNotNull, lt, sql } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  jobs,
+  jobStatus,
+  type Job,
+  type JobStatus,
+  type ProjectionMethod,
+} from "@/db/schema";
+
+/** Payload accepted by each job type. */
+export interface JobPayloads {
+  "index.build": { collectionId: number };
+  "snapshot.export": { snapshotId: string };
+  "vectors.import": {
+    collectionId: number;
+    format: "jsonl" | "csv" | "npy";
+    fileKey: string;
+    sidecarKey?: string;
+    idColumn?: string;
+    vectorColumn?: string;
+  };
+  "documents.ingest": { documentId: string; version: number };
+  "projections.compute": {
+    collectionId: number;
+    method: ProjectionMethod;
+    sampleSize: number;
+  };
+}
+
+export type JobType = keyof JobPayloads;
+
+export const JOB_TYPES = [
+  "index.build",
+  "snapshot.export",
+  "vectors.import",
+  "documents.ingest",
+  "projections.compute",
+] as const satisfies readonly JobType[];
+
+export const JOB_STATUSES: readonly JobStatus[] = jobStatus.enumValues;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Looks up a job by id; malformed ids simply match nothing. */
+export async function findJob(jobId: string) {
+  if (!UUID_PATTERN.test(jobId)) return null;
+  const [job] = await db.select().from(jobs).where(eq(jobs.id, jobId));
+  return job ?? null;
+}
+
+/** Thrown inside a handler once the job has been asked to stop. */
+export class JobCancelledError extends Error {
+  constructor() {
+    super("Job was cancelled");
+    this.name = "JobCancelledError";
+  }
+}
+
+/**
+ * Thrown inside a handler once its worker no longer holds the job, e.g. it
+ * was requeued after missed heartbeats and may be running elsewhere.
+ */
+export class JobLostError extends Error {
+  constructor() {
+    super("Job is no longer held by this worker");
+    this.name = "JobLostError";
+  }
+}
+
+const BACKOFF_BASE_MS = 10_000;
+const BACKOFF_MAX_MS = 10 * 60_000;
+
+/** Exponential backoff with jitter: ~10s, 20s, 40s... capped at 10 minutes. */
+export function backoffDelay(attempt: number) {
+  const delay = Math.min(BACKOFF_BASE_MS * 2 ** (attempt - 1), BACKOFF_MAX_MS);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+export async function enqueueJob<T extends JobType>(
+  projectId: number,
+  type: T,
+  payload: JobPayloads[T],
+  {
+    createdBy = null,
+    maxAttempts,
+  }: { createdBy?: string | null; maxAttempts?: number } = {},
+) {
+  const [job] = await db
+    .insert(jobs)
+    .values({ projectId, type, payload, createdBy, maxAttempts })
+    .returning();
+  return job;
+}
+
+/**
+ * Cancels a queued job immediately, or flags a running one so its handler
+ * stops at the next progress checkpoint. Finished jobs are left unchanged.
+ */
+export async function cancelJob(jobId: string) {
+  const [cancelled] = await db
+    .update(jobs)
+    .set({ status: "cancelled", finishedAt: new Date() })
+    .where(and(eq(jobs.id, jobId), eq(jobs.status, "queued")))
+    .returning();
+  if (cancelled) return cancelled;
+
+  const [flagged] = await db
+    .update(jobs)
+    .set({ cancelRequestedAt: new Date() })
+    .where(and(eq(jobs.id, jobId), eq(jobs.status, "running")))
+    .returning();
+  return flagged ?? null;
+}
+
+/**
+ * Claims the next runnable job, skipping projects that already have
+ * `projectConcurrency` jobs running. Claims are serialised with an advisory
+ * lock so two workers cannot both take a project's last free slot.
+ */
+export async function claimJob(workerId: string, projectConcurrency: number) {
+  return db.transaction(async (tx) => {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('jobs.claim'))`);
+
+    const candidates = await tx.execute<{ id: string }>(sql`
+      SELECT candidate.id
+      FROM ${jobs} AS candidate
+      WHERE candidate.status = 'queued'
+        AND candidate.run_at <= now()
+        AND (
+          SELECT count(*) FROM ${jobs} AS active
+          WHERE active.project_id = candidate.project_id
+            AND active.status = 'running'
+        ) < ${projectConcurrency}
+      ORDER BY candidate.run_at
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    `);
+    if (candidates.length === 0) return null;
+
+    const [job] = await tx
+      .update(jobs)
+      .set({
+        status: "running",
+        lockedBy: workerId,
+        lockedAt: new Date(),
+        startedAt: new Date(),
+        attempts: sql`${jobs.attempts} + 1`,
+        error: null,
+      })
+      .where(eq(jobs.id, candidates[0].id))
+      .returning();
+    return job;
+  });
+}
+
+/**
+ * Matches `job` only while `workerId` still holds the claim it came from: a
+ * job that was requeued as stale, or claimed again since, no longer matches.
+ * The attempt count tells a new claim by the same worker from the old one.
+ */
+function heldBy(job: Job, workerId: string) {
+  return and(
+    eq(jobs.id, job.id),
+    eq(jobs.lockedBy, workerId),
+    eq(jobs.attempts, job.attempts),
+    eq(jobs.status, "running"),
+  );
+}
+
+/**
+ * Records progress (0-1) and refreshes the job's lock. Returns whether the
+ * worker still holds the job and whether a cancellation has been requested.
+ */
+export async function updateProgress(
+  job: Job,
+  workerId: string,
+  progress: number,
+) {
+  const [updated] = await db
+    .update(jobs)
+    .set({
+      progress: Math.max(0, Math.min(1, progress)),
+      lockedAt: new Date(),
+    })
+    .where(heldBy(job, workerId))
+    .returning({ cancelRequestedAt: jobs.cancelRequestedAt });
+  return {
+    held: Boolean(updated),
+    cancelRequested: Boolean(updated?.cancelRequestedAt),
+  };
+}
+
+/**
+ * Stores the job's result. Returns false, writing nothing, if the worker no
+ * longer holds the job.
+ */
+export async function completeJob(
+  job: Job,
+  workerId: string,
+  result: Record<string, unknown> | null,
+) {
+  const updated = await db
+    .update(jobs)
+    .set({
+      status: "succeeded",
+      progress: 1,
+      result,
+      lockedBy: null,
+      finishedAt: new Date(),
+    })
+    .where(heldBy(job, workerId))
+    .returning({ id: jobs.id });
+  return updated.length > 0;
+}
+
+export async function markCancelled(job: Job, workerId: string) {
+  const updated = await db
+    .update(jobs)
+    .set({ status: "cancelled", lockedBy: null, finishedAt: new Date() })
+    .where(heldBy(job, workerId))
+    .returning({ id: jobs.id });
+  return updated.length > 0;
+}
+
+/** Requeues the job with backoff, or fails it for good after its last attempt. */
+export async function failJob(job: Job, workerId: string, error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  const retry = job.attempts < job.maxAttempts;
+
+  const updated = await db
+    .update(jobs)
+    .set(
+      retry
+        ? {
+            status: "queued",
+            error: message,
+            lockedBy: null,
+            runAt: new Date(Date.now() + backoffDelay(job.attempts)),
+          }
+        : {
+            status: "failed",
+            error: message,
+            lockedBy: null,
+            finishedAt: new Date(),
+          },
+    )
+    .where(heldBy(job, workerId))
+    .returning({ id: jobs.id });
+  return updated.length > 0;
+}
+
+/** Refreshes the locks of jobs this worker is still running. */
+export async function heartbeat(workerId: string, jobIds: string[]) {
+  if (jobIds.length === 0) return;
+  await db
+    .update(jobs)
+    .set({ lockedAt: new Date() })
+    .where(
+      and(
+        inArray(jobs.id, jobIds),
+        eq(jobs.lockedBy, workerId),
+        eq(jobs.status, "running"),
+      ),
+    );
+}
+
+/**
+ * Requeues running jobs whose worker stopped heartbeating (e.g. it crashed),
+ * fails them if that was their last attempt, or cancels them if asked to.
+ */
+export async function recoverStaleJobs(staleAfterMs: number) {
+  const stale = and(
+    eq(jobs.status, "running"),
+    lt(jobs.lockedAt, new Date(Date.now() - staleAfterMs)),
+  );
+  const error = "Worker stopped responding";
+
+  const cancelled = await db
+    .update(jobs)
+    .set({ status: "cancelled", lockedBy: null, finishedAt: new Date() })
+    .where(and(stale, isNotNull(jobs.cancelRequestedAt)))
+    .returning({ id: jobs.id });
+  const failed = await db
+    .update(jobs)
+    .set({ status: "failed", lockedBy: null, error, finishedAt: new Date() })
+    .where(and(stale, gte(jobs.attempts, jobs.maxAttempts)))
+    .returning({ id: jobs.id });
+  const requeued = await db
+    .update(jobs)
+    .set({ status: "queued", lockedBy: null, error })
+    .where(stale)
+    .returning({ id: jobs.id });
+  return cancelled.length + failed.length + requeued.length;
+}
@@ -0,0 +1,155 @@
+import { randomUUID } from "node:crypto";
+import { hostname } from "node:os";
+import { setTimeout as sleep } from "node:timers/promises";
+import type { Job } from "@/db/schema";
+import { jobHandlers, type JobContext } from "./handlers";
+import {
+  claimJob,
+  completeJob,
+  failJob,
+  heartbeat,
+  JobCancelledError,
+  JobLostError,
+  markCancelled,
+  recoverStaleJobs,
+  updateProgress,
+  type JobType,
+} from "./queue";
+
+export interface WorkerOptions {
+  /** Jobs this worker runs at once. */
+  concurrency: number;
+  /** Jobs allowed to run at once per project, across all workers. */
+  projectConcurrency: number;
+  pollIntervalMs: number;
+  /** Running jobs whose lock is older than this are handed to another worker. */
+  staleAfterMs: number;
+}
+
+/** Minimum gap between progress writes for a single job. */
+const PROGRESS_INTERVAL_MS = 1000;
+
+function isJobType(type: string): type is JobType {
+  return type in jobHandlers;
+}
+
+function dropLostJob(job: Job) {
+  console.warn(`Job ${job.id} (${job.type}) was lost; dropping its result`);
+}
+
+/**
+ * Runs a claimed job. Every write is conditional on `workerId` still holding
+ * the job; once it does not, the outcome is dropped since the job has been
+ * requeued and may already be running elsewhere.
+ */
+async function execute(job: Job, workerId: string) {
+  if (!isJobType(job.type)) {
+    const held = await failJob(
+      { ...job, attempts: job.maxAttempts },
+      workerId,
+      new Error(`Unknown job type: ${job.type}`),
+    );
+    if (!held) dropLostJob(job);
+    return;
+  }
+
+  let lastWrite = 0;
+  const context: JobContext<JobType> = {
+    job,
+    payload: job.payload as JobContext<JobType>["payload"],
+    async progress(fraction) {
+      const now = Date.now();
+      if (now - lastWrite < PROGRESS_INTERVAL_MS && fraction < 1) return;
+      lastWrite = now;
+      const { held, cancelRequested } = await updateProgress(
+        job,
+        workerId,
+        fraction,
+      );
+      if (!held) throw new JobLostError();
+      if (cancelRequested) throw new JobCancelledError();
+    },
+  };
+
+  try {
+    const handler = jobHandlers[job.type] as (
+      context: JobContext<JobType>,
+    ) => Promise<Record<string, unknown> | void>;
+    const result = await handler(context);
+    if (!(await completeJob(job, workerId, result ?? null))) dropLostJob(job);
+  } catch (error) {
+    if (error instanceof JobLostError) {
+      dropLostJob(job);
+      return;
+    }
+    if (error instanceof JobCancelledError) {
+      if (!(await markCancelled(job, workerId))) dropLostJob(job);
+      return;
+    }
+    console.error(`Job ${job.id} (${job.type}) failed:`, error);
+    if (!(await failJob(job, workerId, error))) dropLostJob(job);
+  }
+}
+
+/**
+ * Claims and runs jobs until `signal` is aborted, then waits for the jobs
+ * already running to finish.
+ */
+export async function runWorker(options: WorkerOptions, signal: AbortSignal) {
+  const workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  const running = new Map<string, Promise<void>>();
+
+  const heartbeatTimer = setInterval(() => {
+    heartbeat(workerId, [...running.keys()]).catch((error) =>
+      console.error("Failed to refresh job locks:", error),
+    );
+  }, options.staleAfterMs / 3);
+
+  const recoveryTimer = setInterval(() => {
+    recoverStaleJobs(options.staleAfterMs)
+      .then((count) => {
+        if (count > 0) console.warn(`Recovered ${count} stale job(s)`);
+      })
+      .catch((error) => console.error("Failed to recover stale jobs:", error));
+  }, options.staleAfterMs);
+
+  console.info(
+    `Worker ${workerId} started (concurrency ${options.concurrency})`,
+  );
+
+  while (!signal.aborted) {
+    let job: Job | null = null;
+    if (running.size < options.concurrency) {
+      job = await claimJob(workerId, options.projectConcurrency).catch(
+        (error) => {
+          console.error("Failed to claim a job:", error);
+          return null;
+        },
+      );
+    }
+
+    if (job) {
+      const { id } = job;
+      running.set(
+        id,
+        execute(job, workerId)
+          .catch((error) => console.error(`Job ${id} crashed:`, error))
+          .finally(() => running.delete(id)),
+      );
+      continue;
+    }
+
+    // Wake up on the next poll, or as soon as a slot frees up.
+    await Promise.race([
+      sleep(options.pollIntervalMs, undefined, { signal }).catch(
+        () => undefined,
+      ),
+      ...running.values(),
+    ]);
+  }
+
+  console.info(`Worker ${workerId} stopping; waiting for running jobs`);
+  await Promise.allSettled(running.values());
+  clearInterval(heartbeatTimer);
+  clearInterval(recoveryTimer);
+}
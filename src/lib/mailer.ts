@@ -0,0 +1,82 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/** Delivers one message. Implement this to plug in SMTP or a mail API. */
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/** Prints messages to the server log; the default in development. */
+export const consoleTransport: MailTransport = {
+  async send({ from, to, subject, text }) {
+    console.info(
+      `[mail] From: ${from}\nTo: ${to}\nSubject: ${subject}\n\n${text}\n`,
+    );
+  },
+};
+
+/**
+ * Writes each message to `directory` as an .eml file, which mail clients can
+ * open, so flows can be followed without an SMTP server.
+ */
+export function fileTransport(directory: string): MailTransport {
+  return {
+    async send({ from, to, subject, text }) {
+      await mkdir(directory, { recursive: true });
+      const file = path.join(
+        directory,
+        `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID().slice(0, 8)}.eml`,
+      );
+      await writeFile(
+        file,
+        [
+          `From: ${from}`,
+          `To: ${to}`,
+          `Subject: ${subject}`,
+          `Date: ${new Date().toUTCString()}`,
+          "Content-Type: text/plain; charset=utf-8",
+          "",
+          text,
+        ].join("\r\n"),
+      );
+      console.info(`[mail] ${subject} -> ${to} (saved to ${file})`);
+    },
+  };
+}
+
+/**
+ * Picks a transport from `MAIL_TRANSPORT`: "console" (default) or "file",
+ * which writes to `MAIL_DIR` (default `.data/mail`).
+ */
+function transportFromEnv(): MailTransport {
+  if (process.env.MAIL_TRANSPORT === "file") {
+    return fileTransport(
+      path.resolve(
+        process.env.MAIL_DIR ?? path.join(process.cwd(), ".data", "mail"),
+      ),
+    );
+  }
+  return consoleTransport;
+}
+
+let transport: MailTransport | null = null;
+
+/** Replaces the transport, e.g. with an SMTP client in production. */
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage) {
+  transport ??= transportFromEnv();
+  await transport.send({
+    from: process.env.MAIL_FROM ?? "Vector Dashboard <no-reply@localhost>",
+    ...message,
+  });
+}
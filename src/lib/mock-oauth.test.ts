@@ -0,0 +1,212 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { betterAuth } from "better-auth";
+import { memoryAdapter, type MemoryDB } from "better-auth/adapters/memory";
+
+// Sign-in against the mock provider, end to end: better-auth runs with the
+// app's configuration on an in-memory database, and its calls to the
+// provider's token and userinfo endpoints go to the mock route handlers.
+
+const BASE_URL = "http://localhost:3000";
+const env = process.env as Record<string, string | undefined>;
+
+Object.assign(env, {
+  MOCK_OAUTH: "true",
+  BETTER_AUTH_URL: BASE_URL,
+  // The app's auth module opens a (lazy) connection it never uses here.
+  DATABASE_URL: env.DATABASE_URL ?? "postgres://localhost/unused",
+});
+
+type Routes = {
+  authorize: typeof import("@/app/api/dev/oauth/authorize/route");
+  token: typeof import("@/app/api/dev/oauth/token/route");
+  userinfo: typeof import("@/app/api/dev/oauth/userinfo/route");
+};
+
+let routes: Routes;
+let store: MemoryDB;
+let auth: ReturnType<typeof createAuth>;
+const originalFetch = globalThis.fetch;
+
+async function loadRoutes(): Promise<Routes> {
+  return {
+    authorize: await import("@/app/api/dev/oauth/authorize/route"),
+    token: await import("@/app/api/dev/oauth/token/route"),
+    userinfo: await import("@/app/api/dev/oauth/userinfo/route"),
+  };
+}
+
+function createAuth(options: typeof import("@/lib/auth").authOptions) {
+  return betterAuth({
+    ...options(memoryAdapter(store)),
+    baseURL: BASE_URL,
+    secret: "mock-oauth-test-secret-0123456789abcdef",
+    logger: { disabled: true },
+  });
+}
+
+/** The `name=value` pairs of a response's cookies, for the next request. */
+function cookiesOf(response: Response) {
+  return response.headers
+    .getSetCookie()
+    .map((cookie) => cookie.split(";")[0])
+    .join("; ");
+}
+
+/**
+ * Clicks through the mock provider as `email` and returns the response of
+ * the app's OAuth callback.
+ */
+async function signInWithMock(email: string, emailVerified = true) {
+  const start = await auth.handler(
+    new Request(`${BASE_URL}/api/auth/sign-in/oauth2`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Origin: BASE_URL },
+      body: JSON.stringify({ providerId: "mock", callbackURL: "/dashboard" }),
+    }),
+  );
+  assert.equal(start.status, 200);
+  const { url } = (await start.json()) as { url: string };
+
+  const consent = new URL(url);
+  consent.searchParams.set("email", email);
+  if (emailVerified) consent.searchParams.set("email_verified", "on");
+  const authorized = await routes.authorize.GET(new Request(consent));
+  assert.equal(authorized.status, 307);
+
+  return auth.handler(
+    new Request(authorized.headers.get("location")!, {
+      headers: { Cookie: cookiesOf(start) },
+    }),
+  );
+}
+
+function usersWithEmail(email: string) {
+  return store.user.filter((user) => user.email === email);
+}
+
+function accountsOf(userId: string) {
+  return store.account
+    .filter((account) => account.userId === userId)
+    .map((account) => account.providerId)
+    .sort();
+}
+
+describe("mock OAuth sign-in", () => {
+  before(async () => {
+    routes = await loadRoutes();
+    globalThis.fetch = async (input, init) => {
+      const request = new Request(input, init);
+      const { pathname } = new URL(request.url);
+      if (pathname === "/api/dev/oauth/token") {
+        return routes.token.POST(request);
+      }
+      if (pathname === "/api/dev/oauth/userinfo") {
+        return routes.userinfo.GET(request);
+      }
+      return originalFetch(input, init);
+    };
+  });
+
+  beforeEach(async () => {
+    store = { user: [], session: [], account: [], verification: [] };
+    auth = createAuth((await import("@/lib/auth")).authOptions);
+  });
+
+  after(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("creates a user on first sign-in", async () => {
+    const response = await signInWithMock("new@example.com");
+
+    assert.equal(response.status, 302);
+    assert.equal(response.headers.get("location"), "/dashboard");
+    const [user] = usersWithEmail("new@example.com");
+    assert.ok(user);
+    assert.equal(user.emailVerified, true);
+    assert.deepEqual(accountsOf(user.id), ["mock"]);
+    assert.equal(store.session.length, 1);
+  });
+
+  it("links the provider to an existing account with the same email", async () => {
+    await auth.api.signUpEmail({
+      body: {
+        email: "existing@example.com",
+        password: "correct horse battery",
+        name: "Existing",
+      },
+    });
+    const [existing] = usersWithEmail("existing@example.com");
+
+    const response = await signInWithMock("existing@example.com");
+
+    assert.equal(response.status, 302);
+    assert.equal(usersWithEmail("existing@example.com").length, 1);
+    assert.deepEqual(accountsOf(existing.id), ["credential", "mock"]);
+  });
+
+  it("does not link when the provider has not verified the email", async () => {
+    await auth.api.signUpEmail({
+      body: {
+        email: "unverified@example.com",
+        password: "correct horse battery",
+        name: "Unverified",
+      },
+    });
+    const [existing] = usersWithEmail("unverified@example.com");
+
+    const response = await signInWithMock("unverified@example.com", false);
+
+    assert.match(
+      response.headers.get("location") ?? "",
+      /[?&]error=account_not_linked/,
+    );
+    assert.deepEqual(accountsOf(existing.id), ["credential"]);
+    assert.equal(store.session.length, 0);
+  });
+});
+
+describe("mock OAuth routes", () => {
+  const requests = {
+    authorize: () =>
+      routes.authorize.GET(new Request(`${BASE_URL}/api/dev/oauth/authorize`)),
+    token: () =>
+      routes.token.POST(
+        new Request(`${BASE_URL}/api/dev/oauth/token`, {
+          method: "POST",
+          body: "",
+        }),
+      ),
+    userinfo: () =>
+      routes.userinfo.GET(new Request(`${BASE_URL}/api/dev/oauth/userinfo`)),
+  };
+  const saved = { MOCK_OAUTH: env.MOCK_OAUTH, NODE_ENV: env.NODE_ENV };
+
+  before(async () => {
+    routes ??= await loadRoutes();
+  });
+
+  after(() => {
+    for (const [key, value] of Object.entries(saved)) {
+      if (value === undefined) delete env[key];
+      else env[key] = value;
+    }
+  });
+
+  it("are not found without MOCK_OAUTH", async () => {
+    delete env.MOCK_OAUTH;
+    env.NODE_ENV = "development";
+    for (const [name, request] of Object.entries(requests)) {
+      assert.equal((await request()).status, 404, name);
+    }
+  });
+
+  it("are not found in production", async () => {
+    env.MOCK_OAUTH = "true";
+    env.NODE_ENV = "production";
+    for (const [name, request] of Object.entries(requests)) {
+      assert.equal((await request()).status, 404, name);
+    }
+  });
+});
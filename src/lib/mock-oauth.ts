@@ -0,0 +1,60 @@
+/**
+ * A stand-in OAuth 2.0 provider for development and end-to-end tests, served
+ * from /api/dev/oauth. It signs anyone in as whatever email they type, so it
+ * only runs with `MOCK_OAUTH=true` outside production.
+ *
+ * Codes and access tokens are the profile itself, base64url-encoded: nothing
+ * is stored, and a token stays valid for as long as the server runs.
+ */
+
+export const MOCK_PROVIDER_ID = "mock";
+export const MOCK_CLIENT_ID = "vector-dashboard";
+export const MOCK_CLIENT_SECRET = "mock-secret";
+
+export interface MockProfile {
+  sub: string;
+  email: string;
+  name: string;
+  email_verified: boolean;
+}
+
+type MockTokenKind = "code" | "token";
+
+export function isMockOAuthEnabled() {
+  return (
+    process.env.MOCK_OAUTH === "true" && process.env.NODE_ENV !== "production"
+  );
+}
+
+/** The profile for an email; `sub` is derived from it so it stays stable. */
+export function mockProfile(
+  email: string,
+  name: string,
+  emailVerified: boolean,
+): MockProfile {
+  return {
+    sub: `mock-${email.toLowerCase()}`,
+    email,
+    name: name || email.split("@")[0],
+    email_verified: emailVerified,
+  };
+}
+
+export function encodeMockToken(kind: MockTokenKind, profile: MockProfile) {
+  return Buffer.from(JSON.stringify({ kind, profile })).toString("base64url");
+}
+
+/** The profile inside a code or token, or null if it is not one of `kind`. */
+export function decodeMockToken(
+  kind: MockTokenKind,
+  value: string,
+): MockProfile | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(value, "base64url").toString());
+    return decoded?.kind === kind && typeof decoded.profile?.email === "string"
+      ? decoded.profile
+      : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,85 @@
+import type { GenericOAuthConfig } from "better-auth/plugins";
+import type { SocialProviders } from "better-auth/social-providers";
+import {
+  MOCK_CLIENT_ID,
+  MOCK_CLIENT_SECRET,
+  MOCK_PROVIDER_ID,
+  isMockOAuthEnabled,
+} from "@/lib/mock-oauth";
+
+/**
+ * A sign-in provider as the sign-in form and account settings see it.
+ * `social` providers are built into better-auth; `oauth2` ones come from its
+ * generic OAuth plugin and use different client calls.
+ */
+export interface OAuthProvider {
+  id: string;
+  name: string;
+  kind: "social" | "oauth2";
+}
+
+export function appBaseUrl() {
+  return process.env.BETTER_AUTH_URL ?? "http://localhost:3000";
+}
+
+/**
+ * GitHub and Google, each enabled when both its client id and secret are
+ * set (`GITHUB_CLIENT_ID`/`GITHUB_CLIENT_SECRET`,
+ * `GOOGLE_CLIENT_ID`/`GOOGLE_CLIENT_SECRET`).
+ */
+export function socialProviders(): SocialProviders {
+  const providers: SocialProviders = {};
+  if (process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET) {
+    providers.github = {
+      clientId: process.env.GITHUB_CLIENT_ID,
+      clientSecret: process.env.GITHUB_CLIENT_SECRET,
+    };
+  }
+  if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
+    providers.google = {
+      clientId: process.env.GOOGLE_CLIENT_ID,
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+    };
+  }
+  return providers;
+}
+
+/** The local mock provider under /api/dev/oauth, when it is enabled. */
+export function genericOAuthProviders(): GenericOAuthConfig[] {
+  if (!isMockOAuthEnabled()) return [];
+
+  const base = `${appBaseUrl()}/api/dev/oauth`;
+  return [
+    {
+      providerId: MOCK_PROVIDER_ID,
+      clientId: MOCK_CLIENT_ID,
+      clientSecret: MOCK_CLIENT_SECRET,
+      authorizationUrl: `${base}/authorize`,
+      tokenUrl: `${base}/token`,
+      userInfoUrl: `${base}/userinfo`,
+      scopes: ["openid", "email", "profile"],
+    },
+  ];
+}
+
+const PROVIDER_NAMES: Record<string, string> = {
+  github: "GitHub",
+  google: "Google",
+  [MOCK_PROVIDER_ID]: "Mock provider",
+};
+
+/** Every configured provider, in the order the sign-in form lists them. */
+export function enabledOAuthProviders(): OAuthProvider[] {
+  return [
+    ...Object.keys(socialProviders()).map((id) => ({
+      id,
+      name: PROVIDER_NAMES[id] ?? id,
+      kind: "social" as const,
+    })),
+    ...genericOAuthProviders().map(({ providerId }) => ({
+      id: providerId,
+      name: PROVIDER_NAMES[providerId] ?? providerId,
+      kind: "oauth2" as const,
+    })),
+  ];
+}
@@ -0,0 +1,255 @@
+import { z } from "zod";
+import { version } from "../../../package.json";
+import * as responses from "@/lib/schemas/responses";
+import { operations, type Operation } from "./operations";
+
+type JsonSchema = Record<string, unknown>;
+type Registry = z.core.$ZodRegistry<{ id?: string }>;
+
+// Response schemas that appear in more than one place are emitted once under
+// components.schemas and referenced by name.
+const COMPONENTS: Record<string, z.ZodType> = {
+  Error: responses.errorResponse,
+  PageInfo: responses.pageInfo,
+  User: responses.userResponse,
+  UserDetails: responses.userDetails,
+  Project: responses.projectResponse,
+  ProjectListItem: responses.projectListItem,
+  ProjectDetails: responses.projectDetails,
+  Organization: responses.organizationResponse,
+  OrganizationMembership: responses.organizationMembership,
+  Member: responses.memberResponse,
+  Membership: responses.membershipResponse,
+  Invitation: responses.invitationResponse,
+  ApiKey: responses.apiKeyResponse,
+  CreatedApiKey: responses.createdApiKeyResponse,
+  Collection: responses.collectionResponse,
+  CollectionDetails: responses.collectionDetails,
+  Index: responses.indexResponse,
+  IndexBuild: responses.indexBuildResponse,
+  VectorItem: responses.vectorItemResponse,
+  UpsertResult: responses.upsertResponse,
+  QueryResult: responses.queryResponse,
+  HybridQueryResult: responses.hybridQueryResponse,
+  SavedQuery: responses.savedQueryResponse,
+  Projection: responses.projectionResponse,
+  ImportReport: responses.importReport,
+  Job: responses.jobResponse,
+  JobListItem: responses.jobListItem,
+  Snapshot: responses.snapshotResponse,
+  SnapshotExport: responses.snapshotExportResponse,
+  RestoreResult: responses.restoreResponse,
+  Document: responses.documentResponse,
+  DocumentUpload: responses.documentUploadResponse,
+  DocumentDetails: responses.documentDetails,
+  AuditEntry: responses.auditEntryResponse,
+};
+
+function override({
+  zodSchema,
+  jsonSchema,
+}: {
+  zodSchema: z.core.$ZodType;
+  jsonSchema: JsonSchema;
+}) {
+  // Descriptions set with .meta() live in the global registry, which is not
+  // the one the document is generated from.
+  Object.assign(jsonSchema, z.globalRegistry.get(zodSchema));
+  delete jsonSchema.id;
+  // zod spells out the date-time regex; the format says the same.
+  if (jsonSchema.format === "date-time") delete jsonSchema.pattern;
+}
+
+const ERROR_RESPONSES = {
+  "400": "Invalid parameters or body",
+  "401": "Not signed in, or an invalid API key",
+  "403": "Missing the required role or scope",
+  "404": "Not found, or not visible to the caller",
+  "409": "Conflicts with the current state",
+};
+
+/**
+ * Converts a schema to JSON Schema 2020-12 (the dialect of OpenAPI 3.1).
+ * Requests are described by what they accept, responses by what they return.
+ * Components are referenced rather than inlined.
+ */
+function toJsonSchema(
+  schema: z.ZodType,
+  io: "input" | "output",
+  registry: Registry,
+): JsonSchema {
+  const component = registry.get(schema)?.id;
+  if (component) return { $ref: `#/components/schemas/${component}` };
+
+  const result = z.toJSONSchema(schema, {
+    io,
+    metadata: registry,
+    unrepresentable: "any",
+    override,
+  });
+  delete result.$schema;
+  delete result.$defs;
+  // Nested components come back as local $defs; point them at the
+  // document's shared copies instead.
+  return JSON.parse(
+    JSON.stringify(result).replaceAll('"#/$defs/', '"#/components/schemas/'),
+  );
+}
+
+function parameters(operation: Operation, registry: Registry) {
+  const list: JsonSchema[] = [];
+  for (const location of ["path", "query"] as const) {
+    const schema = location === "path" ? operation.params : operation.query;
+    if (!schema) continue;
+    const json = toJsonSchema(schema, "input", registry);
+    const properties = (json.properties ?? {}) as Record<string, JsonSchema>;
+    const required = new Set((json.required ?? []) as string[]);
+    for (const [name, property] of Object.entries(properties)) {
+      const { description, ...propertySchema } = property;
+      list.push({
+        name,
+        in: location,
+        required: location === "path" || required.has(name),
+        ...(description !== undefined && { description }),
+        schema: propertySchema,
+      });
+    }
+  }
+  return list;
+}
+
+function requestBody(operation: Operation, registry: Registry) {
+  if (operation.body) {
+    const schema = toJsonSchema(operation.body, "input", registry);
+    return {
+      required: ((schema.required ?? []) as string[]).length > 0,
+      content: { "application/json": { schema } },
+    };
+  }
+  if (operation.upload) {
+    return {
+      required: true,
+      content: Object.fromEntries(
+        Object.entries(operation.upload).map(([type, description]) => [
+          type,
+          { schema: { description } },
+        ]),
+      ),
+    };
+  }
+  return undefined;
+}
+
+function successResponse(operation: Operation, registry: Registry) {
+  const status = String(operation.status ?? 200);
+  if (operation.download) {
+    return {
+      [status]: {
+        description: "The file",
+        content: {
+          [operation.download]: {
+            schema: { type: "string", contentMediaType: operation.download },
+          },
+        },
+      },
+    };
+  }
+  if (!operation.response) {
+    return { [status]: { description: "No content" } };
+  }
+  return {
+    [status]: {
+      description: "Success",
+      content: {
+        "application/json": {
+          schema: toJsonSchema(operation.response, "output", registry),
+        },
+      },
+    },
+  };
+}
+
+/** The OpenAPI 3.1 document for every route in `operations`. */
+export function buildOpenApiDocument() {
+  // A fresh registry per document, so the component ids never clash with
+  // schemas registered elsewhere.
+  const registry = z.registry<{ id?: string }>();
+  for (const [id, schema] of Object.entries(COMPONENTS)) {
+    registry.add(schema, { id });
+  }
+
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const [key, operation] of Object.entries(operations) as [
+    string,
+    Operation,
+  ][]) {
+    const [method, path] = key.split(" ");
+    const errorResponse = {
+      content: {
+        "application/json": {
+          schema: { $ref: "#/components/schemas/Error" },
+        },
+      },
+    };
+
+    paths[path] ??= {};
+    paths[path][method.toLowerCase()] = {
+      operationId: key,
+      summary: operation.summary,
+      ...(operation.description && { description: operation.description }),
+      tags: [operation.tag],
+      security: operation.apiKey
+        ? [{ session: [] }, { apiKey: [] }]
+        : [{ session: [] }],
+      parameters: parameters(operation, registry),
+      requestBody: requestBody(operation, registry),
+      responses: {
+        ...successResponse(operation, registry),
+        ...Object.fromEntries(
+          Object.entries(ERROR_RESPONSES).map(([status, description]) => [
+            status,
+            { description, ...errorResponse },
+          ]),
+        ),
+      },
+    };
+  }
+
+  const { schemas } = z.toJSONSchema(registry, {
+    io: "output",
+    unrepresentable: "any",
+    uri: (id) => `#/components/schemas/${id}`,
+    override,
+  });
+  for (const schema of Object.values(schemas)) {
+    delete schema.$schema;
+    delete schema.$id;
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Vector Dashboard API",
+      version,
+      description:
+        "Projects, vector collections and their indexes. Errors share one envelope (the `Error` schema).",
+    },
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        session: {
+          type: "apiKey",
+          in: "cookie",
+          name: "better-auth.session_token",
+          description: "Signed-in dashboard session",
+        },
+        apiKey: {
+          type: "http",
+          scheme: "bearer",
+          description: "Per-project API key (`vdk_...`)",
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,664 @@
+import { z } from "zod";
+import {
+  collectionParams,
+  organizationParams,
+  projectParams,
+} from "@/lib/schemas/common";
+import { apiKeyParams, createApiKeySchema } from "@/lib/schemas/api-keys";
+import { exportAuditQuery, listAuditQuery } from "@/lib/schemas/audit";
+import {
+  createCollectionSchema,
+  createIndexSchema,
+  rebuildIndexSchema,
+  updateCollectionSchema,
+} from "@/lib/schemas/collections";
+import {
+  createDocumentSchema,
+  documentParams,
+  replaceDocumentSchema,
+} from "@/lib/schemas/documents";
+import { listJobsQuery } from "@/lib/schemas/jobs";
+import { projectionSchema } from "@/lib/schemas/projections";
+import {
+  createInvitationSchema,
+  memberParams,
+  organizationSchema,
+  updateMemberSchema,
+} from "@/lib/schemas/organizations";
+import {
+  createProjectSchema,
+  listProjectsQuery,
+  projectQuery,
+  updateProjectSchema,
+} from "@/lib/schemas/projects";
+import * as responses from "@/lib/schemas/responses";
+import {
+  createSavedQuerySchema,
+  savedQueryParams,
+} from "@/lib/schemas/saved-queries";
+import { createSnapshotSchema, snapshotParams } from "@/lib/schemas/snapshots";
+import {
+  banUserSchema,
+  impersonateSchema,
+  listUsersQuery,
+  updateUserSchema,
+  userParams,
+  userSessionParams,
+} from "@/lib/schemas/users";
+import {
+  deleteVectorsSchema,
+  fetchVectorsQuery,
+  hybridQuerySchema,
+  querySchema,
+  rawImportQuery,
+  upsertVectorsSchema,
+} from "@/lib/schemas/vectors";
+
+/**
+ * One API route, described by the schemas it validates against. The OpenAPI
+ * document and the typed client are both derived from these, so a route's
+ * entry should change together with its handler.
+ */
+export interface Operation {
+  summary: string;
+  description?: string;
+  tag: string;
+  params?: z.ZodType;
+  query?: z.ZodType;
+  body?: z.ZodType;
+  /** Non-JSON request bodies, e.g. file uploads, by content type. */
+  upload?: Record<string, string>;
+  /** Success status; 204 operations return no body. */
+  status?: 200 | 201 | 202 | 204;
+  response?: z.ZodType;
+  /** Non-JSON responses, e.g. archive downloads. */
+  download?: string;
+  /** Whether project API keys are accepted as well as sessions. */
+  apiKey?: boolean;
+}
+
+const jobParams = z.object({ id: z.string().meta({ format: "uuid" }) });
+const invitationParams = z.object({ token: z.string() });
+
+export const operations = {
+  "GET /api/projects": {
+    summary: "List projects",
+    description:
+      "Projects the caller can access, one page at a time. Pass `pageInfo.nextCursor` or `prevCursor` back as `cursor` to move; `q` is a full-text prefix search on name and description. An API key only sees its own project.",
+    tag: "Projects",
+    query: listProjectsQuery,
+    response: responses.projectPage,
+    apiKey: true,
+  },
+  "POST /api/projects": {
+    summary: "Create a project",
+    description:
+      "Personal project, or an organization project when `organizationId` is given (requires the editor role).",
+    tag: "Projects",
+    body: createProjectSchema,
+    status: 201,
+    response: responses.projectResponse,
+  },
+  "GET /api/projects/{id}": {
+    summary: "Get a project",
+    description:
+      "Soft-deleted projects are only returned with `includeDeleted`.",
+    tag: "Projects",
+    params: projectParams,
+    query: projectQuery,
+    response: responses.projectDetails,
+    apiKey: true,
+  },
+  "PATCH /api/projects/{id}": {
+    summary: "Update a project",
+    tag: "Projects",
+    params: projectParams,
+    body: updateProjectSchema,
+    response: responses.projectResponse,
+    apiKey: true,
+  },
+  "DELETE /api/projects/{id}": {
+    summary: "Soft-delete a project",
+    description: "Requires the admin role. Undo with the restore operation.",
+    tag: "Projects",
+    params: projectParams,
+    response: responses.projectResponse,
+    apiKey: true,
+  },
+  "POST /api/projects/{id}/restore": {
+    summary: "Restore a soft-deleted project",
+    tag: "Projects",
+    params: projectParams,
+    response: responses.projectResponse,
+    apiKey: true,
+  },
+  "GET /api/projects/{id}/api-keys": {
+    summary: "List API keys",
+    description: "Includes revoked keys. Requires the admin role.",
+    tag: "API keys",
+    params: projectParams,
+    response: z.array(responses.apiKeyResponse),
+    apiKey: true,
+  },
+  "POST /api/projects/{id}/api-keys": {
+    summary: "Create an API key",
+    description:
+      "The key is returned once in `key` and cannot be shown again. Only signed-in users can create keys.",
+    tag: "API keys",
+    params: projectParams,
+    body: createApiKeySchema,
+    status: 201,
+    response: responses.createdApiKeyResponse,
+  },
+  "DELETE /api/projects/{id}/api-keys/{keyId}": {
+    summary: "Revoke an API key",
+    tag: "API keys",
+    params: apiKeyParams,
+    response: responses.apiKeyResponse,
+    apiKey: true,
+  },
+  "GET /api/projects/{id}/audit": {
+    summary: "List the project's audit log",
+    description:
+      "Every mutation of the project and what it contains, newest first. Requires the admin role.",
+    tag: "Audit",
+    params: projectParams,
+    query: listAuditQuery,
+    response: responses.auditPage,
+    apiKey: true,
+  },
+  "GET /api/projects/{id}/audit/export": {
+    summary: "Export the project's audit log",
+    description: "Every matching entry, as CSV or JSON Lines.",
+    tag: "Audit",
+    params: projectParams,
+    query: exportAuditQuery,
+    download: "text/csv",
+    apiKey: true,
+  },
+  "GET /api/projects/{id}/collections": {
+    summary: "List collections",
+    tag: "Collections",
+    params: projectParams,
+    response: z.array(responses.collectionResponse),
+    apiKey: true,
+  },
+  "POST /api/projects/{id}/collections": {
+    summary: "Create a collection",
+    description:
+      "The dimension is fixed once the collection is created. With an `embedding` provider (`openai`, `local` or the built-in `hash`), items and queries can be sent as text.",
+    tag: "Collections",
+    params: projectParams,
+    body: createCollectionSchema,
+    status: 201,
+    response: responses.collectionResponse,
+    apiKey: true,
+  },
+  "GET /api/projects/{id}/collections/{name}": {
+    summary: "Describe a collection",
+    tag: "Collections",
+    params: collectionParams,
+    response: responses.collectionDetails,
+    apiKey: true,
+  },
+  "PATCH /api/projects/{id}/collections/{name}": {
+    summary: "Change a collection's metric or embedding provider",
+    description:
+      "Changing the dimension is rejected with 409, as is changing the metric while an index exists. Switching the embedding provider does not re-embed stored items; `embedding: null` turns it off.",
+    tag: "Collections",
+    params: collectionParams,
+    body: updateCollectionSchema,
+    response: responses.collectionResponse,
+    apiKey: true,
+  },
+  "DELETE /api/projects/{id}/collections/{name}": {
+    summary: "Drop a collection and its vectors",
+    tag: "Collections",
+    params: collectionParams,
+    status: 204,
+    apiKey: true,
+  },
+  "POST /api/projects/{id}/collections/{name}/vectors": {
+    summary: "Upsert vectors",
+    description:
+      "Each item gets its own result, so one bad vector does not fail the batch. Items may send `text` instead of `vector` when the collection has an embedding provider; provider failures are reported per item.",
+    tag: "Vectors",
+    params: collectionParams,
+    body: upsertVectorsSchema,
+    response: responses.upsertResponse,
+    apiKey: true,
+  },
+  "GET /api/projects/{id}/collections/{name}/vectors": {
+    summary: "Fetch vectors by id",
+    tag: "Vectors",
+    params: collectionParams,
+    query: fetchVectorsQuery,
+    response: responses.fetchVectorsResponse,
+    apiKey: true,
+  },
+  "DELETE /api/projects/{id}/collections/{name}/vectors": {
+    summary: "Delete vectors",
+    description: "By id, or every item matching a metadata filter.",
+    tag: "Vectors",
+    params: collectionParams,
+    body: deleteVectorsSchema,
+    response: responses.deleteVectorsResponse,
+    apiKey: true,
+  },
+  "POST /api/projects/{id}/collections/{name}/query": {
+    summary: "Nearest-neighbour search",
+    description:
+      "Send either a `vector` or a `text`, which is embedded with the collection's embedding provider (502 if the provider fails). Matches are ranked by the collection's metric. `efSearch` and `probes` tune HNSW and IVFFlat recall for this query.",
+    tag: "Vectors",
+    params: collectionParams,
+    body: querySchema,
+    response: responses.queryResponse,
+    apiKey: true,
+  },
+  "POST /api/projects/{id}/collections/{name}/query/hybrid": {
+    summary: "Hybrid search",
+    description:
+      "Runs a full-text search of `keywords` (or `text`) over the metadata `field` next to the nearest-neighbour search, and fuses the two rankings. `fusion` is `rrf` (reciprocal rank fusion, `weight / (rrfK + rank)` per retriever) or `weighted` (a blend of normalised scores); `weights` set each retriever's share. Each match reports both retrievers' rank, raw score and contribution to its fused `score`.",
+    tag: "Vectors",
+    params: collectionParams,
+    body: hybridQuerySchema,
+    response: responses.hybridQueryResponse,
+    apiKey: true,
+  },
+  "GET /api/projects/{id}/collections/{name}/saved-queries": {
+    summary: "List saved queries",
+    description: "Queries saved from the playground, newest first.",
+    tag: "Vectors",
+    params: collectionParams,
+    response: z.array(responses.savedQueryResponse),
+    apiKey: true,
+  },
+  "POST /api/projects/{id}/collections/{name}/saved-queries": {
+    summary: "Save a query",
+    description:
+      "`query` is a request body for the query endpoint (`mode: vector`) or the hybrid query endpoint (`mode: hybrid`), and is validated as one.",
+    tag: "Vectors",
+    params: collectionParams,
+    body: createSavedQuerySchema,
+    status: 201,
+    response: responses.savedQueryResponse,
+    apiKey: true,
+  },
+  "DELETE /api/projects/{id}/collections/{name}/saved-queries/{queryId}": {
+    summary: "Delete a saved query",
+    tag: "Vectors",
+    params: savedQueryParams,
+    status: 204,
+    apiKey: true,
+  },
+  "GET /api/projects/{id}/collections/{name}/projection": {
+    summary: "Get a 2D projection",
+    description:
+      "Coordinates of a sample of the collection's vectors, with each point's metadata. Only a projection of the collection's current `version` is returned; a 404 means it has to be computed first.",
+    tag: "Vectors",
+    params: collectionParams,
+    query: projectionSchema,
+    response: responses.projectionResponse,
+    apiKey: true,
+  },
+  "POST /api/projects/{id}/collections/{name}/projection": {
+    summary: "Compute a 2D projection",
+    description:
+      "Samples up to `sampleSize` vectors (the same ones each time) and projects them with `pca` or `tsne` (up to 2000 points) in a background job, which is returned. If an identical job is already queued or running, that one is returned instead. Requires write access.",
+    tag: "Vectors",
+    params: collectionParams,
+    body: projectionSchema,
+    status: 202,
+    response: responses.jobResponse,
+    apiKey: true,
+  },
+  "POST /api/projects/{id}/collections/{name}/import": {
+    summary: "Bulk-import vectors",
+    description:
+      "A multipart form with `file` (plus `sidecar` for .npy) of up to 64 MB (413 beyond), or a raw JSONL/CSV body of any size, streamed, with `format` in the query string. With `background=true` the upload is imported by a job and the response is the queued job (202).",
+    tag: "Vectors",
+    params: collectionParams,
+    query: rawImportQuery.partial(),
+    upload: {
+      "multipart/form-data":
+        "`file`, and optionally `sidecar`, `format`, `idColumn`, `vectorColumn` and `background`",
+      "application/x-ndjson": "JSONL rows, with ?format=jsonl",
+      "text/csv": "CSV rows, with ?format=csv",
+    },
+    response: responses.importReport,
+    apiKey: true,
+  },
+  "GET /api/projects/{id}/collections/{name}/index": {
+    summary: "Get index status",
+    description: "Size on disk and live build progress.",
+    tag: "Indexes",
+    params: collectionParams,
+    response: responses.indexResponse,
+    apiKey: true,
+  },
+  "POST /api/projects/{id}/collections/{name}/index": {
+    summary: "Create an index",
+    description:
+      "The build runs as a background job, returned as `jobId`; poll the index for progress.",
+    tag: "Indexes",
+    params: collectionParams,
+    body: createIndexSchema,
+    status: 202,
+    response: responses.indexBuildResponse,
+    apiKey: true,
+  },
+  "DELETE /api/projects/{id}/collections/{name}/index": {
+    summary: "Drop the index",
+    description: "Queries fall back to exact scans.",
+    tag: "Indexes",
+    params: collectionParams,
+    status: 204,
+    apiKey: true,
+  },
+  "POST /api/projects/{id}/collections/{name}/index/rebuild": {
+    summary: "Rebuild the index",
+    description: "Omitted parameters keep their current values.",
+    tag: "Indexes",
+    params: collectionParams,
+    body: rebuildIndexSchema,
+    status: 202,
+    response: responses.indexBuildResponse,
+    apiKey: true,
+  },
+  "GET /api/projects/{id}/documents": {
+    summary: "List documents",
+    tag: "Documents",
+    params: projectParams,
+    response: z.array(responses.documentResponse),
+    apiKey: true,
+  },
+  "POST /api/projects/{id}/documents": {
+    summary: "Upload a document",
+    description:
+      "Also accepts a multipart form with `file` and the same fields; the name and format then default to the file's. The document is split with the chosen strategy (`tokens`, `markdown` or `html`) and its chunks are embedded into the collection, which needs an embedding provider, by a background job returned as `jobId`.",
+    tag: "Documents",
+    params: projectParams,
+    body: createDocumentSchema,
+    status: 202,
+    response: responses.documentUploadResponse,
+    apiKey: true,
+  },
+  "GET /api/projects/{id}/documents/{documentId}": {
+    summary: "Get a document and its chunks",
+    description:
+      "Each chunk names the collection item it was embedded as; the item's metadata holds `documentId`, `chunkIndex`, `heading` and `text`.",
+    tag: "Documents",
+    params: documentParams,
+    response: responses.documentDetails,
+    apiKey: true,
+  },
+  "PUT /api/projects/{id}/documents/{documentId}": {
+    summary: "Re-upload a document",
+    description:
+      "Fields left out keep their current values. The current chunks stay searchable until the new version is embedded, then are replaced in one transaction.",
+    tag: "Documents",
+    params: documentParams,
+    body: replaceDocumentSchema,
+    status: 202,
+    response: responses.documentUploadResponse,
+    apiKey: true,
+  },
+  "DELETE /api/projects/{id}/documents/{documentId}": {
+    summary: "Delete a document",
+    description: "Its chunks are removed from the collection with it.",
+    tag: "Documents",
+    params: documentParams,
+    status: 204,
+    apiKey: true,
+  },
+  "GET /api/projects/{id}/snapshots": {
+    summary: "List snapshots",
+    tag: "Snapshots",
+    params: projectParams,
+    response: z.array(responses.snapshotResponse),
+    apiKey: true,
+  },
+  "POST /api/projects/{id}/snapshots": {
+    summary: "Export a snapshot",
+    description:
+      "Of the whole project, or of one collection. The export runs as a background job; poll the snapshot until it is completed.",
+    tag: "Snapshots",
+    params: projectParams,
+    body: createSnapshotSchema,
+    status: 202,
+    response: responses.snapshotExportResponse,
+    apiKey: true,
+  },
+  "POST /api/projects/{id}/snapshots/restore": {
+    summary: "Restore a snapshot archive",
+    description:
+      "Collections in the archive must not already exist in the project.",
+    tag: "Snapshots",
+    params: projectParams,
+    upload: {
+      "application/gzip": "The .vdsnap.jsonl.gz archive",
+      "multipart/form-data": "The archive as `file`",
+    },
+    response: responses.restoreResponse,
+    apiKey: true,
+  },
+  "GET /api/projects/{id}/snapshots/{snapshotId}": {
+    summary: "Get a snapshot",
+    tag: "Snapshots",
+    params: snapshotParams,
+    response: responses.snapshotResponse,
+    apiKey: true,
+  },
+  "DELETE /api/projects/{id}/snapshots/{snapshotId}": {
+    summary: "Delete a snapshot and its archive",
+    tag: "Snapshots",
+    params: snapshotParams,
+    status: 204,
+    apiKey: true,
+  },
+  "GET /api/projects/{id}/snapshots/{snapshotId}/download": {
+    summary: "Download a snapshot archive",
+    tag: "Snapshots",
+    params: snapshotParams,
+    download: "application/gzip",
+    apiKey: true,
+  },
+  "GET /api/admin/users": {
+    summary: "List all users",
+    description: "Paginated like projects. Requires the admin role.",
+    tag: "Admin",
+    query: listUsersQuery,
+    response: responses.userPage,
+  },
+  "GET /api/admin/users/{userId}": {
+    summary: "Get a user with their accounts and sessions",
+    tag: "Admin",
+    params: userParams,
+    response: responses.userDetails,
+  },
+  "PATCH /api/admin/users/{userId}": {
+    summary: "Change a user's role",
+    description: "Admins cannot remove their own admin role.",
+    tag: "Admin",
+    params: userParams,
+    body: updateUserSchema,
+    response: responses.userResponse,
+  },
+  "POST /api/admin/users/{userId}/ban": {
+    summary: "Ban a user",
+    description:
+      "Revokes their sessions and refuses new ones until the ban expires or is lifted.",
+    tag: "Admin",
+    params: userParams,
+    body: banUserSchema,
+    response: responses.userResponse,
+  },
+  "DELETE /api/admin/users/{userId}/ban": {
+    summary: "Lift a ban",
+    tag: "Admin",
+    params: userParams,
+    response: responses.userResponse,
+  },
+  "POST /api/admin/users/{userId}/password-reset": {
+    summary: "Force a password reset",
+    description:
+      "Clears the password, revokes every session and emails a reset link.",
+    tag: "Admin",
+    params: userParams,
+    response: z.object({ email: z.string(), revoked: z.int() }),
+  },
+  "DELETE /api/admin/users/{userId}/sessions": {
+    summary: "Revoke all of a user's sessions",
+    tag: "Admin",
+    params: userParams,
+    response: z.object({ revoked: z.int() }),
+  },
+  "DELETE /api/admin/users/{userId}/sessions/{sessionId}": {
+    summary: "Revoke one session",
+    tag: "Admin",
+    params: userSessionParams,
+    status: 204,
+  },
+  "POST /api/admin/impersonation": {
+    summary: "Impersonate a user",
+    description:
+      "Replaces the session cookie with one for the user, valid for an hour. Actions taken meanwhile are audited under the admin's name.",
+    tag: "Admin",
+    body: impersonateSchema,
+    response: z.object({
+      user: responses.userSummary,
+      expiresAt: z.iso.datetime(),
+    }),
+  },
+  "DELETE /api/admin/impersonation": {
+    summary: "Stop impersonating",
+    description: "Restores the admin's own session.",
+    tag: "Admin",
+    status: 204,
+  },
+  "GET /api/organizations": {
+    summary: "List the caller's organizations",
+    tag: "Organizations",
+    response: z.array(responses.organizationMembership),
+  },
+  "POST /api/organizations": {
+    summary: "Create an organization",
+    tag: "Organizations",
+    body: organizationSchema,
+    status: 201,
+    response: responses.organizationResponse.extend({
+      role: z.literal("owner"),
+    }),
+  },
+  "GET /api/organizations/{id}": {
+    summary: "Get an organization",
+    description: "Includes the caller's role in it.",
+    tag: "Organizations",
+    params: organizationParams,
+    response: responses.organizationResponse.extend({
+      role: responses.membershipResponse.shape.role,
+    }),
+  },
+  "PATCH /api/organizations/{id}": {
+    summary: "Rename an organization",
+    tag: "Organizations",
+    params: organizationParams,
+    body: organizationSchema,
+    response: responses.organizationResponse,
+  },
+  "DELETE /api/organizations/{id}": {
+    summary: "Delete an organization and its projects",
+    tag: "Organizations",
+    params: organizationParams,
+    status: 204,
+  },
+  "GET /api/organizations/{id}/audit": {
+    summary: "List the organization's audit log",
+    description:
+      "Changes to the organization, its members and all of its projects. Requires the admin role.",
+    tag: "Audit",
+    params: organizationParams,
+    query: listAuditQuery,
+    response: responses.auditPage,
+  },
+  "GET /api/organizations/{id}/audit/export": {
+    summary: "Export the organization's audit log",
+    description: "Every matching entry, as CSV or JSON Lines.",
+    tag: "Audit",
+    params: organizationParams,
+    query: exportAuditQuery,
+    download: "text/csv",
+  },
+  "GET /api/organizations/{id}/members": {
+    summary: "List members",
+    tag: "Organizations",
+    params: organizationParams,
+    response: z.array(responses.memberResponse),
+  },
+  "PATCH /api/organizations/{id}/members/{userId}": {
+    summary: "Change a member's role",
+    description: "Only owners can grant or revoke the owner role.",
+    tag: "Organizations",
+    params: memberParams,
+    body: updateMemberSchema,
+    response: responses.membershipResponse,
+  },
+  "DELETE /api/organizations/{id}/members/{userId}": {
+    summary: "Remove a member, or leave",
+    tag: "Organizations",
+    params: memberParams,
+    status: 204,
+  },
+  "GET /api/organizations/{id}/invitations": {
+    summary: "List pending invitations",
+    tag: "Organizations",
+    params: organizationParams,
+    response: z.array(responses.invitationResponse),
+  },
+  "POST /api/organizations/{id}/invitations": {
+    summary: "Invite someone by email",
+    tag: "Organizations",
+    params: organizationParams,
+    body: createInvitationSchema,
+    status: 201,
+    response: responses.invitationResponse,
+  },
+  "POST /api/invitations/{token}": {
+    summary: "Accept an invitation",
+    description:
+      "Joins the organization with the invited role. Users who are already members get a 409 and keep their current role.",
+    tag: "Organizations",
+    params: invitationParams,
+    response: z.object({
+      organizationId: z.int(),
+      role: responses.membershipResponse.shape.role,
+    }),
+  },
+  "GET /api/jobs": {
+    summary: "List recent jobs",
+    description: "Across the caller's projects, newest first.",
+    tag: "Jobs",
+    query: listJobsQuery,
+    response: z.array(responses.jobListItem),
+  },
+  "GET /api/jobs/{id}": {
+    summary: "Get a job",
+    tag: "Jobs",
+    params: jobParams,
+    response: responses.jobResponse,
+    apiKey: true,
+  },
+  "POST /api/jobs/{id}/cancel": {
+    summary: "Cancel a job",
+    description:
+      "Queued jobs are cancelled at once; running jobs stop at their next progress checkpoint.",
+    tag: "Jobs",
+    params: jobParams,
+    response: responses.jobResponse,
+    apiKey: true,
+  },
+} satisfies Record<string, Operation>;
+
+export type Operations = typeof operations;
+
+export type OperationId = keyof Operations;
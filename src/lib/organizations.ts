@@ -0,0 +1,218 @@
+import { cookies } from "next/headers";
+import { and, asc, eq, gt, isNull } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  organizationInvitations,
+  organizationMembers,
+  organizations,
+  type MemberRole,
+} from "@/db/schema";
+import { ApiError } from "@/lib/api-errors";
+import { invitationEmail } from "@/lib/emails";
+import { sendMail } from "@/lib/mailer";
+import { generateToken, hashToken } from "@/lib/tokens";
+
+export const ACTIVE_ORGANIZATION_COOKIE = "active-organization";
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Thrown when an invitation token cannot be accepted by the caller. */
+export class InvitationError extends ApiError {
+  constructor(message: string, status: 403 | 404 | 409) {
+    super(status, message);
+    this.name = "InvitationError";
+  }
+}
+
+function slugify(name: string) {
+  const base = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 48);
+  return `${base || "org"}-${generateToken().slice(0, 6).toLowerCase()}`;
+}
+
+/** Organizations `userId` belongs to, with their role in each. */
+export async function listOrganizations(userId: string) {
+  return db
+    .select({
+      id: organizations.id,
+      name: organizations.name,
+      slug: organizations.slug,
+      role: organizationMembers.role,
+      createdAt: organizations.createdAt,
+    })
+    .from(organizationMembers)
+    .innerJoin(
+      organizations,
+      eq(organizations.id, organizationMembers.organizationId),
+    )
+    .where(eq(organizationMembers.userId, userId))
+    .orderBy(asc(organizations.name));
+}
+
+/** Creates an organization with `userId` as its first owner. */
+export async function createOrganization(userId: string, name: string) {
+  return db.transaction(async (tx) => {
+    const [organization] = await tx
+      .insert(organizations)
+      .values({ name, slug: slugify(name) })
+      .returning();
+
+    await tx.insert(organizationMembers).values({
+      organizationId: organization.id,
+      userId,
+      role: "owner",
+    });
+
+    return organization;
+  });
+}
+
+export async function countOwners(organizationId: number) {
+  const owners = await db
+    .select({ userId: organizationMembers.userId })
+    .from(organizationMembers)
+    .where(
+      and(
+        eq(organizationMembers.organizationId, organizationId),
+        eq(organizationMembers.role, "owner"),
+      ),
+    );
+  return owners.length;
+}
+
+/**
+ * Stores an invitation and emails its token to `email`. Only a hash of the
+ * token is kept; the link in the email is the only copy.
+ */
+export async function createInvitation({
+  organizationId,
+  organizationName,
+  email,
+  role,
+  invitedBy,
+  baseUrl,
+}: {
+  organizationId: number;
+  organizationName: string;
+  email: string;
+  role: MemberRole;
+  invitedBy: string;
+  baseUrl: string;
+}) {
+  const token = generateToken();
+
+  const [invitation] = await db
+    .insert(organizationInvitations)
+    .values({
+      organizationId,
+      email: email.toLowerCase(),
+      role,
+      tokenHash: hashToken(token),
+      invitedBy,
+      expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+    })
+    .returning({
+      id: organizationInvitations.id,
+      email: organizationInvitations.email,
+      role: organizationInvitations.role,
+      expiresAt: organizationInvitations.expiresAt,
+      createdAt: organizationInvitations.createdAt,
+    });
+
+  const url = new URL(`/invitations/${token}`, baseUrl).toString();
+  await sendMail({
+    to: email,
+    ...invitationEmail({ organizationName, role, url }),
+  });
+
+  return invitation;
+}
+
+/**
+ * Adds the invited user to the organization with the invited role. The
+ * signed-in user's email must match the one the invitation was sent to, and
+ * existing members are turned away (409) rather than having their role
+ * changed; the invitation then stays open.
+ */
+export async function acceptInvitation(
+  token: string,
+  currentUser: { id: string; email: string },
+) {
+  const [invitation] = await db
+    .select()
+    .from(organizationInvitations)
+    .where(
+      and(
+        eq(organizationInvitations.tokenHash, hashToken(token)),
+        isNull(organizationInvitations.acceptedAt),
+        gt(organizationInvitations.expiresAt, new Date()),
+      ),
+    )
+    .limit(1);
+
+  if (!invitation) {
+    throw new InvitationError("Invitation not found or expired", 404);
+  }
+  if (invitation.email !== currentUser.email.toLowerCase()) {
+    throw new InvitationError(
+      "This invitation was sent to a different email address",
+      403,
+    );
+  }
+
+  return db.transaction(async (tx) => {
+    const [member] = await tx
+      .insert(organizationMembers)
+      .values({
+        organizationId: invitation.organizationId,
+        userId: currentUser.id,
+        role: invitation.role,
+      })
+      .onConflictDoNothing()
+      .returning({
+        organizationId: organizationMembers.organizationId,
+        role: organizationMembers.role,
+      });
+    if (!member) {
+      throw new InvitationError(
+        "You are already a member of this organization",
+        409,
+      );
+    }
+
+    await tx
+      .update(organizationInvitations)
+      .set({ acceptedAt: new Date() })
+      .where(eq(organizationInvitations.id, invitation.id));
+
+    return member;
+  });
+}
+
+/**
+ * The organization selected in the dashboard's switcher, or `null` for
+ * personal projects. Falls back to `null` if the user left the organization.
+ */
+export async function getActiveOrganizationId(userId: string) {
+  const value = (await cookies()).get(ACTIVE_ORGANIZATION_COOKIE)?.value;
+  const organizationId = Number(value);
+  if (!value || !Number.isInteger(organizationId)) {
+    return null;
+  }
+
+  const [membership] = await db
+    .select({ organizationId: organizationMembers.organizationId })
+    .from(organizationMembers)
+    .where(
+      and(
+        eq(organizationMembers.organizationId, organizationId),
+        eq(organizationMembers.userId, userId),
+      ),
+    )
+    .limit(1);
+
+  return membership ? organizationId : null;
+}
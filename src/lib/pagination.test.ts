@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { auditLogs, user } from "@/db/schema";
+import { ApiError } from "@/lib/api-errors";
+import { keyset } from "./pagination";
+
+const sort = "createdAt:desc";
+
+function cursor(value: unknown, id: unknown) {
+  return Buffer.from(
+    JSON.stringify({ sort, value, id, before: false }),
+  ).toString("base64url");
+}
+
+function seek(
+  column: typeof auditLogs.createdAt | typeof user.name,
+  raw: string,
+) {
+  return keyset({
+    column,
+    direction: "desc",
+    tiebreaker: column === user.name ? user.id : auditLogs.id,
+    sort,
+    cursor: raw,
+  });
+}
+
+function assertInvalid(run: () => unknown) {
+  assert.throws(
+    run,
+    (error) =>
+      error instanceof ApiError &&
+      error.status === 400 &&
+      error.message === "Invalid cursor",
+  );
+}
+
+describe("keyset cursors", () => {
+  it("accepts values as Postgres prints them", () => {
+    const page = seek(
+      auditLogs.createdAt,
+      cursor("2024-05-01 10:20:30.123456", 42),
+    );
+    assert.equal(page.cursor?.id, 42);
+    assert.ok(seek(user.name, cursor("Ada", "abc123")).where);
+  });
+
+  it("rejects values the column type cannot hold", () => {
+    assertInvalid(() => seek(auditLogs.createdAt, cursor("yesterday", 1)));
+    assertInvalid(() =>
+      seek(auditLogs.createdAt, cursor("2024-02-30 10:00:00", 1)),
+    );
+    assertInvalid(() =>
+      seek(auditLogs.createdAt, cursor("2024-05-01 25:00:00", 1)),
+    );
+    assertInvalid(() =>
+      seek(auditLogs.createdAt, cursor("2024-05-01 10:20:30", "abc")),
+    );
+    assertInvalid(() =>
+      seek(auditLogs.createdAt, cursor("2024-05-01 10:20:30", 2 ** 64)),
+    );
+    assertInvalid(() => seek(user.name, cursor("a\u0000b", "abc123")));
+  });
+
+  it("rejects cursors that are not JSON", () => {
+    assertInvalid(() => seek(user.name, "not-a-cursor"));
+  });
+});
@@ -0,0 +1,209 @@
+import { asc, desc, sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { ApiError } from "@/lib/api-errors";
+
+export type SortDirection = "asc" | "desc";
+
+/**
+ * Position of a row in a keyset-paginated list: its sort value (as text, so
+ * timestamps keep their microseconds) and id. `before` cursors page
+ * backwards. `sort` ties the cursor to the ordering it was issued for.
+ */
+interface Cursor {
+  sort: string;
+  value: string;
+  id: string | number;
+  before: boolean;
+}
+
+export interface PageInfo {
+  total: number;
+  limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+export interface Page<T> {
+  data: T[];
+  pageInfo: PageInfo;
+}
+
+export interface KeysetOptions {
+  /** Column to sort by; must be NOT NULL. */
+  column: AnyPgColumn;
+  direction: SortDirection;
+  /** Unique column breaking ties, usually the primary key. */
+  tiebreaker: AnyPgColumn;
+  /** Name of the sort, e.g. `createdAt:desc`; cursors only apply to it. */
+  sort: string;
+  cursor?: string;
+}
+
+/** Selected next to each row so the page can hand out cursors. */
+export function cursorValue(column: AnyPgColumn) {
+  return sql<string>`${column}::text`;
+}
+
+function encodeCursor(cursor: Cursor) {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+// How Postgres prints timestamps as text, e.g. `2024-05-01 10:20:30.123456+00`.
+const TIMESTAMP_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})(\.\d{1,6})?([+-]\d{2}(:?\d{2})?|Z)?$/;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const INTEGER_BITS: Record<string, number> = {
+  smallint: 16,
+  smallserial: 16,
+  integer: 32,
+  serial: 32,
+  bigint: 64,
+  bigserial: 64,
+};
+
+function isTimestamp(text: string) {
+  const match = TIMESTAMP_PATTERN.exec(text);
+  if (!match) return false;
+  const [year, month, day, hour, minute, second] = match
+    .slice(1, 7)
+    .map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day &&
+    date.getUTCHours() === hour &&
+    date.getUTCMinutes() === minute &&
+    date.getUTCSeconds() === second
+  );
+}
+
+/**
+ * Whether Postgres can cast a cursor value to the column's type. Cursors
+ * come back from clients, so a tampered one must be a 400, not a failed
+ * cast in the query.
+ */
+function fitsColumn(value: string | number, column: AnyPgColumn) {
+  const text = String(value);
+  const type = column.getSQLType();
+  if (type.startsWith("timestamp")) return isTimestamp(text);
+  if (type === "uuid") return UUID_PATTERN.test(text);
+  const bits = INTEGER_BITS[type];
+  if (bits !== undefined) {
+    if (!/^-?\d{1,19}$/.test(text)) return false;
+    const limit = BigInt(2) ** BigInt(bits - 1);
+    return BigInt(text) >= -limit && BigInt(text) < limit;
+  }
+  return !text.includes("\0");
+}
+
+function decodeCursor(
+  text: string,
+  sort: string,
+  column: AnyPgColumn,
+  tiebreaker: AnyPgColumn,
+): Cursor {
+  let cursor: Partial<Cursor> | null = null;
+  try {
+    cursor = JSON.parse(Buffer.from(text, "base64url").toString("utf8"));
+  } catch {
+    // Reported below.
+  }
+  if (
+    typeof cursor?.value !== "string" ||
+    (typeof cursor.id !== "string" && typeof cursor.id !== "number") ||
+    !fitsColumn(cursor.value, column) ||
+    !fitsColumn(cursor.id, tiebreaker)
+  ) {
+    throw new ApiError(400, "Invalid cursor", {
+      details: [{ path: ["cursor"], message: "Invalid cursor" }],
+    });
+  }
+  if (cursor.sort !== sort) {
+    throw new ApiError(400, "The cursor was issued for a different sort", {
+      details: [{ path: ["cursor"], message: "Sort order has changed" }],
+    });
+  }
+  return cursor as Cursor;
+}
+
+/**
+ * Builds the seek condition and ordering for one page. Rows are ordered by
+ * `(column, tiebreaker)` so the order is stable even when sort values
+ * repeat. Backward pages are read in reverse and flipped by `toPage`.
+ */
+export function keyset({
+  column,
+  direction,
+  tiebreaker,
+  sort,
+  cursor: rawCursor,
+}: KeysetOptions) {
+  const cursor = rawCursor
+    ? decodeCursor(rawCursor, sort, column, tiebreaker)
+    : null;
+  const reversed = cursor?.before ?? false;
+  const ascending = (direction === "asc") !== reversed;
+
+  const where = cursor
+    ? sql`(${column}, ${tiebreaker}) ${sql.raw(ascending ? ">" : "<")} (${cursor.value}::${sql.raw(column.getSQLType())}, ${cursor.id})`
+    : undefined;
+  const order = ascending ? asc : desc;
+  const orderBy: SQL[] = [order(column), order(tiebreaker)];
+
+  return { cursor, where, orderBy };
+}
+
+/**
+ * Turns `limit + 1` rows fetched with `keyset` into a page. The extra row
+ * only tells whether there is more in the direction of travel.
+ */
+export function toPage<T extends { cursorValue: string }>(
+  rows: T[],
+  {
+    cursor,
+    sort,
+    limit,
+    total,
+    id,
+  }: {
+    cursor: Cursor | null;
+    sort: string;
+    limit: number;
+    total: number;
+    id: (row: T) => string | number;
+  },
+): Page<Omit<T, "cursorValue">> {
+  const hasMore = rows.length > limit;
+  const backwards = cursor?.before ?? false;
+  const pageRows = rows.slice(0, limit);
+  if (backwards) pageRows.reverse();
+
+  const at = (row: T | undefined, before: boolean) =>
+    row
+      ? encodeCursor({ sort, value: row.cursorValue, id: id(row), before })
+      : null;
+  const first = pageRows[0];
+  const last = pageRows[pageRows.length - 1];
+
+  // Coming from the other direction always leaves rows behind us.
+  const hasNext = backwards ? cursor !== null : hasMore;
+  const hasPrev = backwards ? hasMore : cursor !== null;
+
+  const data = pageRows.map((row) => {
+    const item: Partial<T> = { ...row };
+    delete item.cursorValue;
+    return item as Omit<T, "cursorValue">;
+  });
+
+  return {
+    data,
+    pageInfo: {
+      total,
+      limit,
+      nextCursor: hasNext ? at(last, false) : null,
+      prevCursor: hasPrev ? at(first, true) : null,
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import type { MemberRole } from "@/db/schema";
+
+export type ProjectPermission = "read" | "write" | "admin";
+
+/** Roles ordered from most to least privileged. */
+export const MEMBER_ROLES: readonly MemberRole[] = [
+  "owner",
+  "admin",
+  "editor",
+  "viewer",
+];
+
+const ROLE_RANK: Record<MemberRole, number> = {
+  owner: 3,
+  admin: 2,
+  editor: 1,
+  viewer: 0,
+};
+
+// Minimum role needed for each project permission.
+const PERMISSION_ROLE: Record<ProjectPermission, MemberRole> = {
+  read: "viewer",
+  write: "editor",
+  admin: "admin",
+};
+
+/** True when `role` is at least as privileged as `minimum`. */
+export function hasRole(role: MemberRole, minimum: MemberRole) {
+  return ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
+
+/**
+ * True when a user holds the site-wide admin role (the `role` column of
+ * `user`, which better-auth may store as a comma-separated list).
+ */
+export function isAdmin(user: { role?: string | null }) {
+  return user.role?.split(",").includes("admin") ?? false;
+}
+
+/** True when `role` grants `permission` on the organization's projects. */
+export function can(role: MemberRole, permission: ProjectPermission) {
+  return hasRole(role, PERMISSION_ROLE[permission]);
+}
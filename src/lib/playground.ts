@@ -0,0 +1,296 @@
+import type { z } from "zod";
+import type { QueryMode } from "@/db/schema";
+import type { JsonValue, MetadataFilter } from "@/lib/filters";
+import type { hybridQuerySchema, querySchema } from "@/lib/schemas/vectors";
+
+// Form state of the query playground and its conversion to and from query
+// request bodies, which are also what saved queries and shared URLs hold.
+// Safe to import from client components.
+
+export const FILTER_OPERATORS = {
+  eq: "equals",
+  neq: "does not equal",
+  in: "is one of",
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+  exists: "exists",
+  missing: "is missing",
+} as const;
+
+export type FilterOperator = keyof typeof FILTER_OPERATORS;
+
+/** Request bodies of the query and hybrid query endpoints. */
+export type VectorQuery = z.input<typeof querySchema>;
+export type HybridQuery = z.input<typeof hybridQuerySchema>;
+
+export type PlaygroundQuery =
+  | { mode: "vector"; query: VectorQuery }
+  | { mode: "hybrid"; query: HybridQuery };
+
+type RangeBounds = Extract<MetadataFilter, { range: unknown }>["range"];
+
+export interface FilterCondition {
+  field: string;
+  operator: FilterOperator;
+  /** JSON, or a bare string; `in` takes a comma-separated list. */
+  value: string;
+}
+
+export interface PlaygroundForm {
+  mode: QueryMode;
+  input: "text" | "vector";
+  text: string;
+  /** A JSON array, or numbers separated by commas or spaces. */
+  vector: string;
+  combine: "and" | "or";
+  conditions: FilterCondition[];
+  /** A filter from a URL or saved query the builder cannot show. */
+  rawFilter: MetadataFilter | undefined;
+  topK: string;
+  efSearch: string;
+  probes: string;
+  keywords: string;
+  field: string;
+  fusion: "rrf" | "weighted";
+  vectorWeight: string;
+  keywordWeight: string;
+  rrfK: string;
+}
+
+export const EMPTY_FORM: PlaygroundForm = {
+  mode: "vector",
+  input: "text",
+  text: "",
+  vector: "",
+  combine: "and",
+  conditions: [],
+  rawFilter: undefined,
+  topK: "10",
+  efSearch: "",
+  probes: "",
+  keywords: "",
+  field: "",
+  fusion: "rrf",
+  vectorWeight: "0.5",
+  keywordWeight: "0.5",
+  rrfK: "",
+};
+
+const RANGE_OPERATORS = ["gt", "gte", "lt", "lte"] as const;
+
+/** JSON when it parses, so `42`, `true` and `"42"` can all be entered. */
+function parseValue(value: string): JsonValue {
+  try {
+    return JSON.parse(value) as JsonValue;
+  } catch {
+    return value;
+  }
+}
+
+function formatValue(value: unknown) {
+  if (typeof value === "string" && parseValue(value) === value) return value;
+  return JSON.stringify(value);
+}
+
+function parseVector(value: string) {
+  const trimmed = value.trim();
+  const numbers = trimmed.startsWith("[")
+    ? parseValue(trimmed)
+    : trimmed
+        .split(/[\s,]+/)
+        .filter(Boolean)
+        .map(Number);
+  if (
+    !Array.isArray(numbers) ||
+    numbers.length === 0 ||
+    !numbers.every((n) => typeof n === "number" && Number.isFinite(n))
+  ) {
+    return null;
+  }
+  return numbers as number[];
+}
+
+function conditionFilter({
+  field,
+  operator,
+  value,
+}: FilterCondition): MetadataFilter {
+  switch (operator) {
+    case "eq":
+      return { field, eq: parseValue(value) };
+    case "neq":
+      return { not: { field, eq: parseValue(value) } };
+    case "in":
+      return {
+        field,
+        in: value.split(",").map((item) => parseValue(item.trim())),
+      };
+    case "exists":
+      return { field, exists: true };
+    case "missing":
+      return { field, exists: false };
+    default: {
+      const bound = parseValue(value);
+      const range: RangeBounds = {};
+      range[operator] = typeof bound === "number" ? bound : value;
+      return { field, range };
+    }
+  }
+}
+
+function filterCondition(filter: unknown): FilterCondition | null {
+  if (typeof filter !== "object" || filter === null) return null;
+  const entry = filter as Record<string, unknown>;
+  if ("not" in entry) {
+    const inner = filterCondition(entry.not);
+    return inner?.operator === "eq" ? { ...inner, operator: "neq" } : null;
+  }
+  if (typeof entry.field !== "string") return null;
+  const field = entry.field;
+  if ("eq" in entry) {
+    return { field, operator: "eq", value: formatValue(entry.eq) };
+  }
+  if (Array.isArray(entry.in)) {
+    return {
+      field,
+      operator: "in",
+      value: entry.in.map(formatValue).join(", "),
+    };
+  }
+  if (typeof entry.exists === "boolean") {
+    return { field, operator: entry.exists ? "exists" : "missing", value: "" };
+  }
+  if (typeof entry.range === "object" && entry.range !== null) {
+    const bounds = Object.entries(entry.range);
+    const [operator, bound] = bounds[0] ?? [];
+    if (
+      bounds.length === 1 &&
+      (RANGE_OPERATORS as readonly string[]).includes(operator)
+    ) {
+      return {
+        field,
+        operator: operator as FilterOperator,
+        value: String(bound),
+      };
+    }
+  }
+  return null;
+}
+
+function optionalNumber(value: string) {
+  return value.trim() === "" ? undefined : Number(value);
+}
+
+/** Leaves out unset fields, so shared URLs and saved queries stay short. */
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined),
+  ) as T;
+}
+
+/** The request body for the form, or what keeps it from being sent. */
+export function formToQuery(
+  form: PlaygroundForm,
+): PlaygroundQuery | { error: string } {
+  const query: VectorQuery = {};
+  if (form.input === "vector") {
+    const vector = parseVector(form.vector);
+    if (!vector) return { error: "The vector must be a list of numbers" };
+    query.vector = vector;
+  } else {
+    if (!form.text.trim()) return { error: "Enter a text to search for" };
+    query.text = form.text;
+  }
+
+  const conditions = form.conditions.filter(({ field }) => field.trim());
+  if (conditions.length === 1) {
+    query.filter = conditionFilter(conditions[0]);
+  } else if (conditions.length > 1) {
+    const filters = conditions.map(conditionFilter);
+    query.filter = form.combine === "or" ? { or: filters } : { and: filters };
+  } else if (form.rawFilter !== undefined) {
+    query.filter = form.rawFilter;
+  }
+
+  query.topK = optionalNumber(form.topK);
+  query.efSearch = optionalNumber(form.efSearch);
+  query.probes = optionalNumber(form.probes);
+
+  if (form.mode === "hybrid") {
+    return {
+      mode: "hybrid",
+      query: withoutUndefined<HybridQuery>({
+        ...query,
+        keywords: form.keywords.trim() ? form.keywords : undefined,
+        field: form.field.trim() || undefined,
+        fusion: form.fusion,
+        weights: {
+          vector: Number(form.vectorWeight),
+          keyword: Number(form.keywordWeight),
+        },
+        rrfK: optionalNumber(form.rrfK),
+      }),
+    };
+  }
+  return { mode: "vector", query: withoutUndefined(query) };
+}
+
+/** Form state for a saved or shared query body. */
+export function queryToForm(
+  mode: QueryMode,
+  query: Record<string, unknown>,
+): PlaygroundForm {
+  const form: PlaygroundForm = { ...EMPTY_FORM, mode };
+  const text = (value: unknown) =>
+    typeof value === "string" || typeof value === "number" ? String(value) : "";
+
+  if (Array.isArray(query.vector)) {
+    form.input = "vector";
+    form.vector = JSON.stringify(query.vector);
+  } else {
+    form.text = text(query.text);
+  }
+
+  const filter = query.filter as Record<string, unknown> | null | undefined;
+  if (typeof filter === "object" && filter !== null) {
+    const group = Array.isArray(filter.and)
+      ? "and"
+      : Array.isArray(filter.or)
+        ? "or"
+        : null;
+    const conditions = group
+      ? (filter[group] as unknown[]).map(filterCondition)
+      : [filterCondition(filter)];
+    if (conditions.every((condition) => condition !== null)) {
+      form.combine = group ?? "and";
+      form.conditions = conditions as FilterCondition[];
+    } else {
+      // Shown as is; the endpoint validates it when the query runs.
+      form.rawFilter = filter as MetadataFilter;
+    }
+  }
+
+  form.topK = text(query.topK) || EMPTY_FORM.topK;
+  form.efSearch = text(query.efSearch);
+  form.probes = text(query.probes);
+  form.keywords = text(query.keywords);
+  form.field = text(query.field);
+  if (query.fusion === "weighted") form.fusion = "weighted";
+  const weights = query.weights as Record<string, unknown> | undefined;
+  form.vectorWeight = text(weights?.vector) || EMPTY_FORM.vectorWeight;
+  form.keywordWeight = text(weights?.keyword) || EMPTY_FORM.keywordWeight;
+  form.rrfK = text(query.rrfK);
+  return form;
+}
+
+/** Query string that opens the playground on a query. */
+export function playgroundSearch(
+  mode: QueryMode,
+  query: Record<string, unknown>,
+) {
+  const params = new URLSearchParams({ q: JSON.stringify(query) });
+  if (mode === "hybrid") params.set("mode", mode);
+  return `?${params}`;
+}
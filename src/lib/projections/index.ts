@@ -0,0 +1,198 @@
+import { and, eq, inArray, lt, sql } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  collectionItems,
+  collections,
+  jobs,
+  projectionMethod,
+  projections,
+  type Collection,
+  type Projection,
+  type ProjectionMethod,
+} from "@/db/schema";
+import { enqueueJob, type JobPayloads } from "@/lib/jobs/queue";
+import { pca } from "./pca";
+import { tsne } from "./tsne";
+
+export { pca, type PcaResult } from "./pca";
+export { tsne, type TsneOptions } from "./tsne";
+
+export const PROJECTION_METHODS: readonly ProjectionMethod[] =
+  projectionMethod.enumValues;
+
+export const DEFAULT_SAMPLE_SIZE = 1000;
+
+export const MAX_SAMPLE_SIZE = 5000;
+
+/** t-SNE is quadratic in the sample, so it gets a smaller one. */
+export const MAX_TSNE_SAMPLE_SIZE = 2000;
+
+/** The projection of the collection's current version, if computed. */
+export async function findProjection(
+  collection: Collection,
+  method: ProjectionMethod,
+  sampleSize: number,
+) {
+  const [projection] = await db
+    .select()
+    .from(projections)
+    .where(
+      and(
+        eq(projections.collectionId, collection.id),
+        eq(projections.collectionVersion, collection.version),
+        eq(projections.method, method),
+        eq(projections.sampleSize, sampleSize),
+      ),
+    );
+  return projection ?? null;
+}
+
+/** A projection with each point's current payload, as the API returns it. */
+export async function describeProjection(
+  collection: Collection,
+  projection: Projection,
+) {
+  const ids = projection.points.map((point) => point.id);
+  const rows =
+    ids.length === 0
+      ? []
+      : await db
+          .select({
+            id: collectionItems.id,
+            metadata: collectionItems.metadata,
+          })
+          .from(collectionItems)
+          .where(
+            and(
+              eq(collectionItems.collectionId, collection.id),
+              inArray(collectionItems.id, ids),
+            ),
+          );
+  const metadata = new Map(rows.map((row) => [row.id, row.metadata]));
+
+  return {
+    method: projection.method,
+    sampleSize: projection.sampleSize,
+    collectionVersion: projection.collectionVersion,
+    explainedVariance: projection.explainedVariance,
+    computedAt: projection.createdAt,
+    points: projection.points.map((point) => ({
+      ...point,
+      metadata: metadata.get(point.id) ?? null,
+    })),
+  };
+}
+
+/**
+ * Queues a projection job, or returns the one already queued or running
+ * for the same collection, method and sample size.
+ */
+export async function startProjection(
+  collection: Collection,
+  method: ProjectionMethod,
+  sampleSize: number,
+  createdBy: string | null = null,
+) {
+  const payload: JobPayloads["projections.compute"] = {
+    collectionId: collection.id,
+    method,
+    sampleSize,
+  };
+  const [pending] = await db
+    .select()
+    .from(jobs)
+    .where(
+      and(
+        eq(jobs.type, "projections.compute"),
+        inArray(jobs.status, ["queued", "running"]),
+        sql`${jobs.payload} = ${JSON.stringify(payload)}::jsonb`,
+      ),
+    )
+    .limit(1);
+  return (
+    pending ??
+    (await enqueueJob(collection.projectId, "projections.compute", payload, {
+      createdBy,
+    }))
+  );
+}
+
+/** Scales rows to unit length, so Euclidean distances follow the cosine. */
+function unitRows(rows: number[][]) {
+  return rows.map((row) => {
+    const norm = Math.sqrt(row.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? row.map((v) => v / norm) : row;
+  });
+}
+
+/**
+ * Samples up to `sampleSize` items, projects them to 2D and caches the
+ * result under the collection version read before sampling: if items change
+ * meanwhile, the version moves past it and the next request recomputes.
+ * The sample is ordered by a hash of the ids, so it is stable across runs.
+ * Projections of older versions are dropped.
+ */
+export async function computeProjection(
+  collectionId: number,
+  method: ProjectionMethod,
+  sampleSize: number,
+  onProgress: (fraction: number) => Promise<void>,
+) {
+  const [collection] = await db
+    .select()
+    .from(collections)
+    .where(eq(collections.id, collectionId));
+  if (!collection) return { skipped: true };
+
+  const cached = await findProjection(collection, method, sampleSize);
+  if (cached) return { cached: true, points: cached.points.length };
+
+  const sample = await db
+    .select({ id: collectionItems.id, embedding: collectionItems.embedding })
+    .from(collectionItems)
+    .where(eq(collectionItems.collectionId, collection.id))
+    .orderBy(sql`md5(${collectionItems.id})`)
+    .limit(sampleSize);
+  await onProgress(0.2);
+
+  const vectors = sample.map((item) => item.embedding);
+  const rows = collection.metric === "cosine" ? unitRows(vectors) : vectors;
+  const { coordinates, explainedVariance } = pca(rows);
+  await onProgress(method === "tsne" ? 0.3 : 0.9);
+
+  const layout =
+    method === "tsne"
+      ? await tsne(rows, {
+          initial: coordinates,
+          onProgress: (fraction) => onProgress(0.3 + 0.6 * fraction),
+        })
+      : coordinates;
+  await onProgress(0.9);
+
+  await db
+    .insert(projections)
+    .values({
+      collectionId: collection.id,
+      collectionVersion: collection.version,
+      method,
+      sampleSize,
+      points: sample.map((item, i) => ({
+        id: item.id,
+        x: layout[i][0],
+        y: layout[i][1],
+      })),
+      explainedVariance:
+        method === "pca" ? [explainedVariance[0], explainedVariance[1]] : null,
+    })
+    .onConflictDoNothing();
+  await db
+    .delete(projections)
+    .where(
+      and(
+        eq(projections.collectionId, collection.id),
+        lt(projections.collectionVersion, collection.version),
+      ),
+    );
+
+  return { version: collection.version, points: sample.length };
+}
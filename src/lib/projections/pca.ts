@@ -0,0 +1,198 @@
+const OVERSAMPLING = 8;
+const POWER_ITERATIONS = 4;
+
+export interface PcaResult {
+  /** One row per input row, one column per component. */
+  coordinates: number[][];
+  /** Share of the total variance each component explains. */
+  explainedVariance: number[];
+}
+
+/** Small deterministic PRNG, so the same sample always projects the same. */
+function mulberry32(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Modified Gram-Schmidt on the `columns` columns of a row-major matrix. */
+function orthonormalize(matrix: Float64Array, rows: number, columns: number) {
+  for (let c = 0; c < columns; c++) {
+    for (let previous = 0; previous < c; previous++) {
+      let dot = 0;
+      for (let r = 0; r < rows; r++) {
+        dot += matrix[r * columns + c] * matrix[r * columns + previous];
+      }
+      for (let r = 0; r < rows; r++) {
+        matrix[r * columns + c] -= dot * matrix[r * columns + previous];
+      }
+    }
+    let norm = 0;
+    for (let r = 0; r < rows; r++) norm += matrix[r * columns + c] ** 2;
+    norm = Math.sqrt(norm);
+    for (let r = 0; r < rows; r++) {
+      matrix[r * columns + c] = norm > 0 ? matrix[r * columns + c] / norm : 0;
+    }
+  }
+}
+
+/**
+ * Eigen-decomposition of a small symmetric matrix by cyclic Jacobi
+ * rotations. Returns eigenvalues and the eigenvectors as columns.
+ */
+function symmetricEigen(input: Float64Array, size: number) {
+  const a = Float64Array.from(input);
+  const vectors = new Float64Array(size * size);
+  for (let i = 0; i < size; i++) vectors[i * size + i] = 1;
+
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < size; p++) {
+      for (let q = p + 1; q < size; q++) offDiagonal += a[p * size + q] ** 2;
+    }
+    if (offDiagonal < 1e-20) break;
+
+    for (let p = 0; p < size; p++) {
+      for (let q = p + 1; q < size; q++) {
+        const apq = a[p * size + q];
+        if (Math.abs(apq) < 1e-300) continue;
+        const theta = (a[q * size + q] - a[p * size + p]) / (2 * apq);
+        const t =
+          Math.sign(theta || 1) /
+          (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < size; k++) {
+          const akp = a[k * size + p];
+          const akq = a[k * size + q];
+          a[k * size + p] = c * akp - s * akq;
+          a[k * size + q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < size; k++) {
+          const apk = a[p * size + k];
+          const aqk = a[q * size + k];
+          a[p * size + k] = c * apk - s * aqk;
+          a[q * size + k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < size; k++) {
+          const vkp = vectors[k * size + p];
+          const vkq = vectors[k * size + q];
+          vectors[k * size + p] = c * vkp - s * vkq;
+          vectors[k * size + q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  const values = Array.from({ length: size }, (_, i) => a[i * size + i]);
+  return { values, vectors };
+}
+
+/**
+ * Principal component analysis by randomized subspace iteration (Halko et
+ * al., 2011): a few passes of `X^T X` over a small random block, then an
+ * exact eigen-decomposition of the projected problem. The d×d covariance
+ * matrix is never built, so wide vectors stay cheap, and close eigenvalues
+ * converge together. Component signs are fixed so that each one's largest
+ * loading is positive.
+ */
+export function pca(rows: number[][], components = 2): PcaResult {
+  const n = rows.length;
+  const d = rows[0]?.length ?? 0;
+  const coordinates = rows.map(() => new Array<number>(components).fill(0));
+  const explainedVariance = new Array<number>(components).fill(0);
+  if (n < 2 || d === 0) return { coordinates, explainedVariance };
+
+  const mean = new Float64Array(d);
+  for (const row of rows) {
+    for (let j = 0; j < d; j++) mean[j] += row[j] / n;
+  }
+  const x = new Float64Array(n * d);
+  let totalVariance = 0;
+  rows.forEach((row, i) => {
+    for (let j = 0; j < d; j++) {
+      const value = row[j] - mean[j];
+      x[i * d + j] = value;
+      totalVariance += value * value;
+    }
+  });
+  if (totalVariance === 0) return { coordinates, explainedVariance };
+
+  const l = Math.min(components + OVERSAMPLING, n, d);
+  const random = mulberry32(42);
+
+  // X M for a d×l matrix M, and X^T M for an n×l one.
+  const times = (m: Float64Array) => {
+    const out = new Float64Array(n * l);
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < d; j++) {
+        const value = x[i * d + j];
+        if (value === 0) continue;
+        for (let c = 0; c < l; c++) out[i * l + c] += value * m[j * l + c];
+      }
+    }
+    return out;
+  };
+  const transposeTimes = (m: Float64Array) => {
+    const out = new Float64Array(d * l);
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < d; j++) {
+        const value = x[i * d + j];
+        if (value === 0) continue;
+        for (let c = 0; c < l; c++) out[j * l + c] += value * m[i * l + c];
+      }
+    }
+    return out;
+  };
+
+  let y = times(Float64Array.from({ length: d * l }, () => random() - 0.5));
+  orthonormalize(y, n, l);
+  for (let iteration = 0; iteration < POWER_ITERATIONS; iteration++) {
+    const z = transposeTimes(y);
+    orthonormalize(z, d, l);
+    y = times(z);
+    orthonormalize(y, n, l);
+  }
+
+  // B = Y^T X (l×d), stored transposed; its Gram matrix B B^T is l×l.
+  const bt = transposeTimes(y);
+  const gram = new Float64Array(l * l);
+  for (let j = 0; j < d; j++) {
+    for (let a = 0; a < l; a++) {
+      for (let b = a; b < l; b++)
+        gram[a * l + b] += bt[j * l + a] * bt[j * l + b];
+    }
+  }
+  for (let a = 0; a < l; a++) {
+    for (let b = 0; b < a; b++) gram[a * l + b] = gram[b * l + a];
+  }
+
+  const { values, vectors } = symmetricEigen(gram, l);
+  const order = values
+    .map((value, index) => ({ value, index }))
+    .sort((a, b) => b.value - a.value);
+
+  order.slice(0, components).forEach(({ value, index }, k) => {
+    if (value <= 0) return;
+    const u = Array.from({ length: l }, (_, a) => vectors[a * l + index]);
+    // Scores are Y u scaled by the singular value; the loadings B^T u only
+    // decide the sign.
+    let largest = 0;
+    for (let j = 0; j < d; j++) {
+      let loading = 0;
+      for (let a = 0; a < l; a++) loading += bt[j * l + a] * u[a];
+      if (Math.abs(loading) > Math.abs(largest)) largest = loading;
+    }
+    const sign = largest < 0 ? -1 : 1;
+    for (let i = 0; i < n; i++) {
+      let score = 0;
+      for (let a = 0; a < l; a++) score += y[i * l + a] * u[a];
+      coordinates[i][k] = sign * score * Math.sqrt(value);
+    }
+    explainedVariance[k] = value / totalVariance;
+  });
+  return { coordinates, explainedVariance };
+}
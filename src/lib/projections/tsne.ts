@@ -0,0 +1,195 @@
+import { setImmediate as yieldToEventLoop } from "node:timers/promises";
+
+const EARLY_EXAGGERATION = 12;
+const EXAGGERATION_ITERATIONS = 100;
+const MOMENTUM_SWITCH = 250;
+const LEARNING_RATE = 200;
+const MIN_GAIN = 0.01;
+/** Iterations between yields to the event loop and progress reports. */
+const ITERATIONS_PER_YIELD = 10;
+
+export interface TsneOptions {
+  perplexity?: number;
+  iterations?: number;
+  /**
+   * Starting layout, e.g. PCA coordinates. It is rescaled, so only its
+   * shape matters; starting from PCA keeps runs deterministic and keeps the
+   * global structure PCA found.
+   */
+  initial?: number[][];
+  /**
+   * Called with the fraction of iterations done every few iterations, after
+   * yielding to the event loop so timers (e.g. job heartbeats) can run. It
+   * may throw to stop the run.
+   */
+  onProgress?: (fraction: number) => Promise<void>;
+}
+
+function squaredDistances(rows: number[][]) {
+  const n = rows.length;
+  const norms = rows.map((row) => row.reduce((sum, v) => sum + v * v, 0));
+  const distances = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      let dot = 0;
+      const a = rows[i];
+      const b = rows[j];
+      for (let k = 0; k < a.length; k++) dot += a[k] * b[k];
+      const distance = Math.max(0, norms[i] + norms[j] - 2 * dot);
+      distances[i * n + j] = distance;
+      distances[j * n + i] = distance;
+    }
+  }
+  return distances;
+}
+
+/**
+ * Joint probabilities of the input points: a Gaussian around each point,
+ * its width found by binary search so that its entropy matches the
+ * perplexity, then symmetrised.
+ */
+function affinities(distances: Float64Array, n: number, perplexity: number) {
+  const target = Math.log(perplexity);
+  const conditional = new Float64Array(n * n);
+  const row = new Float64Array(n);
+
+  for (let i = 0; i < n; i++) {
+    let beta = 1;
+    let low = -Infinity;
+    let high = Infinity;
+    for (let attempt = 0; attempt < 50; attempt++) {
+      let sum = 0;
+      for (let j = 0; j < n; j++) {
+        row[j] = j === i ? 0 : Math.exp(-distances[i * n + j] * beta);
+        sum += row[j];
+      }
+      sum = Math.max(sum, 1e-12);
+      let weighted = 0;
+      for (let j = 0; j < n; j++) {
+        row[j] /= sum;
+        weighted += distances[i * n + j] * row[j];
+      }
+      const entropy = Math.log(sum) + beta * weighted;
+      const difference = entropy - target;
+      if (Math.abs(difference) < 1e-5) break;
+      if (difference > 0) {
+        low = beta;
+        beta = high === Infinity ? beta * 2 : (beta + high) / 2;
+      } else {
+        high = beta;
+        beta = low === -Infinity ? beta / 2 : (beta + low) / 2;
+      }
+    }
+    conditional.set(row, i * n);
+  }
+
+  const joint = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      joint[i * n + j] = Math.max(
+        (conditional[i * n + j] + conditional[j * n + i]) / (2 * n),
+        1e-12,
+      );
+    }
+  }
+  return joint;
+}
+
+/**
+ * Exact t-SNE to two dimensions (van der Maaten & Hinton, 2008), with early
+ * exaggeration, momentum and per-parameter gains. Quadratic in the number
+ * of points, so callers keep samples small.
+ */
+export async function tsne(
+  rows: number[][],
+  { perplexity = 30, iterations = 500, initial, onProgress }: TsneOptions = {},
+): Promise<number[][]> {
+  const n = rows.length;
+  if (n < 3) return rows.map((_, i) => initial?.[i] ?? [0, 0]);
+
+  const p = affinities(
+    squaredDistances(rows),
+    n,
+    Math.min(perplexity, (n - 1) / 3),
+  );
+
+  // Start from a tiny copy of the initial layout.
+  const y = new Float64Array(n * 2);
+  if (initial) {
+    let spread = 0;
+    initial.forEach(([a, b], i) => {
+      y[i * 2] = a;
+      y[i * 2 + 1] = b;
+      spread += a * a + b * b;
+    });
+    const scale = spread > 0 ? 1e-4 / Math.sqrt(spread / n) : 0;
+    for (let k = 0; k < y.length; k++) y[k] *= scale;
+  }
+  if (!initial || y.every((value) => value === 0)) {
+    for (let k = 0; k < y.length; k++) y[k] = 1e-4 * Math.sin(k + 1);
+  }
+
+  const update = new Float64Array(n * 2);
+  const gains = new Float64Array(n * 2).fill(1);
+  const attraction = new Float64Array(n * 2);
+  const repulsion = new Float64Array(n * 2);
+  const gradient = new Float64Array(n * 2);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    if (iteration > 0 && iteration % ITERATIONS_PER_YIELD === 0) {
+      await yieldToEventLoop();
+      await onProgress?.(iteration / iterations);
+    }
+
+    const exaggeration =
+      iteration < EXAGGERATION_ITERATIONS ? EARLY_EXAGGERATION : 1;
+    const momentum = iteration < MOMENTUM_SWITCH ? 0.5 : 0.8;
+
+    // The gradient is 4 Σ (p - q) t (yi - yj) with Student-t kernel t and
+    // q = t / Z; both halves are symmetric, so one pass over the pairs
+    // collects them before Z is known.
+    attraction.fill(0);
+    repulsion.fill(0);
+    let total = 0;
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const dx = y[i * 2] - y[j * 2];
+        const dy = y[i * 2 + 1] - y[j * 2 + 1];
+        const kernel = 1 / (1 + dx * dx + dy * dy);
+        total += 2 * kernel;
+        const pull = p[i * n + j] * kernel;
+        const push = kernel * kernel;
+        attraction[i * 2] += pull * dx;
+        attraction[i * 2 + 1] += pull * dy;
+        attraction[j * 2] -= pull * dx;
+        attraction[j * 2 + 1] -= pull * dy;
+        repulsion[i * 2] += push * dx;
+        repulsion[i * 2 + 1] += push * dy;
+        repulsion[j * 2] -= push * dx;
+        repulsion[j * 2 + 1] -= push * dy;
+      }
+    }
+    for (let k = 0; k < gradient.length; k++) {
+      gradient[k] = 4 * (exaggeration * attraction[k] - repulsion[k] / total);
+    }
+
+    let meanX = 0;
+    let meanY = 0;
+    for (let k = 0; k < y.length; k++) {
+      gains[k] =
+        Math.sign(gradient[k]) !== Math.sign(update[k])
+          ? gains[k] + 0.2
+          : Math.max(gains[k] * 0.8, MIN_GAIN);
+      update[k] = momentum * update[k] - LEARNING_RATE * gains[k] * gradient[k];
+      y[k] += update[k];
+      if (k % 2 === 0) meanX += y[k] / n;
+      else meanY += y[k] / n;
+    }
+    for (let i = 0; i < n; i++) {
+      y[i * 2] -= meanX;
+      y[i * 2 + 1] -= meanY;
+    }
+  }
+
+  return rows.map((_, i) => [y[i * 2], y[i * 2 + 1]]);
+}
@@ -0,0 +1,101 @@
+import { and, count, eq, gte, isNull, lte, sql, type SQL } from "drizzle-orm";
+import { db } from "@/db";
+import { projects, user } from "@/db/schema";
+import { cursorValue, keyset, toPage } from "@/lib/pagination";
+import type { ListProjectsQuery } from "@/lib/schemas/projects";
+
+const SORT_COLUMNS = {
+  createdAt: projects.createdAt,
+  updatedAt: projects.updatedAt,
+  name: projects.name,
+};
+
+// Same expression as the projects_search_idx index, so searches can use it.
+const searchDocument = sql`to_tsvector('simple', ${projects.name} || ' ' || coalesce(${projects.description}, ''))`;
+
+/**
+ * Prefix query over the words in `text`, so "vec sea" finds "Vector
+ * search". Returns null when there is nothing to search for.
+ */
+export function prefixQuery(text: string) {
+  const terms = text.match(/[\p{L}\p{N}]+/gu);
+  if (!terms) return null;
+  return terms.map((term) => `${term}:*`).join(" & ");
+}
+
+/**
+ * One page of the non-deleted projects matching `scope` (what the caller may
+ * see) and the list filters, with the owner joined in.
+ */
+export async function listProjects(scope: SQL, query: ListProjectsQuery) {
+  const direction = query.order ?? (query.sort === "name" ? "asc" : "desc");
+  const sort = `${query.sort}:${direction}`;
+  const page = keyset({
+    column: SORT_COLUMNS[query.sort],
+    direction,
+    tiebreaker: projects.id,
+    sort,
+    cursor: query.cursor,
+  });
+
+  const search = query.q ? prefixQuery(query.q) : null;
+  const where = and(
+    scope,
+    isNull(projects.deletedAt),
+    query.organizationId === "personal"
+      ? isNull(projects.organizationId)
+      : query.organizationId
+        ? eq(projects.organizationId, query.organizationId)
+        : undefined,
+    query.owner ? eq(projects.userId, query.owner) : undefined,
+    query.isActive === undefined
+      ? undefined
+      : eq(projects.isActive, query.isActive),
+    query.createdAfter
+      ? gte(projects.createdAt, query.createdAfter)
+      : undefined,
+    query.createdBefore
+      ? lte(projects.createdAt, query.createdBefore)
+      : undefined,
+    query.metadataKey
+      ? sql`${projects.metadata} ? ${query.metadataKey}`
+      : undefined,
+    search
+      ? sql`${searchDocument} @@ to_tsquery('simple', ${search})`
+      : undefined,
+  );
+
+  const [rows, [{ total }]] = await Promise.all([
+    db
+      .select({
+        id: projects.id,
+        name: projects.name,
+        description: projects.description,
+        organizationId: projects.organizationId,
+        isActive: projects.isActive,
+        metadata: projects.metadata,
+        createdAt: projects.createdAt,
+        updatedAt: projects.updatedAt,
+        user: {
+          id: user.id,
+          name: user.name,
+          email: user.email,
+        },
+        cursorValue: cursorValue(SORT_COLUMNS[query.sort]),
+      })
+      .from(projects)
+      .leftJoin(user, eq(projects.userId, user.id))
+      .where(and(where, page.where))
+      .orderBy(...page.orderBy)
+      .limit(query.limit + 1),
+    db.select({ total: count() }).from(projects).where(where),
+  ]);
+
+  return toPage(rows, {
+    cursor: page.cursor,
+    sort,
+    limit: query.limit,
+    total,
+    id: (row) => row.id,
+  });
+}
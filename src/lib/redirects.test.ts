@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { safeRedirectPath } from "./redirects";
+
+describe("safeRedirectPath", () => {
+  it("keeps same-origin paths", () => {
+    assert.equal(
+      safeRedirectPath("/dashboard/projects/1"),
+      "/dashboard/projects/1",
+    );
+    assert.equal(safeRedirectPath("/search?q=a#top"), "/search?q=a#top");
+  });
+
+  it("falls back when there is no path", () => {
+    assert.equal(safeRedirectPath(null), "/dashboard");
+    assert.equal(safeRedirectPath(undefined), "/dashboard");
+    assert.equal(safeRedirectPath("", "/home"), "/home");
+  });
+
+  it("rejects URLs that leave the origin", () => {
+    for (const value of [
+      "https://evil.com",
+      "//evil.com",
+      "/\\evil.com",
+      "\\/evil.com",
+      "/\t/evil.com",
+      "/\n/evil.com",
+      "/\r/evil.com",
+      "/\x00/evil.com",
+      "javascript:alert(1)",
+    ]) {
+      assert.equal(
+        safeRedirectPath(value),
+        "/dashboard",
+        JSON.stringify(value),
+      );
+    }
+  });
+});
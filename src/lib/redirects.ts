@@ -0,0 +1,23 @@
+// Any origin works: it only tells paths apart from URLs that leave it.
+const BASE_ORIGIN = "http://localhost";
+
+/**
+ * Returns `value` when it is a same-origin path, otherwise `fallback`, so a
+ * `?next=` parameter cannot send users to another site after signing in.
+ * Browsers read `\` as `/` and drop tabs and newlines, so `/\evil.com` and
+ * `/\t/evil.com` are rejected too.
+ */
+export function safeRedirectPath(
+  value: string | null | undefined,
+  fallback = "/dashboard",
+) {
+  if (!value || !value.startsWith("/") || /[\\\x00-\x1f\x7f]/.test(value)) {
+    return fallback;
+  }
+  try {
+    const url = new URL(value, BASE_ORIGIN);
+    return url.origin === BASE_ORIGIN ? value : fallback;
+  } catch {
+    return fallback;
+  }
+}
@@ -0,0 +1,19 @@
+import { z } from "zod";
+import { apiKeyScope } from "@/db/schema";
+import { idSchema } from "./common";
+
+export const apiKeyParams = z.object({
+  id: idSchema("project id"),
+  keyId: idSchema("key id"),
+});
+
+export const createApiKeySchema = z.object({
+  name: z
+    .string({ error: "Name is required" })
+    .trim()
+    .min(1, "Name is required")
+    .max(255, "Name must be at most 255 characters"),
+  scope: z.enum(apiKeyScope.enumValues, {
+    error: `Scope must be one of ${apiKeyScope.enumValues.join(", ")}`,
+  }),
+});
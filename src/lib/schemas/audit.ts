@@ -0,0 +1,49 @@
+import { z } from "zod";
+import { auditActorType } from "@/db/schema";
+import { AUDIT_ACTIONS, type AuditAction } from "@/lib/audit/labels";
+import { dateBound, idSchema, paginationQuery } from "./common";
+
+const actions = Object.keys(AUDIT_ACTIONS) as [AuditAction, ...AuditAction[]];
+
+export const AUDIT_EXPORT_FORMATS = ["csv", "jsonl"] as const;
+
+export type AuditExportFormat = (typeof AUDIT_EXPORT_FORMATS)[number];
+
+export const listAuditQuery = z.object({
+  ...paginationQuery,
+  action: z.enum(actions, { error: "Unknown audit action" }).optional(),
+  actorType: z
+    .enum(auditActorType.enumValues, {
+      error: `actorType must be one of ${auditActorType.enumValues.join(", ")}`,
+    })
+    .optional(),
+  // Substring of the actor's email or key name.
+  actor: z.string().trim().min(1).optional(),
+  targetType: z.string().min(1).optional(),
+  targetId: z.string().min(1).optional(),
+  projectId: idSchema("projectId").optional(),
+  from: dateBound.optional(),
+  // A bare date includes the whole day.
+  to: z
+    .preprocess(
+      (value) =>
+        typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)
+          ? `${value}T23:59:59.999Z`
+          : value,
+      dateBound,
+    )
+    .optional(),
+});
+
+export type ListAuditQuery = z.output<typeof listAuditQuery>;
+
+/** The same filters, for downloading every matching entry at once. */
+export const exportAuditQuery = listAuditQuery
+  .omit({ limit: true, cursor: true, order: true })
+  .extend({
+    format: z
+      .enum(AUDIT_EXPORT_FORMATS, { error: "format must be csv or jsonl" })
+      .default("csv"),
+  });
+
+export type ExportAuditQuery = z.output<typeof exportAuditQuery>;
@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { distanceMetric, indexMethod } from "@/db/schema";
+import { isValidCollectionName, MAX_DIMENSION } from "@/lib/collections";
+import { EMBEDDING_PROVIDERS } from "@/lib/embeddings";
+
+const metric = z.enum(distanceMetric.enumValues, {
+  error: `Metric must be one of ${distanceMetric.enumValues.join(", ")}`,
+});
+
+// Whether the provider is configured is checked by resolveEmbeddingConfig.
+const embedding = z.object({
+  provider: z.enum(EMBEDDING_PROVIDERS, {
+    error: `Embedding provider must be one of ${EMBEDDING_PROVIDERS.join(", ")}`,
+  }),
+  model: z
+    .string({ error: "Model must be a string" })
+    .min(1, "Model must be 1-128 characters")
+    .max(128, "Model must be 1-128 characters")
+    .optional(),
+});
+
+export const createCollectionSchema = z.object({
+  name: z
+    .string({ error: "Name is required" })
+    .refine(
+      isValidCollectionName,
+      "Name must be 1-64 letters, digits, underscores or hyphens, starting with a letter or digit",
+    ),
+  dimension: z
+    .int({ error: "Dimension must be an integer" })
+    .min(1, `Dimension must be an integer between 1 and ${MAX_DIMENSION}`)
+    .max(
+      MAX_DIMENSION,
+      `Dimension must be an integer between 1 and ${MAX_DIMENSION}`,
+    ),
+  metric: metric.default("cosine"),
+  embedding: embedding.optional(),
+});
+
+export const updateCollectionSchema = z.object({
+  // Checked against the stored dimension by the route; it cannot change.
+  dimension: z.int({ error: "Dimension must be an integer" }).optional(),
+  metric: metric.optional(),
+  // null turns server-side embedding off.
+  embedding: embedding.nullable().optional(),
+});
+
+const indexParams = {
+  m: z.int({ error: "m must be an integer" }).optional(),
+  efConstruction: z
+    .int({ error: "efConstruction must be an integer" })
+    .optional(),
+  lists: z.int({ error: "lists must be an integer" }).optional(),
+};
+
+const method = z.enum(indexMethod.enumValues, {
+  error: `Method must be one of ${indexMethod.enumValues.join(", ")}`,
+});
+
+// Ranges depend on each other (efConstruction >= 2 * m), so they are
+// checked by resolveIndexParams.
+export const createIndexSchema = z.object({ method, ...indexParams });
+
+export const rebuildIndexSchema = z.object({
+  method: method.optional(),
+  ...indexParams,
+});
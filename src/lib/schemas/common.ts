@@ -0,0 +1,69 @@
+import { z } from "zod";
+
+/**
+ * Positive integer id from a URL segment, query string or body. Strings are
+ * coerced, so the same schema serves `params` and JSON.
+ */
+export function idSchema(label: string) {
+  const message = `Invalid ${label}`;
+  return z.coerce
+    .number<string | number>({ error: message })
+    .int({ error: message })
+    .positive({ error: message });
+}
+
+/** "true"/"false" query flags; anything else is rejected. */
+export const booleanFlag = z
+  .stringbool({ error: "Must be true or false" })
+  .meta({ type: "boolean" });
+
+export const jsonObject = z.record(z.string(), z.unknown(), {
+  error: "Must be an object",
+});
+
+export const projectParams = z.object({ id: idSchema("project id") });
+
+export const collectionParams = z.object({
+  id: idSchema("project id"),
+  name: z.string(),
+});
+
+export const organizationParams = z.object({ id: idSchema("organization id") });
+
+/**
+ * First error message per top-level field, for showing next to form inputs.
+ */
+export function fieldErrors<K extends string>(error: z.ZodError) {
+  const errors: Partial<Record<K, string>> = {};
+  for (const issue of error.issues) {
+    const key = String(issue.path[0] ?? "") as K;
+    errors[key] ??= issue.message;
+  }
+  return errors;
+}
+
+export const MAX_PAGE_SIZE = 100;
+
+/** `limit` and `cursor` for keyset-paginated list endpoints. */
+export const paginationQuery = {
+  limit: z.coerce
+    .number<string | number>({
+      error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`,
+    })
+    .int({ error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` })
+    .min(1, `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`)
+    .max(
+      MAX_PAGE_SIZE,
+      `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`,
+    )
+    .default(20),
+  cursor: z.string().optional(),
+  order: z
+    .enum(["asc", "desc"], { error: "order must be asc or desc" })
+    .optional(),
+};
+
+/** Inclusive bounds on a timestamp, e.g. `?createdAfter=2024-01-01`. */
+export const dateBound = z.coerce
+  .date<string | Date>({ error: "Must be an ISO 8601 date or date-time" })
+  .meta({ type: "string", format: "date-time" });
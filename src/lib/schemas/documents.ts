@@ -0,0 +1,67 @@
+import { z } from "zod";
+import {
+  CHUNKING_STRATEGIES,
+  DOCUMENT_FORMATS,
+  MAX_CHUNK_SIZE,
+  MAX_DOCUMENT_BYTES,
+} from "@/lib/documents";
+import { idSchema } from "./common";
+
+export const documentParams = z.object({
+  id: idSchema("project id"),
+  documentId: z.string(),
+});
+
+const chunkSizeMessage = `chunkSize must be an integer between 16 and ${MAX_CHUNK_SIZE}`;
+
+// Multipart fields arrive as strings, so numbers are coerced; the same
+// schema serves JSON bodies and uploaded files (whose text becomes `text`).
+// Defaults, and whether the options fit together, are left to
+// resolveChunking, which also sees the current version on a re-upload.
+const documentFields = {
+  name: z
+    .string({ error: "Name is required" })
+    .trim()
+    .min(1, "Name must be 1-255 characters")
+    .max(255, "Name must be 1-255 characters"),
+  collection: z.string({ error: "collection is required" }),
+  text: z
+    .string({ error: "Provide a file or text" })
+    .refine((text) => text.trim().length > 0, "The document is empty")
+    .refine(
+      (text) => Buffer.byteLength(text) <= MAX_DOCUMENT_BYTES,
+      `Documents can be at most ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB`,
+    ),
+  format: z
+    .enum(DOCUMENT_FORMATS, {
+      error: `Format must be one of ${DOCUMENT_FORMATS.join(", ")}`,
+    })
+    .optional(),
+  strategy: z
+    .enum(CHUNKING_STRATEGIES, {
+      error: `Strategy must be one of ${CHUNKING_STRATEGIES.join(", ")}`,
+    })
+    .optional(),
+  chunkSize: z.coerce
+    .number<string | number>({ error: chunkSizeMessage })
+    .int({ error: chunkSizeMessage })
+    .min(16, chunkSizeMessage)
+    .max(MAX_CHUNK_SIZE, chunkSizeMessage)
+    .optional(),
+  chunkOverlap: z.coerce
+    .number<string | number>({
+      error: "chunkOverlap must be a non-negative integer",
+    })
+    .int({ error: "chunkOverlap must be a non-negative integer" })
+    .min(0, "chunkOverlap must be a non-negative integer")
+    .optional(),
+};
+
+export const createDocumentSchema = z.object(documentFields);
+
+// A re-upload keeps the name and collection unless they are given.
+export const replaceDocumentSchema = z.object({
+  ...documentFields,
+  name: documentFields.name.optional(),
+  collection: documentFields.collection.optional(),
+});
@@ -0,0 +1,12 @@
+import { z } from "zod";
+import { jobStatus } from "@/db/schema";
+import { idSchema } from "./common";
+
+export const listJobsQuery = z.object({
+  projectId: idSchema("projectId").optional(),
+  status: z
+    .enum(jobStatus.enumValues, {
+      error: `Status must be one of ${jobStatus.enumValues.join(", ")}`,
+    })
+    .optional(),
+});
@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { memberRole as memberRoleEnum } from "@/db/schema";
+import { idSchema } from "./common";
+
+const organizationName = z
+  .string({ error: "Name is required" })
+  .trim()
+  .min(1, "Name is required")
+  .max(255, "Name must be at most 255 characters");
+
+const memberRole = z.enum(memberRoleEnum.enumValues, {
+  error: `Role must be one of ${memberRoleEnum.enumValues.join(", ")}`,
+});
+
+export const organizationSchema = z.object({ name: organizationName });
+
+export const memberParams = z.object({
+  id: idSchema("organization id"),
+  userId: z.string(),
+});
+
+export const updateMemberSchema = z.object({ role: memberRole });
+
+export const createInvitationSchema = z.object({
+  email: z.email({ error: "A valid email is required" }),
+  role: memberRole.default("viewer"),
+});
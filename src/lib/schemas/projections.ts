@@ -0,0 +1,36 @@
+import { z } from "zod";
+import { projectionMethod } from "@/db/schema";
+import {
+  DEFAULT_SAMPLE_SIZE,
+  MAX_SAMPLE_SIZE,
+  MAX_TSNE_SAMPLE_SIZE,
+} from "@/lib/projections";
+
+const MIN_SAMPLE_SIZE = 10;
+
+const sampleSizeError = `sampleSize must be an integer between ${MIN_SAMPLE_SIZE} and ${MAX_SAMPLE_SIZE}`;
+
+// Query string for GET and body for POST, so strings are coerced. A
+// projection is cached per method and sample size, so both identify it.
+export const projectionSchema = z
+  .object({
+    method: z
+      .enum(projectionMethod.enumValues, {
+        error: `method must be one of ${projectionMethod.enumValues.join(", ")}`,
+      })
+      .default("pca"),
+    sampleSize: z.coerce
+      .number<string | number>({ error: sampleSizeError })
+      .int({ error: sampleSizeError })
+      .min(MIN_SAMPLE_SIZE, sampleSizeError)
+      .max(MAX_SAMPLE_SIZE, sampleSizeError)
+      .default(DEFAULT_SAMPLE_SIZE),
+  })
+  .refine(
+    ({ method, sampleSize }) =>
+      method !== "tsne" || sampleSize <= MAX_TSNE_SAMPLE_SIZE,
+    {
+      message: `t-SNE takes at most ${MAX_TSNE_SAMPLE_SIZE} points`,
+      path: ["sampleSize"],
+    },
+  );
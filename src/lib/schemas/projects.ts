@@ -0,0 +1,105 @@
+import { z } from "zod";
+import {
+  booleanFlag,
+  dateBound,
+  idSchema,
+  jsonObject,
+  paginationQuery,
+} from "./common";
+
+// Shared by the API routes and the dashboard's project dialogs; keep this
+// module free of server-only imports.
+
+export const MAX_PROJECT_NAME_LENGTH = 255;
+
+const projectName = z
+  .string({ error: "Name is required" })
+  .trim()
+  .min(1, "Name is required")
+  .max(
+    MAX_PROJECT_NAME_LENGTH,
+    `Name must be at most ${MAX_PROJECT_NAME_LENGTH} characters`,
+  );
+
+export const createProjectSchema = z.object({
+  name: projectName,
+  description: z.string().nullish(),
+  metadata: jsonObject.nullish(),
+  organizationId: idSchema("organization id").nullish(),
+});
+
+export const updateProjectSchema = z.object({
+  name: projectName.optional(),
+  description: z.string().nullish(),
+  isActive: z.boolean({ error: "isActive must be a boolean" }).optional(),
+  metadata: jsonObject.nullish(),
+});
+
+export const PROJECT_SORTS = ["createdAt", "updatedAt", "name"] as const;
+
+export type ProjectSort = (typeof PROJECT_SORTS)[number];
+
+export const listProjectsQuery = z.object({
+  ...paginationQuery,
+  sort: z
+    .enum(PROJECT_SORTS, {
+      error: `sort must be one of ${PROJECT_SORTS.join(", ")}`,
+    })
+    .default("createdAt"),
+  q: z.string().trim().optional(),
+  organizationId: z
+    .union([z.literal("personal"), idSchema("organizationId")])
+    .optional(),
+  owner: z.string().min(1).optional(),
+  isActive: booleanFlag.optional(),
+  createdAfter: dateBound.optional(),
+  createdBefore: dateBound.optional(),
+  metadataKey: z.string().min(1).optional(),
+});
+
+export type ListProjectsQuery = z.output<typeof listProjectsQuery>;
+
+export const projectQuery = z.object({
+  includeDeleted: booleanFlag.default(false),
+});
+
+/**
+ * The create/edit dialog. Metadata is typed as JSON text; an empty field
+ * clears it.
+ */
+export const projectFormSchema = z.object({
+  name: projectName,
+  description: z
+    .string()
+    .trim()
+    .transform((value) => value || null),
+  metadata: z
+    .string()
+    .trim()
+    .transform((text, ctx): Record<string, unknown> | null => {
+      if (!text) return null;
+      try {
+        const parsed = JSON.parse(text);
+        if (
+          typeof parsed === "object" &&
+          parsed !== null &&
+          !Array.isArray(parsed)
+        ) {
+          return parsed;
+        }
+        ctx.addIssue({
+          code: "custom",
+          message: "Metadata must be a JSON object",
+        });
+      } catch {
+        ctx.addIssue({ code: "custom", message: "Metadata is not valid JSON" });
+      }
+      return z.NEVER;
+    }),
+});
+
+export type ProjectFormValues = z.output<typeof projectFormSchema>;
+
+export type ProjectFormErrors = Partial<
+  Record<keyof ProjectFormValues, string>
+>;
@@ -0,0 +1,443 @@
+import { z } from "zod";
+import {
+  apiKeyScope,
+  auditActorType,
+  distanceMetric,
+  documentFormat,
+  documentStatus,
+  indexMethod,
+  indexStatus,
+  jobStatus,
+  memberRole,
+  projectionMethod,
+  queryMode,
+  snapshotStatus,
+} from "@/db/schema";
+import { API_ERROR_CODES } from "@/lib/api-errors";
+import { EMBEDDING_PROVIDERS } from "@/lib/embeddings/types";
+
+// Shapes of what the API returns. Routes do not validate their output
+// against these; they document it for the OpenAPI spec and type the API
+// client, so keep them in step with the route handlers.
+
+const timestamp = z.iso.datetime();
+const json = z.record(z.string(), z.unknown());
+
+export const errorResponse = z.object({
+  error: z.object({
+    code: z.enum(API_ERROR_CODES),
+    message: z.string(),
+    details: z
+      .array(
+        z.object({
+          path: z.array(z.union([z.string(), z.number()])),
+          message: z.string(),
+        }),
+      )
+      .optional(),
+  }),
+});
+
+export const pageInfo = z.object({
+  total: z.int(),
+  limit: z.int(),
+  nextCursor: z.string().nullable(),
+  prevCursor: z.string().nullable(),
+});
+
+function pageOf<T extends z.ZodType>(item: T) {
+  return z.object({ data: z.array(item), pageInfo });
+}
+
+export const userSummary = z.object({
+  id: z.string(),
+  name: z.string(),
+  email: z.string(),
+});
+
+export const userResponse = z.object({
+  id: z.string(),
+  name: z.string(),
+  email: z.string(),
+  emailVerified: z.boolean(),
+  image: z.string().nullable(),
+  role: z.string().nullable(),
+  banned: z.boolean().nullable(),
+  banReason: z.string().nullable(),
+  banExpires: timestamp.nullable(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+export const userPage = pageOf(userResponse);
+
+export const userSessionResponse = z.object({
+  id: z.string(),
+  ipAddress: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  impersonatedBy: z
+    .string()
+    .nullable()
+    .meta({ description: "Id of the admin impersonating the user" }),
+  createdAt: timestamp,
+  expiresAt: timestamp,
+});
+
+export const userDetails = userResponse.extend({
+  accounts: z.array(
+    z.object({
+      id: z.string(),
+      providerId: z
+        .string()
+        .meta({ description: '"credential" for email and password' }),
+      accountId: z.string(),
+      hasPassword: z.boolean(),
+      createdAt: timestamp,
+    }),
+  ),
+  sessions: z.array(userSessionResponse),
+});
+
+export const projectResponse = z.object({
+  id: z.int(),
+  name: z.string(),
+  description: z.string().nullable(),
+  userId: z.string(),
+  organizationId: z.int().nullable(),
+  isActive: z.boolean(),
+  metadata: json.nullable(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  deletedAt: timestamp.nullable(),
+});
+
+export const projectListItem = projectResponse
+  .omit({ userId: true, deletedAt: true })
+  .extend({ user: userSummary.nullable() });
+
+export const projectPage = pageOf(projectListItem);
+
+export const projectDetails = projectResponse
+  .omit({ userId: true })
+  .extend({ user: userSummary.nullable() });
+
+const role = z.enum(memberRole.enumValues);
+
+export const organizationResponse = z.object({
+  id: z.int(),
+  name: z.string(),
+  slug: z.string(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+export const organizationMembership = z.object({
+  id: z.int(),
+  name: z.string(),
+  slug: z.string(),
+  role,
+  createdAt: timestamp,
+});
+
+export const memberResponse = z.object({
+  userId: z.string(),
+  role,
+  joinedAt: timestamp,
+  name: z.string(),
+  email: z.string(),
+});
+
+export const membershipResponse = z.object({
+  organizationId: z.int(),
+  userId: z.string(),
+  role,
+  createdAt: timestamp,
+});
+
+export const invitationResponse = z.object({
+  id: z.int(),
+  email: z.string(),
+  role,
+  expiresAt: timestamp,
+  createdAt: timestamp,
+});
+
+export const apiKeyResponse = z.object({
+  id: z.int(),
+  projectId: z.int(),
+  name: z.string(),
+  scope: z.enum(apiKeyScope.enumValues),
+  prefix: z.string(),
+  createdBy: z.string().nullable(),
+  lastUsedAt: timestamp.nullable(),
+  revokedAt: timestamp.nullable(),
+  createdAt: timestamp,
+});
+
+export const createdApiKeyResponse = apiKeyResponse.extend({
+  key: z.string().meta({ description: "Shown once; not stored" }),
+});
+
+export const collectionResponse = z.object({
+  id: z.int(),
+  projectId: z.int(),
+  name: z.string(),
+  dimension: z.int(),
+  metric: z.enum(distanceMetric.enumValues),
+  embedding: z
+    .object({ provider: z.enum(EMBEDDING_PROVIDERS), model: z.string() })
+    .nullable(),
+  version: z.int().meta({
+    description: "Goes up whenever items are written or deleted.",
+  }),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+const indexRow = z.object({
+  id: z.int(),
+  collectionId: z.int(),
+  method: z.enum(indexMethod.enumValues),
+  params: z.object({
+    m: z.int().optional(),
+    efConstruction: z.int().optional(),
+    lists: z.int().optional(),
+  }),
+  status: z.enum(indexStatus.enumValues),
+  error: z.string().nullable(),
+  builtAt: timestamp.nullable(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+export const indexResponse = indexRow.extend({
+  name: z.string(),
+  sizeBytes: z.int().nullable(),
+  progress: z
+    .object({ phase: z.string(), percent: z.number().nullable() })
+    .nullable(),
+});
+
+export const indexBuildResponse = indexRow.extend({ jobId: z.uuid() });
+
+export const collectionDetails = collectionResponse.extend({
+  itemCount: z.int(),
+  index: indexResponse.nullable(),
+});
+
+export const vectorItemResponse = z.object({
+  id: z.string(),
+  vector: z.array(z.number()),
+  metadata: json.nullable(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+export const upsertResponse = z.object({
+  upserted: z.int(),
+  failed: z.int(),
+  results: z.array(
+    z.object({
+      index: z.int(),
+      id: z.string().nullable(),
+      status: z.enum(["ok", "error"]),
+      error: z.string().optional(),
+    }),
+  ),
+});
+
+export const fetchVectorsResponse = z.object({
+  items: z.array(vectorItemResponse),
+  missing: z.array(z.string()),
+});
+
+export const deleteVectorsResponse = z.object({ deleted: z.int() });
+
+export const queryResponse = z.object({
+  metric: z.enum(distanceMetric.enumValues),
+  matches: z.array(
+    z.object({
+      id: z.string(),
+      score: z.number(),
+      distance: z.number(),
+      metadata: json.nullable(),
+      vector: z.array(z.number()).optional(),
+    }),
+  ),
+});
+
+const retrieverContribution = z.object({
+  rank: z.int().nullable(),
+  score: z.number(),
+  contribution: z.number(),
+});
+
+export const hybridQueryResponse = z.object({
+  metric: z.enum(distanceMetric.enumValues),
+  fusion: z.enum(["rrf", "weighted"]),
+  retrievers: z.object({
+    vector: z.object({ candidates: z.int() }),
+    keyword: z.object({ candidates: z.int() }),
+  }),
+  matches: z.array(
+    z.object({
+      id: z.string(),
+      score: z.number(),
+      distance: z.number(),
+      metadata: json.nullable(),
+      vector: z.array(z.number()).optional(),
+      contributions: z.object({
+        vector: retrieverContribution,
+        keyword: retrieverContribution,
+      }),
+    }),
+  ),
+});
+
+export const savedQueryResponse = z.object({
+  id: z.int(),
+  projectId: z.int(),
+  collectionId: z.int(),
+  name: z.string(),
+  mode: z.enum(queryMode.enumValues),
+  query: json,
+  createdBy: z.string().nullable(),
+  createdAt: timestamp,
+});
+
+export const projectionResponse = z.object({
+  method: z.enum(projectionMethod.enumValues),
+  sampleSize: z.int(),
+  collectionVersion: z.int(),
+  explainedVariance: z.tuple([z.number(), z.number()]).nullable().meta({
+    description: "Share of the sample's variance along each PCA axis",
+  }),
+  computedAt: timestamp,
+  points: z.array(
+    z.object({
+      id: z.string(),
+      x: z.number(),
+      y: z.number(),
+      metadata: json
+        .nullable()
+        .meta({ description: "null if the item was deleted since" }),
+    }),
+  ),
+});
+
+export const importReport = z.object({
+  total: z.int(),
+  imported: z.int(),
+  failed: z.int(),
+  errors: z.array(
+    z.object({ row: z.int(), id: z.string().nullable(), error: z.string() }),
+  ),
+  errorsTruncated: z.boolean(),
+});
+
+export const jobResponse = z.object({
+  id: z.uuid(),
+  projectId: z.int(),
+  type: z.string(),
+  payload: json,
+  status: z.enum(jobStatus.enumValues),
+  progress: z.number().meta({ description: "Fraction complete, 0 to 1" }),
+  attempts: z.int(),
+  maxAttempts: z.int(),
+  runAt: timestamp,
+  lockedBy: z.string().nullable(),
+  lockedAt: timestamp.nullable(),
+  cancelRequestedAt: timestamp.nullable(),
+  error: z.string().nullable(),
+  result: json.nullable(),
+  createdBy: z.string().nullable(),
+  createdAt: timestamp,
+  startedAt: timestamp.nullable(),
+  finishedAt: timestamp.nullable(),
+  updatedAt: timestamp,
+});
+
+export const jobListItem = jobResponse.extend({ projectName: z.string() });
+
+export const snapshotResponse = z.object({
+  id: z.uuid(),
+  projectId: z.int(),
+  collectionName: z.string().nullable(),
+  status: z.enum(snapshotStatus.enumValues),
+  artifactKey: z.string().nullable(),
+  sizeBytes: z.int().nullable(),
+  itemCount: z.int().nullable(),
+  error: z.string().nullable(),
+  createdBy: z.string().nullable(),
+  createdAt: timestamp,
+  completedAt: timestamp.nullable(),
+});
+
+export const snapshotExportResponse = snapshotResponse.extend({
+  jobId: z.uuid(),
+});
+
+export const documentResponse = z.object({
+  id: z.uuid(),
+  projectId: z.int(),
+  collection: z.string(),
+  name: z.string(),
+  format: z.enum(documentFormat.enumValues),
+  sizeBytes: z.int(),
+  chunking: z.object({
+    strategy: z.enum(["tokens", "markdown", "html"]),
+    chunkSize: z.int(),
+    chunkOverlap: z.int(),
+  }),
+  status: z.enum(documentStatus.enumValues),
+  error: z.string().nullable(),
+  version: z.int(),
+  chunkCount: z.int(),
+  createdBy: z.string().nullable(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+export const documentUploadResponse = documentResponse.extend({
+  jobId: z.uuid(),
+});
+
+export const documentDetails = documentResponse.extend({
+  chunks: z.array(
+    z.object({
+      index: z.int(),
+      itemId: z.string(),
+      heading: z.string().nullable(),
+      tokenCount: z.int(),
+      text: z.string(),
+    }),
+  ),
+});
+
+export const restoreResponse = z.object({
+  collections: z.array(z.object({ name: z.string(), report: importReport })),
+});
+
+export const auditEntryResponse = z.object({
+  id: z.int(),
+  actorType: z.enum(auditActorType.enumValues),
+  actorUserId: z.string().nullable(),
+  actorApiKeyId: z.int().nullable(),
+  actorLabel: z.string(),
+  action: z.string(),
+  targetType: z.string(),
+  targetId: z.string(),
+  organizationId: z.int().nullable(),
+  projectId: z.int().nullable(),
+  before: json
+    .nullable()
+    .meta({ description: "Changed fields before; null for creations" }),
+  after: json
+    .nullable()
+    .meta({ description: "Changed fields after; null for deletions" }),
+  ipAddress: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  createdAt: timestamp,
+});
+
+export const auditPage = pageOf(auditEntryResponse);
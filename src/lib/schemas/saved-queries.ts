@@ -0,0 +1,38 @@
+import { z } from "zod";
+import { queryMode } from "@/db/schema";
+import { idSchema, jsonObject } from "./common";
+import { hybridQuerySchema, querySchema } from "./vectors";
+
+export const savedQueryParams = z.object({
+  id: idSchema("project id"),
+  name: z.string(),
+  queryId: idSchema("saved query id"),
+});
+
+// The query is stored as sent, but has to be one the endpoint of its mode
+// would accept.
+export const createSavedQuerySchema = z
+  .object({
+    name: z
+      .string({ error: "Name is required" })
+      .trim()
+      .min(1, "Name is required")
+      .max(255, "Name must be at most 255 characters"),
+    mode: z
+      .enum(queryMode.enumValues, {
+        error: `mode must be one of ${queryMode.enumValues.join(", ")}`,
+      })
+      .default("vector"),
+    query: jsonObject,
+  })
+  .superRefine(({ mode, query }, context) => {
+    const schema = mode === "hybrid" ? hybridQuerySchema : querySchema;
+    const result = schema.safeParse(query);
+    for (const issue of result.error?.issues ?? []) {
+      context.addIssue({
+        code: "custom",
+        message: issue.message,
+        path: ["query", ...issue.path],
+      });
+    }
+  });
@@ -0,0 +1,11 @@
+import { z } from "zod";
+import { idSchema } from "./common";
+
+export const snapshotParams = z.object({
+  id: idSchema("project id"),
+  snapshotId: z.string(),
+});
+
+export const createSnapshotSchema = z.object({
+  collection: z.string({ error: "collection must be a string" }).nullish(),
+});
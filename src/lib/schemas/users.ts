@@ -0,0 +1,59 @@
+import { z } from "zod";
+import { booleanFlag, dateBound, paginationQuery } from "./common";
+
+/** Site-wide roles; "admin" opens the admin console. */
+export const USER_ROLES = ["user", "admin"] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+const userRole = z.enum(USER_ROLES, {
+  error: `role must be one of ${USER_ROLES.join(", ")}`,
+});
+
+export const userParams = z.object({
+  userId: z.string().min(1, "Invalid user id"),
+});
+
+export const userSessionParams = z.object({
+  userId: z.string().min(1, "Invalid user id"),
+  sessionId: z.string().min(1, "Invalid session id"),
+});
+
+export const USER_SORTS = ["createdAt", "name", "email"] as const;
+
+export const listUsersQuery = z.object({
+  ...paginationQuery,
+  sort: z
+    .enum(USER_SORTS, {
+      error: `sort must be one of ${USER_SORTS.join(", ")}`,
+    })
+    .default("name"),
+  q: z.string().trim().optional(),
+  role: userRole.optional(),
+  banned: booleanFlag.optional(),
+  emailVerified: booleanFlag.optional(),
+  createdAfter: dateBound.optional(),
+  createdBefore: dateBound.optional(),
+});
+
+export type ListUsersQuery = z.output<typeof listUsersQuery>;
+
+export const updateUserSchema = z.object({ role: userRole });
+
+export const banUserSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .max(500, "Reason must be 500 characters or fewer")
+    .optional(),
+  // Omitted for a ban that lasts until lifted.
+  expiresAt: dateBound
+    .refine((date) => date > new Date(), "expiresAt must be in the future")
+    .optional(),
+});
+
+export const impersonateSchema = z.object({
+  userId: z
+    .string({ error: "userId is required" })
+    .min(1, "userId is required"),
+});
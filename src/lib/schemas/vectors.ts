@@ -0,0 +1,173 @@
+import { z } from "zod";
+import { MAX_TEXT_LENGTH } from "@/lib/embeddings";
+import type { MetadataFilter } from "@/lib/filters";
+import {
+  DEFAULT_RRF_K,
+  FUSION_METHODS,
+  MAX_TOP_K,
+  TEXT_SEARCH_LANGUAGES,
+} from "@/lib/search";
+import { MAX_BATCH_SIZE } from "@/lib/vectors";
+import { booleanFlag } from "./common";
+
+// Filters are validated by compileFilter, which reports the offending path.
+const metadataFilter = z.custom<MetadataFilter>(
+  (value) => value !== undefined && value !== null,
+  "filter must not be null",
+);
+
+// Items are checked one by one by upsertItems so a bad item does not fail
+// the batch; only the envelope is validated here.
+export const upsertVectorsSchema = z.object({
+  items: z
+    .array(z.unknown(), { error: "items must be a non-empty array" })
+    .min(1, "items must be a non-empty array")
+    .max(
+      MAX_BATCH_SIZE,
+      `At most ${MAX_BATCH_SIZE} items can be upserted at once`,
+    ),
+});
+
+// `?ids=a,b` and `?ids=a&ids=b` are both accepted.
+export const fetchVectorsQuery = z.object({
+  ids: z
+    .union([z.string(), z.array(z.string())], {
+      error: "At least one id is required",
+    })
+    .transform((value) =>
+      [value]
+        .flat()
+        .flatMap((ids) => ids.split(","))
+        .filter(Boolean),
+    )
+    .pipe(
+      z
+        .array(z.string())
+        .min(1, "At least one id is required")
+        .max(
+          MAX_BATCH_SIZE,
+          `At most ${MAX_BATCH_SIZE} items can be fetched at once`,
+        ),
+    ),
+});
+
+export const deleteVectorsSchema = z.union(
+  [
+    z.object({
+      ids: z
+        .array(z.string(), {
+          error: "ids must be a non-empty array of strings",
+        })
+        .min(1, "ids must be a non-empty array of strings")
+        .max(
+          MAX_BATCH_SIZE,
+          `At most ${MAX_BATCH_SIZE} items can be deleted by id at once`,
+        ),
+    }),
+    z.object({ filter: metadataFilter }),
+  ],
+  { error: "Provide either ids or a metadata filter" },
+);
+
+const queryFields = z.object({
+  vector: z
+    .array(
+      // z.number() already rejects NaN and Infinity.
+      z.number({ error: "vector must be an array of finite numbers" }),
+      { error: "vector must be an array of finite numbers" },
+    )
+    .optional(),
+  text: z
+    .string({ error: "text must be a string" })
+    .trim()
+    .min(1, "text must not be empty")
+    .max(MAX_TEXT_LENGTH, `text must be at most ${MAX_TEXT_LENGTH} characters`)
+    .optional(),
+  topK: z
+    .int({ error: `topK must be an integer between 1 and ${MAX_TOP_K}` })
+    .min(1, `topK must be an integer between 1 and ${MAX_TOP_K}`)
+    .max(MAX_TOP_K, `topK must be an integer between 1 and ${MAX_TOP_K}`)
+    .default(10),
+  filter: metadataFilter.optional(),
+  includeVectors: z.boolean().default(false),
+  efSearch: z
+    .int({ error: "efSearch must be an integer between 1 and 1000" })
+    .min(1, "efSearch must be an integer between 1 and 1000")
+    .max(1000, "efSearch must be an integer between 1 and 1000")
+    .optional(),
+  probes: z
+    .int({ error: "probes must be an integer between 1 and 32768" })
+    .min(1, "probes must be an integer between 1 and 32768")
+    .max(32768, "probes must be an integer between 1 and 32768")
+    .optional(),
+});
+
+const hasOneQuery = (query: { vector?: unknown; text?: unknown }) =>
+  (query.vector === undefined) !== (query.text === undefined);
+const oneQueryError = {
+  error: "Provide either a vector or a text to embed",
+  path: ["vector"],
+};
+
+export const querySchema = queryFields.refine(hasOneQuery, oneQueryError);
+
+const fusionWeight = z
+  .number({ error: "weights must be numbers between 0 and 1" })
+  .min(0, "weights must be numbers between 0 and 1")
+  .max(1, "weights must be numbers between 0 and 1");
+
+export const hybridQuerySchema = queryFields
+  .extend({
+    keywords: z
+      .string({ error: "keywords must be a string" })
+      .trim()
+      .min(1, "keywords must not be empty")
+      .max(1000, "keywords must be at most 1000 characters")
+      .optional(),
+    field: z
+      .string({ error: "field must be a dot-separated path" })
+      .regex(/^[^.]+(\.[^.]+)*$/, "field must be a dot-separated path")
+      .default("text"),
+    language: z.enum(TEXT_SEARCH_LANGUAGES).default("english"),
+    fusion: z.enum(FUSION_METHODS).default("rrf"),
+    weights: z
+      .object({
+        vector: fusionWeight.default(0.5),
+        keyword: fusionWeight.default(0.5),
+      })
+      .refine((weights) => weights.vector + weights.keyword > 0, {
+        error: "At least one weight must be positive",
+      })
+      .default({ vector: 0.5, keyword: 0.5 }),
+    rrfK: z
+      .int({ error: "rrfK must be an integer between 1 and 1000" })
+      .min(1, "rrfK must be an integer between 1 and 1000")
+      .max(1000, "rrfK must be an integer between 1 and 1000")
+      .default(DEFAULT_RRF_K),
+    candidates: z
+      .int({
+        error: `candidates must be an integer between 1 and ${MAX_TOP_K}`,
+      })
+      .min(1, `candidates must be an integer between 1 and ${MAX_TOP_K}`)
+      .max(
+        MAX_TOP_K,
+        `candidates must be an integer between 1 and ${MAX_TOP_K}`,
+      )
+      .optional(),
+  })
+  .refine(hasOneQuery, oneQueryError)
+  .refine((query) => query.keywords !== undefined || query.text !== undefined, {
+    error: "Provide keywords to search for, or a text to use as keywords",
+    path: ["keywords"],
+  });
+
+/** Query string of a raw (non-multipart) import. */
+export const rawImportQuery = z.object({
+  format: z.enum(["jsonl", "csv"], {
+    error:
+      "Raw uploads need ?format=jsonl or ?format=csv; send .npy files as multipart",
+  }),
+  idColumn: z.string().optional(),
+  vectorColumn: z.string().optional(),
+  background: booleanFlag.default(false),
+});
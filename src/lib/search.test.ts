@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import type { FusionCandidate } from "./search";
+
+const env = process.env as Record<string, string | undefined>;
+// The search module opens a (lazy) connection that fusion never uses.
+env.DATABASE_URL ??= "postgres://localhost/unused";
+
+let fuseCandidates: typeof import("./search").fuseCandidates;
+
+function candidate(
+  id: string,
+  vectorScore: number,
+  keywordScore = 0,
+): FusionCandidate {
+  return { id, vectorScore, keywordScore };
+}
+
+function assertClose(actual: number, expected: number) {
+  assert.ok(
+    Math.abs(actual - expected) < 1e-12,
+    `expected ${actual} to be ${expected}`,
+  );
+}
+
+before(async () => {
+  ({ fuseCandidates } = await import("./search"));
+});
+
+describe("reciprocal rank fusion", () => {
+  const candidates = [
+    candidate("a", 0.9),
+    candidate("b", 0.8),
+    candidate("c", 0.7, 0.5),
+    candidate("d", 0.1, 0.2),
+  ];
+  const hits = { vectorIds: ["a", "b", "c"], keywordIds: ["c", "d"] };
+
+  it("adds weight / (k + rank) for each retriever that returned an item", () => {
+    const fused = fuseCandidates(candidates, hits, {
+      fusion: "rrf",
+      weights: { vector: 1, keyword: 1 },
+      rrfK: 60,
+    });
+
+    // b and d tie on 1/62; the closer vector wins.
+    assert.deepEqual(
+      fused.map((match) => match.id),
+      ["c", "a", "b", "d"],
+    );
+    assertClose(fused[0].score, 1 / 63 + 1 / 61);
+    assert.deepEqual(fused[0].contributions, {
+      vector: { rank: 3, score: 0.7, contribution: 1 / 63 },
+      keyword: { rank: 1, score: 0.5, contribution: 1 / 61 },
+    });
+    assert.deepEqual(fused[3].contributions.vector, {
+      rank: null,
+      score: 0.1,
+      contribution: 0,
+    });
+  });
+
+  it("scales each retriever by its weight", () => {
+    const fused = fuseCandidates(candidates, hits, {
+      fusion: "rrf",
+      weights: { vector: 1, keyword: 0 },
+      rrfK: 60,
+    });
+
+    assert.deepEqual(
+      fused.map((match) => match.id),
+      ["a", "b", "c", "d"],
+    );
+    assert.equal(fused[3].score, 0);
+  });
+
+  it("flattens rank differences as k grows", () => {
+    const spread = (rrfK: number) => {
+      const fused = fuseCandidates(candidates, hits, {
+        fusion: "rrf",
+        weights: { vector: 1, keyword: 1 },
+        rrfK,
+      });
+      return fused[0].score - fused[fused.length - 1].score;
+    };
+
+    assert.ok(spread(1) > spread(60));
+  });
+});
+
+describe("weighted fusion", () => {
+  it("blends normalised scores in proportion to the weights", () => {
+    const fused = fuseCandidates(
+      [candidate("c", 0.1, 0.2), candidate("a", 0.9), candidate("b", 0.5, 0.4)],
+      { vectorIds: ["a", "b", "c"], keywordIds: ["b", "c"] },
+      { fusion: "weighted", weights: { vector: 3, keyword: 1 }, rrfK: 60 },
+    );
+
+    assert.deepEqual(
+      fused.map((match) => match.id),
+      ["a", "b", "c"],
+    );
+    // Vector scores are min-max normalised, keyword ranks divided by the best.
+    assertClose(fused[0].score, 0.75);
+    assertClose(fused[1].contributions.vector.contribution, 0.75 * 0.5);
+    assertClose(fused[1].contributions.keyword.contribution, 0.25);
+    assertClose(fused[2].score, 0.25 * 0.5);
+    assert.equal(fused[1].contributions.keyword.rank, 1);
+  });
+
+  it("copes with equal vector scores and no keyword matches", () => {
+    const fused = fuseCandidates(
+      [candidate("a", 0.5), candidate("b", 0.5)],
+      { vectorIds: ["a", "b"], keywordIds: [] },
+      { fusion: "weighted", weights: { vector: 1, keyword: 1 }, rrfK: 60 },
+    );
+
+    assert.deepEqual(
+      fused.map((match) => [match.id, match.score]),
+      [
+        ["a", 0.5],
+        ["b", 0.5],
+      ],
+    );
+  });
+
+  it("returns nothing without candidates", () => {
+    assert.deepEqual(
+      fuseCandidates(
+        [],
+        { vectorIds: [], keywordIds: [] },
+        { fusion: "weighted", weights: { vector: 1, keyword: 1 }, rrfK: 60 },
+      ),
+      [],
+    );
+  });
+});
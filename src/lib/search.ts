@@ -0,0 +1,378 @@
+import { and, asc, desc, eq, inArray, sql, type SQL } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  collectionItems,
+  type Collection,
+  type DistanceMetric,
+} from "@/db/schema";
+import { compileFilter } from "@/lib/filters";
+
+/** Largest `topK` a single query may ask for. */
+export const MAX_TOP_K = 1000;
+
+export const FUSION_METHODS = ["rrf", "weighted"] as const;
+export type FusionMethod = (typeof FUSION_METHODS)[number];
+
+/** Text search configurations a hybrid query may use. */
+export const TEXT_SEARCH_LANGUAGES = [
+  "simple",
+  "english",
+  "french",
+  "german",
+  "italian",
+  "portuguese",
+  "spanish",
+  "dutch",
+  "russian",
+] as const;
+export type TextSearchLanguage = (typeof TEXT_SEARCH_LANGUAGES)[number];
+
+/** The usual reciprocal rank fusion constant; larger values flatten ranks. */
+export const DEFAULT_RRF_K = 60;
+
+/** Candidates each retriever contributes to fusion when not given. */
+export const DEFAULT_HYBRID_CANDIDATES = 100;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// pgvector distance operators; all of them sort nearest-first.
+const DISTANCE_OPERATORS: Record<DistanceMetric, string> = {
+  cosine: "<=>",
+  l2: "<->",
+  inner_product: "<#>",
+};
+
+export interface SearchOptions {
+  vector: number[];
+  topK: number;
+  filter?: unknown;
+  includeVectors?: boolean;
+  /** Overrides `hnsw.ef_search` for this query. */
+  efSearch?: number;
+  /** Overrides `ivfflat.probes` for this query. */
+  probes?: number;
+}
+
+export interface HybridSearchOptions extends SearchOptions {
+  /** Full-text query, in `websearch_to_tsquery` syntax. */
+  keywords: string;
+  /** Dot-separated path of the metadata field searched by keywords. */
+  field: string;
+  language: TextSearchLanguage;
+  fusion: FusionMethod;
+  weights: { vector: number; keyword: number };
+  /** Reciprocal rank fusion constant. */
+  rrfK: number;
+  /** How many results each retriever contributes before fusion. */
+  candidates?: number;
+}
+
+/**
+ * Distance between the stored embedding and `vector` under the collection's
+ * metric. Both sides are cast to `vector(dimension)` so per-collection
+ * expression indexes can serve the query.
+ */
+export function distanceExpression(collection: Collection, vector: number[]) {
+  const type = sql.raw(`vector(${collection.dimension})`);
+  const operator = sql.raw(DISTANCE_OPERATORS[collection.metric]);
+  return sql<number>`(${collectionItems.embedding}::${type} ${operator} ${JSON.stringify(vector)}::${type})`;
+}
+
+/**
+ * Converts a raw distance into a score where higher means more similar:
+ * cosine similarity, the inner product, or `1 / (1 + d)` for L2.
+ */
+export function distanceToScore(metric: DistanceMetric, distance: number) {
+  switch (metric) {
+    case "cosine":
+      return 1 - distance;
+    case "inner_product":
+      return -distance;
+    case "l2":
+      return 1 / (1 + distance);
+  }
+}
+
+/**
+ * Collection and optional metadata filter conditions shared by vector and
+ * keyword retrieval.
+ */
+function itemConditions(collection: Collection, filter: unknown) {
+  const conditions: (SQL | undefined)[] = [
+    eq(collectionItems.collectionId, collection.id),
+  ];
+  if (filter !== undefined && filter !== null) {
+    conditions.push(compileFilter(filter));
+  }
+  return and(...conditions);
+}
+
+/**
+ * Applies per-query ANN tuning. SET LOCAL only lasts for the transaction, so
+ * the overrides never leak into other queries sharing the pooled connection.
+ */
+async function setSearchParams(
+  tx: Transaction,
+  { efSearch, probes }: Pick<SearchOptions, "efSearch" | "probes">,
+) {
+  if (efSearch !== undefined) {
+    await tx.execute(
+      sql.raw(`SET LOCAL hnsw.ef_search = ${Math.trunc(efSearch)}`),
+    );
+  }
+  if (probes !== undefined) {
+    await tx.execute(
+      sql.raw(`SET LOCAL ivfflat.probes = ${Math.trunc(probes)}`),
+    );
+  }
+}
+
+/**
+ * Nearest-neighbour search, optionally narrowed by a metadata filter (see
+ * `compileFilter`). Uses the collection's ANN index when one is ready, with
+ * optional per-query search-time tuning; otherwise scans exactly.
+ */
+export async function searchCollection(
+  collection: Collection,
+  {
+    vector,
+    topK,
+    filter,
+    includeVectors = false,
+    efSearch,
+    probes,
+  }: SearchOptions,
+) {
+  const distance = distanceExpression(collection, vector);
+
+  const rows = await db.transaction(async (tx) => {
+    await setSearchParams(tx, { efSearch, probes });
+
+    return tx
+      .select({
+        id: collectionItems.id,
+        metadata: collectionItems.metadata,
+        // Vectors are large; only read them when the caller asks for them.
+        embedding: includeVectors ? collectionItems.embedding : sql<null>`null`,
+        distance,
+      })
+      .from(collectionItems)
+      .where(itemConditions(collection, filter))
+      .orderBy(asc(distance))
+      .limit(topK);
+  });
+
+  return rows.map((row) => ({
+    id: row.id,
+    score: distanceToScore(collection.metric, Number(row.distance)),
+    distance: Number(row.distance),
+    metadata: row.metadata,
+    ...(includeVectors ? { vector: row.embedding } : {}),
+  }));
+}
+
+/** Relevance of an item's `field` text to `keywords`; 0 when it does not match. */
+function keywordRank(
+  field: string,
+  keywords: string,
+  language: TextSearchLanguage,
+) {
+  const path = sql.join(
+    field.split(".").map((segment) => sql`${segment}`),
+    sql`, `,
+  );
+  const document = sql`to_tsvector(${language}::regconfig, coalesce(${collectionItems.metadata} #>> ARRAY[${path}]::text[], ''))`;
+  const query = sql`websearch_to_tsquery(${language}::regconfig, ${keywords})`;
+  return {
+    matches: sql`${document} @@ ${query}`,
+    rank: sql<number>`ts_rank_cd(${document}, ${query})`,
+  };
+}
+
+/** A hybrid search candidate with both retrievers' scores, before fusion. */
+export interface FusionCandidate {
+  id: string;
+  /** Similarity to the query vector (see `distanceToScore`). */
+  vectorScore: number;
+  /** Full-text rank; 0 when the item does not match the keywords. */
+  keywordScore: number;
+}
+
+/**
+ * Fuses hybrid search candidates into one ranking, best first; ties go to
+ * the closer vector. `vectorIds` and `keywordIds` are each retriever's hits,
+ * best first, and an item's rank is its position there (null if missed).
+ */
+export function fuseCandidates<T extends FusionCandidate>(
+  candidates: T[],
+  { vectorIds, keywordIds }: { vectorIds: string[]; keywordIds: string[] },
+  {
+    fusion,
+    weights,
+    rrfK,
+  }: Pick<HybridSearchOptions, "fusion" | "weights" | "rrfK">,
+) {
+  const vectorRanks = new Map(vectorIds.map((id, i) => [id, i + 1]));
+  const keywordRanks = new Map(keywordIds.map((id, i) => [id, i + 1]));
+
+  const vectorScores = candidates.map((row) => row.vectorScore);
+  const minVector = Math.min(...vectorScores);
+  const vectorSpread = Math.max(...vectorScores) - minVector;
+  const maxKeyword = Math.max(0, ...candidates.map((row) => row.keywordScore));
+  const totalWeight = weights.vector + weights.keyword;
+
+  const contributions = (row: T) => {
+    const vectorRank = vectorRanks.get(row.id) ?? null;
+    const keywordRank = keywordRanks.get(row.id) ?? null;
+    if (fusion === "rrf") {
+      return {
+        vector: vectorRank === null ? 0 : weights.vector / (rrfK + vectorRank),
+        keyword:
+          keywordRank === null ? 0 : weights.keyword / (rrfK + keywordRank),
+        vectorRank,
+        keywordRank,
+      };
+    }
+    const vectorNorm =
+      vectorSpread > 0 ? (row.vectorScore - minVector) / vectorSpread : 1;
+    const keywordNorm = maxKeyword > 0 ? row.keywordScore / maxKeyword : 0;
+    return {
+      vector: (weights.vector / totalWeight) * vectorNorm,
+      keyword: (weights.keyword / totalWeight) * keywordNorm,
+      vectorRank,
+      keywordRank,
+    };
+  };
+
+  return candidates
+    .map((row) => {
+      const fused = contributions(row);
+      return {
+        ...row,
+        score: fused.vector + fused.keyword,
+        contributions: {
+          vector: {
+            rank: fused.vectorRank,
+            score: row.vectorScore,
+            contribution: fused.vector,
+          },
+          keyword: {
+            rank: fused.keywordRank,
+            score: row.keywordScore,
+            contribution: fused.keyword,
+          },
+        },
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        b.contributions.vector.score - a.contributions.vector.score,
+    );
+}
+
+/**
+ * Hybrid search: nearest neighbours by vector and full-text matches on a
+ * metadata field, fused into one ranking. Each retriever returns up to
+ * `candidates` items; both scores are then computed for every candidate so
+ * each match reports what each retriever contributed to its fused score.
+ *
+ * - `rrf` adds `weight / (rrfK + rank)` per retriever that returned the item
+ * - `weighted` blends min-max normalised vector scores and full-text ranks
+ *   normalised by the best one, in proportion to the weights
+ */
+export async function hybridSearch(
+  collection: Collection,
+  {
+    vector,
+    keywords,
+    field,
+    language,
+    fusion,
+    weights,
+    rrfK,
+    topK,
+    candidates = Math.max(topK, DEFAULT_HYBRID_CANDIDATES),
+    filter,
+    includeVectors = false,
+    efSearch,
+    probes,
+  }: HybridSearchOptions,
+) {
+  const distance = distanceExpression(collection, vector);
+  const text = keywordRank(field, keywords, language);
+  const conditions = itemConditions(collection, filter);
+
+  const { vectorIds, keywordIds, rows } = await db.transaction(async (tx) => {
+    await setSearchParams(tx, { efSearch, probes });
+
+    const vectorHits = await tx
+      .select({ id: collectionItems.id })
+      .from(collectionItems)
+      .where(conditions)
+      .orderBy(asc(distance))
+      .limit(candidates);
+    const keywordHits = await tx
+      .select({ id: collectionItems.id })
+      .from(collectionItems)
+      .where(and(conditions, text.matches))
+      .orderBy(desc(text.rank), asc(collectionItems.id))
+      .limit(candidates);
+
+    const vectorIds = vectorHits.map(({ id }) => id);
+    const keywordIds = keywordHits.map(({ id }) => id);
+    const ids = [...new Set([...vectorIds, ...keywordIds])];
+    // Both scores for every candidate, so fusion sees the whole picture.
+    const rows =
+      ids.length === 0
+        ? []
+        : await tx
+            .select({
+              id: collectionItems.id,
+              metadata: collectionItems.metadata,
+              embedding: includeVectors
+                ? collectionItems.embedding
+                : sql<null>`null`,
+              distance,
+              rank: text.rank,
+            })
+            .from(collectionItems)
+            .where(
+              and(
+                eq(collectionItems.collectionId, collection.id),
+                inArray(collectionItems.id, ids),
+              ),
+            );
+    return { vectorIds, keywordIds, rows };
+  });
+
+  const scored = rows.map((row) => ({
+    ...row,
+    distance: Number(row.distance),
+    vectorScore: distanceToScore(collection.metric, Number(row.distance)),
+    keywordScore: Number(row.rank),
+  }));
+
+  const matches = fuseCandidates(
+    scored,
+    { vectorIds, keywordIds },
+    { fusion, weights, rrfK },
+  )
+    .slice(0, topK)
+    .map((row) => ({
+      id: row.id,
+      score: row.score,
+      distance: row.distance,
+      metadata: row.metadata,
+      ...(includeVectors ? { vector: row.embedding } : {}),
+      contributions: row.contributions,
+    }));
+
+  return {
+    matches,
+    retrievers: {
+      vector: { candidates: vectorIds.length },
+      keyword: { candidates: keywordIds.length },
+    },
+  };
+}
@@ -0,0 +1,306 @@
+import { cache } from "react";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+import { and, eq, inArray, isNull, or, type SQL } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  organizationMembers,
+  organizations,
+  projects,
+  type ApiKey,
+  type MemberRole,
+} from "@/db/schema";
+import { ApiError } from "@/lib/api-errors";
+import { SCOPE_ROLES, verifyApiKey } from "@/lib/api-keys";
+import { auth } from "@/lib/auth";
+import {
+  can,
+  hasRole,
+  isAdmin,
+  type ProjectPermission,
+} from "@/lib/permissions";
+
+/**
+ * Thrown by the guards below when the caller is not signed in (401), lacks
+ * the role for an action (403), or asks for something it cannot see (404, so
+ * that ids of other users' projects are not leaked).
+ */
+export class AuthError extends ApiError {
+  constructor(message: string, status: 401 | 403 | 404) {
+    super(status, message);
+    this.name = "AuthError";
+  }
+}
+
+/**
+ * Resolves the better-auth session from the request cookies. Works in route
+ * handlers, server components and server actions, and is memoised per request.
+ */
+export const getSession = cache(async () => {
+  return auth.api.getSession({ headers: await headers() });
+});
+
+export type SessionUser = NonNullable<
+  Awaited<ReturnType<typeof getSession>>
+>["user"];
+
+export type Caller =
+  { type: "user"; user: SessionUser } | { type: "apiKey"; apiKey: ApiKey };
+
+/**
+ * Identifies the caller by an `Authorization: Bearer <api key>` header, or
+ * else by the session cookie. A bearer key that is unknown or revoked is
+ * rejected instead of falling back to the session. Memoised per request.
+ */
+export const getCaller = cache(async (): Promise<Caller | null> => {
+  const authorization = (await headers()).get("authorization");
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  if (match) {
+    const apiKey = await verifyApiKey(match[1]);
+    if (!apiKey) {
+      throw new AuthError("Invalid or revoked API key", 401);
+    }
+    return { type: "apiKey", apiKey };
+  }
+
+  const session = await getSession();
+  return session ? { type: "user", user: session.user } : null;
+});
+
+/** Returns the session user or API key behind the request, or throws a 401. */
+export async function requireCaller(): Promise<Caller> {
+  const caller = await getCaller();
+  if (!caller) {
+    throw new AuthError("Authentication required", 401);
+  }
+  return caller;
+}
+
+/** Returns the signed-in user, or throws a 401 `AuthError`. */
+export async function requireUser(): Promise<SessionUser> {
+  const session = await getSession();
+  if (!session) {
+    throw new AuthError("Authentication required", 401);
+  }
+  return session.user;
+}
+
+/**
+ * Returns the signed-in user when they are a site admin, or throws a 401 or
+ * 403 `AuthError`. API keys never qualify: they belong to a single project.
+ */
+export async function requireAdmin(): Promise<SessionUser> {
+  const user = await requireUser();
+  if (!isAdmin(user)) {
+    throw new AuthError("This action requires an administrator", 403);
+  }
+  return user;
+}
+
+/** `requireAdmin` for server components: non-admins get the not-found page. */
+export async function requireAdminForPage() {
+  try {
+    return await requireAdmin();
+  } catch (error) {
+    if (error instanceof AuthError) notFound();
+    throw error;
+  }
+}
+
+/**
+ * SQL condition restricting `projects` to those `userId` can read: their
+ * personal projects plus every project of an organization they belong to.
+ */
+export function accessibleBy(userId: string): SQL {
+  const memberships = db
+    .select({ id: organizationMembers.organizationId })
+    .from(organizationMembers)
+    .where(eq(organizationMembers.userId, userId));
+
+  return or(
+    and(isNull(projects.organizationId), eq(projects.userId, userId)),
+    inArray(projects.organizationId, memberships),
+  )!;
+}
+
+/**
+ * Loads a project the caller may access with `permission`. A signed-in user's
+ * role is "owner" on personal projects and their membership role on
+ * organization projects; an API key acts with the role of its scope, on its
+ * own project only. `user` is null for API keys. Soft-deleted projects are
+ * only returned when `includeDeleted` is set (e.g. to restore them).
+ */
+export async function requireProject(
+  projectId: number,
+  {
+    permission = "read",
+    includeDeleted = false,
+  }: { permission?: ProjectPermission; includeDeleted?: boolean } = {},
+) {
+  const caller = await requireCaller();
+  if (caller.type === "apiKey") {
+    return requireProjectForApiKey(caller, projectId, {
+      permission,
+      includeDeleted,
+    });
+  }
+  const { user } = caller;
+
+  const [row] = await db
+    .select({ project: projects, memberRole: organizationMembers.role })
+    .from(projects)
+    .leftJoin(
+      organizationMembers,
+      and(
+        eq(organizationMembers.organizationId, projects.organizationId),
+        eq(organizationMembers.userId, user.id),
+      ),
+    )
+    .where(
+      and(
+        eq(projects.id, projectId),
+        includeDeleted ? undefined : isNull(projects.deletedAt),
+      ),
+    )
+    .limit(1);
+
+  let role: MemberRole | null = null;
+  if (row) {
+    role =
+      row.project.organizationId === null
+        ? row.project.userId === user.id
+          ? "owner"
+          : null
+        : row.memberRole;
+  }
+
+  if (!row || !role) {
+    throw new AuthError("Project not found", 404);
+  }
+  if (!can(role, permission)) {
+    throw new AuthError(
+      `This action requires ${permission} access to the project`,
+      403,
+    );
+  }
+
+  return { caller, user, project: row.project, role };
+}
+
+async function requireProjectForApiKey(
+  caller: Extract<Caller, { type: "apiKey" }>,
+  projectId: number,
+  {
+    permission,
+    includeDeleted,
+  }: { permission: ProjectPermission; includeDeleted: boolean },
+) {
+  const { apiKey } = caller;
+  const [project] =
+    apiKey.projectId === projectId
+      ? await db
+          .select()
+          .from(projects)
+          .where(
+            and(
+              eq(projects.id, projectId),
+              includeDeleted ? undefined : isNull(projects.deletedAt),
+            ),
+          )
+          .limit(1)
+      : [];
+
+  if (!project) {
+    throw new AuthError("Project not found", 404);
+  }
+  const role = SCOPE_ROLES[apiKey.scope];
+  if (!can(role, permission)) {
+    throw new AuthError(
+      `This action requires an API key with ${permission} scope`,
+      403,
+    );
+  }
+
+  return { caller, user: null, project, role };
+}
+
+/**
+ * `requireProject` for server components: renders the not-found page when the
+ * project is missing, inaccessible or the id is malformed.
+ */
+export async function requireProjectForPage(
+  rawProjectId: string,
+  options?: Parameters<typeof requireProject>[1],
+) {
+  const projectId = Number(rawProjectId);
+  if (!Number.isInteger(projectId) || projectId <= 0) {
+    notFound();
+  }
+
+  try {
+    return await requireProject(projectId, options);
+  } catch (error) {
+    if (error instanceof AuthError) notFound();
+    throw error;
+  }
+}
+
+/**
+ * Loads an organization the signed-in user is a member of, requiring at
+ * least `minimumRole`.
+ */
+export async function requireOrganization(
+  organizationId: number,
+  minimumRole: MemberRole = "viewer",
+) {
+  const user = await requireUser();
+
+  const [row] = await db
+    .select({ organization: organizations, role: organizationMembers.role })
+    .from(organizationMembers)
+    .innerJoin(
+      organizations,
+      eq(organizations.id, organizationMembers.organizationId),
+    )
+    .where(
+      and(
+        eq(organizationMembers.organizationId, organizationId),
+        eq(organizationMembers.userId, user.id),
+      ),
+    )
+    .limit(1);
+
+  if (!row) {
+    throw new AuthError("Organization not found", 404);
+  }
+  if (!hasRole(row.role, minimumRole)) {
+    throw new AuthError(
+      `This action requires the ${minimumRole} role in the organization`,
+      403,
+    );
+  }
+
+  return { user, organization: row.organization, role: row.role };
+}
+
+/**
+ * `requireOrganization` for server components: renders the not-found page
+ * when the organization is missing, the caller lacks the role or the id is
+ * malformed.
+ */
+export async function requireOrganizationForPage(
+  rawOrganizationId: string,
+  minimumRole?: MemberRole,
+) {
+  const organizationId = Number(rawOrganizationId);
+  if (!Number.isInteger(organizationId) || organizationId <= 0) {
+    notFound();
+  }
+
+  try {
+    return await requireOrganization(organizationId, minimumRole);
+  } catch (error) {
+    if (error instanceof AuthError) notFound();
+    throw error;
+  }
+}
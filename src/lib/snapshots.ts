@@ -0,0 +1,432 @@
+import { createGzip } from "node:zlib";
+import { and, asc, count, eq, gt, inArray } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  collectionIndexes,
+  collectionItems,
+  collections,
+  projects,
+  snapshots,
+  type Collection,
+  type DistanceMetric,
+  type EmbeddingConfig,
+  type IndexMethod,
+  type IndexParams,
+  type Snapshot,
+} from "@/db/schema";
+import { ApiError } from "@/lib/api-errors";
+import {
+  isDistanceMetric,
+  isValidCollectionName,
+  isValidDimension,
+} from "@/lib/collections";
+import { isEmbeddingConfig } from "@/lib/embeddings";
+import { importRows, type ImportReport, type ImportRow } from "@/lib/import";
+import { readLines } from "@/lib/import/streams";
+import { enqueueJob } from "@/lib/jobs/queue";
+import {
+  defineIndex,
+  dropIndex,
+  isIndexMethod,
+  MAX_INDEX_DIMENSION,
+  resolveIndexParams,
+  startIndexBuild,
+} from "@/lib/indexes";
+import { writeArtifact } from "@/lib/storage";
+
+export const SNAPSHOT_FORMAT = "vector-dashboard-snapshot";
+export const SNAPSHOT_VERSION = 1;
+
+const EXPORT_PAGE_SIZE = 1000;
+
+/**
+ * First line of a snapshot archive. The archive is gzipped JSON Lines: this
+ * manifest, then one `{ collection, id, vector, metadata }` line per item,
+ * grouped by collection in manifest order.
+ */
+export interface SnapshotManifest {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  createdAt: string;
+  project: {
+    name: string;
+    description: string | null;
+    metadata: Record<string, unknown> | null;
+  };
+  collections: {
+    name: string;
+    dimension: number;
+    metric: DistanceMetric;
+    /** Missing from archives made before collections could embed text. */
+    embedding?: EmbeddingConfig | null;
+    index: { method: IndexMethod; params: IndexParams } | null;
+    itemCount: number;
+  }[];
+}
+
+/** Thrown when an uploaded archive cannot be restored. */
+export class SnapshotError extends ApiError {
+  constructor(message: string, status: 400 | 409) {
+    super(status, message);
+    this.name = "SnapshotError";
+  }
+}
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isSnapshotId(value: string) {
+  return UUID_PATTERN.test(value);
+}
+
+/** Looks up a snapshot within a project; malformed ids simply match nothing. */
+export async function findSnapshot(projectId: number, snapshotId: string) {
+  if (!isSnapshotId(snapshotId)) return null;
+  const [snapshot] = await db
+    .select()
+    .from(snapshots)
+    .where(
+      and(eq(snapshots.id, snapshotId), eq(snapshots.projectId, projectId)),
+    )
+    .limit(1);
+  return snapshot ?? null;
+}
+
+export function snapshotFilename(snapshot: Snapshot, projectName: string) {
+  const base = snapshot.collectionName ?? projectName;
+  const safe = base.replace(/[^A-Za-z0-9_-]+/g, "-");
+  return `${safe}-${snapshot.createdAt.toISOString().slice(0, 10)}.vdsnap.jsonl.gz`;
+}
+
+// Keyset pagination keeps memory flat however large the collection is.
+async function* collectionItemPages(collectionId: number) {
+  let after: string | null = null;
+  while (true) {
+    const page = await db
+      .select({
+        id: collectionItems.id,
+        vector: collectionItems.embedding,
+        metadata: collectionItems.metadata,
+      })
+      .from(collectionItems)
+      .where(
+        and(
+          eq(collectionItems.collectionId, collectionId),
+          after === null ? undefined : gt(collectionItems.id, after),
+        ),
+      )
+      .orderBy(asc(collectionItems.id))
+      .limit(EXPORT_PAGE_SIZE);
+
+    if (page.length === 0) return;
+    yield page;
+    after = page[page.length - 1].id;
+  }
+}
+
+/**
+ * Writes the snapshot's archive to artifact storage and records the result.
+ * Failures are stored on the snapshot row and rethrown for the job queue.
+ * `onProgress` receives the fraction of items written so far.
+ */
+export async function runSnapshotExport(
+  snapshotId: string,
+  onProgress?: (fraction: number) => Promise<void>,
+) {
+  const [snapshot] = await db
+    .update(snapshots)
+    .set({ status: "running" })
+    .where(eq(snapshots.id, snapshotId))
+    .returning();
+  if (!snapshot) return;
+
+  try {
+    const [project] = await db
+      .select()
+      .from(projects)
+      .where(eq(projects.id, snapshot.projectId));
+
+    const rows = await db
+      .select({ collection: collections, index: collectionIndexes })
+      .from(collections)
+      .leftJoin(
+        collectionIndexes,
+        eq(collectionIndexes.collectionId, collections.id),
+      )
+      .where(
+        and(
+          eq(collections.projectId, snapshot.projectId),
+          snapshot.collectionName === null
+            ? undefined
+            : eq(collections.name, snapshot.collectionName),
+        ),
+      )
+      .orderBy(asc(collections.name));
+
+    if (snapshot.collectionName !== null && rows.length === 0) {
+      throw new Error(`Collection ${snapshot.collectionName} no longer exists`);
+    }
+
+    const counts = await db
+      .select({ collectionId: collectionItems.collectionId, total: count() })
+      .from(collectionItems)
+      .where(
+        inArray(
+          collectionItems.collectionId,
+          rows.map(({ collection }) => collection.id),
+        ),
+      )
+      .groupBy(collectionItems.collectionId);
+
+    const manifest: SnapshotManifest = {
+      format: SNAPSHOT_FORMAT,
+      version: SNAPSHOT_VERSION,
+      createdAt: new Date().toISOString(),
+      project: {
+        name: project.name,
+        description: project.description,
+        metadata: project.metadata,
+      },
+      collections: rows.map(({ collection, index }) => ({
+        name: collection.name,
+        dimension: collection.dimension,
+        metric: collection.metric,
+        embedding: collection.embedding,
+        index: index ? { method: index.method, params: index.params } : null,
+        itemCount:
+          counts.find((row) => row.collectionId === collection.id)?.total ?? 0,
+      })),
+    };
+
+    const totalItems = manifest.collections.reduce(
+      (sum, collection) => sum + collection.itemCount,
+      0,
+    );
+    let itemCount = 0;
+    async function* lines() {
+      yield JSON.stringify(manifest) + "\n";
+      for (const { collection } of rows) {
+        for await (const page of collectionItemPages(collection.id)) {
+          for (const item of page) {
+            itemCount++;
+            yield JSON.stringify({ collection: collection.name, ...item }) +
+              "\n";
+          }
+          await onProgress?.(totalItems ? itemCount / totalItems : 1);
+        }
+      }
+    }
+
+    const artifactKey = `snapshots/${snapshot.projectId}/${snapshot.id}.jsonl.gz`;
+    const sizeBytes = await writeArtifact(artifactKey, lines(), createGzip());
+
+    await db
+      .update(snapshots)
+      .set({
+        status: "completed",
+        artifactKey,
+        sizeBytes,
+        itemCount,
+        completedAt: new Date(),
+      })
+      .where(eq(snapshots.id, snapshot.id));
+  } catch (error) {
+    console.error(`Snapshot export ${snapshot.id} failed:`, error);
+    await db
+      .update(snapshots)
+      .set({
+        status: "failed",
+        error: error instanceof Error ? error.message : "Export failed",
+        completedAt: new Date(),
+      })
+      .where(eq(snapshots.id, snapshot.id));
+    throw error;
+  }
+}
+
+/** Queues the export on the job queue; poll the snapshot row for status. */
+export async function startSnapshotExport(snapshot: Snapshot) {
+  return enqueueJob(
+    snapshot.projectId,
+    "snapshot.export",
+    { snapshotId: snapshot.id },
+    { createdBy: snapshot.createdBy },
+  );
+}
+
+function parseManifest(line: string | undefined): SnapshotManifest {
+  let manifest: Partial<SnapshotManifest>;
+  try {
+    manifest = JSON.parse(line ?? "");
+  } catch {
+    throw new SnapshotError("Archive does not start with a manifest", 400);
+  }
+
+  if (manifest.format !== SNAPSHOT_FORMAT) {
+    throw new SnapshotError("Not a Vector Dashboard snapshot", 400);
+  }
+  if (manifest.version !== SNAPSHOT_VERSION) {
+    throw new SnapshotError(
+      `Unsupported snapshot version ${manifest.version}; expected ${SNAPSHOT_VERSION}`,
+      400,
+    );
+  }
+  if (
+    !Array.isArray(manifest.collections) ||
+    !manifest.collections.every(
+      (collection) =>
+        isValidCollectionName(collection?.name) &&
+        isValidDimension(collection.dimension) &&
+        isDistanceMetric(collection.metric) &&
+        (!collection.embedding || isEmbeddingConfig(collection.embedding)),
+    )
+  ) {
+    throw new SnapshotError("Manifest has an invalid collection list", 400);
+  }
+
+  return manifest as SnapshotManifest;
+}
+
+export interface RestoreResult {
+  collections: { name: string; report: ImportReport }[];
+}
+
+/** Drops collections a failed restore created, with their items and indexes. */
+async function discardCollections(created: Collection[]) {
+  if (created.length === 0) return;
+  for (const collection of created) await dropIndex(collection);
+  await db.delete(collections).where(
+    inArray(
+      collections.id,
+      created.map((collection) => collection.id),
+    ),
+  );
+}
+
+/**
+ * Restores a snapshot archive into an existing project: creates its
+ * collections, streams their items in, then rebuilds their indexes. Fails
+ * with 409 if a collection name is already taken. If anything fails once the
+ * collections exist (e.g. an item line is out of order), they are dropped
+ * again so the restore can be retried.
+ */
+export async function restoreSnapshot(
+  projectId: number,
+  archive: ReadableStream<Uint8Array>,
+): Promise<RestoreResult> {
+  const gunzip = new DecompressionStream("gzip") as unknown as TransformStream<
+    Uint8Array,
+    Uint8Array
+  >;
+  const lines = readLines(archive.pipeThrough(gunzip))[Symbol.asyncIterator]();
+
+  const first = await lines.next();
+  const manifest = parseManifest(first.done ? undefined : first.value);
+  const names = manifest.collections.map((collection) => collection.name);
+
+  if (names.length > 0) {
+    const existing = await db
+      .select({ name: collections.name })
+      .from(collections)
+      .where(
+        and(
+          eq(collections.projectId, projectId),
+          inArray(collections.name, names),
+        ),
+      );
+    if (existing.length > 0) {
+      throw new SnapshotError(
+        `Collections already exist in this project: ${existing.map((row) => row.name).join(", ")}`,
+        409,
+      );
+    }
+  }
+
+  const created: Collection[] =
+    names.length === 0
+      ? []
+      : await db
+          .insert(collections)
+          .values(
+            manifest.collections.map(
+              ({ name, dimension, metric, embedding }) => ({
+                projectId,
+                name,
+                dimension,
+                metric,
+                embedding: embedding ?? null,
+              }),
+            ),
+          )
+          .returning();
+
+  // Item lines are grouped by collection; a line for another collection ends
+  // the current group and is handed to the next one.
+  let pending: { collection: string; item: unknown } | null = null;
+  let lineNumber = 1;
+
+  async function* rowsFor(name: string): AsyncGenerator<ImportRow> {
+    let row = 0;
+    while (true) {
+      if (!pending) {
+        const next = await lines.next();
+        if (next.done) return;
+        lineNumber++;
+        if (!next.value.trim()) continue;
+        try {
+          const { collection, ...item } = JSON.parse(next.value);
+          pending = { collection, item };
+        } catch {
+          row++;
+          yield { row, error: `Invalid JSON on archive line ${lineNumber}` };
+          continue;
+        }
+      }
+
+      if (pending.collection !== name) return;
+      row++;
+      yield { row, item: pending.item };
+      pending = null;
+    }
+  }
+
+  try {
+    const result: RestoreResult = { collections: [] };
+    for (const collection of created) {
+      const report = await importRows(collection, rowsFor(collection.name));
+      result.collections.push({ name: collection.name, report });
+    }
+
+    // `pending` is assigned inside rowsFor, which TypeScript cannot see here.
+    const stray = pending as { collection: string } | null;
+    if (stray) {
+      throw new SnapshotError(
+        `Archive line ${lineNumber} belongs to collection "${stray.collection}", which is missing from the manifest or out of order`,
+        400,
+      );
+    }
+
+    for (const collection of created) {
+      const definition = manifest.collections.find(
+        ({ name }) => name === collection.name,
+      )?.index;
+      if (
+        !definition ||
+        !isIndexMethod(definition.method) ||
+        collection.dimension > MAX_INDEX_DIMENSION
+      ) {
+        continue;
+      }
+      const resolved = resolveIndexParams(definition.method, definition.params);
+      if ("params" in resolved) {
+        await defineIndex(collection, definition.method, resolved.params);
+        await startIndexBuild(collection);
+      }
+    }
+
+    return result;
+  } catch (error) {
+    await discardCollections(created);
+    throw error;
+  }
+}
@@ -0,0 +1,60 @@
+import { createReadStream, createWriteStream } from "node:fs";
+import { mkdir, rm, stat } from "node:fs/promises";
+import path from "node:path";
+import { Readable, type Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as WebReadableStream } from "node:stream/web";
+
+/**
+ * Local-disk artifact storage for generated files such as snapshots and for
+ * uploads waiting on a background job. Set
+ * `ARTIFACT_DIR` to a shared volume when the app and workers run on
+ * different machines.
+ */
+const ARTIFACT_DIR = path.resolve(
+  process.env.ARTIFACT_DIR ?? path.join(process.cwd(), ".data", "artifacts"),
+);
+
+function resolveKey(key: string) {
+  const resolved = path.resolve(ARTIFACT_DIR, key);
+  if (!resolved.startsWith(ARTIFACT_DIR + path.sep)) {
+    throw new Error(`Invalid artifact key: ${key}`);
+  }
+  return resolved;
+}
+
+/**
+ * Writes a stream to `key`, through any `transforms` (e.g. gzip), and returns
+ * the stored size in bytes.
+ */
+export async function writeArtifact(
+  key: string,
+  source: AsyncIterable<Uint8Array | string> | ReadableStream<Uint8Array>,
+  ...transforms: Transform[]
+) {
+  const file = resolveKey(key);
+  await mkdir(path.dirname(file), { recursive: true });
+  await pipeline([
+    source instanceof ReadableStream
+      ? Readable.fromWeb(source as WebReadableStream<Uint8Array>)
+      : Readable.from(source),
+    ...transforms,
+    createWriteStream(file),
+  ]);
+  return (await stat(file)).size;
+}
+
+/** Opens a stored artifact as a web stream, e.g. for a download response. */
+export function readArtifact(key: string) {
+  return Readable.toWeb(
+    createReadStream(resolveKey(key)),
+  ) as ReadableStream<Uint8Array>;
+}
+
+export async function artifactSize(key: string) {
+  return (await stat(resolveKey(key))).size;
+}
+
+export async function deleteArtifact(key: string) {
+  await rm(resolveKey(key), { force: true });
+}
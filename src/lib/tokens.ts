@@ -0,0 +1,11 @@
+import { createHash, randomBytes } from "node:crypto";
+
+/** Generates a URL-safe random token, optionally with a readable prefix. */
+export function generateToken(prefix = "") {
+  return prefix + randomBytes(32).toString("base64url");
+}
+
+/** Hash stored in place of a token so a database leak does not expose it. */
+export function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
@@ -0,0 +1,151 @@
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gt,
+  gte,
+  ilike,
+  isNotNull,
+  lte,
+  or,
+  sql,
+} from "drizzle-orm";
+import { db } from "@/db";
+import { account, session, user } from "@/db/schema";
+import { ApiError } from "@/lib/api-errors";
+import { cursorValue, keyset, toPage } from "@/lib/pagination";
+import type { ListUsersQuery } from "@/lib/schemas/users";
+
+const SORT_COLUMNS = {
+  createdAt: user.createdAt,
+  name: user.name,
+  email: user.email,
+};
+
+/** The `user` columns the admin console works with. */
+export const userColumns = {
+  id: user.id,
+  name: user.name,
+  email: user.email,
+  emailVerified: user.emailVerified,
+  image: user.image,
+  role: user.role,
+  banned: user.banned,
+  banReason: user.banReason,
+  banExpires: user.banExpires,
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+};
+
+/**
+ * One page of all users matching the list filters. `q` matches anywhere in
+ * the name or email.
+ */
+export async function listUsers(query: ListUsersQuery) {
+  const direction =
+    query.order ?? (query.sort === "createdAt" ? "desc" : "asc");
+  const sort = `${query.sort}:${direction}`;
+  const page = keyset({
+    column: SORT_COLUMNS[query.sort],
+    direction,
+    tiebreaker: user.id,
+    sort,
+    cursor: query.cursor,
+  });
+
+  // Escape LIKE wildcards so the search matches literally.
+  const pattern = query.q && `%${query.q.replace(/[\\%_]/g, "\\$&")}%`;
+  const where = and(
+    pattern
+      ? or(ilike(user.name, pattern), ilike(user.email, pattern))
+      : undefined,
+    query.role ? eq(user.role, query.role) : undefined,
+    query.banned === undefined ? undefined : eq(user.banned, query.banned),
+    query.emailVerified === undefined
+      ? undefined
+      : eq(user.emailVerified, query.emailVerified),
+    query.createdAfter ? gte(user.createdAt, query.createdAfter) : undefined,
+    query.createdBefore ? lte(user.createdAt, query.createdBefore) : undefined,
+  );
+
+  const [rows, [{ total }]] = await Promise.all([
+    db
+      .select({
+        ...userColumns,
+        cursorValue: cursorValue(SORT_COLUMNS[query.sort]),
+      })
+      .from(user)
+      .where(and(where, page.where))
+      .orderBy(...page.orderBy)
+      .limit(query.limit + 1),
+    db.select({ total: count() }).from(user).where(where),
+  ]);
+
+  return toPage(rows, {
+    cursor: page.cursor,
+    sort,
+    limit: query.limit,
+    total,
+    id: (row) => row.id,
+  });
+}
+
+/** Loads a user by id, or throws a 404. */
+export async function findUser(userId: string) {
+  const [found] = await db
+    .select(userColumns)
+    .from(user)
+    .where(eq(user.id, userId))
+    .limit(1);
+  if (!found) {
+    throw new ApiError(404, "User not found");
+  }
+  return found;
+}
+
+/**
+ * The providers a user signs in with, oldest first: "credential" for email
+ * and password, otherwise an OAuth provider id. Tokens and password hashes
+ * are never selected.
+ */
+export async function listAccounts(userId: string) {
+  return db
+    .select({
+      id: account.id,
+      providerId: account.providerId,
+      accountId: account.accountId,
+      hasPassword: sql<boolean>`${isNotNull(account.password)}`,
+      createdAt: account.createdAt,
+    })
+    .from(account)
+    .where(eq(account.userId, userId))
+    .orderBy(asc(account.createdAt));
+}
+
+/**
+ * A user with the providers they sign in with and their unexpired sessions,
+ * newest first.
+ */
+export async function getUserDetail(userId: string) {
+  const found = await findUser(userId);
+
+  const [accounts, sessions] = await Promise.all([
+    listAccounts(userId),
+    db
+      .select({
+        id: session.id,
+        ipAddress: session.ipAddress,
+        userAgent: session.userAgent,
+        impersonatedBy: session.impersonatedBy,
+        createdAt: session.createdAt,
+        expiresAt: session.expiresAt,
+      })
+      .from(session)
+      .where(and(eq(session.userId, userId), gt(session.expiresAt, new Date())))
+      .orderBy(desc(session.createdAt)),
+  ]);
+
+  return { ...found, accounts, sessions };
+}
@@ -0,0 +1,273 @@
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  collectionItems,
+  type Collection,
+  type CollectionItem,
+  type ItemMetadata,
+} from "@/db/schema";
+import {
+  embedTexts,
+  MAX_TEXT_LENGTH,
+  type EmbeddingResult,
+} from "@/lib/embeddings";
+import { compileFilter, type MetadataFilter } from "@/lib/filters";
+
+/** Largest number of items accepted by a single upsert, fetch or delete. */
+export const MAX_BATCH_SIZE = 1000;
+
+const MAX_ID_LENGTH = 512;
+
+export interface VectorItem {
+  id: string;
+  vector: number[];
+  metadata: ItemMetadata | null;
+}
+
+/** Outcome for one item of a batch, in the order the items were sent. */
+export type ItemResult =
+  | { index: number; id: string; status: "ok" }
+  | { index: number; id: string | null; status: "error"; error: string };
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isValidId(id: unknown): id is string {
+  return typeof id === "string" && id.length > 0 && id.length <= MAX_ID_LENGTH;
+}
+
+/** Checks one raw item against the collection's dimension. */
+export function validateItem(
+  raw: unknown,
+  dimension: number,
+): { item: VectorItem } | { error: string; id: string | null } {
+  if (!isPlainObject(raw)) {
+    return { error: "Item must be an object", id: null };
+  }
+
+  const { id, vector, metadata } = raw;
+  if (!isValidId(id)) {
+    return {
+      error: `id must be a non-empty string of at most ${MAX_ID_LENGTH} characters`,
+      id: null,
+    };
+  }
+  if (!Array.isArray(vector)) {
+    return { error: "vector must be an array of numbers", id };
+  }
+  if (vector.length !== dimension) {
+    return {
+      error: `vector has ${vector.length} dimensions, collection expects ${dimension}`,
+      id,
+    };
+  }
+  if (
+    !vector.every(
+      (value) => typeof value === "number" && Number.isFinite(value),
+    )
+  ) {
+    return { error: "vector must contain only finite numbers", id };
+  }
+  if (metadata !== undefined && metadata !== null && !isPlainObject(metadata)) {
+    return { error: "metadata must be an object", id };
+  }
+
+  return { item: { id, vector, metadata: metadata ?? null } };
+}
+
+/**
+ * Embeds the `text` of items sent without a vector, keyed by item index.
+ * Other items, and items whose id is invalid anyway, are left out for
+ * `validateItem`; problems with the text itself are reported like provider
+ * errors.
+ */
+async function embedItemTexts(
+  collection: Collection,
+  rawItems: unknown[],
+): Promise<Map<number, EmbeddingResult>> {
+  const results = new Map<number, EmbeddingResult>();
+  const texts: { index: number; text: string }[] = [];
+
+  rawItems.forEach((raw, index) => {
+    if (!isPlainObject(raw) || raw.text === undefined || !isValidId(raw.id)) {
+      return;
+    }
+    const { text, vector } = raw;
+    if (vector !== undefined) {
+      results.set(index, { error: "Send either vector or text, not both" });
+    } else if (typeof text !== "string" || !text.trim()) {
+      results.set(index, { error: "text must be a non-empty string" });
+    } else if (text.length > MAX_TEXT_LENGTH) {
+      results.set(index, {
+        error: `text must be at most ${MAX_TEXT_LENGTH} characters`,
+      });
+    } else if (!collection.embedding) {
+      results.set(index, {
+        error:
+          "This collection has no embedding provider; send a vector instead",
+      });
+    } else {
+      texts.push({ index, text });
+    }
+  });
+
+  if (collection.embedding && texts.length > 0) {
+    const embedded = await embedTexts(
+      collection.embedding,
+      collection.dimension,
+      texts.map(({ text }) => text),
+    );
+    texts.forEach(({ index }, i) => results.set(index, embedded[i]));
+  }
+
+  return results;
+}
+
+function upsert(collectionId: number, items: VectorItem[]) {
+  return db
+    .insert(collectionItems)
+    .values(
+      items.map((item) => ({
+        collectionId,
+        id: item.id,
+        embedding: item.vector,
+        metadata: item.metadata,
+      })),
+    )
+    .onConflictDoUpdate({
+      target: [collectionItems.collectionId, collectionItems.id],
+      set: {
+        embedding: sql`excluded.embedding`,
+        metadata: sql`excluded.metadata`,
+        updatedAt: sql`now()`,
+      },
+    });
+}
+
+/**
+ * Inserts or replaces items by id. Items may carry `text` instead of a
+ * vector when the collection has an embedding provider. Invalid items and
+ * embedding failures are reported individually instead of failing the batch;
+ * if the database rejects the batch, items are retried one by one so only
+ * the offending ones fail. When an id appears more than once, the last
+ * occurrence wins.
+ */
+export async function upsertItems(
+  collection: Collection,
+  rawItems: unknown[],
+): Promise<ItemResult[]> {
+  const results: ItemResult[] = new Array(rawItems.length);
+  const valid = new Map<string, { index: number; item: VectorItem }>();
+  const embedded = await embedItemTexts(collection, rawItems);
+
+  rawItems.forEach((raw, index) => {
+    const embedding = embedded.get(index);
+    const checked = !embedding
+      ? validateItem(raw, collection.dimension)
+      : "error" in embedding
+        ? { error: embedding.error, id: (raw as { id: string }).id }
+        : validateItem(
+            { ...(raw as object), vector: embedding.vector },
+            collection.dimension,
+          );
+    if ("error" in checked) {
+      results[index] = {
+        index,
+        id: checked.id,
+        status: "error",
+        error: checked.error,
+      };
+      return;
+    }
+
+    const previous = valid.get(checked.item.id);
+    if (previous) {
+      results[previous.index] = {
+        index: previous.index,
+        id: checked.item.id,
+        status: "error",
+        error: `Duplicate id in batch; superseded by item ${index}`,
+      };
+    }
+    valid.set(checked.item.id, { index, item: checked.item });
+  });
+
+  const batch = [...valid.values()];
+  if (batch.length > 0) {
+    try {
+      await upsert(
+        collection.id,
+        batch.map(({ item }) => item),
+      );
+      for (const { index, item } of batch) {
+        results[index] = { index, id: item.id, status: "ok" };
+      }
+    } catch (batchError) {
+      console.warn(
+        "Batch upsert failed, retrying items one by one:",
+        batchError,
+      );
+      for (const { index, item } of batch) {
+        try {
+          await upsert(collection.id, [item]);
+          results[index] = { index, id: item.id, status: "ok" };
+        } catch (error) {
+          results[index] = {
+            index,
+            id: item.id,
+            status: "error",
+            error:
+              error instanceof Error ? error.message : "Failed to store item",
+          };
+        }
+      }
+    }
+  }
+
+  return results;
+}
+
+/** Shape returned by the API for a stored item. */
+export function serializeItem(item: CollectionItem) {
+  return {
+    id: item.id,
+    vector: item.embedding,
+    metadata: item.metadata,
+    createdAt: item.createdAt,
+    updatedAt: item.updatedAt,
+  };
+}
+
+export async function fetchItems(collectionId: number, ids: string[]) {
+  const items = await db
+    .select()
+    .from(collectionItems)
+    .where(
+      and(
+        eq(collectionItems.collectionId, collectionId),
+        inArray(collectionItems.id, ids),
+      ),
+    );
+  return items.map(serializeItem);
+}
+
+/**
+ * Deletes by id, or every item matching a metadata filter (see
+ * `compileFilter`), and returns the number of items removed.
+ */
+export async function deleteItems(
+  collectionId: number,
+  target: { ids: string[] } | { filter: MetadataFilter },
+) {
+  const condition =
+    "ids" in target
+      ? inArray(collectionItems.id, target.ids)
+      : compileFilter(target.filter);
+
+  const result = await db
+    .delete(collectionItems)
+    .where(and(eq(collectionItems.collectionId, collectionId), condition));
+
+  return result.count;
+}
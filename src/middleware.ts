@@ -0,0 +1,53 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getSessionCookie } from "better-auth/cookies";
+
+// Pages only useful when signed out. /reset-password and /verify-email are
+// left out: both are reached from emailed links, possibly while signed in.
+const AUTH_PAGES = ["/signin", "/signup", "/forgot-password"];
+
+/**
+ * Asks better-auth whether the cookie belongs to a live session. Only used on
+ * the auth pages, so a stale cookie cannot bounce users between them and the
+ * dashboard forever. If the check itself fails, the page is shown as if
+ * signed out rather than erroring.
+ */
+async function hasValidSession(request: NextRequest) {
+  try {
+    const response = await fetch(
+      new URL("/api/auth/get-session", request.url),
+      { headers: { cookie: request.headers.get("cookie") ?? "" } },
+    );
+    return response.ok && (await response.json()) !== null;
+  } catch {
+    return false;
+  }
+}
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const sessionCookie = getSessionCookie(request);
+
+  if (pathname === "/dashboard" || pathname.startsWith("/dashboard/")) {
+    // Only checks that a cookie is present; the dashboard layout validates it.
+    if (!sessionCookie) {
+      const signIn = new URL("/signin", request.url);
+      signIn.searchParams.set("next", pathname + search);
+      return NextResponse.redirect(signIn);
+    }
+    return NextResponse.next();
+  }
+
+  if (
+    AUTH_PAGES.includes(pathname) &&
+    sessionCookie &&
+    (await hasValidSession(request))
+  ) {
+    return NextResponse.redirect(new URL("/dashboard", request.url));
+  }
+  return NextResponse.next();
+}
+
+// Must be a literal: Next.js reads the matcher at build time.
+export const config = {
+  matcher: ["/dashboard/:path*", "/signin", "/signup", "/forgot-password"],
+};
@@ -0,0 +1,46 @@
+/**
+ * Background job worker. Run it next to `next start` (`pnpm worker`); any
+ * number of workers can share the same database.
+ */
+for (const file of [".env.local", ".env"]) {
+  try {
+    process.loadEnvFile(file);
+  } catch {
+    // Missing env files are fine; the environment may already be set.
+  }
+}
+
+function intFromEnv(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+async function main() {
+  // Imported after the env files load, since the database client reads
+  // DATABASE_URL when its module is evaluated.
+  const { runWorker } = await import("./lib/jobs/worker");
+
+  const controller = new AbortController();
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.on(signal, () => {
+      if (controller.signal.aborted) process.exit(1);
+      controller.abort();
+    });
+  }
+
+  await runWorker(
+    {
+      concurrency: intFromEnv("WORKER_CONCURRENCY", 2),
+      projectConcurrency: intFromEnv("JOB_PROJECT_CONCURRENCY", 2),
+      pollIntervalMs: intFromEnv("WORKER_POLL_INTERVAL_MS", 1000),
+      staleAfterMs: intFromEnv("JOB_STALE_AFTER_MS", 60_000),
+    },
+    controller.signal,
+  );
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("Worker crashed:", error);
+  process.exit(1);
+});